@@ -30,7 +30,10 @@ const rules = {
   /**
    * Files ($files)
    * - Users can only access files linked to their own reflections
-   * - Files are associated with reflections via the 'reflection' link
+   * - Files are associated with reflections via the 'reflection' (photo) and
+   *   'thumbnailOf' (thumbnail) links, with revisions via 'revisionPhotoOf'
+   *   and 'revisionThumbnailOf', and with reflection photos via
+   *   'reflectionPhotoOf' and 'reflectionPhotoThumbnailOf'
    */
   $files: {
     allow: {
@@ -64,6 +67,46 @@ const rules = {
     ],
   },
 
+  /**
+   * Key Escrows
+   * - Users can only access their own wrapped key
+   * - Only the passphrase-wrapped key is stored; the server cannot unwrap it
+   */
+  keyEscrows: {
+    allow: {
+      view: 'isOwner',
+      create: 'isCreatingOwnEscrow',
+      update: 'isOwner',
+      delete: 'isOwner',
+    },
+    bind: [
+      'isOwner',
+      'auth.id in data.ref("user.$user.id")',
+      'isCreatingOwnEscrow',
+      'auth.id != null',
+    ],
+  },
+
+  /**
+   * Device Pairings
+   * - Both devices must be signed in as the owner
+   * - Only public keys and the ECDH-encrypted keyring are stored
+   */
+  devicePairings: {
+    allow: {
+      view: 'isOwner',
+      create: 'isCreatingOwnPairing',
+      update: 'isOwner',
+      delete: 'isOwner',
+    },
+    bind: [
+      'isOwner',
+      'auth.id in data.ref("user.$user.id")',
+      'isCreatingOwnPairing',
+      'auth.id != null',
+    ],
+  },
+
   /**
    * Reflections
    * - Users can only access their own reflections
@@ -84,6 +127,66 @@ const rules = {
     ],
   },
 
+  /**
+   * Reflection Drafts
+   * - Users can only access their own synced drafts
+   * - Draft text and photos are encrypted client-side
+   */
+  reflectionDrafts: {
+    allow: {
+      view: 'isOwner',
+      create: 'isCreatingOwnDraft',
+      update: 'isOwner',
+      delete: 'isOwner',
+    },
+    bind: [
+      'isOwner',
+      'auth.id in data.ref("user.$user.id")',
+      'isCreatingOwnDraft',
+      'auth.id != null',
+    ],
+  },
+
+  /**
+   * Reflection Photos
+   * - Users can only access photos of their own reflections (or their revisions and drafts)
+   * - Captions are encrypted client-side
+   */
+  reflectionPhotos: {
+    allow: {
+      view: 'isOwner',
+      create: 'isCreatingOwnPhoto',
+      update: 'isOwner',
+      delete: 'isOwner',
+    },
+    bind: [
+      'isOwner',
+      'auth.id in data.ref("reflection.user.$user.id") || auth.id in data.ref("revision.reflection.user.$user.id") || auth.id in data.ref("draft.user.$user.id")',
+      'isCreatingOwnPhoto',
+      'auth.id != null',
+    ],
+  },
+
+  /**
+   * Reflection Revisions
+   * - Users can only access revisions of their own reflections
+   * - Restoring a revision moves its photo links back onto the reflection
+   */
+  reflectionRevisions: {
+    allow: {
+      view: 'isOwner',
+      create: 'isCreatingOwnRevision',
+      update: 'isOwner',
+      delete: 'isOwner',
+    },
+    bind: [
+      'isOwner',
+      'auth.id in data.ref("reflection.user.$user.id")',
+      'isCreatingOwnRevision',
+      'auth.id != null',
+    ],
+  },
+
   /**
    * Prompts
    * - Active prompts viewable by all authenticated users
@@ -127,6 +230,57 @@ const rules = {
     ],
   },
 
+  /**
+   * Push Subscriptions
+   * - Users can only manage their own devices' subscriptions
+   * - Reminders are sent by the backend with the admin SDK
+   */
+  pushSubscriptions: {
+    allow: {
+      view: 'isOwner',
+      create: 'isCreatingOwnSubscription',
+      update: 'isOwner',
+      delete: 'isOwner',
+    },
+    bind: [
+      'isOwner',
+      'auth.id in data.ref("user.$user.id")',
+      'isCreatingOwnSubscription',
+      'auth.id != null',
+    ],
+  },
+
+  /**
+   * Streaks and Streak Milestones
+   * - Users can view their own
+   * - Only the backend computes them (admin SDK), so nobody can edit their streak
+   */
+  streaks: {
+    allow: {
+      view: 'isOwner',
+      create: 'false',
+      update: 'false',
+      delete: 'false',
+    },
+    bind: [
+      'isOwner',
+      'auth.id in data.ref("user.$user.id")',
+    ],
+  },
+
+  streakMilestones: {
+    allow: {
+      view: 'isOwner',
+      create: 'false',
+      update: 'false',
+      delete: 'false',
+    },
+    bind: [
+      'isOwner',
+      'auth.id in data.ref("user.$user.id")',
+    ],
+  },
+
   /**
    * Email Logs
    * - NOT viewable by users (system only)
@@ -198,18 +352,30 @@ export default rules
  *    - View only their own reflections
  *    - Update only their own reflections
  *    - Delete only their own reflections
+ *    - View and restore revisions of their own reflections
+ *    - Sync their own drafts between devices
  *    - Upload photos for their reflections
  *    - View only their photos
  *    - View active prompts
  *    - Create/view/update their settings
+ *    - Create/view/delete push subscriptions for their devices
+ *    - View their streak and milestones
+ *    - Create/view/update their own key escrow
+ *    - Create/view/update/delete their own device pairings
  *    - Create/view scrapbook orders (but not update/delete)
  * 
  * 2. Users cannot:
  *    - View other users' reflections
+ *    - View other users' reflection revisions
+ *    - View other users' drafts
  *    - View other users' photos
  *    - View pending prompts (unless admin)
  *    - Create/update/delete prompts (unless admin)
  *    - View email logs
+ *    - View other users' push subscriptions
+ *    - Create/update/delete streaks or milestones (backend only)
+ *    - View other users' key escrows
+ *    - View or respond to other users' device pairings
  *    - Update or delete scrapbook orders
  * 
  * 3. Admins can:
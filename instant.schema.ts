@@ -36,19 +36,101 @@ const _schema = i.schema({
       subscriptionStatus: i.string().optional(), // 'active' | 'inactive'
       paymentId: i.string().optional(),
       encryptionKeyId: i.string().optional(), // Reference to encryption key metadata
+      keyCheck: i.string().optional(), // Canary encrypted with the active key (see keyCheck.ts)
       createdAt: i.number().optional(), // Unix timestamp
     }),
 
+    /**
+     * Key Escrows
+     * Passphrase-wrapped copy of the user's encryption key (never the raw key)
+     */
+    keyEscrows: i.entity({
+      keyId: i.string().unique().indexed(), // Matches userProfiles.encryptionKeyId
+      keyVersion: i.number().optional(), // Rotation version of the wrapped key
+      wrappedKey: i.string(), // Base64 AES-GCM wrapped key
+      salt: i.string(), // Base64 PBKDF2 salt
+      iv: i.string(), // Base64 wrapping IV
+      kdf: i.string(), // 'PBKDF2-SHA256'
+      iterations: i.number(),
+      algorithm: i.string(), // Algorithm of the wrapped key, 'AES-256-GCM'
+      version: i.string(),
+      createdAt: i.number(),
+      updatedAt: i.number(),
+    }),
+
+    /**
+     * Device Pairings
+     * Short-lived ECDH handshake for copying the encryption key to a new device
+     * Only the new device's public key and the AES-GCM encrypted keyring are stored;
+     * the initiating device's public key stays in the QR code
+     */
+    devicePairings: i.entity({
+      responderCommitment: i.string().optional(), // Base64 SHA-256 of the new device's public key
+      initiatorNonce: i.string().optional(), // Base64 nonce, sent once the new device has committed
+      responderPublicKey: i.string().optional(), // Base64 raw P-256 public key of the new device
+      encryptedKeyring: i.string().optional(), // Base64 keyring encrypted with the ECDH-derived key
+      keyringIV: i.string().optional(), // Base64 IV for encryptedKeyring
+      status: i.string(), // 'waiting' | 'committed' | 'challenged' | 'responded' | 'sent' | 'completed'
+      createdAt: i.number(),
+      expiresAt: i.number().indexed(), // Pairings are ignored (and deleted) after this
+    }),
+
     /**
      * Reflections
      * Daily photo + reflection entries
+     * Text and photo are encrypted client-side; only the IVs and algorithm are stored in the clear
      */
     reflections: i.entity({
-      reflectionText: i.string(), // Reflection text
+      reflectionText: i.string(), // Encrypted reflection text (JSON envelope, or base64 ciphertext on older rows)
+      encryptionIV: i.string().optional(), // Base64 IV for reflectionText (pre-envelope rows only)
+      encryptionAlgorithm: i.string().optional(), // 'envelope', or 'AES-GCM-256' on older rows (absent on legacy plaintext rows)
+      photoIV: i.string().optional(), // Base64 IV for the encrypted photo blob (pre-envelope rows only)
+      photoType: i.string().optional(), // Original MIME type of the photo before encryption
+      keyVersion: i.number().optional(), // Key version used to encrypt (absent = 1)
+      metadata: i.string().optional(), // Encrypted mood, tags and children (JSON envelope, absent when none)
       syncStatus: i.string(), // 'synced' | 'pending' | 'failed'
       createdAt: i.number().indexed(), // Unix timestamp, indexed for sorting
     }),
 
+    /**
+     * Reflection Photos
+     * Ordered photos of a reflection (reflections saved before this use the single `photo` link)
+     * Files and captions are encrypted client-side and bound to the reflection id
+     */
+    reflectionPhotos: i.entity({
+      position: i.number(), // Display order within the reflection (0 = cover photo)
+      caption: i.string().optional(), // Encrypted caption (JSON envelope, field 'caption')
+      photoType: i.string().optional(), // Original MIME type of the photo before encryption
+      createdAt: i.number(),
+    }),
+
+    /**
+     * Reflection Drafts
+     * In-progress reflection synced between the user's devices (only when they turn sync on)
+     * The id is the id the reflection will be saved under; text and photos are bound to it
+     */
+    reflectionDrafts: i.entity({
+      draftText: i.string(), // Encrypted draft text (JSON envelope)
+      metadata: i.string().optional(), // Encrypted mood, tags and children (JSON envelope)
+      updatedAt: i.number().indexed(), // Last change on any device (newest draft wins)
+    }),
+
+    /**
+     * Reflection Revisions
+     * Earlier versions of an edited reflection, so an edit can be undone
+     * Text is kept exactly as it was stored (still encrypted and bound to the reflection)
+     */
+    reflectionRevisions: i.entity({
+      reflectionText: i.string(), // Encrypted text before the edit (same format as reflections.reflectionText)
+      encryptionIV: i.string().optional(), // Base64 IV for reflectionText (pre-envelope rows only)
+      encryptionAlgorithm: i.string().optional(), // 'envelope', 'AES-GCM-256' or absent (legacy plaintext)
+      photoIV: i.string().optional(), // Base64 IV of the linked photo (pre-envelope rows only)
+      photoType: i.string().optional(), // Original MIME type of the linked photo
+      keyVersion: i.number().optional(), // Key version used to encrypt (absent = 1)
+      metadata: i.string().optional(), // Encrypted mood, tags and children before the edit
+      createdAt: i.number().indexed(), // When the revision was replaced
+    }),
+
     /**
      * Prompts
      * AI-generated, admin-curated reflection prompts
@@ -70,10 +152,57 @@ const _schema = i.schema({
       scrapbookDeliveryDate: i.number(), // Unix timestamp
       emailSummariesEnabled: i.boolean(),
       scrapbookRemindersEnabled: i.boolean(),
+      remindersEnabled: i.boolean().optional().indexed(), // Daily push reminder when today's reflection is missing
+      reminderTime: i.string().optional(), // 'HH:MM' in the user's timezone
+      timezone: i.string().optional(), // IANA timezone, e.g. 'Europe/Berlin'
+      lastReminderDate: i.string().optional(), // Local 'YYYY-MM-DD' of the last reminder sent
+      streakGraceDays: i.number().optional(), // Missed days forgiven per 7 days (1 when unset)
+      memoriesIncludeMonths: i.boolean().optional(), // "On this day" also looks back 1 and 6 months
       createdAt: i.number(),
       updatedAt: i.number(),
     }),
 
+    /**
+     * Push Subscriptions
+     * One per browser/device that accepted reminder notifications
+     * Reminders carry no payload, so nothing about the user's reflections is sent through the push service
+     */
+    pushSubscriptions: i.entity({
+      endpoint: i.string().unique().indexed(), // Push service URL for this device
+      p256dh: i.string(), // Base64url subscription public key
+      auth: i.string(), // Base64url subscription auth secret
+      userAgent: i.string().optional(), // To tell devices apart
+      createdAt: i.number(),
+    }),
+
+    /**
+     * Streaks
+     * Current and longest reflection streak, computed by the backend (see src/lib/streaks)
+     * so the dashboard and emails show the same numbers
+     */
+    streaks: i.entity({
+      currentStreak: i.number(), // Days with a reflection in the streak still going (0 if broken)
+      longestStreak: i.number(),
+      currentStreakStart: i.string().optional(), // Local 'YYYY-MM-DD' of the current streak's first day
+      lastReflectionDate: i.string().optional(), // Local 'YYYY-MM-DD' of the newest reflection
+      totalReflections: i.number().optional(), // Every reflection the user has (absent on older rows)
+      graceDays: i.number(), // Grace days the streak was computed with
+      graceDaysUsed: i.number(), // Missed days forgiven in the last 7 days
+      computedDate: i.string().indexed(), // User's local 'YYYY-MM-DD' when computed
+      computedAt: i.number(),
+    }),
+
+    /**
+     * Streak Milestones
+     * Recorded once per streak when it reaches 7, 30 or 100 days
+     */
+    streakMilestones: i.entity({
+      days: i.number().indexed(), // 7 | 30 | 100
+      streakStart: i.string(), // Local 'YYYY-MM-DD' of the streak's first day
+      reachedDate: i.string(), // Local 'YYYY-MM-DD' the streak got there
+      createdAt: i.number(),
+    }),
+
     /**
      * Email Logs
      * Track emails sent
@@ -117,9 +246,43 @@ const _schema = i.schema({
       },
     },
 
+    /**
+     * Link: KeyEscrow <-> UserProfile (one-to-one)
+     * Each user has at most one escrowed key
+     */
+    keyEscrowUser: {
+      forward: {
+        on: 'keyEscrows',
+        has: 'one',
+        label: 'user',
+      },
+      reverse: {
+        on: 'userProfiles',
+        has: 'one',
+        label: 'keyEscrow',
+      },
+    },
+
+    /**
+     * Link: DevicePairing <-> UserProfile (many-to-one)
+     * Pairings can only be completed by another device signed in as the same user
+     */
+    devicePairingUser: {
+      forward: {
+        on: 'devicePairings',
+        has: 'one',
+        label: 'user',
+      },
+      reverse: {
+        on: 'userProfiles',
+        has: 'many',
+        label: 'devicePairings',
+      },
+    },
+
     /**
      * Link: Reflection <-> Photo File (one-to-one)
-     * Each reflection has one encrypted photo
+     * Single encrypted photo of older reflections (newer ones use `photos`)
      */
     reflectionPhoto: {
       forward: {
@@ -134,6 +297,190 @@ const _schema = i.schema({
       },
     },
 
+    /**
+     * Link: Reflection <-> Thumbnail File (one-to-one)
+     * Small encrypted copy of the photo for list views (same envelope format, 'thumbnail' field)
+     */
+    reflectionThumbnail: {
+      forward: {
+        on: 'reflections',
+        has: 'one',
+        label: 'thumbnail',
+      },
+      reverse: {
+        on: '$files',
+        has: 'one',
+        label: 'thumbnailOf',
+      },
+    },
+
+    /**
+     * Link: Reflection <-> Photos (one-to-many)
+     * Ordered by reflectionPhotos.position
+     */
+    reflectionPhotosReflection: {
+      forward: {
+        on: 'reflectionPhotos',
+        has: 'one',
+        label: 'reflection',
+      },
+      reverse: {
+        on: 'reflections',
+        has: 'many',
+        label: 'photos',
+      },
+    },
+
+    /**
+     * Link: Revision <-> Photos (one-to-many)
+     * Photos move here from the reflection when an edit replaces them
+     */
+    reflectionPhotosRevision: {
+      forward: {
+        on: 'reflectionPhotos',
+        has: 'one',
+        label: 'revision',
+      },
+      reverse: {
+        on: 'reflectionRevisions',
+        has: 'many',
+        label: 'photos',
+      },
+    },
+
+    /**
+     * Link: Draft <-> Photos (one-to-many)
+     * Synced draft photos, replaced by freshly sealed ones when the reflection is saved
+     */
+    reflectionPhotosDraft: {
+      forward: {
+        on: 'reflectionPhotos',
+        has: 'one',
+        label: 'draft',
+      },
+      reverse: {
+        on: 'reflectionDrafts',
+        has: 'many',
+        label: 'photos',
+      },
+    },
+
+    /**
+     * Link: Draft <-> UserProfile (many-to-one)
+     * Usually one draft; two devices can each start one before they sync
+     */
+    reflectionDraftUser: {
+      forward: {
+        on: 'reflectionDrafts',
+        has: 'one',
+        label: 'user',
+      },
+      reverse: {
+        on: 'userProfiles',
+        has: 'many',
+        label: 'drafts',
+      },
+    },
+
+    /**
+     * Link: Reflection Photo <-> Photo File (one-to-one)
+     */
+    reflectionPhotoFile: {
+      forward: {
+        on: 'reflectionPhotos',
+        has: 'one',
+        label: 'file',
+      },
+      reverse: {
+        on: '$files',
+        has: 'one',
+        label: 'reflectionPhotoOf',
+      },
+    },
+
+    /**
+     * Link: Reflection Photo <-> Thumbnail File (one-to-one)
+     */
+    reflectionPhotoThumbnail: {
+      forward: {
+        on: 'reflectionPhotos',
+        has: 'one',
+        label: 'thumbnail',
+      },
+      reverse: {
+        on: '$files',
+        has: 'one',
+        label: 'reflectionPhotoThumbnailOf',
+      },
+    },
+
+    /**
+     * Link: Reflection <-> Revisions (one-to-many)
+     * Revisions are deleted together with their reflection
+     */
+    reflectionRevisionReflection: {
+      forward: {
+        on: 'reflectionRevisions',
+        has: 'one',
+        label: 'reflection',
+      },
+      reverse: {
+        on: 'reflections',
+        has: 'many',
+        label: 'revisions',
+      },
+    },
+
+    /**
+     * Link: Revision <-> Photo File (one-to-one)
+     * Only set when the edit replaced the photo; the old encrypted file moves here
+     */
+    reflectionRevisionPhoto: {
+      forward: {
+        on: 'reflectionRevisions',
+        has: 'one',
+        label: 'photo',
+      },
+      reverse: {
+        on: '$files',
+        has: 'one',
+        label: 'revisionPhotoOf',
+      },
+    },
+
+    /**
+     * Link: Revision <-> Thumbnail File (one-to-one)
+     */
+    reflectionRevisionThumbnail: {
+      forward: {
+        on: 'reflectionRevisions',
+        has: 'one',
+        label: 'thumbnail',
+      },
+      reverse: {
+        on: '$files',
+        has: 'one',
+        label: 'revisionThumbnailOf',
+      },
+    },
+
+    /**
+     * Link: Revision <-> Prompt (many-to-one)
+     * Prompt the reflection had before the edit
+     */
+    reflectionRevisionPrompt: {
+      forward: {
+        on: 'reflectionRevisions',
+        has: 'one',
+        label: 'prompt',
+      },
+      reverse: {
+        on: 'prompts',
+        has: 'many',
+        label: 'revisions',
+      },
+    },
+
     /**
      * Link: Reflection <-> UserProfile (many-to-one)
      * User can have many reflections
@@ -185,6 +532,55 @@ const _schema = i.schema({
       },
     },
 
+    /**
+     * Link: PushSubscription <-> UserProfile (many-to-one)
+     * A user gets reminders on every device they subscribed
+     */
+    pushSubscriptionUser: {
+      forward: {
+        on: 'pushSubscriptions',
+        has: 'one',
+        label: 'user',
+      },
+      reverse: {
+        on: 'userProfiles',
+        has: 'many',
+        label: 'pushSubscriptions',
+      },
+    },
+
+    /**
+     * Link: Streak <-> UserProfile (one-to-one)
+     */
+    streakUser: {
+      forward: {
+        on: 'streaks',
+        has: 'one',
+        label: 'user',
+      },
+      reverse: {
+        on: 'userProfiles',
+        has: 'one',
+        label: 'streak',
+      },
+    },
+
+    /**
+     * Link: StreakMilestone <-> UserProfile (many-to-one)
+     */
+    streakMilestoneUser: {
+      forward: {
+        on: 'streakMilestones',
+        has: 'one',
+        label: 'user',
+      },
+      reverse: {
+        on: 'userProfiles',
+        has: 'many',
+        label: 'streakMilestones',
+      },
+    },
+
     /**
      * Link: EmailLog <-> UserProfile (many-to-one)
      * User can have many email logs
@@ -0,0 +1,167 @@
+/**
+ * Reflections Service Worker
+ *
+ * - Precaches the app shell (main routes, manifest, icons) so the app opens
+ *   offline, and caches the hashed build assets (`/assets/*`) as they load
+ * - Only same-origin GET requests are cached. InstantDB (queries, auth and
+ *   the encrypted photo files) lives on other origins and always goes to the
+ *   network; decrypted photos are `blob:` URLs and never pass through here
+ * - Background Sync: when the outbox (src/lib/outbox) has reflections
+ *   waiting to upload it registers the `reflections-outbox` tag. Once the
+ *   browser is back online this worker asks an open window to flush the
+ *   queue (uploads need the signed-in InstantDB client, which lives there).
+ *   With no window open the sync fails and the browser retries it later.
+ * - Push: daily reminders arrive without a payload (see src/lib/reminders),
+ *   so the message shown is fixed here. Tapping it opens a new reflection.
+ *
+ * Bump CACHE_VERSION to drop old caches after changing what's precached.
+ */
+
+const CACHE_VERSION = 'v1'
+const SHELL_CACHE = `reflections-shell-${CACHE_VERSION}`
+const ASSETS_CACHE = `reflections-assets-${CACHE_VERSION}`
+const OUTBOX_SYNC_TAG = 'reflections-outbox'
+
+const SHELL_URLS = [
+  '/',
+  '/reflections/new',
+  '/settings/security',
+  '/manifest.json',
+  '/favicon.ico',
+  '/logo192.png',
+  '/logo512.png',
+]
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter(
+              (key) => key.startsWith('reflections-') && ![SHELL_CACHE, ASSETS_CACHE].includes(key)
+            )
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  )
+})
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  const url = new URL(request.url)
+
+  // InstantDB, Stripe and the encrypted photo files are never cached
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return
+
+  // Server functions and API routes are always live
+  if (url.pathname.startsWith('/api/') || url.pathname.startsWith('/_serverFn/')) return
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request))
+    return
+  }
+
+  // Build assets are content-hashed, so a cached copy never goes stale
+  if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request, ASSETS_CACHE))
+    return
+  }
+
+  if (SHELL_URLS.includes(url.pathname)) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE))
+  }
+})
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(requestOutboxFlush())
+  }
+})
+
+self.addEventListener('push', (event) => {
+  event.waitUntil(
+    self.registration.showNotification('Reflections', {
+      body: "Take a moment for today's reflection.",
+      icon: '/logo192.png',
+      badge: '/logo192.png',
+      tag: 'daily-reminder', // A newer reminder replaces an unread one
+      data: { url: '/reflections/new' },
+    })
+  )
+})
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close()
+  const url = event.notification.data?.url ?? '/'
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => new URL(client.url).origin === self.location.origin)
+      if (existing) {
+        return existing.focus().then((client) => client.navigate(url))
+      }
+      return self.clients.openWindow(url)
+    })
+  )
+})
+
+/**
+ * Utility: Pages come from the network when possible, so they're never stale
+ * Offline, fall back to the cached page, or the dashboard shell for routes
+ * that weren't precached (the router renders the right page once loaded)
+ */
+async function networkFirst(request) {
+  const cache = await caches.open(SHELL_CACHE)
+  try {
+    const response = await fetch(request)
+    if (response.ok && SHELL_URLS.includes(new URL(request.url).pathname)) {
+      cache.put(request, response.clone())
+    }
+    return response
+  } catch (error) {
+    const cached = (await cache.match(request)) ?? (await cache.match('/'))
+    if (cached) return cached
+    throw error
+  }
+}
+
+/**
+ * Utility: Serve from the cache, fetching (and caching) on a miss
+ */
+async function cacheFirst(request, cacheName) {
+  const cache = await caches.open(cacheName)
+  const cached = await cache.match(request)
+  if (cached) return cached
+
+  const response = await fetch(request)
+  if (response.ok) {
+    cache.put(request, response.clone())
+  }
+  return response
+}
+
+/**
+ * Utility: Ask the open windows to upload queued reflections
+ * Rejects when there's no window, so the browser retries the sync later
+ */
+async function requestOutboxFlush() {
+  const windows = await self.clients.matchAll({ type: 'window' })
+  if (windows.length === 0) {
+    throw new Error('No open window to upload from')
+  }
+  for (const client of windows) {
+    client.postMessage({ type: OUTBOX_SYNC_TAG })
+  }
+}
@@ -0,0 +1,157 @@
+import { useId, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Trash2, Loader2, AlertTriangle } from 'lucide-react'
+
+const CONFIRMATION_TEXT = 'DELETE'
+
+interface DeleteKeyCardProps {
+  hasKey: boolean
+  hasEscrow: boolean
+  onDelete: () => Promise<void>
+}
+
+/**
+ * DeleteKeyCard Component
+ *
+ * Deletes the encryption key from this device, behind a warning dialog
+ * that has to be confirmed by typing DELETE
+ */
+export function DeleteKeyCard({ hasKey, hasEscrow, onDelete }: DeleteKeyCardProps) {
+  const confirmationId = useId()
+  const [isOpen, setIsOpen] = useState(false)
+  const [confirmation, setConfirmation] = useState('')
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleOpenChange = (open: boolean) => {
+    // Can't be dismissed while the key is being deleted
+    if (isDeleting) return
+    setIsOpen(open)
+    setConfirmation('')
+    setError(null)
+  }
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (confirmation !== CONFIRMATION_TEXT) return
+
+    try {
+      setIsDeleting(true)
+      setError(null)
+      await onDelete()
+      setIsOpen(false)
+    } catch (err) {
+      console.error('Error deleting key:', err)
+      setError(err instanceof Error ? err.message : 'Failed to delete key')
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  return (
+    <Card className="border-destructive/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg text-destructive">
+          <Trash2 className="h-5 w-5" />
+          Delete Key From This Device
+        </CardTitle>
+        <CardDescription>
+          Removes every encryption key stored in this browser. Your reflections stay on the
+          server but can't be read here until a key is restored.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Button
+          variant="destructive"
+          className="w-full"
+          onClick={() => handleOpenChange(true)}
+          disabled={!hasKey}
+        >
+          <Trash2 className="mr-2 h-4 w-4" />
+          Delete Key
+        </Button>
+      </CardContent>
+
+      <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+        <DialogContent showCloseButton={!isDeleting}>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2 text-destructive">
+              <AlertTriangle className="h-5 w-5" />
+              Delete your encryption key?
+            </DialogTitle>
+            <DialogDescription>
+              Every reflection and photo on this device was encrypted with this key. Without
+              it they can't be decrypted, and no one, including us, can recover them.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Alert variant="destructive">
+            <AlertDescription>
+              {hasEscrow
+                ? 'You can restore the key with your recovery passphrase, a backup file, or another signed-in device.'
+                : 'You have no recovery passphrase. Download a backup file first unless another device still has this key.'}
+            </AlertDescription>
+          </Alert>
+
+          <form onSubmit={handleDelete} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor={confirmationId}>
+                Type {CONFIRMATION_TEXT} to confirm
+              </Label>
+              <Input
+                id={confirmationId}
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                autoComplete="off"
+                disabled={isDeleting}
+              />
+            </div>
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+                disabled={isDeleting}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                variant="destructive"
+                disabled={confirmation !== CONFIRMATION_TEXT || isDeleting}
+              >
+                {isDeleting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Deleting...
+                  </>
+                ) : (
+                  'Delete Key'
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,149 @@
+import { useId, useState } from 'react'
+import { Link } from '@tanstack/react-router'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Smartphone, Loader2, CheckCircle2 } from 'lucide-react'
+import { useDeviceLinking, parsePairingLink, type PairingOffer } from '@/lib/encryption'
+
+interface DeviceLinkCardProps {
+  offer: PairingOffer | null
+  onOfferChange: (offer: PairingOffer | null) => void
+}
+
+/**
+ * DeviceLinkCard Component
+ *
+ * New-device side of device pairing.
+ * Connects to the pairing from a scanned QR code (or pasted link),
+ * shows the verification code and stores the key once it arrives.
+ */
+export function DeviceLinkCard({ offer, onOfferChange }: DeviceLinkCardProps) {
+  const { status, verificationCode, isLinked, isExpired, isMissing, isLoading, error, reset } =
+    useDeviceLinking(offer)
+  const codeId = useId()
+  const [code, setCode] = useState('')
+  const [codeError, setCodeError] = useState<string | null>(null)
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const parsed = parsePairingLink(code)
+    if (!parsed) {
+      setCodeError("That doesn't look like a pairing link")
+      return
+    }
+    setCodeError(null)
+    setCode('')
+    reset()
+    onOfferChange(parsed)
+  }
+
+  const handleStartOver = () => {
+    reset()
+    onOfferChange(null)
+  }
+
+  const renderBody = () => {
+    if (isLinked) {
+      return (
+        <div className="space-y-4">
+          <div className="flex items-center gap-2 text-sm text-primary">
+            <CheckCircle2 className="h-4 w-4" />
+            This device can now read your reflections
+          </div>
+          <Button asChild className="w-full">
+            <Link to="/">Go to Dashboard</Link>
+          </Button>
+        </div>
+      )
+    }
+
+    if (!offer) {
+      return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            On a device that's already signed in, open "Link a New Device" and scan its QR code
+            with this device's camera, or paste the link here.
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor={codeId}>Pairing link</Label>
+            <Input
+              id={codeId}
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="https://.../link-device#pair=..."
+              required
+            />
+          </div>
+          {codeError && (
+            <Alert variant="destructive">
+              <AlertDescription>{codeError}</AlertDescription>
+            </Alert>
+          )}
+          <Button type="submit" className="w-full">
+            Connect
+          </Button>
+        </form>
+      )
+    }
+
+    if (isMissing || isExpired || error) {
+      return (
+        <div className="space-y-4">
+          <Alert variant="destructive">
+            <AlertDescription>
+              {error ??
+                (isExpired
+                  ? 'This pairing code has expired.'
+                  : 'This pairing code was not found. It may have been cancelled.')}
+            </AlertDescription>
+          </Alert>
+          <Button variant="outline" className="w-full" onClick={handleStartOver}>
+            Use Another Code
+          </Button>
+        </div>
+      )
+    }
+
+    if (verificationCode) {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Confirm this code matches the one on your other device:
+          </p>
+          <p className="text-center text-3xl font-mono font-semibold tracking-widest">
+            {verificationCode.slice(0, 3)} {verificationCode.slice(3)}
+          </p>
+          <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            {status === 'sent' ? 'Receiving your key...' : 'Waiting for confirmation...'}
+          </div>
+        </div>
+      )
+    }
+
+    return (
+      <div className="flex items-center justify-center gap-2 p-4 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        {isLoading ? 'Finding your other device...' : 'Connecting...'}
+      </div>
+    )
+  }
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader className="space-y-1">
+        <CardTitle className="flex items-center gap-2 text-2xl font-semibold">
+          <Smartphone className="h-6 w-6 text-primary" />
+          Link This Device
+        </CardTitle>
+        <CardDescription>
+          Copy your encryption key from a device you're already signed in on
+        </CardDescription>
+      </CardHeader>
+      <CardContent>{renderBody()}</CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,201 @@
+import { useEffect, useState } from 'react'
+import QRCode from 'qrcode'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Smartphone, Loader2, CheckCircle2, Copy, X } from 'lucide-react'
+import { useDevicePairing } from '@/lib/encryption'
+
+/**
+ * DevicePairingCard Component
+ *
+ * Links a new device by showing a QR code on this (signed-in) device.
+ * The new device scans it, both show a verification code, and the
+ * encryption key is sent once the user confirms the codes match.
+ */
+export function DevicePairingCard() {
+  const {
+    link,
+    status,
+    verificationCode,
+    isExpired,
+    isStarting,
+    isSending,
+    error,
+    start,
+    confirm,
+    cancel,
+  } = useDevicePairing()
+  const [qrCodeUrl, setQrCodeUrl] = useState<string | null>(null)
+  const [confirmError, setConfirmError] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  // Render the QR code for the pairing link
+  useEffect(() => {
+    if (!link) {
+      setQrCodeUrl(null)
+      return
+    }
+
+    let cancelled = false
+    QRCode.toDataURL(link, { margin: 1, width: 256 })
+      .then((url) => {
+        if (!cancelled) setQrCodeUrl(url)
+      })
+      .catch((err) => console.error('Failed to render QR code:', err))
+
+    return () => {
+      cancelled = true
+    }
+  }, [link])
+
+  const handleConfirm = async () => {
+    setConfirmError(null)
+    try {
+      await confirm()
+    } catch (err) {
+      console.error('Error sending key:', err)
+      setConfirmError(err instanceof Error ? err.message : 'Failed to send key')
+    }
+  }
+
+  const handleCopy = async () => {
+    if (!link) return
+    await navigator.clipboard.writeText(link)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  const renderBody = () => {
+    if (status === 'completed') {
+      return (
+        <div className="space-y-4">
+          <div className="flex items-center gap-2 text-sm text-primary">
+            <CheckCircle2 className="h-4 w-4" />
+            Your new device can now read your reflections
+          </div>
+          <Button variant="outline" className="w-full" onClick={cancel}>
+            Done
+          </Button>
+        </div>
+      )
+    }
+
+    if (isExpired) {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">This pairing code has expired.</p>
+          <Button className="w-full" onClick={start} disabled={isStarting}>
+            Start Again
+          </Button>
+        </div>
+      )
+    }
+
+    if (status === 'sent') {
+      return (
+        <div className="flex items-center justify-center gap-2 p-4 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Waiting for your new device to finish...
+        </div>
+      )
+    }
+
+    if (verificationCode) {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Check that your new device shows the same code:
+          </p>
+          <p className="text-center text-3xl font-mono font-semibold tracking-widest">
+            {verificationCode.slice(0, 3)} {verificationCode.slice(3)}
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            <Button variant="outline" onClick={cancel} disabled={isSending}>
+              <X className="mr-2 h-4 w-4" />
+              Doesn't Match
+            </Button>
+            <Button onClick={handleConfirm} disabled={isSending}>
+              {isSending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <CheckCircle2 className="mr-2 h-4 w-4" />
+              )}
+              Codes Match
+            </Button>
+          </div>
+        </div>
+      )
+    }
+
+    if (link) {
+      return (
+        <div className="space-y-4">
+          <div className="flex justify-center">
+            {qrCodeUrl ? (
+              <img
+                src={qrCodeUrl}
+                alt="QR code for linking a new device"
+                className="h-56 w-56 rounded-lg border"
+              />
+            ) : (
+              <div className="h-56 w-56 flex items-center justify-center">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            )}
+          </div>
+          <p className="text-sm text-muted-foreground text-center">
+            Scan with your new device's camera, then sign in there. The code expires in 10 minutes.
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            <Button variant="outline" onClick={handleCopy}>
+              <Copy className="mr-2 h-4 w-4" />
+              {copied ? 'Copied' : 'Copy Link'}
+            </Button>
+            <Button variant="outline" onClick={cancel}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )
+    }
+
+    return (
+      <Button variant="outline" className="w-full" onClick={start} disabled={isStarting}>
+        {isStarting ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Preparing...
+          </>
+        ) : (
+          <>
+            <Smartphone className="mr-2 h-4 w-4" />
+            Show QR Code
+          </>
+        )}
+      </Button>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Smartphone className="h-5 w-5 text-primary" />
+          Link a New Device
+        </CardTitle>
+        <CardDescription>
+          Securely copy your encryption key to another phone or computer
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {(error || confirmError) && (
+          <Alert variant="destructive">
+            <AlertDescription>{confirmError ?? error}</AlertDescription>
+          </Alert>
+        )}
+        {renderBody()}
+      </CardContent>
+    </Card>
+  )
+}
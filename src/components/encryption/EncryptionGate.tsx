@@ -0,0 +1,52 @@
+import type { ReactNode } from 'react'
+import { Loader2 } from 'lucide-react'
+import { useEncryption } from '@/lib/encryption'
+import { KeyUnlockForm } from './KeyUnlockForm'
+import { KeyMismatchCard } from './KeyMismatchCard'
+
+interface EncryptionGateProps {
+  children: ReactNode
+  allowKeyMismatch?: boolean // For pages that help recover the right key
+}
+
+/**
+ * EncryptionGate Component
+ * 
+ * Wraps content that reads or writes encrypted reflections.
+ * Shows loading state while the key loads.
+ * Asks for the passphrase when the key is escrowed but not on this device.
+ * Offers recovery when the key on this device isn't the account's key.
+ */
+export function EncryptionGate({ children, allowKeyMismatch = false }: EncryptionGateProps) {
+  const { isLoading, needsUnlock, keyMismatch, hasEscrow, unlock } = useEncryption()
+
+  // Children mount their own useEncryption, so hold them until the key is settled
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center space-y-4">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary" />
+          <p className="text-sm text-muted-foreground">Loading encryption key...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (needsUnlock) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <KeyUnlockForm onUnlock={unlock} />
+      </div>
+    )
+  }
+
+  if (keyMismatch && !allowKeyMismatch) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <KeyMismatchCard hasEscrow={hasEscrow} onUnlock={unlock} />
+      </div>
+    )
+  }
+
+  return <>{children}</>
+}
@@ -0,0 +1,248 @@
+import { useId, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Download, Upload, Loader2, CheckCircle2 } from 'lucide-react'
+import { MIN_PASSPHRASE_LENGTH, type KeyBackupFile } from '@/lib/encryption'
+
+interface KeyBackupCardProps {
+  createBackup: (passphrase: string) => Promise<{ filename: string; contents: string }>
+  readBackup: (file: File) => Promise<KeyBackupFile>
+  restoreBackup: (backup: KeyBackupFile, passphrase: string) => Promise<void>
+}
+
+/**
+ * KeyBackupCard Component
+ *
+ * Downloads a passphrase-encrypted backup file of every key on this device,
+ * and restores keys from an uploaded backup file
+ */
+export function KeyBackupCard({ createBackup, readBackup, restoreBackup }: KeyBackupCardProps) {
+  const passphraseId = useId()
+  const confirmationId = useId()
+  const fileId = useId()
+  const restorePassphraseId = useId()
+
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [isDownloading, setIsDownloading] = useState(false)
+  const [downloadError, setDownloadError] = useState<string | null>(null)
+  const [downloaded, setDownloaded] = useState(false)
+
+  const [backup, setBackup] = useState<KeyBackupFile | null>(null)
+  const [restorePassphrase, setRestorePassphrase] = useState('')
+  const [isRestoring, setIsRestoring] = useState(false)
+  const [restoreError, setRestoreError] = useState<string | null>(null)
+  const [restored, setRestored] = useState(false)
+
+  const handleDownload = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setDownloadError(null)
+    setDownloaded(false)
+
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setDownloadError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`)
+      return
+    }
+
+    if (passphrase !== confirmation) {
+      setDownloadError('Passphrases do not match')
+      return
+    }
+
+    try {
+      setIsDownloading(true)
+      const { filename, contents } = await createBackup(passphrase)
+
+      const url = URL.createObjectURL(new Blob([contents], { type: 'application/json' }))
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filename
+      link.click()
+      URL.revokeObjectURL(url)
+
+      setPassphrase('')
+      setConfirmation('')
+      setDownloaded(true)
+    } catch (err) {
+      console.error('Error creating key backup:', err)
+      setDownloadError(err instanceof Error ? err.message : 'Failed to create backup')
+    } finally {
+      setIsDownloading(false)
+    }
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    setBackup(null)
+    setRestoreError(null)
+    setRestored(false)
+
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    try {
+      setBackup(await readBackup(file))
+    } catch (err) {
+      setRestoreError(err instanceof Error ? err.message : 'Failed to read backup file')
+    }
+  }
+
+  const handleRestore = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!backup) return
+    setRestoreError(null)
+
+    try {
+      setIsRestoring(true)
+      await restoreBackup(backup, restorePassphrase)
+      setRestorePassphrase('')
+      setRestored(true)
+    } catch (err) {
+      console.error('Error restoring key backup:', err)
+      setRestoreError(err instanceof Error ? err.message : 'Failed to restore backup')
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Download className="h-5 w-5 text-primary" />
+          Backup File
+        </CardTitle>
+        <CardDescription>
+          Download an encrypted copy of your keys. Keep it somewhere safe, like a password
+          manager, along with its passphrase.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Download */}
+        <form onSubmit={handleDownload} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={passphraseId}>Backup passphrase</Label>
+            <Input
+              id={passphraseId}
+              type="password"
+              autoComplete="new-password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              required
+              disabled={isDownloading}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={confirmationId}>Confirm passphrase</Label>
+            <Input
+              id={confirmationId}
+              type="password"
+              autoComplete="new-password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              required
+              disabled={isDownloading}
+            />
+          </div>
+
+          {downloadError && (
+            <Alert variant="destructive">
+              <AlertDescription>{downloadError}</AlertDescription>
+            </Alert>
+          )}
+
+          {downloaded && (
+            <div className="flex items-center gap-2 text-sm text-primary">
+              <CheckCircle2 className="h-4 w-4" />
+              Backup downloaded
+            </div>
+          )}
+
+          <Button type="submit" variant="outline" className="w-full" disabled={isDownloading}>
+            {isDownloading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Encrypting...
+              </>
+            ) : (
+              <>
+                <Download className="mr-2 h-4 w-4" />
+                Download Backup
+              </>
+            )}
+          </Button>
+        </form>
+
+        {/* Restore */}
+        <form onSubmit={handleRestore} className="space-y-4 border-t pt-6">
+          <div className="space-y-2">
+            <Label htmlFor={fileId}>Restore from a backup file</Label>
+            <Input
+              id={fileId}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleFileChange}
+              disabled={isRestoring}
+            />
+          </div>
+
+          {backup && (
+            <p className="text-sm text-muted-foreground">
+              Backup from {new Date(backup.createdAt).toLocaleString()} with {backup.keyCount}{' '}
+              key{backup.keyCount !== 1 ? 's' : ''} (current version {backup.activeKeyVersion})
+            </p>
+          )}
+
+          {backup && (
+            <div className="space-y-2">
+              <Label htmlFor={restorePassphraseId}>Backup passphrase</Label>
+              <Input
+                id={restorePassphraseId}
+                type="password"
+                autoComplete="current-password"
+                value={restorePassphrase}
+                onChange={(e) => setRestorePassphrase(e.target.value)}
+                required
+                disabled={isRestoring}
+              />
+            </div>
+          )}
+
+          {restoreError && (
+            <Alert variant="destructive">
+              <AlertDescription>{restoreError}</AlertDescription>
+            </Alert>
+          )}
+
+          {restored && (
+            <div className="flex items-center gap-2 text-sm text-primary">
+              <CheckCircle2 className="h-4 w-4" />
+              Keys restored. Any other key on this device was kept as an older version.
+            </div>
+          )}
+
+          <Button
+            type="submit"
+            variant="outline"
+            className="w-full"
+            disabled={!backup || isRestoring}
+          >
+            {isRestoring ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Restoring...
+              </>
+            ) : (
+              <>
+                <Upload className="mr-2 h-4 w-4" />
+                Restore Keys
+              </>
+            )}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,62 @@
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { KeyRound, Loader2 } from 'lucide-react'
+import { getKeyVersion, type KeyMetadata } from '@/lib/encryption'
+
+interface KeyDetailsCardProps {
+  metadata: KeyMetadata | null
+  archivedKeys: KeyMetadata[]
+  isLoading: boolean
+}
+
+/**
+ * KeyDetailsCard Component
+ *
+ * Shows the metadata of the encryption key stored on this device
+ * and any older versions kept for decrypting past reflections
+ */
+export function KeyDetailsCard({ metadata, archivedKeys, isLoading }: KeyDetailsCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <KeyRound className="h-5 w-5 text-primary" />
+            Key on This Device
+          </CardTitle>
+          {metadata && <Badge variant="secondary">Version {getKeyVersion(metadata)}</Badge>}
+        </div>
+        <CardDescription>
+          Your reflections are encrypted with this key before they leave your device
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading key details...
+          </div>
+        ) : metadata ? (
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+            <dt className="text-muted-foreground">Key ID</dt>
+            <dd className="font-mono break-all">{metadata.keyId ?? 'Not assigned yet'}</dd>
+            <dt className="text-muted-foreground">Created</dt>
+            <dd>{new Date(metadata.createdAt).toLocaleString()}</dd>
+            <dt className="text-muted-foreground">Algorithm</dt>
+            <dd>{metadata.algorithm}</dd>
+            <dt className="text-muted-foreground">Older versions</dt>
+            <dd>
+              {archivedKeys.length === 0
+                ? 'None'
+                : archivedKeys.map((key) => `v${getKeyVersion(key)}`).join(', ')}
+            </dd>
+          </dl>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            There is no encryption key on this device.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
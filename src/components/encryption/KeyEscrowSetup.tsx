@@ -0,0 +1,117 @@
+import { useId, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { ShieldCheck, Loader2 } from 'lucide-react'
+import { useEncryption, MIN_PASSPHRASE_LENGTH } from '@/lib/encryption'
+
+/**
+ * KeyEscrowSetup Component
+ * 
+ * Prompts users without an escrowed key to choose a passphrase
+ * so their encryption key can be recovered on a new device.
+ * Renders nothing once a passphrase is set.
+ */
+export function KeyEscrowSetup() {
+  const { isReady, hasEscrow, setupKeyEscrow } = useEncryption()
+  const passphraseId = useId()
+  const confirmationId = useId()
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  if (!isReady || hasEscrow) {
+    return null
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`)
+      return
+    }
+
+    if (passphrase !== confirmation) {
+      setError('Passphrases do not match')
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      await setupKeyEscrow(passphrase)
+    } catch (err) {
+      console.error('Error setting up key escrow:', err)
+      setError(err instanceof Error ? err.message : 'Failed to save passphrase. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+          Protect Your Reflections
+        </CardTitle>
+        <CardDescription>
+          Choose a passphrase so you can unlock your reflections on a new phone or browser.
+          We only store your key locked with this passphrase and can't recover it for you.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={passphraseId}>Passphrase</Label>
+            <Input
+              id={passphraseId}
+              type="password"
+              autoComplete="new-password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              required
+              disabled={isSaving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={confirmationId}>Confirm passphrase</Label>
+            <Input
+              id={confirmationId}
+              type="password"
+              autoComplete="new-password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              required
+              disabled={isSaving}
+            />
+          </div>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <Button type="submit" className="w-full" disabled={isSaving}>
+            {isSaving ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Securing key...
+              </>
+            ) : (
+              <>
+                <ShieldCheck className="mr-2 h-4 w-4" />
+                Save Passphrase
+              </>
+            )}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,110 @@
+import { Link } from '@tanstack/react-router'
+import { useId, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { KeyRound, Loader2, ShieldAlert, Upload } from 'lucide-react'
+
+interface KeyMismatchCardProps {
+  hasEscrow: boolean
+  onUnlock: (passphrase: string) => Promise<void>
+}
+
+/**
+ * KeyMismatchCard Component
+ *
+ * Shown instead of reflections when this device's key isn't the account's key
+ * (e.g. a backup from another account was imported, or the key was rotated elsewhere).
+ * Offers the ways to get the right key: passphrase, backup file or another device.
+ */
+export function KeyMismatchCard({ hasEscrow, onUnlock }: KeyMismatchCardProps) {
+  const passphraseId = useId()
+  const [passphrase, setPassphrase] = useState('')
+  const [isUnlocking, setIsUnlocking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setIsUnlocking(true)
+
+    try {
+      await onUnlock(passphrase)
+    } catch (err) {
+      console.error('Error recovering key:', err)
+      setError(err instanceof Error ? err.message : 'Failed to unlock. Please try again.')
+    } finally {
+      setIsUnlocking(false)
+    }
+  }
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader className="space-y-1">
+        <CardTitle className="flex items-center gap-2 text-2xl font-semibold">
+          <ShieldAlert className="h-6 w-6 text-destructive" />
+          Wrong Encryption Key
+        </CardTitle>
+        <CardDescription>
+          The key on this device isn't the one your reflections are encrypted with. It may be
+          from another account's backup, or your key was changed on another device.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {hasEscrow && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor={passphraseId}>Recovery passphrase</Label>
+              <Input
+                id={passphraseId}
+                type="password"
+                autoComplete="current-password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                required
+                disabled={isUnlocking}
+                autoFocus
+              />
+            </div>
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <Button type="submit" className="w-full" disabled={isUnlocking || !passphrase}>
+              {isUnlocking ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Unlocking...
+                </>
+              ) : (
+                <>
+                  <KeyRound className="mr-2 h-4 w-4" />
+                  Use My Account's Key
+                </>
+              )}
+            </Button>
+          </form>
+        )}
+
+        <div className={hasEscrow ? 'space-y-3 border-t pt-6' : 'space-y-3'}>
+          <Button variant="outline" className="w-full" asChild>
+            <Link to="/settings/security">
+              <Upload className="mr-2 h-4 w-4" />
+              Restore From a Backup File
+            </Link>
+          </Button>
+
+          <p className="text-sm text-muted-foreground text-center">
+            Or scan the "Link a New Device" code on a device that can read your reflections.
+            The key on this device is kept as an older version either way.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,163 @@
+import { useId, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { RefreshCw, Loader2, CheckCircle2 } from 'lucide-react'
+import { useKeyRotation } from '@/lib/encryption'
+
+interface KeyRotationCardProps {
+  /**
+   * Optional: Only render when an interrupted re-encryption needs resuming
+   */
+  resumeOnly?: boolean
+}
+
+/**
+ * KeyRotationCard Component
+ *
+ * Rotates the encryption key and shows re-encryption progress
+ * Offers to resume a re-encryption that was interrupted
+ */
+export function KeyRotationCard({ resumeOnly = false }: KeyRotationCardProps) {
+  const {
+    keyVersion,
+    progress,
+    isRunning,
+    error,
+    hasPendingJob,
+    pendingCount,
+    requiresPassphrase,
+    rotate,
+    resume,
+    cancel,
+  } = useKeyRotation()
+  const passphraseId = useId()
+  const [passphrase, setPassphrase] = useState('')
+  const [rotateError, setRotateError] = useState<string | null>(null)
+  const [isRotating, setIsRotating] = useState(false)
+
+  const canResume = hasPendingJob && pendingCount > 0 && !isRunning
+
+  if (resumeOnly && !canResume && !isRunning) {
+    return null
+  }
+
+  const handleRotate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setRotateError(null)
+
+    try {
+      setIsRotating(true)
+      await rotate(requiresPassphrase ? passphrase : undefined)
+      setPassphrase('')
+    } catch (err) {
+      console.error('Error rotating key:', err)
+      setRotateError(err instanceof Error ? err.message : 'Failed to rotate key')
+    } finally {
+      setIsRotating(false)
+    }
+  }
+
+  const percent =
+    progress && progress.total > 0
+      ? Math.round(((progress.completed + progress.failed) / progress.total) * 100)
+      : 0
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <RefreshCw className="h-5 w-5 text-primary" />
+            Encryption Key
+          </CardTitle>
+          {keyVersion !== undefined && (
+            <Badge variant="secondary">Version {keyVersion}</Badge>
+          )}
+        </div>
+        <CardDescription>
+          {canResume
+            ? `${pendingCount} reflection${pendingCount !== 1 ? 's are' : ' is'} still encrypted with an older key.`
+            : 'Rotate your key to re-encrypt every reflection and photo with a fresh key.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Progress */}
+        {progress && (isRunning || progress.total > 0) && (
+          <div className="space-y-2">
+            <div className="h-2 w-full rounded-full bg-muted overflow-hidden">
+              <div
+                className="h-full bg-primary transition-all"
+                style={{ width: `${percent}%` }}
+              />
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {progress.completed} of {progress.total} re-encrypted
+              {progress.failed > 0 && ` · ${progress.failed} failed`}
+            </p>
+          </div>
+        )}
+
+        {progress && !isRunning && progress.total > 0 && progress.failed === 0 && pendingCount === 0 && (
+          <div className="flex items-center gap-2 text-sm text-primary">
+            <CheckCircle2 className="h-4 w-4" />
+            All reflections are encrypted with the current key
+          </div>
+        )}
+
+        {(error || rotateError) && (
+          <Alert variant="destructive">
+            <AlertDescription>{rotateError ?? error}</AlertDescription>
+          </Alert>
+        )}
+
+        {isRunning ? (
+          <Button variant="outline" className="w-full" onClick={cancel}>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Re-encrypting... (tap to pause)
+          </Button>
+        ) : canResume ? (
+          <Button className="w-full" onClick={() => resume()}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Resume Re-encryption
+          </Button>
+        ) : (
+          !resumeOnly && (
+            <form onSubmit={handleRotate} className="space-y-4">
+              {requiresPassphrase && (
+                <div className="space-y-2">
+                  <Label htmlFor={passphraseId}>Passphrase</Label>
+                  <Input
+                    id={passphraseId}
+                    type="password"
+                    autoComplete="current-password"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    required
+                    disabled={isRotating}
+                  />
+                </div>
+              )}
+              <Button type="submit" variant="outline" className="w-full" disabled={isRotating}>
+                {isRotating ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Rotating...
+                  </>
+                ) : (
+                  <>
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                    Rotate Key
+                  </>
+                )}
+              </Button>
+            </form>
+          )
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,99 @@
+import { Link } from '@tanstack/react-router'
+import { useId, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { KeyRound, Loader2 } from 'lucide-react'
+
+interface KeyUnlockFormProps {
+  onUnlock: (passphrase: string) => Promise<void>
+}
+
+/**
+ * KeyUnlockForm Component
+ * 
+ * Asks for the encryption passphrase on a device that has no local key
+ * so the escrowed key can be unwrapped
+ */
+export function KeyUnlockForm({ onUnlock }: KeyUnlockFormProps) {
+  const passphraseId = useId()
+  const [passphrase, setPassphrase] = useState('')
+  const [isUnlocking, setIsUnlocking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setIsUnlocking(true)
+
+    try {
+      await onUnlock(passphrase)
+    } catch (err) {
+      console.error('Error unlocking key:', err)
+      setError(err instanceof Error ? err.message : 'Failed to unlock. Please try again.')
+    } finally {
+      setIsUnlocking(false)
+    }
+  }
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader className="space-y-1">
+        <CardTitle className="text-2xl font-semibold">Unlock Your Reflections</CardTitle>
+        <CardDescription>
+          Enter your encryption passphrase to read your reflections on this device
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={passphraseId}>Passphrase</Label>
+            <Input
+              id={passphraseId}
+              type="password"
+              autoComplete="current-password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              required
+              disabled={isUnlocking}
+              autoFocus
+            />
+          </div>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <Button type="submit" className="w-full" disabled={isUnlocking || !passphrase}>
+            {isUnlocking ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Unlocking...
+              </>
+            ) : (
+              <>
+                <KeyRound className="mr-2 h-4 w-4" />
+                Unlock
+              </>
+            )}
+          </Button>
+
+          <p className="text-sm text-muted-foreground text-center">
+            Your passphrase never leaves this device
+          </p>
+
+          <p className="text-sm text-muted-foreground text-center">
+            Forgot it?{' '}
+            <Link to="/link-device" className="text-primary underline-offset-4 hover:underline">
+              Link from another device
+            </Link>
+          </p>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
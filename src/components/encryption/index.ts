@@ -0,0 +1,16 @@
+/**
+ * Encryption Components
+ * 
+ * UI for unlocking, escrowing, rotating, pairing and backing up the user's encryption key
+ */
+
+export { EncryptionGate } from './EncryptionGate'
+export { KeyUnlockForm } from './KeyUnlockForm'
+export { KeyMismatchCard } from './KeyMismatchCard'
+export { KeyEscrowSetup } from './KeyEscrowSetup'
+export { KeyRotationCard } from './KeyRotationCard'
+export { DevicePairingCard } from './DevicePairingCard'
+export { DeviceLinkCard } from './DeviceLinkCard'
+export { KeyDetailsCard } from './KeyDetailsCard'
+export { KeyBackupCard } from './KeyBackupCard'
+export { DeleteKeyCard } from './DeleteKeyCard'
@@ -0,0 +1,115 @@
+import { useId } from 'react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import type { GalleryFilter } from '@/lib/gallery'
+
+const MONTHS = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+]
+
+const SELECT_CLASS =
+  'border-input h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:opacity-50'
+
+interface GalleryFiltersProps {
+  filter: GalleryFilter
+  years: number[] // Newest first
+  categories: string[]
+  onChange: (filter: GalleryFilter) => void
+}
+
+/**
+ * GalleryFilters Component
+ *
+ * Year, month and prompt category pickers for the gallery. A month can only
+ * be picked within a year; clearing the year clears the month too.
+ */
+export function GalleryFilters({ filter, years, categories, onChange }: GalleryFiltersProps) {
+  const id = useId()
+  const year = filter.month ? Number(filter.month.slice(0, 4)) : filter.year
+  const month = filter.month ? Number(filter.month.slice(5, 7)) : undefined
+  const isFiltered = !!(year || filter.category)
+
+  return (
+    <div className="grid grid-cols-1 gap-3 sm:grid-cols-[1fr_1fr_1fr_auto] sm:items-end">
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-year`}>Year</Label>
+        <select
+          id={`${id}-year`}
+          value={year ?? ''}
+          onChange={(e) =>
+            onChange({
+              category: filter.category,
+              year: e.target.value ? Number(e.target.value) : undefined,
+            })
+          }
+          className={SELECT_CLASS}
+        >
+          <option value="">All years</option>
+          {years.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-month`}>Month</Label>
+        <select
+          id={`${id}-month`}
+          value={month ?? ''}
+          disabled={!year}
+          onChange={(e) =>
+            onChange({
+              category: filter.category,
+              year,
+              month: e.target.value
+                ? `${year}-${e.target.value.padStart(2, '0')}`
+                : undefined,
+            })
+          }
+          className={SELECT_CLASS}
+        >
+          <option value="">All months</option>
+          {MONTHS.map((name, index) => (
+            <option key={name} value={index + 1}>
+              {name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-category`}>Prompt category</Label>
+        <select
+          id={`${id}-category`}
+          value={filter.category ?? ''}
+          onChange={(e) => onChange({ ...filter, category: e.target.value || undefined })}
+          className={SELECT_CLASS}
+        >
+          <option value="">All categories</option>
+          {categories.map((category) => (
+            <option key={category} value={category}>
+              {category}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <Button variant="ghost" size="sm" disabled={!isFiltered} onClick={() => onChange({})}>
+        Clear
+      </Button>
+    </div>
+  )
+}
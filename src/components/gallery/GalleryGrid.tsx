@@ -0,0 +1,137 @@
+import { useEffect, useRef, useState, type RefObject } from 'react'
+import { Loader2, Lock } from 'lucide-react'
+import { getPhotoThumbnailUrl, usePhotoThumbnail } from '@/lib/reflections'
+import { getEnvelopePhotoId } from '@/lib/encryption'
+import type { GalleryItem } from '@/lib/gallery'
+
+const NEAR_VIEWPORT = '600px' // Decrypt tiles and load pages this far ahead of the viewport
+
+interface GalleryGridProps {
+  items: GalleryItem[]
+  hasMore?: boolean
+  isLoadingMore?: boolean
+  onLoadMore?: () => void
+  onOpen: (index: number) => void
+}
+
+/**
+ * GalleryGrid Component
+ *
+ * Masonry grid of photo thumbnails (columns keep each thumbnail's own
+ * shape). Tiles decrypt their thumbnail when they come near the viewport,
+ * and the next page is requested before the end of the grid is reached.
+ */
+export function GalleryGrid({
+  items,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
+  onOpen,
+}: GalleryGridProps) {
+  const sentinelRef = useRef<HTMLDivElement | null>(null)
+  const isNearEnd = useIsNearViewport(sentinelRef, false)
+
+  /**
+   * Request the next page while the end of the grid is near
+   */
+  useEffect(() => {
+    if (isNearEnd && hasMore && !isLoadingMore) {
+      onLoadMore?.()
+    }
+  }, [isNearEnd, hasMore, isLoadingMore, onLoadMore])
+
+  return (
+    <div>
+      <div className="columns-2 gap-2 sm:columns-3 lg:columns-4">
+        {items.map((item, index) => (
+          <GalleryTile key={item.key} item={item} onOpen={() => onOpen(index)} />
+        ))}
+      </div>
+
+      <div ref={sentinelRef} />
+
+      {isLoadingMore && (
+        <div className="flex items-center justify-center p-4">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Utility: One photo of the grid
+ */
+function GalleryTile({ item, onOpen }: { item: GalleryItem; onOpen: () => void }) {
+  const tileRef = useRef<HTMLButtonElement | null>(null)
+  const isNear = useIsNearViewport(tileRef, true)
+  const { thumbnailUrl, hasThumbnail } = usePhotoThumbnail(
+    item.reflection.id,
+    getEnvelopePhotoId(item.photo),
+    getPhotoThumbnailUrl(item.reflection, item.photo),
+    isNear
+  )
+
+  const date = new Date(item.reflection.createdAt).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })
+
+  return (
+    <button
+      ref={tileRef}
+      type="button"
+      onClick={onOpen}
+      aria-label={`Open reflection from ${date}${
+        item.count > 1 ? `, ${item.index + 1} of ${item.count}` : ''
+      }`}
+      className="mb-2 block w-full overflow-hidden rounded-md border bg-muted break-inside-avoid hover:opacity-90"
+    >
+      {thumbnailUrl ? (
+        <img src={thumbnailUrl} alt="" className="w-full" />
+      ) : (
+        // Older photos have no thumbnail; they're decrypted in the lightbox
+        <span className="flex aspect-square w-full flex-col items-center justify-center gap-1 text-xs text-muted-foreground">
+          {hasThumbnail ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Lock className="h-4 w-4" />
+          )}
+          {date}
+        </span>
+      )}
+    </button>
+  )
+}
+
+/**
+ * Utility: Whether an element is near the viewport
+ *
+ * @param once - Stay true after the first time (tiles keep their thumbnail)
+ */
+function useIsNearViewport(ref: RefObject<HTMLElement | null>, once: boolean) {
+  const [isNear, setIsNear] = useState(false)
+
+  useEffect(() => {
+    const element = ref.current
+    if (!element) return
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        setIsNear(entry.isIntersecting)
+        if (entry.isIntersecting && once) {
+          observer.disconnect()
+        }
+      },
+      { rootMargin: NEAR_VIEWPORT }
+    )
+    observer.observe(element)
+
+    return () => {
+      observer.disconnect()
+    }
+  }, [ref, once])
+
+  return isNear
+}
@@ -0,0 +1,208 @@
+import { useEffect, useRef, useState, type KeyboardEvent, type TouchEvent } from 'react'
+import { Link } from '@tanstack/react-router'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '@/components/ui/dialog'
+import { ChevronLeft, ChevronRight, Loader2, Sparkles } from 'lucide-react'
+import { useReflectionEditor } from '@/lib/reflections'
+import { getSwipeDirection, type GalleryItem } from '@/lib/gallery'
+
+interface PhotoLightboxProps {
+  items: GalleryItem[]
+  index: number | null // Open photo (null when closed)
+  onIndexChange: (index: number) => void
+  onClose: () => void
+}
+
+interface OpenedPhoto {
+  key: string
+  url: string | null
+  caption: string
+  text: string | null
+  error: string | null
+}
+
+/**
+ * PhotoLightbox Component
+ *
+ * Full-screen view of one gallery photo with its caption, the reflection's
+ * text and prompt. Swipe (or use the arrow keys) to move through the
+ * gallery. Photos and text are decrypted when they're opened.
+ */
+export function PhotoLightbox({ items, index, onIndexChange, onClose }: PhotoLightboxProps) {
+  const item = index !== null ? items[index] : undefined
+  const { readPhoto, readText, readCaption } = useReflectionEditor(item?.reflection)
+  const [opened, setOpened] = useState<OpenedPhoto | null>(null)
+  const touchStart = useRef<{ x: number; y: number } | null>(null)
+
+  /**
+   * Decrypt the open photo, its caption and the reflection text
+   */
+  useEffect(() => {
+    if (!item) return
+
+    let cancelled = false
+    let objectUrl: string | null = null
+    setOpened({ key: item.key, url: null, caption: '', text: null, error: null })
+
+    async function openItem(current: GalleryItem) {
+      try {
+        const [photo, caption, text] = await Promise.all([
+          readPhoto(current.reflection, current.photo),
+          readCaption(current.photo),
+          readText(current.reflection),
+        ])
+        if (cancelled) return
+        objectUrl = URL.createObjectURL(photo)
+        setOpened({ key: current.key, url: objectUrl, caption, text, error: null })
+      } catch (err) {
+        console.error('Error opening photo:', err)
+        if (!cancelled) {
+          setOpened({
+            key: current.key,
+            url: null,
+            caption: '',
+            text: null,
+            error: 'Unable to decrypt this reflection. Make sure its key is on this device.',
+          })
+        }
+      }
+    }
+
+    openItem(item)
+
+    return () => {
+      cancelled = true
+      if (objectUrl) {
+        URL.revokeObjectURL(objectUrl)
+      }
+    }
+  }, [item, readPhoto, readCaption, readText])
+
+  const hasPrevious = index !== null && index > 0
+  const hasNext = index !== null && index < items.length - 1
+
+  /**
+   * Move by one photo
+   *
+   * @param direction - 1 for the next photo, -1 for the previous one
+   */
+  const move = (direction: -1 | 0 | 1) => {
+    if (index === null || direction === 0) return
+    const next = index + direction
+    if (next >= 0 && next < items.length) {
+      onIndexChange(next)
+    }
+  }
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'ArrowLeft') move(-1)
+    if (e.key === 'ArrowRight') move(1)
+  }
+
+  const handleTouchStart = (e: TouchEvent) => {
+    const touch = e.touches[0]
+    touchStart.current = { x: touch.clientX, y: touch.clientY }
+  }
+
+  const handleTouchEnd = (e: TouchEvent) => {
+    const start = touchStart.current
+    const touch = e.changedTouches[0]
+    touchStart.current = null
+    if (start && touch) {
+      move(getSwipeDirection(touch.clientX - start.x, touch.clientY - start.y))
+    }
+  }
+
+  const current = opened && item && opened.key === item.key ? opened : null
+
+  return (
+    <Dialog open={!!item} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent
+        className="max-h-[95vh] overflow-y-auto sm:max-w-3xl"
+        onKeyDown={handleKeyDown}
+        onTouchStart={handleTouchStart}
+        onTouchEnd={handleTouchEnd}
+      >
+        {item && (
+          <>
+            <DialogTitle>
+              {new Date(item.reflection.createdAt).toLocaleDateString('en-US', {
+                weekday: 'long',
+                month: 'long',
+                day: 'numeric',
+                year: 'numeric',
+              })}
+            </DialogTitle>
+            <DialogDescription>
+              {item.count > 1 ? `Photo ${item.index + 1} of ${item.count}` : 'Reflection photo'}
+            </DialogDescription>
+
+            <figure className="space-y-2">
+              <div className="relative flex min-h-64 items-center justify-center rounded-lg bg-muted">
+                {current?.url ? (
+                  <img
+                    src={current.url}
+                    alt={current.caption || 'Reflection'}
+                    className="max-h-[60vh] w-full rounded-lg object-contain"
+                  />
+                ) : current?.error ? (
+                  <p className="p-8 text-center text-sm text-destructive">{current.error}</p>
+                ) : (
+                  <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+                )}
+
+                {hasPrevious && (
+                  <Button
+                    variant="secondary"
+                    size="icon"
+                    className="absolute left-2 top-1/2 -translate-y-1/2 h-8 w-8 rounded-full opacity-80"
+                    onClick={() => move(-1)}
+                    aria-label="Previous photo"
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                )}
+                {hasNext && (
+                  <Button
+                    variant="secondary"
+                    size="icon"
+                    className="absolute right-2 top-1/2 -translate-y-1/2 h-8 w-8 rounded-full opacity-80"
+                    onClick={() => move(1)}
+                    aria-label="Next photo"
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+
+              {current?.caption && (
+                <figcaption className="text-sm text-muted-foreground text-center">
+                  {current.caption}
+                </figcaption>
+              )}
+            </figure>
+
+            {item.reflection.prompt && (
+              <div className="flex items-start gap-2 rounded-md bg-muted/50 p-3 text-sm">
+                <Sparkles className="h-4 w-4 mt-0.5 text-primary" />
+                <p className="italic">{item.reflection.prompt.promptText}</p>
+              </div>
+            )}
+
+            {current?.text && (
+              <p className="whitespace-pre-wrap text-sm leading-relaxed">{current.text}</p>
+            )}
+
+            <Link
+              to="/reflections/$reflectionId"
+              params={{ reflectionId: item.reflection.id }}
+              className="text-sm text-primary hover:underline"
+            >
+              Open reflection
+            </Link>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
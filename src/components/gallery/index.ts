@@ -0,0 +1,9 @@
+/**
+ * Gallery Components
+ *
+ * Components for browsing the photos of past reflections
+ */
+
+export { GalleryGrid } from './GalleryGrid'
+export { PhotoLightbox } from './PhotoLightbox'
+export { GalleryFilters } from './GalleryFilters'
@@ -0,0 +1,114 @@
+import { getDaysBetween } from '@/lib/dates'
+import { MOOD_LABELS, MOOD_MAX, MOOD_MIN } from '@/lib/reflections'
+import type { InsightRange, MoodPoint } from '@/lib/insights'
+
+const WIDTH = 600
+const HEIGHT = 220
+const PADDING = { top: 12, right: 12, bottom: 28, left: 56 }
+
+interface MoodChartProps {
+  points: MoodPoint[] // Oldest first
+  range: InsightRange
+}
+
+/**
+ * MoodChart Component
+ *
+ * Line chart of the average mood per day across a range. Days without a
+ * mood are skipped, so the line joins the days that have one.
+ */
+export function MoodChart({ points, range }: MoodChartProps) {
+  const plotWidth = WIDTH - PADDING.left - PADDING.right
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom
+  const moods = Array.from({ length: MOOD_MAX - MOOD_MIN + 1 }, (_, index) => MOOD_MIN + index)
+
+  const getX = (dateKey: string) => {
+    const offset = range.days > 1 ? getDaysBetween(range.startKey, dateKey) / (range.days - 1) : 0
+    return PADDING.left + offset * plotWidth
+  }
+  const getY = (mood: number) =>
+    PADDING.top + ((MOOD_MAX - mood) / (MOOD_MAX - MOOD_MIN)) * plotHeight
+
+  const line = points.map((point) => `${getX(point.dateKey)},${getY(point.mood)}`).join(' ')
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label={`Average mood on ${points.length} day${points.length !== 1 ? 's' : ''}`}
+    >
+      {/* Mood scale */}
+      {moods.map((mood) => (
+        <g key={mood}>
+          <line
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={getY(mood)}
+            y2={getY(mood)}
+            className="stroke-border"
+            strokeDasharray={mood === MOOD_MIN ? undefined : '4 4'}
+          />
+          <text
+            x={PADDING.left - 8}
+            y={getY(mood)}
+            textAnchor="end"
+            dominantBaseline="middle"
+            className="fill-muted-foreground text-[11px]"
+          >
+            {MOOD_LABELS[mood]}
+          </text>
+        </g>
+      ))}
+
+      {/* First and last day */}
+      {[range.startKey, range.endKey].map((dateKey, index) => (
+        <text
+          key={dateKey}
+          x={getX(dateKey)}
+          y={HEIGHT - 8}
+          textAnchor={index === 0 ? 'start' : 'end'}
+          className="fill-muted-foreground text-[11px]"
+        >
+          {formatDay(dateKey)}
+        </text>
+      ))}
+
+      {/* Moods */}
+      {points.length > 1 && (
+        <polyline
+          points={line}
+          fill="none"
+          className="stroke-primary"
+          strokeWidth={2}
+          strokeLinejoin="round"
+        />
+      )}
+      {points.map((point) => (
+        <circle
+          key={point.dateKey}
+          cx={getX(point.dateKey)}
+          cy={getY(point.mood)}
+          r={3.5}
+          className="fill-primary"
+        >
+          <title>
+            {`${formatDay(point.dateKey)}: ${MOOD_LABELS[Math.round(point.mood)]}` +
+              (point.count > 1 ? ` (average of ${point.count})` : '')}
+          </title>
+        </circle>
+      ))}
+    </svg>
+  )
+}
+
+/**
+ * Utility: Short label for a day key ('Mar 14')
+ */
+function formatDay(dateKey: string): string {
+  return new Date(`${dateKey}T12:00:00Z`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  })
+}
@@ -0,0 +1,49 @@
+import { MOOD_LABELS } from '@/lib/reflections'
+import { MAX_CHART_TAGS, type TagCount } from '@/lib/insights'
+
+interface TagChartProps {
+  counts: TagCount[] // Most frequent first
+  emptyMessage: string
+}
+
+/**
+ * TagChart Component
+ *
+ * Horizontal bars for the most frequent tags (or children), with the
+ * average mood of the reflections they appear on.
+ */
+export function TagChart({ counts, emptyMessage }: TagChartProps) {
+  if (counts.length === 0) {
+    return <p className="text-sm text-muted-foreground">{emptyMessage}</p>
+  }
+
+  const shown = counts.slice(0, MAX_CHART_TAGS)
+  const maxCount = shown[0].count
+
+  return (
+    <div className="space-y-3">
+      {shown.map(({ name, count, averageMood }) => (
+        <div key={name} className="space-y-1">
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <span className="truncate font-medium">{name}</span>
+            <span className="shrink-0 text-muted-foreground">
+              {count}
+              {averageMood !== null && ` · ${MOOD_LABELS[Math.round(averageMood)]}`}
+            </span>
+          </div>
+          <div className="h-2 rounded-full bg-muted">
+            <div
+              className="h-2 rounded-full bg-primary"
+              style={{ width: `${(count / maxCount) * 100}%` }}
+            />
+          </div>
+        </div>
+      ))}
+      {counts.length > shown.length && (
+        <p className="text-xs text-muted-foreground">
+          And {counts.length - shown.length} more
+        </p>
+      )}
+    </div>
+  )
+}
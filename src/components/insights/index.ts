@@ -0,0 +1,8 @@
+/**
+ * Insights Components
+ *
+ * Charts of mood and tags from reflection metadata
+ */
+
+export { MoodChart } from './MoodChart'
+export { TagChart } from './TagChart'
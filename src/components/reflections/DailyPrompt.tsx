@@ -4,6 +4,7 @@ import { Badge } from '@/components/ui/badge'
 import { Sparkles, Loader2 } from 'lucide-react'
 import { useQuery } from '@/lib/db'
 import { useAuth } from '@/lib/auth/AuthProvider'
+import { useTimeZone, getDateKey } from '@/lib/dates'
 
 /**
  * Default fallback prompts
@@ -21,6 +22,7 @@ const FALLBACK_PROMPTS = [
 ]
 
 interface DailyPromptProps {
+  userProfileId?: string // Days follow this user's timezone (the device's until loaded)
   onPromptSelected?: (promptId: string | null, promptText: string) => void
 }
 
@@ -31,8 +33,9 @@ interface DailyPromptProps {
  * Queries approved prompts from database or uses fallback prompts
  * Rotates prompts daily to avoid repetition
  */
-export function DailyPrompt({ onPromptSelected }: DailyPromptProps) {
+export function DailyPrompt({ userProfileId, onPromptSelected }: DailyPromptProps) {
   const { user } = useAuth()
+  const { timeZone } = useTimeZone(userProfileId)
 
   // Query approved prompts
   const { data, isLoading, error } = useQuery({
@@ -52,9 +55,8 @@ export function DailyPrompt({ onPromptSelected }: DailyPromptProps) {
    * Returns both the prompt text and ID (if from database)
    */
   const getDailyPrompt = (): { text: string; id: string | null } => {
-    // Get today's date as YYYY-MM-DD
-    const today = new Date()
-    const dateString = today.toISOString().split('T')[0]
+    // Get today's date as YYYY-MM-DD in the user's timezone
+    const dateString = getDateKey(Date.now(), timeZone)
     
     // Create a simple hash from date + userId
     let hash = 0
@@ -0,0 +1,114 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Trash2, Loader2, AlertTriangle } from 'lucide-react'
+
+interface DeleteReflectionDialogProps {
+  revisionCount: number
+  onDelete: () => Promise<void>
+  disabled?: boolean
+}
+
+/**
+ * DeleteReflectionDialog Component
+ *
+ * Delete button with a confirmation dialog. Deleting removes the reflection,
+ * its photo and its edit history for good.
+ */
+export function DeleteReflectionDialog({
+  revisionCount,
+  onDelete,
+  disabled,
+}: DeleteReflectionDialogProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleOpenChange = (open: boolean) => {
+    // Can't be dismissed while the reflection is being deleted
+    if (isDeleting) return
+    setIsOpen(open)
+    setError(null)
+  }
+
+  const handleDelete = async () => {
+    try {
+      setIsDeleting(true)
+      setError(null)
+      await onDelete()
+      setIsOpen(false)
+    } catch (err) {
+      console.error('Error deleting reflection:', err)
+      setError(err instanceof Error ? err.message : 'Failed to delete reflection')
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="text-destructive hover:text-destructive"
+        onClick={() => handleOpenChange(true)}
+        disabled={disabled}
+      >
+        <Trash2 className="h-4 w-4 mr-2" />
+        Delete
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+        <DialogContent showCloseButton={!isDeleting}>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2 text-destructive">
+              <AlertTriangle className="h-5 w-5" />
+              Delete this reflection?
+            </DialogTitle>
+            <DialogDescription>
+              The text, photo
+              {revisionCount > 0 &&
+                ` and ${revisionCount} earlier version${revisionCount === 1 ? '' : 's'}`}{' '}
+              will be removed from every device. This can't be undone.
+            </DialogDescription>
+          </DialogHeader>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={isDeleting}
+            >
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={isDeleting}>
+              {isDeleting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                'Delete Reflection'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
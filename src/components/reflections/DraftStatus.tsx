@@ -0,0 +1,69 @@
+import { useId } from 'react'
+import { Button } from '@/components/ui/button'
+import { Cloud, HardDrive, Loader2, Trash2 } from 'lucide-react'
+
+interface DraftStatusProps {
+  lastSavedAt: number | null
+  isSyncEnabled: boolean
+  isSyncing: boolean
+  onSyncChange: (enabled: boolean) => void
+  onDiscard: () => void
+  disabled?: boolean
+}
+
+/**
+ * DraftStatus Component
+ *
+ * Shows when the draft was last autosaved, lets the user sync it to their
+ * other devices (encrypted) and discard it
+ */
+export function DraftStatus({
+  lastSavedAt,
+  isSyncEnabled,
+  isSyncing,
+  onSyncChange,
+  onDiscard,
+  disabled = false,
+}: DraftStatusProps) {
+  const syncId = useId()
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3 text-sm text-muted-foreground">
+      <span className="flex items-center gap-2">
+        {isSyncing ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : isSyncEnabled ? (
+          <Cloud className="h-4 w-4" />
+        ) : (
+          <HardDrive className="h-4 w-4" />
+        )}
+        {lastSavedAt
+          ? `Draft saved ${new Date(lastSavedAt).toLocaleTimeString('en-US', {
+              hour: 'numeric',
+              minute: '2-digit',
+            })}`
+          : 'Your draft is saved as you type'}
+      </span>
+
+      <div className="flex items-center gap-3">
+        <label htmlFor={syncId} className="flex items-center gap-2 cursor-pointer">
+          <input
+            id={syncId}
+            type="checkbox"
+            checked={isSyncEnabled}
+            onChange={(e) => onSyncChange(e.target.checked)}
+            disabled={disabled}
+            className="h-4 w-4 accent-primary"
+          />
+          Sync to my other devices
+        </label>
+        {lastSavedAt && (
+          <Button variant="ghost" size="sm" onClick={onDiscard} disabled={disabled}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Discard
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,328 @@
+import { useState, useRef, useEffect, useId } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Camera,
+  Upload,
+  X,
+  Loader2,
+  ChevronLeft,
+  ChevronRight,
+  GripVertical,
+} from 'lucide-react'
+import { useIsMobile } from '@/lib/hooks/useIsMobile'
+import { compressImage, createThumbnail } from '@/lib/media'
+import { MAX_PHOTOS, moveItem, type NewReflectionPhoto } from '@/lib/reflections'
+
+interface SelectedPhoto extends NewReflectionPhoto {
+  key: string // Stable React key while reordering
+}
+
+interface MultiPhotoUploadProps {
+  initialPhotos?: NewReflectionPhoto[] // Decrypted photos when editing
+  onPhotosChanged: (photos: NewReflectionPhoto[]) => void
+  disabled?: boolean
+}
+
+/**
+ * MultiPhotoUpload Component
+ *
+ * Select several photos at once (camera or gallery), caption them and drag
+ * to reorder. The first photo is the reflection's cover. Photos are
+ * compressed and thumbnailed as they're added; encryption happens on save.
+ */
+export function MultiPhotoUpload({
+  initialPhotos = [],
+  onPhotosChanged,
+  disabled = false,
+}: MultiPhotoUploadProps) {
+  const nextKey = useRef(0)
+  const [photos, setPhotos] = useState<SelectedPhoto[]>(() =>
+    initialPhotos.map((photo) => ({ ...photo, key: `photo-${nextKey.current++}` }))
+  )
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const cameraInputRef = useRef<HTMLInputElement>(null)
+  const { isMobile } = useIsMobile()
+
+  const remaining = MAX_PHOTOS - photos.length
+
+  /**
+   * Update the selection and notify the parent
+   */
+  const updatePhotos = (next: SelectedPhoto[]) => {
+    setPhotos(next)
+    onPhotosChanged(next.map(({ blob, thumbnail, caption }) => ({ blob, thumbnail, caption })))
+  }
+
+  /**
+   * Compress and thumbnail the selected files, keeping within MAX_PHOTOS
+   */
+  const handleFilesSelected = async (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? [])
+    if (files.length === 0) return
+
+    try {
+      setIsProcessing(true)
+      setError(null)
+
+      if (files.some((file) => !file.type.startsWith('image/'))) {
+        throw new Error('Please select image files only')
+      }
+      if (files.some((file) => file.size > 10 * 1024 * 1024)) {
+        throw new Error('Each image must be less than 10MB')
+      }
+
+      const accepted = files.slice(0, remaining)
+      const added: SelectedPhoto[] = []
+      for (const file of accepted) {
+        const blob = await compressImage(file)
+        const thumbnail = await createThumbnail(blob)
+        added.push({ key: `photo-${nextKey.current++}`, blob, thumbnail, caption: '' })
+      }
+
+      updatePhotos([...photos, ...added])
+
+      if (accepted.length < files.length) {
+        setError(`You can add up to ${MAX_PHOTOS} photos per reflection`)
+      }
+    } catch (err) {
+      console.error('Error processing photos:', err)
+      setError(err instanceof Error ? err.message : 'Failed to process photos')
+    } finally {
+      setIsProcessing(false)
+      if (fileInputRef.current) fileInputRef.current.value = ''
+      if (cameraInputRef.current) cameraInputRef.current.value = ''
+    }
+  }
+
+  const handleRemove = (index: number) => {
+    setError(null)
+    updatePhotos(photos.filter((_, i) => i !== index))
+  }
+
+  const handleCaptionChange = (index: number, caption: string) => {
+    updatePhotos(photos.map((photo, i) => (i === index ? { ...photo, caption } : photo)))
+  }
+
+  const handleMove = (from: number, to: number) => {
+    updatePhotos(moveItem(photos, from, to))
+  }
+
+  const isBusy = disabled || isProcessing
+
+  return (
+    <div className="space-y-4">
+      {/* Hidden camera input (mobile only) */}
+      {isMobile && (
+        <input
+          ref={cameraInputRef}
+          type="file"
+          accept="image/*"
+          onChange={(e) => handleFilesSelected(e.target.files)}
+          className="hidden"
+          capture="environment" // Use rear camera on mobile
+        />
+      )}
+
+      {/* Hidden file input */}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        onChange={(e) => handleFilesSelected(e.target.files)}
+        className="hidden"
+      />
+
+      {/* Selected photos (drag to reorder) */}
+      {photos.length > 0 && (
+        <ul className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {photos.map((photo, index) => (
+            <PhotoTile
+              key={photo.key}
+              photo={photo}
+              index={index}
+              count={photos.length}
+              isDragging={dragIndex === index}
+              disabled={isBusy}
+              onDragStart={() => setDragIndex(index)}
+              onDragEnd={() => setDragIndex(null)}
+              onDrop={() => {
+                if (dragIndex !== null) handleMove(dragIndex, index)
+                setDragIndex(null)
+              }}
+              onMove={(to) => handleMove(index, to)}
+              onRemove={() => handleRemove(index)}
+              onCaptionChange={(caption) => handleCaptionChange(index, caption)}
+            />
+          ))}
+        </ul>
+      )}
+
+      {/* Add buttons */}
+      {remaining > 0 && (
+        <div className={`grid gap-4 ${isMobile ? 'grid-cols-2' : 'grid-cols-1'}`}>
+          {isMobile && (
+            <Button
+              variant="outline"
+              className="h-24 flex flex-col gap-2"
+              onClick={() => cameraInputRef.current?.click()}
+              disabled={isBusy}
+            >
+              <Camera className="h-6 w-6" />
+              <span>Take Photo</span>
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            className="h-24 flex flex-col gap-2"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isBusy}
+          >
+            <Upload className="h-6 w-6" />
+            <span>
+              {photos.length > 0 ? 'Add More Photos' : isMobile ? 'Choose Photos' : 'Upload Photos'}
+            </span>
+          </Button>
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        {photos.length} of {MAX_PHOTOS} photos
+        {photos.length > 1 && ' · Drag to reorder, the first photo is the cover'}
+      </p>
+
+      {/* Error message */}
+      {error && (
+        <div className="p-3 bg-destructive/10 text-destructive rounded-lg text-sm">{error}</div>
+      )}
+
+      {/* Processing status */}
+      {isProcessing && (
+        <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Processing photos...
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface PhotoTileProps {
+  photo: SelectedPhoto
+  index: number
+  count: number
+  isDragging: boolean
+  disabled: boolean
+  onDragStart: () => void
+  onDragEnd: () => void
+  onDrop: () => void
+  onMove: (to: number) => void
+  onRemove: () => void
+  onCaptionChange: (caption: string) => void
+}
+
+/**
+ * One selected photo with its caption and reorder controls
+ * Arrow buttons cover touch screens, where HTML drag and drop isn't available
+ */
+function PhotoTile({
+  photo,
+  index,
+  count,
+  isDragging,
+  disabled,
+  onDragStart,
+  onDragEnd,
+  onDrop,
+  onMove,
+  onRemove,
+  onCaptionChange,
+}: PhotoTileProps) {
+  const captionId = useId()
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null)
+
+  // Preview from the thumbnail when there is one, releasing the object URL after
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(photo.thumbnail ?? photo.blob)
+    setPreviewUrl(objectUrl)
+    return () => URL.revokeObjectURL(objectUrl)
+  }, [photo.blob, photo.thumbnail])
+
+  return (
+    <li
+      draggable={!disabled}
+      onDragStart={onDragStart}
+      onDragEnd={onDragEnd}
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={(e) => {
+        e.preventDefault()
+        onDrop()
+      }}
+      className={`space-y-2 rounded-lg border p-2 bg-card ${isDragging ? 'opacity-50' : ''}`}
+    >
+      <div className="relative">
+        {previewUrl && (
+          <img
+            src={previewUrl}
+            alt={photo.caption || `Selection ${index + 1} of ${count}`}
+            className="w-full aspect-square object-cover rounded-md"
+          />
+        )}
+        <span className="absolute top-1 left-1 flex items-center gap-1 rounded bg-black/60 px-1.5 py-0.5 text-xs text-white cursor-grab">
+          <GripVertical className="h-3 w-3" />
+          {index === 0 ? 'Cover' : index + 1}
+        </span>
+        <Button
+          variant="destructive"
+          size="icon"
+          className="absolute top-1 right-1 h-7 w-7"
+          onClick={onRemove}
+          disabled={disabled}
+          aria-label={`Remove photo ${index + 1}`}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <label htmlFor={captionId} className="sr-only">
+        Caption for photo {index + 1}
+      </label>
+      <Input
+        id={captionId}
+        value={photo.caption ?? ''}
+        onChange={(e) => onCaptionChange(e.target.value)}
+        placeholder="Add a caption"
+        maxLength={200}
+        disabled={disabled}
+        className="h-8 text-sm"
+      />
+
+      <div className="flex justify-between">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => onMove(index - 1)}
+          disabled={disabled || index === 0}
+          aria-label="Move earlier"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => onMove(index + 1)}
+          disabled={disabled || index === count - 1}
+          aria-label="Move later"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+    </li>
+  )
+}
@@ -0,0 +1,93 @@
+import { Link } from '@tanstack/react-router'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { History, ImageIcon } from 'lucide-react'
+import { useOnThisDay } from '@/lib/memories'
+import { useReflectionThumbnail, type ThumbnailSource } from '@/lib/reflections'
+
+interface OnThisDayCardProps {
+  userProfileId: string
+}
+
+interface MemoryItemProps {
+  reflection: ThumbnailSource & {
+    createdAt: number
+    prompt?: {
+      promptText: string
+    }
+  }
+}
+
+/**
+ * OnThisDayCard Component
+ *
+ * Dashboard card with reflections from the same day in earlier years (and 1
+ * and 6 months ago when the user turned that on in settings), each linking
+ * to the reflection. Renders nothing when there are no memories today.
+ */
+export function OnThisDayCard({ userProfileId }: OnThisDayCardProps) {
+  const { memories, isLoading } = useOnThisDay(userProfileId)
+
+  if (isLoading || memories.length === 0) {
+    return null
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base font-medium">
+          <History className="h-4 w-4 text-muted-foreground" />
+          On this day
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {memories.map(({ day, reflections }) => (
+          <div key={day.key} className="space-y-2">
+            <p className="text-sm font-medium text-muted-foreground">{day.label}</p>
+            <div className="space-y-2">
+              {reflections.map((reflection) => (
+                <MemoryItem key={reflection.id} reflection={reflection} />
+              ))}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * MemoryItem Component
+ *
+ * One remembered reflection: its decrypted cover thumbnail, prompt and time
+ */
+function MemoryItem({ reflection }: MemoryItemProps) {
+  const { thumbnailUrl } = useReflectionThumbnail(reflection)
+
+  return (
+    <Link
+      to="/reflections/$reflectionId"
+      params={{ reflectionId: reflection.id }}
+      className="flex items-center gap-3 rounded-lg p-2 -mx-2 hover:bg-accent transition-colors"
+    >
+      <div className="h-14 w-14 shrink-0 overflow-hidden rounded-md bg-muted flex items-center justify-center">
+        {thumbnailUrl ? (
+          <img src={thumbnailUrl} alt="" className="h-full w-full object-cover" />
+        ) : (
+          <ImageIcon className="h-5 w-5 text-muted-foreground" />
+        )}
+      </div>
+      <div className="min-w-0">
+        <p className="text-sm italic line-clamp-2">
+          {reflection.prompt?.promptText ?? 'A reflection'}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {new Date(reflection.createdAt).toLocaleDateString('en-US', {
+            month: 'short',
+            day: 'numeric',
+            year: 'numeric',
+          })}
+        </p>
+      </div>
+    </Link>
+  )
+}
@@ -0,0 +1,70 @@
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { AlertCircle, CloudUpload, Loader2, RotateCw } from 'lucide-react'
+import { useOutbox } from '@/lib/outbox'
+
+/**
+ * OutboxStatus Component
+ *
+ * Shows reflections saved on this device that are still waiting to upload
+ * (for example, written offline) and lets the user retry ones that failed.
+ * Renders nothing when the queue is empty.
+ */
+export function OutboxStatus() {
+  const { pendingCount, failedCount, isProcessing, retry } = useOutbox()
+
+  if (pendingCount === 0 && failedCount === 0) {
+    return null
+  }
+
+  const handleRetry = async () => {
+    try {
+      await retry()
+    } catch (err) {
+      console.error('Error retrying uploads:', err)
+    }
+  }
+
+  return (
+    <Card className={failedCount > 0 ? 'border-destructive/50' : undefined}>
+      <CardContent className="p-4 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3 text-sm">
+          {failedCount > 0 ? (
+            <AlertCircle className="h-5 w-5 text-destructive shrink-0" />
+          ) : isProcessing ? (
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground shrink-0" />
+          ) : (
+            <CloudUpload className="h-5 w-5 text-muted-foreground shrink-0" />
+          )}
+          <div>
+            {pendingCount > 0 && (
+              <p>
+                {pendingCount === 1 ? '1 reflection' : `${pendingCount} reflections`} waiting to
+                upload
+                {typeof navigator !== 'undefined' && !navigator.onLine
+                  ? ' (you\'re offline)'
+                  : ''}
+              </p>
+            )}
+            {failedCount > 0 && (
+              <p className="text-destructive">
+                {failedCount === 1 ? '1 reflection' : `${failedCount} reflections`} couldn't be
+                uploaded
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Saved encrypted on this device until then
+            </p>
+          </div>
+        </div>
+
+        {failedCount > 0 && (
+          <Button variant="outline" size="sm" onClick={handleRetry} disabled={isProcessing}>
+            <RotateCw className="h-4 w-4 mr-2" />
+            Retry
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,94 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+
+export interface PhotoSlide {
+  url: string // Object URL of the decrypted photo
+  caption?: string
+}
+
+interface PhotoCarouselProps {
+  photos: PhotoSlide[]
+  className?: string // Image size, e.g. 'h-64'
+}
+
+/**
+ * PhotoCarousel Component
+ *
+ * Shows a reflection's photos one at a time with their captions
+ * A single photo renders without any controls
+ */
+export function PhotoCarousel({ photos, className = 'h-64' }: PhotoCarouselProps) {
+  const [index, setIndex] = useState(0)
+
+  if (photos.length === 0) {
+    return null
+  }
+
+  // Photos can be removed by an edit while the carousel is open
+  const current = Math.min(index, photos.length - 1)
+  const photo = photos[current]
+  const hasMany = photos.length > 1
+
+  const showPrevious = () => setIndex((current - 1 + photos.length) % photos.length)
+  const showNext = () => setIndex((current + 1) % photos.length)
+
+  return (
+    <figure className="space-y-2">
+      <div className="relative">
+        <img
+          src={photo.url}
+          alt={photo.caption || `Reflection ${current + 1} of ${photos.length}`}
+          className={`w-full object-cover rounded-lg ${className}`}
+        />
+
+        {hasMany && (
+          <>
+            <Button
+              variant="secondary"
+              size="icon"
+              className="absolute left-2 top-1/2 -translate-y-1/2 h-8 w-8 rounded-full opacity-80"
+              onClick={showPrevious}
+              aria-label="Previous photo"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="secondary"
+              size="icon"
+              className="absolute right-2 top-1/2 -translate-y-1/2 h-8 w-8 rounded-full opacity-80"
+              onClick={showNext}
+              aria-label="Next photo"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <span className="absolute top-2 right-2 rounded bg-black/60 px-2 py-0.5 text-xs text-white">
+              {current + 1} / {photos.length}
+            </span>
+          </>
+        )}
+      </div>
+
+      {photo.caption && (
+        <figcaption className="text-sm text-muted-foreground text-center">
+          {photo.caption}
+        </figcaption>
+      )}
+
+      {hasMany && (
+        <div className="flex justify-center gap-1.5">
+          {photos.map((slide, i) => (
+            <button
+              key={slide.url}
+              type="button"
+              onClick={() => setIndex(i)}
+              className={`h-2 w-2 rounded-full ${i === current ? 'bg-primary' : 'bg-muted-foreground/30'}`}
+              aria-label={`Show photo ${i + 1}`}
+              aria-current={i === current}
+            />
+          ))}
+        </div>
+      )}
+    </figure>
+  )
+}
@@ -3,11 +3,13 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { Camera, Upload, X, Loader2 } from 'lucide-react'
 import { useIsMobile } from '@/lib/hooks/useIsMobile'
+import { compressImage, createThumbnail } from '@/lib/media'
 
 interface PhotoUploadProps {
   onPhotoSelected: (data: {
     blob: Blob
     file: File
+    thumbnail: Blob
   }) => void
   onPhotoRemoved: () => void
 }
@@ -16,7 +18,8 @@ interface PhotoUploadProps {
  * PhotoUpload Component
  * 
  * Handles photo selection from camera or file system
- * Compresses photos before upload
+ * Compresses photos before upload (in a Web Worker when supported)
+ * and creates a small thumbnail for list views
  */
 export function PhotoUpload({ onPhotoSelected, onPhotoRemoved }: PhotoUploadProps) {
   const [preview, setPreview] = useState<string | null>(null)
@@ -26,64 +29,6 @@ export function PhotoUpload({ onPhotoSelected, onPhotoRemoved }: PhotoUploadProp
   const cameraInputRef = useRef<HTMLInputElement>(null)
   const { isMobile } = useIsMobile()
 
-  /**
-   * Compress image before encryption
-   * Reduces file size while maintaining quality
-   */
-  const compressImage = async (file: File): Promise<Blob> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader()
-      reader.onload = (e) => {
-        const img = new Image()
-        img.onload = () => {
-          // Create canvas for compression
-          const canvas = document.createElement('canvas')
-          const ctx = canvas.getContext('2d')
-          
-          if (!ctx) {
-            reject(new Error('Could not get canvas context'))
-            return
-          }
-
-          // Calculate dimensions (max 1920px width/height)
-          const maxSize = 1920
-          let width = img.width
-          let height = img.height
-
-          if (width > height && width > maxSize) {
-            height = (height * maxSize) / width
-            width = maxSize
-          } else if (height > maxSize) {
-            width = (width * maxSize) / height
-            height = maxSize
-          }
-
-          canvas.width = width
-          canvas.height = height
-
-          // Draw and compress
-          ctx.drawImage(img, 0, 0, width, height)
-          
-          canvas.toBlob(
-            (blob) => {
-              if (blob) {
-                resolve(blob)
-              } else {
-                reject(new Error('Failed to compress image'))
-              }
-            },
-            'image/jpeg',
-            0.85 // 85% quality
-          )
-        }
-        img.onerror = () => reject(new Error('Failed to load image'))
-        img.src = e.target?.result as string
-      }
-      reader.onerror = () => reject(new Error('Failed to read file'))
-      reader.readAsDataURL(file)
-    })
-  }
-
   /**
    * Process selected photo
    * Compress and prepare for upload
@@ -111,6 +56,10 @@ export function PhotoUpload({ onPhotoSelected, onPhotoRemoved }: PhotoUploadProp
       const compressedBlob = await compressImage(file)
       console.log(`Compressed: ${file.size} -> ${compressedBlob.size} bytes`)
 
+      // Thumbnail from the compressed copy (already downscaled, so cheaper)
+      const thumbnailBlob = await createThumbnail(compressedBlob)
+      console.log(`Thumbnail: ${thumbnailBlob.size} bytes`)
+
       // Convert to File for upload
       const compressedFile = new File([compressedBlob], file.name, {
         type: 'image/jpeg',
@@ -120,6 +69,7 @@ export function PhotoUpload({ onPhotoSelected, onPhotoRemoved }: PhotoUploadProp
       onPhotoSelected({
         blob: compressedBlob,
         file: compressedFile,
+        thumbnail: thumbnailBlob,
       })
 
       console.log('Photo processed successfully')
@@ -0,0 +1,61 @@
+import { useId } from 'react'
+import { Label } from '@/components/ui/label'
+import { useQuery } from '@/lib/db'
+
+interface PromptPickerProps {
+  value: string | null
+  onChange: (promptId: string | null) => void
+  currentPrompt?: {
+    id: string
+    promptText: string
+  }
+  disabled?: boolean
+}
+
+/**
+ * PromptPicker Component
+ *
+ * Choose the prompt a reflection answers when editing it
+ * Lists active prompts, plus the reflection's current prompt if it's no longer active
+ */
+export function PromptPicker({ value, onChange, currentPrompt, disabled }: PromptPickerProps) {
+  const selectId = useId()
+
+  // Query approved prompts
+  const { data, isLoading } = useQuery({
+    prompts: {
+      $: {
+        where: {
+          status: 'active',
+        },
+        limit: 100,
+      },
+    },
+  })
+
+  const prompts = data?.prompts ?? []
+  const options =
+    currentPrompt && !prompts.some(({ id }) => id === currentPrompt.id)
+      ? [currentPrompt, ...prompts]
+      : prompts
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={selectId}>Prompt</Label>
+      <select
+        id={selectId}
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value || null)}
+        disabled={disabled || isLoading}
+        className="border-input h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:opacity-50"
+      >
+        <option value="">No prompt</option>
+        {options.map((prompt) => (
+          <option key={prompt.id} value={prompt.id}>
+            {prompt.promptText}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
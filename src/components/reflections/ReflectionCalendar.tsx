@@ -0,0 +1,161 @@
+import { useMemo } from 'react'
+import { getDateKey, getMonthGrid, type CalendarDay } from '@/lib/dates'
+import { useReflectionThumbnail, type ThumbnailSource } from '@/lib/reflections'
+import { cn } from '@/lib/utils'
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+const MAX_DOTS = 3
+
+export interface CalendarReflection extends ThumbnailSource {
+  createdAt: number
+  prompt?: {
+    promptText: string
+  }
+}
+
+interface ReflectionCalendarProps {
+  monthKey: string // 'YYYY-MM'
+  reflections: CalendarReflection[] // Reflections of the visible month
+  timeZone: string
+  today: string // 'YYYY-MM-DD' in the user's timezone
+  firstDay: string | null // Day of the user's first reflection (no missed days before it)
+  selectedDay?: string | null
+  onSelectDay: (dateKey: string, reflections: CalendarReflection[]) => void
+}
+
+/**
+ * ReflectionCalendar Component
+ *
+ * Month grid with a thumbnail dot for each reflection of a day and a marker
+ * on past days without one. Days follow the user's timezone.
+ */
+export function ReflectionCalendar({
+  monthKey,
+  reflections,
+  timeZone,
+  today,
+  firstDay,
+  selectedDay,
+  onSelectDay,
+}: ReflectionCalendarProps) {
+  const weeks = useMemo(() => getMonthGrid(monthKey), [monthKey])
+
+  // Reflections by local day, oldest first
+  const byDay = useMemo(() => {
+    const days = new Map<string, CalendarReflection[]>()
+    for (const reflection of [...reflections].sort((a, b) => a.createdAt - b.createdAt)) {
+      const dateKey = getDateKey(reflection.createdAt, timeZone)
+      days.set(dateKey, [...(days.get(dateKey) ?? []), reflection])
+    }
+    return days
+  }, [reflections, timeZone])
+
+  return (
+    <div>
+      <div className="grid grid-cols-7 gap-1 mb-1">
+        {WEEKDAYS.map((weekday) => (
+          <div key={weekday} className="text-center text-xs font-medium text-muted-foreground">
+            {weekday}
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-7 gap-1">
+        {weeks.flat().map((day) => (
+          <CalendarDayCell
+            key={day.dateKey}
+            day={day}
+            reflections={byDay.get(day.dateKey) ?? []}
+            isToday={day.dateKey === today}
+            isMissed={
+              day.isInMonth &&
+              day.dateKey < today &&
+              !!firstDay &&
+              day.dateKey >= firstDay &&
+              !byDay.has(day.dateKey)
+            }
+            isSelected={day.dateKey === selectedDay}
+            onSelect={onSelectDay}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
+
+interface CalendarDayCellProps {
+  day: CalendarDay
+  reflections: CalendarReflection[]
+  isToday: boolean
+  isMissed: boolean
+  isSelected: boolean
+  onSelect: (dateKey: string, reflections: CalendarReflection[]) => void
+}
+
+/**
+ * Utility: One day of the grid
+ */
+function CalendarDayCell({
+  day,
+  reflections,
+  isToday,
+  isMissed,
+  isSelected,
+  onSelect,
+}: CalendarDayCellProps) {
+  const hasReflections = reflections.length > 0
+
+  return (
+    <button
+      type="button"
+      onClick={() => onSelect(day.dateKey, reflections)}
+      disabled={!hasReflections}
+      aria-label={`${day.dateKey}: ${
+        hasReflections
+          ? `${reflections.length} reflection${reflections.length !== 1 ? 's' : ''}`
+          : isMissed
+            ? 'missed'
+            : 'no reflection'
+      }`}
+      className={cn(
+        'flex aspect-square flex-col items-center justify-between rounded-md border p-1 text-sm',
+        !day.isInMonth && 'opacity-40',
+        hasReflections ? 'hover:bg-accent cursor-pointer' : 'cursor-default',
+        isToday && 'border-primary',
+        isSelected && 'bg-accent',
+        isMissed && 'bg-muted/50'
+      )}
+    >
+      <span className={cn('self-start text-xs', isToday && 'font-semibold text-primary')}>
+        {day.day}
+      </span>
+      {hasReflections ? (
+        <span className="flex items-center gap-0.5">
+          {reflections.slice(0, MAX_DOTS).map((reflection) => (
+            <ThumbnailDot key={reflection.id} reflection={reflection} />
+          ))}
+          {reflections.length > MAX_DOTS && (
+            <span className="text-[10px] text-muted-foreground">
+              +{reflections.length - MAX_DOTS}
+            </span>
+          )}
+        </span>
+      ) : (
+        isMissed && <span className="h-1 w-3 rounded-full bg-muted-foreground/30" />
+      )}
+      <span />
+    </button>
+  )
+}
+
+/**
+ * Utility: Decrypted cover thumbnail as a dot (plain dot without a photo)
+ */
+function ThumbnailDot({ reflection }: { reflection: CalendarReflection }) {
+  const { thumbnailUrl } = useReflectionThumbnail(reflection)
+
+  return thumbnailUrl ? (
+    <img src={thumbnailUrl} alt="" className="h-5 w-5 rounded-full object-cover" />
+  ) : (
+    <span className="h-2 w-2 rounded-full bg-primary" />
+  )
+}
@@ -1,18 +1,50 @@
-import { useState } from 'react'
+import { useState, useEffect, useMemo } from 'react'
+import { Link } from '@tanstack/react-router'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
-import { Eye, EyeOff, Calendar, Sparkles } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Eye, EyeOff, Calendar, Sparkles, Loader2, Lock, Pencil, CloudOff } from 'lucide-react'
+import {
+  useEncryption,
+  openReflectionText,
+  openReflectionPhoto,
+  getEnvelopePhotoId,
+  ENVELOPE_FORMAT,
+} from '@/lib/encryption'
+import {
+  getOrderedPhotos,
+  parseMetadata,
+  useReflectionThumbnail,
+  EMPTY_METADATA,
+  type ReflectionMetadata,
+  type ReflectionPhoto,
+} from '@/lib/reflections'
+import { PhotoCarousel, type PhotoSlide } from './PhotoCarousel'
+import { ReflectionMetadataSummary } from './ReflectionMetadataSummary'
 
 interface ReflectionCardProps {
   reflection: {
     id: string
     reflectionText: string
+    encryptionIV?: string
+    encryptionAlgorithm?: string
+    photoIV?: string
+    photoType?: string
+    keyVersion?: number
+    metadata?: string
+    syncStatus?: string
     createdAt: number
     photo?: {
       id: string
       path: string
       url: string
     }
+    thumbnail?: {
+      id: string
+      path: string
+      url: string
+    }
+    photos?: ReflectionPhoto[]
     prompt?: {
       id: string
       promptText: string
@@ -23,11 +55,134 @@ interface ReflectionCardProps {
 /**
  * ReflectionCard Component
  * 
- * Displays a single reflection with photo and text
+ * Displays a single reflection with its photos, text, mood, tags and children
  * Can be collapsed/expanded
+ * The cover photo's small encrypted thumbnail is decrypted right away for the
+ * collapsed card; text, metadata, photos and captions are decrypted the first
+ * time the card is expanded
+ * Reflections saved offline are marked until their photos finish uploading
  */
 export function ReflectionCard({ reflection }: ReflectionCardProps) {
   const [isVisible, setIsVisible] = useState(false)
+  const [decryptedText, setDecryptedText] = useState<string | null>(null)
+  const [metadata, setMetadata] = useState<ReflectionMetadata>(EMPTY_METADATA)
+  const [slides, setSlides] = useState<PhotoSlide[]>([])
+  const [isDecrypting, setIsDecrypting] = useState(false)
+  const [decryptError, setDecryptError] = useState<string | null>(null)
+  const { decrypt, decryptPhoto, openText, openPhoto, isReady } = useEncryption()
+
+  // Rows saved before encryption was enabled have no algorithm and are shown as-is
+  const isEncrypted = !!reflection.encryptionAlgorithm
+  const isEnvelope = reflection.encryptionAlgorithm === ENVELOPE_FORMAT
+
+  const photos = useMemo(() => getOrderedPhotos(reflection), [reflection])
+  const { thumbnailUrl } = useReflectionThumbnail(reflection)
+
+  /**
+   * Decrypt text, photos and captions once the reflection is opened
+   */
+  useEffect(() => {
+    if (!isVisible || decryptedText !== null || decryptError) return
+
+    if (!isEncrypted) {
+      setDecryptedText(reflection.reflectionText)
+      setSlides(reflection.photo ? [{ url: reflection.photo.url }] : [])
+      return
+    }
+
+    if (!isReady) return
+
+    let cancelled = false
+
+    async function decryptReflection() {
+      const objectUrls: string[] = []
+
+      try {
+        setIsDecrypting(true)
+
+        const text = await openReflectionText(reflection, reflection.id, { openText, decrypt })
+        const decryptedMetadata =
+          isEnvelope && reflection.metadata
+            ? parseMetadata(await openText(reflection.metadata, reflection.id, 'metadata'))
+            : EMPTY_METADATA
+
+        const decryptedSlides: PhotoSlide[] = []
+        for (const photo of photos) {
+          const response = await fetch(photo.file.url)
+          if (!response.ok) {
+            throw new Error('Failed to download photo')
+          }
+          const photoBlob = await openReflectionPhoto(
+            await response.blob(),
+            reflection,
+            photo,
+            reflection.id,
+            { openPhoto, decryptPhoto }
+          )
+
+          const url = URL.createObjectURL(photoBlob)
+          objectUrls.push(url)
+          decryptedSlides.push({
+            url,
+            caption: photo.caption
+              ? await openText(photo.caption, reflection.id, 'caption', getEnvelopePhotoId(photo))
+              : undefined,
+          })
+        }
+
+        if (cancelled) {
+          for (const url of objectUrls) URL.revokeObjectURL(url)
+          return
+        }
+
+        setDecryptedText(text)
+        setMetadata(decryptedMetadata)
+        setSlides(decryptedSlides)
+      } catch (err) {
+        console.error('Error decrypting reflection:', err)
+        for (const url of objectUrls) URL.revokeObjectURL(url)
+        if (!cancelled) {
+          setDecryptError('Unable to decrypt this reflection on this device.')
+        }
+      } finally {
+        if (!cancelled) {
+          setIsDecrypting(false)
+        }
+      }
+    }
+
+    decryptReflection()
+
+    return () => {
+      cancelled = true
+    }
+  }, [
+    isVisible,
+    isReady,
+    isEncrypted,
+    isEnvelope,
+    decryptedText,
+    decryptError,
+    decrypt,
+    decryptPhoto,
+    openText,
+    openPhoto,
+    reflection,
+    photos,
+  ])
+
+  /**
+   * Release decrypted photos when the card unmounts
+   */
+  useEffect(() => {
+    return () => {
+      for (const slide of slides) {
+        if (slide.url.startsWith('blob:')) {
+          URL.revokeObjectURL(slide.url)
+        }
+      }
+    }
+  }, [slides])
 
   /**
    * Format date for display
@@ -73,7 +228,22 @@ export function ReflectionCard({ reflection }: ReflectionCardProps) {
             <CardTitle className="text-base font-medium">
               {formatDate(reflection.createdAt)}
             </CardTitle>
+            {(reflection.syncStatus === 'pending' || reflection.syncStatus === 'failed') && (
+              <Badge
+                variant={reflection.syncStatus === 'failed' ? 'destructive' : 'secondary'}
+                className="gap-1"
+              >
+                <CloudOff className="h-3 w-3" />
+                {reflection.syncStatus === 'failed' ? 'Upload failed' : 'Waiting to upload'}
+              </Badge>
+            )}
           </div>
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/reflections/$reflectionId" params={{ reflectionId: reflection.id }}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Open
+            </Link>
+          </Button>
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -87,24 +257,51 @@ export function ReflectionCard({ reflection }: ReflectionCardProps) {
           </div>
         )}
 
-        {/* Photo */}
-        {isVisible && reflection.photo?.url && (
+        {/* Cover thumbnail */}
+        {!isVisible && thumbnailUrl && (
           <div className="relative">
             <img
-              src={reflection.photo.url}
-              alt="Reflection photo"
-              className="w-full h-64 object-cover rounded-lg"
+              src={thumbnailUrl}
+              alt="Reflection thumbnail"
+              className="w-full h-40 object-cover rounded-lg"
             />
+            {photos.length > 1 && (
+              <span className="absolute bottom-2 right-2 rounded bg-black/60 px-2 py-0.5 text-xs text-white">
+                +{photos.length - 1} more
+              </span>
+            )}
           </div>
         )}
 
+        {/* Decrypting */}
+        {isVisible && isDecrypting && (
+          <div className="flex items-center justify-center gap-2 p-6 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Decrypting...
+          </div>
+        )}
+
+        {/* Decryption Error */}
+        {isVisible && decryptError && (
+          <div className="flex items-center gap-2 p-3 bg-destructive/10 text-destructive rounded-lg text-sm">
+            <Lock className="h-4 w-4 shrink-0" />
+            {decryptError}
+          </div>
+        )}
+
+        {/* Photos */}
+        {isVisible && slides.length > 0 && <PhotoCarousel photos={slides} />}
+
         {/* Text */}
-        {isVisible && reflection.reflectionText && (
+        {isVisible && decryptedText && (
           <div className="prose prose-sm max-w-none">
-            <p className="text-foreground whitespace-pre-wrap">{reflection.reflectionText}</p>
+            <p className="text-foreground whitespace-pre-wrap">{decryptedText}</p>
           </div>
         )}
 
+        {/* Mood, tags and children */}
+        {isVisible && <ReflectionMetadataSummary metadata={metadata} />}
+
         {/* Toggle Button */}
         <div className="pt-2">
           {!isVisible ? (
@@ -0,0 +1,86 @@
+import { useEffect, useMemo } from 'react'
+import { Button } from '@/components/ui/button'
+import { Loader2 } from 'lucide-react'
+import { useWindowVirtualizer, type FeedReflection } from '@/lib/feed'
+import { ReflectionCard } from './ReflectionCard'
+
+const ESTIMATED_CARD_HEIGHT = 180 // Collapsed card with a thumbnail (px)
+const CARD_GAP = 16
+const LOAD_MORE_THRESHOLD = 5 // Load the next page this many cards before the end
+
+interface ReflectionFeedProps {
+  reflections: FeedReflection[]
+  hasMore?: boolean
+  isLoadingMore?: boolean
+  error?: string | null
+  onLoadMore?: () => void
+}
+
+/**
+ * ReflectionFeed Component
+ *
+ * Virtualized list of reflection cards: only the cards near the viewport are
+ * mounted, and the next page is requested before the last card scrolls into
+ * view. A card that scrolls far away unmounts, so it opens collapsed again.
+ */
+export function ReflectionFeed({
+  reflections,
+  hasMore = false,
+  isLoadingMore = false,
+  error,
+  onLoadMore,
+}: ReflectionFeedProps) {
+  const keys = useMemo(() => reflections.map(({ id }) => id), [reflections])
+  const { listRef, items, totalSize, lastVisibleIndex, measureElement } = useWindowVirtualizer({
+    keys,
+    estimateSize: ESTIMATED_CARD_HEIGHT,
+    gap: CARD_GAP,
+  })
+
+  /**
+   * Request the next page when the end of the list comes near
+   */
+  useEffect(() => {
+    if (
+      hasMore &&
+      !isLoadingMore &&
+      !error &&
+      lastVisibleIndex >= reflections.length - LOAD_MORE_THRESHOLD
+    ) {
+      onLoadMore?.()
+    }
+  }, [hasMore, isLoadingMore, error, lastVisibleIndex, reflections.length, onLoadMore])
+
+  return (
+    <div className="space-y-4">
+      <div ref={listRef} className="relative" style={{ height: totalSize }}>
+        {items.map(({ key, index, offset }) => (
+          <div
+            key={key}
+            ref={measureElement}
+            data-virtual-key={key}
+            className="absolute inset-x-0 top-0"
+            style={{ transform: `translateY(${offset}px)` }}
+          >
+            <ReflectionCard reflection={reflections[index]} />
+          </div>
+        ))}
+      </div>
+
+      {isLoadingMore && (
+        <div className="flex items-center justify-center p-4">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      )}
+
+      {error && !isLoadingMore && (
+        <div className="flex flex-col items-center gap-2 p-4 text-sm text-muted-foreground">
+          <p>Couldn't load older reflections.</p>
+          <Button variant="outline" size="sm" onClick={onLoadMore}>
+            Try again
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,198 @@
+import { useId, useState } from 'react'
+import { Slider } from '@/components/ui/slider'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { X } from 'lucide-react'
+import {
+  normalizeChildren,
+  normalizeTags,
+  MAX_TAGS,
+  MAX_TAG_LENGTH,
+  MOOD_LABELS,
+  MOOD_MAX,
+  MOOD_MIN,
+  type ReflectionMetadata,
+} from '@/lib/reflections'
+
+interface ReflectionMetadataInputProps {
+  value: ReflectionMetadata
+  onChange: (metadata: ReflectionMetadata) => void
+  disabled?: boolean
+}
+
+interface ChipInputProps {
+  id: string
+  label: string
+  placeholder: string
+  values: string[]
+  normalize: (values: string[]) => string[]
+  onChange: (values: string[]) => void
+  disabled?: boolean
+}
+
+/**
+ * ReflectionMetadataInput Component
+ *
+ * Optional mood, tags and children for a reflection. The mood starts unset
+ * ("Not set", one button per mood and no slider thumb); picking one shows the
+ * slider and "Clear" unsets it again. Tags and names are added with Enter or
+ * a comma and removed with their × button.
+ */
+export function ReflectionMetadataInput({
+  value,
+  onChange,
+  disabled = false,
+}: ReflectionMetadataInputProps) {
+  const id = useId()
+  const moods = Array.from({ length: MOOD_MAX - MOOD_MIN + 1 }, (_, index) => MOOD_MIN + index)
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label id={`${id}-mood-label`} htmlFor={value.mood === null ? undefined : `${id}-mood`}>
+            Mood
+          </Label>
+          <div className="flex items-center gap-2 text-sm">
+            <span className={value.mood === null ? 'text-muted-foreground' : 'font-medium'}>
+              {value.mood === null ? 'Not set' : MOOD_LABELS[value.mood]}
+            </span>
+            {value.mood !== null && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => onChange({ ...value, mood: null })}
+                disabled={disabled}
+              >
+                Clear
+              </Button>
+            )}
+          </div>
+        </div>
+        {value.mood === null ? (
+          <fieldset aria-labelledby={`${id}-mood-label`} className="flex flex-wrap gap-2">
+            {moods.map((mood) => (
+              <Button
+                key={mood}
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => onChange({ ...value, mood })}
+                disabled={disabled}
+              >
+                {MOOD_LABELS[mood]}
+              </Button>
+            ))}
+          </fieldset>
+        ) : (
+          <>
+            <Slider
+              id={`${id}-mood`}
+              aria-labelledby={`${id}-mood-label`}
+              min={MOOD_MIN}
+              max={MOOD_MAX}
+              step={1}
+              value={[value.mood]}
+              onValueChange={([mood]) => onChange({ ...value, mood })}
+              disabled={disabled}
+            />
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>{MOOD_LABELS[MOOD_MIN]}</span>
+              <span>{MOOD_LABELS[MOOD_MAX]}</span>
+            </div>
+          </>
+        )}
+      </div>
+
+      <ChipInput
+        id={`${id}-tags`}
+        label="Tags"
+        placeholder="e.g. beach, birthday"
+        values={value.tags}
+        normalize={normalizeTags}
+        onChange={(tags) => onChange({ ...value, tags })}
+        disabled={disabled}
+      />
+
+      <ChipInput
+        id={`${id}-children`}
+        label="Children"
+        placeholder="Who was this about?"
+        values={value.children}
+        normalize={normalizeChildren}
+        onChange={(children) => onChange({ ...value, children })}
+        disabled={disabled}
+      />
+    </div>
+  )
+}
+
+/**
+ * ChipInput Component
+ *
+ * Text box that turns entries into removable chips
+ */
+function ChipInput({
+  id,
+  label,
+  placeholder,
+  values,
+  normalize,
+  onChange,
+  disabled,
+}: ChipInputProps) {
+  const [entry, setEntry] = useState('')
+  const isFull = values.length >= MAX_TAGS
+
+  const addEntry = () => {
+    if (!entry.trim()) return
+    onChange(normalize([...values, ...entry.split(',')]))
+    setEntry('')
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault()
+      addEntry()
+    } else if (e.key === 'Backspace' && !entry && values.length > 0) {
+      onChange(values.slice(0, -1))
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      {values.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {values.map((value) => (
+            <Badge key={value} variant="secondary" className="gap-1 pr-1">
+              {value}
+              <button
+                type="button"
+                onClick={() => onChange(values.filter((other) => other !== value))}
+                disabled={disabled}
+                className="rounded-full p-0.5 hover:bg-muted-foreground/20"
+                aria-label={`Remove ${value}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        id={id}
+        value={entry}
+        onChange={(e) => setEntry(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={addEntry}
+        placeholder={isFull ? `Up to ${MAX_TAGS}` : placeholder}
+        maxLength={MAX_TAG_LENGTH}
+        disabled={disabled || isFull}
+      />
+    </div>
+  )
+}
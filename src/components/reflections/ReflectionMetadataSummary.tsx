@@ -0,0 +1,53 @@
+import { Badge } from '@/components/ui/badge'
+import { Smile, Tag, Users } from 'lucide-react'
+import { isEmptyMetadata, MOOD_LABELS, MOOD_MAX, type ReflectionMetadata } from '@/lib/reflections'
+
+interface ReflectionMetadataSummaryProps {
+  metadata: ReflectionMetadata
+}
+
+/**
+ * ReflectionMetadataSummary Component
+ *
+ * Decrypted mood, tags and children of a reflection, one row each.
+ * Renders nothing when the reflection has none.
+ */
+export function ReflectionMetadataSummary({ metadata }: ReflectionMetadataSummaryProps) {
+  if (isEmptyMetadata(metadata)) {
+    return null
+  }
+
+  return (
+    <div className="space-y-2 text-sm">
+      {metadata.mood !== null && (
+        <div className="flex items-center gap-2">
+          <Smile className="h-4 w-4 text-muted-foreground shrink-0" />
+          <span>
+            {MOOD_LABELS[metadata.mood]}{' '}
+            <span className="text-muted-foreground">
+              ({metadata.mood}/{MOOD_MAX})
+            </span>
+          </span>
+        </div>
+      )}
+      {metadata.tags.length > 0 && (
+        <div className="flex items-center gap-2">
+          <Tag className="h-4 w-4 text-muted-foreground shrink-0" />
+          <div className="flex flex-wrap gap-1">
+            {metadata.tags.map((tag) => (
+              <Badge key={tag} variant="secondary">
+                {tag}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+      {metadata.children.length > 0 && (
+        <div className="flex items-center gap-2">
+          <Users className="h-4 w-4 text-muted-foreground shrink-0" />
+          <span>{metadata.children.join(', ')}</span>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,124 @@
+import { useId, useState } from 'react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Loader2, Search, X } from 'lucide-react'
+import type { SearchIndexProgress, SearchQuery } from '@/lib/search'
+
+interface ReflectionSearchProps {
+  onSearch: (query: SearchQuery) => void
+  isIndexing?: boolean
+  progress?: SearchIndexProgress | null
+}
+
+/**
+ * ReflectionSearch Component
+ *
+ * Search box for the dashboard: words (matched against reflection and prompt
+ * text) and an optional date range. Searching happens in the local index,
+ * so the query never leaves the device.
+ */
+export function ReflectionSearch({ onSearch, isIndexing, progress }: ReflectionSearchProps) {
+  const textId = useId()
+  const fromId = useId()
+  const toId = useId()
+  const [text, setText] = useState('')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+
+  const update = (next: { text?: string; from?: string; to?: string }) => {
+    const values = { text, from, to, ...next }
+    setText(values.text)
+    setFrom(values.from)
+    setTo(values.to)
+    onSearch({
+      text: values.text,
+      from: values.from ? parseDateInput(values.from).getTime() : undefined,
+      to: values.to ? endOfDay(parseDateInput(values.to)).getTime() : undefined,
+    })
+  }
+
+  const hasQuery = !!(text || from || to)
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="space-y-2">
+          <Label htmlFor={textId} className="sr-only">
+            Search reflections
+          </Label>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              id={textId}
+              type="search"
+              placeholder="Search your reflections..."
+              value={text}
+              onChange={(e) => update({ text: e.target.value })}
+              className="pl-9"
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor={fromId} className="text-xs text-muted-foreground">
+              From
+            </Label>
+            <Input
+              id={fromId}
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={(e) => update({ from: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={toId} className="text-xs text-muted-foreground">
+              To
+            </Label>
+            <Input
+              id={toId}
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(e) => update({ to: e.target.value })}
+            />
+          </div>
+          {hasQuery && (
+            <Button variant="ghost" size="sm" onClick={() => update({ text: '', from: '', to: '' })}>
+              <X className="h-4 w-4 mr-1" />
+              Clear
+            </Button>
+          )}
+        </div>
+
+        {isIndexing && progress && progress.total > 0 && (
+          <p className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Indexing reflections on this device ({progress.completed + progress.failed} of{' '}
+            {progress.total})...
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Utility: Local midnight for a date input value (YYYY-MM-DD)
+ */
+function parseDateInput(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+/**
+ * Utility: Last millisecond of the same local day
+ */
+function endOfDay(date: Date): Date {
+  const end = new Date(date)
+  end.setHours(23, 59, 59, 999)
+  return end
+}
@@ -2,6 +2,8 @@ import { CheckCircle2, Calendar } from 'lucide-react'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { useQuery } from '@/lib/db'
+import { useTimeZone, getDateKey, getStartOfDay } from '@/lib/dates'
+import { useStreak } from '@/lib/streaks'
 
 interface ReflectionStatusProps {
   userProfileId: string
@@ -12,74 +14,45 @@ interface ReflectionStatusProps {
  * 
  * Shows if user has completed today's reflection
  * Displays completion status and streak information
+ * Days are counted in the user's stored timezone; the streak and the total
+ * come from the backend (same numbers as in emails), so only today's
+ * reflections are queried here
  */
 export function ReflectionStatus({ userProfileId }: ReflectionStatusProps) {
-  // Query today's reflections
-  const { data, isLoading } = useQuery({
-    reflections: {
-      $: {
-        where: {
-          'user.id': userProfileId,
-        },
-      },
-      user: {},
-    },
-  })
-
-  /**
-   * Check if user has completed reflection today
-   */
-  const hasCompletedToday = (): boolean => {
-    if (!data?.reflections) return false
-
-    const today = new Date()
-    today.setHours(0, 0, 0, 0)
-    const todayTimestamp = today.getTime()
-
-    return data.reflections.some((reflection) => {
-      const reflectionDate = new Date(reflection.createdAt)
-      reflectionDate.setHours(0, 0, 0, 0)
-      return reflectionDate.getTime() === todayTimestamp
-    })
-  }
-
-  /**
-   * Calculate reflection streak
-   */
-  const getStreak = (): number => {
-    if (!data?.reflections || data.reflections.length === 0) return 0
-
-    // Sort reflections by date (newest first)
-    const sorted = [...data.reflections].sort((a, b) => b.createdAt - a.createdAt)
-
-    let streak = 0
-    let currentDate = new Date()
-    currentDate.setHours(0, 0, 0, 0)
-
-    for (const reflection of sorted) {
-      const reflectionDate = new Date(reflection.createdAt)
-      reflectionDate.setHours(0, 0, 0, 0)
-
-      const expectedDate = new Date(currentDate)
-      expectedDate.setDate(expectedDate.getDate() - streak)
-      expectedDate.setHours(0, 0, 0, 0)
-
-      if (reflectionDate.getTime() === expectedDate.getTime()) {
-        streak++
-      } else {
-        break
-      }
-    }
-
-    return streak
-  }
+  const { timeZone, isLoading: isLoadingTimeZone } = useTimeZone(userProfileId)
+  const {
+    currentStreak,
+    longestStreak,
+    graceDaysUsed,
+    milestones,
+    nextMilestone,
+    totalReflections,
+  } = useStreak(userProfileId)
+
+  // Query today's reflections (in the user's timezone), one is enough
+  const { data, isLoading } = useQuery(
+    isLoadingTimeZone
+      ? null
+      : {
+          reflections: {
+            $: {
+              where: {
+                'user.id': userProfileId,
+                createdAt: { $gte: getStartOfDay(getDateKey(Date.now(), timeZone), timeZone) },
+              },
+              fields: ['createdAt'],
+              limit: 1,
+            },
+          },
+        }
+  )
 
-  if (isLoading) {
+  if (isLoadingTimeZone || isLoading) {
     return null
   }
 
-  const completedToday = hasCompletedToday()
-  const streak = getStreak()
+  const completedToday = (data?.reflections?.length ?? 0) > 0
+  const latestMilestone = milestones[0]
 
   return (
     <Card>
@@ -100,14 +73,31 @@ export function ReflectionStatus({ userProfileId }: ReflectionStatusProps) {
                 {completedToday ? "Today's reflection complete!" : 'No reflection yet today'}
               </p>
               <p className="text-sm text-muted-foreground">
-                {data?.reflections?.length || 0} total reflections
+                {totalReflections ?? 0} total reflections
+                {longestStreak > 0 && ` · Best streak: ${longestStreak} days`}
               </p>
             </div>
           </div>
-          {streak > 0 && (
-            <Badge variant="secondary" className="gap-1">
-              🔥 {streak} day{streak !== 1 ? 's' : ''}
-            </Badge>
+          {currentStreak > 0 && (
+            <div className="flex flex-col items-end gap-1">
+              <Badge variant="secondary" className="gap-1">
+                🔥 {currentStreak} day{currentStreak !== 1 ? 's' : ''}
+              </Badge>
+              {latestMilestone?.days === currentStreak ? (
+                <span className="text-xs text-primary">🏆 {latestMilestone.days}-day milestone!</span>
+              ) : (
+                nextMilestone && (
+                  <span className="text-xs text-muted-foreground">
+                    {nextMilestone - currentStreak} to {nextMilestone}
+                  </span>
+                )
+              )}
+              {graceDaysUsed > 0 && (
+                <span className="text-xs text-muted-foreground">
+                  {graceDaysUsed} grace day{graceDaysUsed !== 1 ? 's' : ''} used this week
+                </span>
+              )}
+            </div>
           )}
         </div>
       </CardContent>
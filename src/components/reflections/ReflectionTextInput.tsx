@@ -4,6 +4,7 @@ import { Label } from '@/components/ui/label'
 
 interface ReflectionTextInputProps {
   onTextChanged: (text: string) => void
+  initialText?: string // Existing text when editing a reflection
   placeholder?: string
   maxLength?: number
 }
@@ -15,10 +16,11 @@ interface ReflectionTextInputProps {
  */
 export function ReflectionTextInput({
   onTextChanged,
+  initialText = '',
   placeholder = "What made today special? What are you grateful for? How are you feeling?",
   maxLength = 2000,
 }: ReflectionTextInputProps) {
-  const [text, setText] = useState('')
+  const [text, setText] = useState(initialText)
 
   const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const newText = e.target.value
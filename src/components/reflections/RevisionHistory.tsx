@@ -0,0 +1,147 @@
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { History, Eye, EyeOff, Loader2, RotateCcw, Lock } from 'lucide-react'
+import type { ReflectionRevision } from '@/lib/reflections'
+
+interface RevisionHistoryProps {
+  revisions: ReflectionRevision[] // Newest first
+  readText: (revision: ReflectionRevision) => Promise<string>
+  onRestore: (revision: ReflectionRevision) => Promise<void>
+  disabled?: boolean
+}
+
+/**
+ * RevisionHistory Component
+ *
+ * Earlier versions of a reflection. Each one is decrypted only when opened,
+ * and can be restored (the current version is kept as a revision).
+ */
+export function RevisionHistory({
+  revisions,
+  readText,
+  onRestore,
+  disabled,
+}: RevisionHistoryProps) {
+  const [openId, setOpenId] = useState<string | null>(null)
+  const [texts, setTexts] = useState<Record<string, string>>({})
+  const [loadingId, setLoadingId] = useState<string | null>(null)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleToggle = async (revision: ReflectionRevision) => {
+    if (openId === revision.id) {
+      setOpenId(null)
+      return
+    }
+
+    setOpenId(revision.id)
+    setError(null)
+    if (texts[revision.id] !== undefined) return
+
+    try {
+      setLoadingId(revision.id)
+      const text = await readText(revision)
+      setTexts((current) => ({ ...current, [revision.id]: text }))
+    } catch (err) {
+      console.error('Error decrypting revision:', err)
+      setError('Unable to decrypt this version on this device.')
+    } finally {
+      setLoadingId(null)
+    }
+  }
+
+  const handleRestore = async (revision: ReflectionRevision) => {
+    try {
+      setRestoringId(revision.id)
+      setError(null)
+      await onRestore(revision)
+      setOpenId(null)
+    } catch (err) {
+      console.error('Error restoring revision:', err)
+      setError(err instanceof Error ? err.message : 'Failed to restore this version')
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <History className="h-5 w-5" />
+          Edit History
+        </CardTitle>
+        <CardDescription>
+          Earlier versions are kept encrypted, so an accidental change can be undone.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && (
+          <Alert variant="destructive">
+            <Lock className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No earlier versions yet.</p>
+        ) : (
+          revisions.map((revision) => (
+            <div key={revision.id} className="rounded-lg border p-3 space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm">
+                  {new Date(revision.createdAt).toLocaleString('en-US', {
+                    month: 'short',
+                    day: 'numeric',
+                    year: 'numeric',
+                    hour: 'numeric',
+                    minute: '2-digit',
+                  })}
+                </span>
+                <div className="flex items-center gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => handleToggle(revision)}>
+                    {openId === revision.id ? (
+                      <EyeOff className="h-4 w-4 mr-1" />
+                    ) : (
+                      <Eye className="h-4 w-4 mr-1" />
+                    )}
+                    {openId === revision.id ? 'Hide' : 'View'}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRestore(revision)}
+                    disabled={disabled || restoringId !== null}
+                  >
+                    {restoringId === revision.id ? (
+                      <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                    ) : (
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                    )}
+                    Restore
+                  </Button>
+                </div>
+              </div>
+
+              {openId === revision.id &&
+                (loadingId === revision.id ? (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Decrypting...
+                  </div>
+                ) : (
+                  texts[revision.id] !== undefined && (
+                    <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                      {texts[revision.id]}
+                    </p>
+                  )
+                ))}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -5,8 +5,21 @@
  */
 
 export { PhotoUpload } from './PhotoUpload'
+export { MultiPhotoUpload } from './MultiPhotoUpload'
+export { PhotoCarousel, type PhotoSlide } from './PhotoCarousel'
 export { ReflectionTextInput } from './ReflectionTextInput'
+export { ReflectionMetadataInput } from './ReflectionMetadataInput'
+export { ReflectionMetadataSummary } from './ReflectionMetadataSummary'
 export { DailyPrompt } from './DailyPrompt'
 export { ReflectionStatus } from './ReflectionStatus'
 export { ReflectionCard } from './ReflectionCard'
+export { ReflectionFeed } from './ReflectionFeed'
+export { OnThisDayCard } from './OnThisDayCard'
 
+export { ReflectionSearch } from './ReflectionSearch'
+export { PromptPicker } from './PromptPicker'
+export { RevisionHistory } from './RevisionHistory'
+export { DeleteReflectionDialog } from './DeleteReflectionDialog'
+export { DraftStatus } from './DraftStatus'
+export { OutboxStatus } from './OutboxStatus'
+export { ReflectionCalendar, type CalendarReflection } from './ReflectionCalendar'
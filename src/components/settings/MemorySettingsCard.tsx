@@ -0,0 +1,78 @@
+import { useId, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { History, Loader2 } from 'lucide-react'
+import { useUserSettings } from '@/lib/settings'
+
+interface MemorySettingsCardProps {
+  userProfileId: string
+}
+
+/**
+ * MemorySettingsCard Component
+ *
+ * Lets the user choose whether "On this day" (dashboard and email summaries)
+ * also looks back 1 and 6 months, not only whole years.
+ */
+export function MemorySettingsCard({ userProfileId }: MemorySettingsCardProps) {
+  const id = useId()
+  const { settings, isLoading, updateSettings } = useUserSettings(userProfileId)
+  const [isUpdating, setIsUpdating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const includeMonths = settings?.memoriesIncludeMonths ?? false
+
+  const handleChange = async (enabled: boolean) => {
+    try {
+      setIsUpdating(true)
+      setError(null)
+      await updateSettings({ memoriesIncludeMonths: enabled })
+    } catch (err) {
+      console.error('Error saving memory settings:', err)
+      setError(err instanceof Error ? err.message : 'Failed to save memory settings')
+    } finally {
+      setIsUpdating(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          On this day
+        </CardTitle>
+        <CardDescription>
+          Reflections from the same day in earlier years, on your dashboard and in email summaries
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading...
+          </div>
+        ) : (
+          <div className="flex items-center gap-3">
+            <input
+              id={`${id}-months`}
+              type="checkbox"
+              checked={includeMonths}
+              disabled={isUpdating}
+              onChange={(e) => handleChange(e.target.checked)}
+              className="h-4 w-4 accent-primary"
+            />
+            <Label htmlFor={`${id}-months`}>Also show 1 and 6 months ago</Label>
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,125 @@
+import { useId } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Bell, BellOff, Loader2 } from 'lucide-react'
+import { useReminders } from '@/lib/reminders'
+
+interface ReminderSettingsCardProps {
+  userProfileId: string
+}
+
+/**
+ * ReminderSettingsCard Component
+ *
+ * Turns the daily reminder notification on or off and sets its time. The
+ * reminder only arrives on days without a reflection yet.
+ */
+export function ReminderSettingsCard({ userProfileId }: ReminderSettingsCardProps) {
+  const timeId = useId()
+  const {
+    isSupported,
+    isEnabled,
+    isSubscribedHere,
+    deviceCount,
+    reminderTime,
+    timezone,
+    permission,
+    isLoading,
+    isUpdating,
+    error,
+    enableReminders,
+    disableReminders,
+    setReminderTime,
+  } = useReminders(userProfileId)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bell className="h-5 w-5" />
+          Daily Reminder
+        </CardTitle>
+        <CardDescription>
+          A gentle nudge at the time you choose, only on days you haven't reflected yet
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!isSupported ? (
+          <p className="text-sm text-muted-foreground">
+            Reminders aren't available in this browser. On iPhone and iPad, add Reflections to
+            your Home Screen first.
+          </p>
+        ) : isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading...
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-2">
+                <Label htmlFor={timeId}>Remind me at</Label>
+                <Input
+                  id={timeId}
+                  type="time"
+                  step={15 * 60}
+                  value={reminderTime}
+                  onChange={(e) => e.target.value && setReminderTime(e.target.value)}
+                  disabled={isUpdating}
+                  className="w-36"
+                />
+              </div>
+              {isEnabled && isSubscribedHere ? (
+                <Button variant="outline" onClick={disableReminders} disabled={isUpdating}>
+                  {isUpdating ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <BellOff className="h-4 w-4 mr-2" />
+                  )}
+                  Turn Off
+                </Button>
+              ) : (
+                <Button
+                  onClick={() => enableReminders(reminderTime)}
+                  disabled={isUpdating || permission === 'denied'}
+                >
+                  {isUpdating ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Bell className="h-4 w-4 mr-2" />
+                  )}
+                  {isEnabled ? 'Remind Me on This Device' : 'Turn On'}
+                </Button>
+              )}
+            </div>
+
+            {isEnabled && (
+              <p className="text-sm text-muted-foreground">
+                On for {deviceCount === 1 ? '1 device' : `${deviceCount} devices`}
+                {timezone ? ` (${timezone} time)` : ''}.
+              </p>
+            )}
+
+            {permission === 'denied' && (
+              <Alert>
+                <AlertDescription>
+                  Notifications are blocked for this site. Allow them in your browser settings to
+                  get reminders here.
+                </AlertDescription>
+              </Alert>
+            )}
+          </>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
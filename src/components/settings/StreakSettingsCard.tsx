@@ -0,0 +1,102 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Flame, Loader2 } from 'lucide-react'
+import { useUserSettings } from '@/lib/settings'
+import { useStreak, normalizeGraceDays, MAX_GRACE_DAYS } from '@/lib/streaks'
+
+interface StreakSettingsCardProps {
+  userProfileId: string
+}
+
+const GRACE_DAY_OPTIONS = Array.from({ length: MAX_GRACE_DAYS + 1 }, (_, days) => days)
+
+/**
+ * StreakSettingsCard Component
+ *
+ * Shows the current and longest streak and lets the user choose how many
+ * missed days per week their streak survives.
+ */
+export function StreakSettingsCard({ userProfileId }: StreakSettingsCardProps) {
+  const { settings, isLoading, updateSettings } = useUserSettings(userProfileId)
+  const { currentStreak, longestStreak, milestones, refresh } = useStreak(userProfileId)
+  const [isUpdating, setIsUpdating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const graceDays = normalizeGraceDays(settings?.streakGraceDays)
+
+  const handleChange = async (days: number) => {
+    try {
+      setIsUpdating(true)
+      setError(null)
+      await updateSettings({ streakGraceDays: days })
+      await refresh()
+    } catch (err) {
+      console.error('Error saving grace days:', err)
+      setError(err instanceof Error ? err.message : 'Failed to save grace days')
+    } finally {
+      setIsUpdating(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Flame className="h-5 w-5" />
+          Streak
+        </CardTitle>
+        <CardDescription>
+          Grace days keep your streak going when you miss a day now and then
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-6 text-sm">
+          <div>
+            <p className="text-2xl font-semibold">{currentStreak}</p>
+            <p className="text-muted-foreground">Current</p>
+          </div>
+          <div>
+            <p className="text-2xl font-semibold">{longestStreak}</p>
+            <p className="text-muted-foreground">Longest</p>
+          </div>
+          <div>
+            <p className="text-2xl font-semibold">{milestones.length}</p>
+            <p className="text-muted-foreground">Milestones</p>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading...
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Grace days per week</p>
+            <div className="flex gap-2">
+              {GRACE_DAY_OPTIONS.map((days) => (
+                <Button
+                  key={days}
+                  variant={days === graceDays ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => handleChange(days)}
+                  disabled={isUpdating || days === graceDays}
+                >
+                  {days}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,78 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Globe, Loader2 } from 'lucide-react'
+import { useTimeZone } from '@/lib/dates'
+
+interface TimeZoneSettingsCardProps {
+  userProfileId: string
+}
+
+/**
+ * TimeZoneSettingsCard Component
+ *
+ * Shows the timezone the user's days are counted in (daily prompt, streak,
+ * reminders) and offers to switch when this device is somewhere else.
+ */
+export function TimeZoneSettingsCard({ userProfileId }: TimeZoneSettingsCardProps) {
+  const { timeZone, deviceTimeZone, isAway, isLoading, setTimeZone } = useTimeZone(userProfileId)
+  const [isUpdating, setIsUpdating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSwitch = async () => {
+    try {
+      setIsUpdating(true)
+      setError(null)
+      await setTimeZone(deviceTimeZone)
+    } catch (err) {
+      console.error('Error saving timezone:', err)
+      setError(err instanceof Error ? err.message : 'Failed to save timezone')
+    } finally {
+      setIsUpdating(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Globe className="h-5 w-5" />
+          Time Zone
+        </CardTitle>
+        <CardDescription>
+          Your day starts at midnight here: it sets your daily prompt, streak and reminder time
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading...
+          </div>
+        ) : (
+          <p className="font-medium">{timeZone.replace(/_/g, ' ')}</p>
+        )}
+
+        {isAway && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              This device is set to {deviceTimeZone.replace(/_/g, ' ')}. Travelling? Your days
+              keep following your home timezone until you switch, so your streak stays intact.
+            </p>
+            <Button variant="outline" onClick={handleSwitch} disabled={isUpdating}>
+              {isUpdating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Switch to {deviceTimeZone.replace(/_/g, ' ')}
+            </Button>
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,10 @@
+/**
+ * Settings Components
+ *
+ * Components for the user's preferences
+ */
+
+export { ReminderSettingsCard } from './ReminderSettingsCard'
+export { TimeZoneSettingsCard } from './TimeZoneSettingsCard'
+export { StreakSettingsCard } from './StreakSettingsCard'
+export { MemorySettingsCard } from './MemorySettingsCard'
@@ -21,6 +21,10 @@ export const env = createEnv({
     
     // InstantDB Admin Token (server-side)
     INSTANT_APP_ADMIN_TOKEN: z.string().min(1),
+    
+    // Web Push (daily reminders are off until these are set)
+    VAPID_PRIVATE_KEY: z.string().min(1).optional(),
+    VAPID_SUBJECT: z.string().min(1).optional(), // 'mailto:' or https URL push services can contact
   },
 
   /**
@@ -37,6 +41,9 @@ export const env = createEnv({
     
     // Stripe (client-side publishable key)
     VITE_STRIPE_PUBLISHABLE_KEY: z.string().min(1),
+    
+    // Web Push (public half of the VAPID key pair)
+    VITE_VAPID_PUBLIC_KEY: z.string().min(1).optional(),
   },
 
   /**
@@ -52,9 +59,12 @@ export const env = createEnv({
     INNGEST_EVENT_KEY: process.env.INNGEST_EVENT_KEY,
     OPENAI_API_KEY: process.env.OPENAI_API_KEY,
     INSTANT_APP_ADMIN_TOKEN: process.env.INSTANT_APP_ADMIN_TOKEN,
+    VAPID_PRIVATE_KEY: process.env.VAPID_PRIVATE_KEY,
+    VAPID_SUBJECT: process.env.VAPID_SUBJECT,
     VITE_APP_TITLE: import.meta.env.VITE_APP_TITLE,
     VITE_INSTANTDB_APP_ID: import.meta.env.VITE_INSTANTDB_APP_ID,
     VITE_STRIPE_PUBLISHABLE_KEY: import.meta.env.VITE_STRIPE_PUBLISHABLE_KEY,
+    VITE_VAPID_PUBLIC_KEY: import.meta.env.VITE_VAPID_PUBLIC_KEY,
   },
 
   /**
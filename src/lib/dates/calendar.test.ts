@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getMonthGrid,
+  getMonthKey,
+  getMonthRange,
+  getStartOfDay,
+  isMonthKey,
+  shiftDateKeyByMonths,
+  shiftMonthKey,
+} from './calendar'
+
+describe('Calendar', () => {
+  it('should move between months and years', () => {
+    expect(shiftMonthKey('2025-12', 1)).toBe('2026-01')
+    expect(shiftMonthKey('2025-01', -1)).toBe('2024-12')
+    expect(shiftMonthKey('2025-03', -15)).toBe('2023-12')
+    expect(() => shiftMonthKey('2025-13', 1)).toThrow('Invalid month key')
+    expect(isMonthKey('2025-03')).toBe(true)
+    expect(isMonthKey('2025-3')).toBe(false)
+  })
+
+  it('should move days by months, clamped to shorter months', () => {
+    expect(shiftDateKeyByMonths('2025-10-18', -1)).toBe('2025-09-18')
+    expect(shiftDateKeyByMonths('2025-10-18', -6)).toBe('2025-04-18')
+    expect(shiftDateKeyByMonths('2025-03-31', -1)).toBe('2025-02-28')
+    expect(shiftDateKeyByMonths('2024-02-29', -12)).toBe('2023-02-28')
+    expect(shiftDateKeyByMonths('2024-02-29', -48)).toBe('2020-02-29')
+  })
+
+  it("should read the month in the user's timezone", () => {
+    // 2025-04-01 02:00 UTC is still March in New York
+    expect(getMonthKey(Date.UTC(2025, 3, 1, 2, 0), 'America/New_York')).toBe('2025-03')
+    expect(getMonthKey(Date.UTC(2025, 3, 1, 2, 0), 'Europe/Berlin')).toBe('2025-04')
+  })
+
+  it('should lay a month out in whole weeks', () => {
+    // March 2025 starts on a Saturday
+    const sundayFirst = getMonthGrid('2025-03')
+    expect(sundayFirst).toHaveLength(6)
+    expect(sundayFirst[0][0]).toEqual({ dateKey: '2025-02-23', day: 23, isInMonth: false })
+    expect(sundayFirst[0][6]).toEqual({ dateKey: '2025-03-01', day: 1, isInMonth: true })
+    expect(sundayFirst.flat().filter((day) => day.isInMonth)).toHaveLength(31)
+
+    const mondayFirst = getMonthGrid('2025-03', 1)
+    expect(mondayFirst[0][0].dateKey).toBe('2025-02-24')
+    expect(mondayFirst[0][5].dateKey).toBe('2025-03-01')
+
+    // February 2026 starts on a Sunday and fills exactly four weeks
+    expect(getMonthGrid('2026-02')).toHaveLength(4)
+  })
+
+  it('should bound a month by local midnight, across DST', () => {
+    expect(getMonthRange('2025-03', 'America/New_York')).toEqual({
+      start: Date.UTC(2025, 2, 1, 5, 0), // EST
+      end: Date.UTC(2025, 3, 1, 4, 0), // EDT
+    })
+    expect(getMonthRange('2025-10', 'Europe/Berlin')).toEqual({
+      start: Date.UTC(2025, 8, 30, 22, 0), // CEST
+      end: Date.UTC(2025, 9, 31, 23, 0), // CET
+    })
+    expect(getMonthRange('2025-06', 'UTC')).toEqual({
+      start: Date.UTC(2025, 5, 1),
+      end: Date.UTC(2025, 6, 1),
+    })
+  })
+
+  it('should start the day at the first moment when midnight is skipped', () => {
+    // Santiago jumps from 00:00 to 01:00 on 2025-09-07
+    expect(getStartOfDay('2025-09-07', 'America/Santiago')).toBe(Date.UTC(2025, 8, 7, 4, 0))
+    expect(getStartOfDay('2025-09-08', 'America/Santiago')).toBe(Date.UTC(2025, 8, 8, 3, 0))
+  })
+})
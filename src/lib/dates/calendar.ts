@@ -0,0 +1,157 @@
+/**
+ * Calendar
+ *
+ * Month grids and month ranges in the user's timezone. A month is
+ * 'YYYY-MM'; its range runs from local midnight on the 1st to local midnight
+ * on the 1st of the next month, so a query on the indexed `createdAt` only
+ * loads the reflections the grid shows.
+ */
+
+import { getDateKey, getDaysBetween, getLocalTime, shiftDateKey } from './dayKeys'
+
+export interface CalendarDay {
+  dateKey: string // 'YYYY-MM-DD'
+  day: number // Day of the month
+  isInMonth: boolean // False for the leading/trailing days of neighbouring months
+}
+
+export interface MonthRange {
+  start: number // Local midnight on the 1st (Unix ms, inclusive)
+  end: number // Local midnight on the 1st of the next month (exclusive)
+}
+
+const MONTH_KEY_PATTERN = /^(\d{4})-(0[1-9]|1[0-2])$/
+
+/**
+ * Check whether a string is a month key
+ *
+ * @param monthKey - Candidate 'YYYY-MM'
+ * @returns boolean
+ */
+export function isMonthKey(monthKey: unknown): monthKey is string {
+  return typeof monthKey === 'string' && MONTH_KEY_PATTERN.test(monthKey)
+}
+
+/**
+ * The month a moment falls in
+ *
+ * @param timestamp - Unix timestamp (ms)
+ * @param timeZone - IANA timezone
+ * @returns string - 'YYYY-MM'
+ */
+export function getMonthKey(timestamp: number, timeZone: string): string {
+  return getDateKey(timestamp, timeZone).slice(0, 7)
+}
+
+/**
+ * Move a month key by whole months
+ *
+ * @param monthKey - 'YYYY-MM'
+ * @param months - Months to add (negative to go back)
+ * @returns string - 'YYYY-MM'
+ */
+export function shiftMonthKey(monthKey: string, months: number): string {
+  const [year, month] = parseMonthKey(monthKey)
+  const index = year * 12 + (month - 1) + months
+  const nextYear = Math.floor(index / 12)
+  const nextMonth = index - nextYear * 12 + 1
+  return `${String(nextYear).padStart(4, '0')}-${String(nextMonth).padStart(2, '0')}`
+}
+
+/**
+ * Move a date key by whole months, keeping its day of the month
+ *
+ * @param dateKey - 'YYYY-MM-DD'
+ * @param months - Months to add (negative to go back, -12 for a year)
+ * @returns string - 'YYYY-MM-DD', on the last day of shorter months
+ *   (Mar 31 → Feb 28, Feb 29 → Feb 28 a year later)
+ */
+export function shiftDateKeyByMonths(dateKey: string, months: number): string {
+  const monthKey = shiftMonthKey(dateKey.slice(0, 7), months)
+  const length = getDaysBetween(`${monthKey}-01`, `${shiftMonthKey(monthKey, 1)}-01`)
+  const day = Math.min(Number(dateKey.slice(8, 10)), length)
+  return `${monthKey}-${String(day).padStart(2, '0')}`
+}
+
+/**
+ * Days of a month laid out in whole weeks
+ *
+ * @param monthKey - 'YYYY-MM'
+ * @param weekStartsOn - 0 for Sunday, 1 for Monday
+ * @returns CalendarDay[][] - Weeks of 7 days
+ */
+export function getMonthGrid(monthKey: string, weekStartsOn: 0 | 1 = 0): CalendarDay[][] {
+  const first = `${monthKey}-01`
+  const next = `${shiftMonthKey(monthKey, 1)}-01`
+  const leading = (getWeekday(first) - weekStartsOn + 7) % 7
+  const length = getDaysBetween(first, next)
+  const total = Math.ceil((leading + length) / 7) * 7
+
+  const weeks: CalendarDay[][] = []
+  for (let index = 0; index < total; index++) {
+    const dateKey = shiftDateKey(first, index - leading)
+    if (index % 7 === 0) {
+      weeks.push([])
+    }
+    weeks[weeks.length - 1].push({
+      dateKey,
+      day: Number(dateKey.slice(8, 10)),
+      isInMonth: dateKey.startsWith(monthKey),
+    })
+  }
+  return weeks
+}
+
+/**
+ * The moment a local day starts
+ *
+ * @param dateKey - 'YYYY-MM-DD'
+ * @param timeZone - IANA timezone
+ * @returns number - Unix timestamp (ms) of local midnight (or the first
+ *   moment of the day where midnight is skipped by DST)
+ */
+export function getStartOfDay(dateKey: string, timeZone: string): number {
+  // Start from midnight UTC and correct by the zone's offset; the second pass
+  // fixes days where the offset changes between the guess and the answer
+  let timestamp = Date.parse(`${dateKey}T00:00:00Z`)
+  for (let pass = 0; pass < 2; pass++) {
+    const local = getLocalTime(timestamp, timeZone)
+    const minutes = getDaysBetween(dateKey, local.dateKey) * 24 * 60 + local.minutes
+    timestamp -= minutes * 60 * 1000
+  }
+
+  // Midnight doesn't exist in a few zones on DST days: land on the same day
+  return getDateKey(timestamp, timeZone) === dateKey ? timestamp : timestamp + 60 * 60 * 1000
+}
+
+/**
+ * The range of a month in a timezone
+ *
+ * @param monthKey - 'YYYY-MM'
+ * @param timeZone - IANA timezone
+ * @returns MonthRange
+ */
+export function getMonthRange(monthKey: string, timeZone: string): MonthRange {
+  return {
+    start: getStartOfDay(`${monthKey}-01`, timeZone),
+    end: getStartOfDay(`${shiftMonthKey(monthKey, 1)}-01`, timeZone),
+  }
+}
+
+/**
+ * Utility: Year and month (1-12) of a month key
+ */
+function parseMonthKey(monthKey: string): [number, number] {
+  const match = MONTH_KEY_PATTERN.exec(monthKey)
+  if (!match) {
+    throw new Error(`Invalid month key: ${monthKey}`)
+  }
+  return [Number(match[1]), Number(match[2])]
+}
+
+/**
+ * Utility: Day of the week of a date key (0 = Sunday)
+ */
+function getWeekday(dateKey: string): number {
+  return new Date(`${dateKey}T00:00:00Z`).getUTCDay()
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getLocalTime,
+  getDateKey,
+  getDateKeys,
+  getDailyStreak,
+  getDaysBetween,
+  shiftDateKey,
+  resolveTimeZone,
+  isValidTimeZone,
+} from './dayKeys'
+
+describe('Day Keys', () => {
+  it('should give the local date in the requested timezone, not UTC', () => {
+    // 2025-03-10 02:00 UTC is still the evening of the 9th in New York
+    const timestamp = Date.UTC(2025, 2, 10, 2, 0)
+
+    expect(getDateKey(timestamp, 'UTC')).toBe('2025-03-10')
+    expect(getDateKey(timestamp, 'America/New_York')).toBe('2025-03-09')
+    expect(getDateKey(timestamp, 'Asia/Tokyo')).toBe('2025-03-10')
+  })
+
+  it('should put the same moment on different days across the date line', () => {
+    const timestamp = Date.UTC(2025, 5, 1, 12, 0)
+
+    expect(getDateKey(timestamp, 'Pacific/Kiritimati')).toBe('2025-06-02') // UTC+14
+    expect(getDateKey(timestamp, 'Pacific/Pago_Pago')).toBe('2025-06-01') // UTC-11
+  })
+
+  it('should fall back to UTC for unknown or missing timezones', () => {
+    const timestamp = Date.UTC(2025, 2, 10, 2, 0)
+
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true)
+    expect(isValidTimeZone('Not/A_Zone')).toBe(false)
+    expect(resolveTimeZone('Not/A_Zone')).toBe('UTC')
+    expect(resolveTimeZone(null, 'Europe/Berlin')).toBe('Europe/Berlin')
+    expect(resolveTimeZone('Asia/Tokyo', 'Europe/Berlin')).toBe('Asia/Tokyo')
+    expect(getDateKey(timestamp, 'Not/A_Zone')).toBe('2025-03-10')
+  })
+
+  it('should count calendar days regardless of month, year and leap day', () => {
+    expect(shiftDateKey('2024-02-28', 1)).toBe('2024-02-29')
+    expect(shiftDateKey('2025-02-28', 1)).toBe('2025-03-01')
+    expect(shiftDateKey('2025-01-01', -1)).toBe('2024-12-31')
+    expect(getDaysBetween('2024-12-30', '2025-01-02')).toBe(3)
+    expect(getDaysBetween('2025-01-02', '2024-12-30')).toBe(-3)
+    expect(() => shiftDateKey('March 9', 1)).toThrow('Invalid date key')
+  })
+
+  describe('DST', () => {
+    it('should read wall-clock time across the spring-forward gap', () => {
+      // New York skips 02:00-03:00 on 2025-03-09
+      expect(getLocalTime(Date.UTC(2025, 2, 9, 6, 30), 'America/New_York')).toEqual({
+        dateKey: '2025-03-09',
+        minutes: 1 * 60 + 30, // 01:30 EST
+      })
+      expect(getLocalTime(Date.UTC(2025, 2, 9, 7, 30), 'America/New_York')).toEqual({
+        dateKey: '2025-03-09',
+        minutes: 3 * 60 + 30, // 03:30 EDT, one real hour later
+      })
+    })
+
+    it('should keep both repeated hours on the same day when clocks fall back', () => {
+      // New York repeats 01:00-02:00 on 2025-11-02
+      const first = getLocalTime(Date.UTC(2025, 10, 2, 5, 30), 'America/New_York') // EDT
+      const second = getLocalTime(Date.UTC(2025, 10, 2, 6, 30), 'America/New_York') // EST
+
+      expect(first).toEqual({ dateKey: '2025-11-02', minutes: 90 })
+      expect(second).toEqual(first)
+    })
+
+    it('should treat 23- and 25-hour days as one day each', () => {
+      // Late-evening reflections around both transitions in Berlin
+      const timestamps = [
+        Date.UTC(2025, 2, 29, 22, 30), // Sat 23:30 CET
+        Date.UTC(2025, 2, 30, 21, 30), // Sun 23:30 CEST (23-hour day)
+        Date.UTC(2025, 2, 31, 21, 30), // Mon 23:30 CEST
+      ]
+      expect([...getDateKeys(timestamps, 'Europe/Berlin')]).toEqual([
+        '2025-03-29',
+        '2025-03-30',
+        '2025-03-31',
+      ])
+      expect(getDailyStreak(timestamps, 'Europe/Berlin', Date.UTC(2025, 2, 31, 21, 45))).toBe(3)
+
+      const autumn = [
+        Date.UTC(2025, 9, 25, 21, 30), // Sat 23:30 CEST
+        Date.UTC(2025, 9, 26, 22, 30), // Sun 23:30 CET (25-hour day)
+        Date.UTC(2025, 9, 27, 22, 30), // Mon 23:30 CET
+      ]
+      expect(getDailyStreak(autumn, 'Europe/Berlin', Date.UTC(2025, 9, 27, 22, 45))).toBe(3)
+    })
+  })
+
+  describe('Streaks', () => {
+    const timeZone = 'America/New_York'
+    // 2025-03-12 18:00 EDT
+    const now = Date.UTC(2025, 2, 12, 22, 0)
+
+    it('should count consecutive days ending today, once per day', () => {
+      const timestamps = [
+        Date.UTC(2025, 2, 12, 13, 0), // 12th 09:00
+        Date.UTC(2025, 2, 12, 20, 0), // 12th 16:00 (same day)
+        Date.UTC(2025, 2, 12, 3, 0), // 11th 23:00 (UTC says the 12th)
+        Date.UTC(2025, 2, 10, 14, 0), // 10th 10:00
+        Date.UTC(2025, 2, 8, 14, 0), // 8th (after a gap)
+      ]
+
+      expect(getDailyStreak(timestamps, timeZone, now)).toBe(3)
+    })
+
+    it('should be 0 until today has a reflection', () => {
+      const timestamps = [Date.UTC(2025, 2, 11, 14, 0), Date.UTC(2025, 2, 10, 14, 0)]
+
+      expect(getDailyStreak(timestamps, timeZone, now)).toBe(0)
+      expect(getDailyStreak([], timeZone, now)).toBe(0)
+    })
+  })
+
+  describe('Travel', () => {
+    // Home is Los Angeles; the user flies to Tokyo (17 hours ahead) and
+    // keeps writing every morning there
+    const home = 'America/Los_Angeles'
+    const timestamps = [
+      Date.UTC(2025, 0, 7, 4, 0), // Jan 6 20:00 in LA, written at home
+      Date.UTC(2025, 0, 7, 23, 0), // Jan 8 08:00 in Tokyo = Jan 7 15:00 in LA
+      Date.UTC(2025, 0, 8, 23, 0), // Jan 9 08:00 in Tokyo = Jan 8 15:00 in LA
+    ]
+    // Jan 9 10:00 in Tokyo, Jan 8 17:00 at home
+    const now = Date.UTC(2025, 0, 9, 1, 0)
+
+    it('should count reflections written abroad on the home-timezone day', () => {
+      expect([...getDateKeys(timestamps, home)]).toEqual(['2025-01-06', '2025-01-07', '2025-01-08'])
+      expect(getDateKey(now, home)).toBe('2025-01-08')
+      expect(getDailyStreak(timestamps, home, now)).toBe(3)
+    })
+
+    it('should give the same answer on every device', () => {
+      // The device's own timezone would start the day 17 hours earlier
+      expect(getDateKey(now, 'Asia/Tokyo')).toBe('2025-01-09')
+      expect(getDateKey(now, resolveTimeZone(home, 'Asia/Tokyo'))).toBe('2025-01-08')
+      expect(getDailyStreak(timestamps, resolveTimeZone(home, 'Asia/Tokyo'), now)).toBe(
+        getDailyStreak(timestamps, resolveTimeZone(home, 'Europe/London'), now)
+      )
+    })
+  })
+})
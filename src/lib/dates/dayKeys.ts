@@ -0,0 +1,190 @@
+/**
+ * Day Keys
+ *
+ * One definition of "which day is it" for the whole app. A day is a local
+ * calendar date ('YYYY-MM-DD') in the user's stored timezone
+ * (`userSettings.timezone`), never the browser's or the server's. The daily
+ * prompt, "completed today", streaks and the server jobs all derive their
+ * days from here, so they roll over at the same moment: the user's midnight.
+ *
+ * Keys are plain calendar dates, so day arithmetic on them (shiftDateKey,
+ * getDaysBetween) ignores DST: a 23-hour or 25-hour day is still one day.
+ */
+
+export const DEFAULT_TIME_ZONE = 'UTC'
+
+export interface LocalTime {
+  dateKey: string // 'YYYY-MM-DD'
+  minutes: number // Since local midnight
+}
+
+const DAY = 24 * 60 * 60 * 1000
+const DATE_KEY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+/**
+ * Check whether a timezone name is known to this runtime
+ *
+ * @param timeZone - IANA timezone (e.g. 'Europe/Berlin')
+ * @returns boolean
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * The timezone this device is set to
+ *
+ * @returns string - IANA timezone (DEFAULT_TIME_ZONE if unknown)
+ */
+export function getDeviceTimeZone(): string {
+  try {
+    const { timeZone } = Intl.DateTimeFormat().resolvedOptions()
+    return timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE
+  } catch {
+    return DEFAULT_TIME_ZONE
+  }
+}
+
+/**
+ * Pick the timezone to count days in
+ * The stored timezone wins; an unset or unknown one falls back
+ *
+ * @param timeZone - Stored timezone (`userSettings.timezone`)
+ * @param fallback - Used when none is stored (DEFAULT_TIME_ZONE on the server)
+ * @returns string - A valid IANA timezone
+ */
+export function resolveTimeZone(
+  timeZone: string | null | undefined,
+  fallback = DEFAULT_TIME_ZONE
+): string {
+  if (timeZone && isValidTimeZone(timeZone)) return timeZone
+  return isValidTimeZone(fallback) ? fallback : DEFAULT_TIME_ZONE
+}
+
+/**
+ * Wall-clock date and time in a timezone
+ * Unknown timezones fall back to UTC
+ *
+ * @param timestamp - Unix timestamp (ms)
+ * @param timeZone - IANA timezone
+ * @returns LocalTime
+ */
+export function getLocalTime(timestamp: number, timeZone: string): LocalTime {
+  const formatter = getFormatter(resolveTimeZone(timeZone))
+
+  const parts = Object.fromEntries(
+    formatter.formatToParts(new Date(timestamp)).map((part) => [part.type, part.value])
+  )
+  return {
+    dateKey: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  }
+}
+
+/**
+ * The local date of a moment
+ *
+ * @param timestamp - Unix timestamp (ms)
+ * @param timeZone - IANA timezone
+ * @returns string - 'YYYY-MM-DD'
+ */
+export function getDateKey(timestamp: number, timeZone: string): string {
+  return getLocalTime(timestamp, timeZone).dateKey
+}
+
+/**
+ * Move a date key by whole days
+ *
+ * @param dateKey - 'YYYY-MM-DD'
+ * @param days - Days to add (negative to go back)
+ * @returns string - 'YYYY-MM-DD'
+ */
+export function shiftDateKey(dateKey: string, days: number): string {
+  return new Date(parseDateKey(dateKey) + days * DAY).toISOString().slice(0, 10)
+}
+
+/**
+ * Whole days from one date key to another
+ *
+ * @param from - 'YYYY-MM-DD'
+ * @param to - 'YYYY-MM-DD'
+ * @returns number - Positive if `to` is later
+ */
+export function getDaysBetween(from: string, to: string): number {
+  return Math.round((parseDateKey(to) - parseDateKey(from)) / DAY)
+}
+
+/**
+ * The days on which something happened (e.g. reflections were written)
+ *
+ * @param timestamps - Unix timestamps (ms)
+ * @param timeZone - IANA timezone
+ * @returns Set<string> - Date keys, one per day
+ */
+export function getDateKeys(timestamps: number[], timeZone: string): Set<string> {
+  const keys = new Set<string>()
+  for (const timestamp of timestamps) {
+    keys.add(getDateKey(timestamp, timeZone))
+  }
+  return keys
+}
+
+/**
+ * Consecutive days with a reflection, ending today
+ * Several reflections on one day count once
+ *
+ * @param timestamps - When the reflections were written
+ * @param timeZone - IANA timezone the days are counted in
+ * @param now - Current time (override in tests)
+ * @returns number - 0 if there's no reflection today
+ */
+export function getDailyStreak(timestamps: number[], timeZone: string, now = Date.now()): number {
+  const days = getDateKeys(timestamps, timeZone)
+
+  let streak = 0
+  let day = getDateKey(now, timeZone)
+  while (days.has(day)) {
+    streak++
+    day = shiftDateKey(day, -1)
+  }
+  return streak
+}
+
+/**
+ * Utility: Midnight UTC of a date key (for day arithmetic only)
+ */
+function parseDateKey(dateKey: string): number {
+  const match = DATE_KEY_PATTERN.exec(dateKey)
+  if (!match) {
+    throw new Error(`Invalid date key: ${dateKey}`)
+  }
+  return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+}
+
+/**
+ * Utility: Cached formatter for a timezone's wall-clock date and time
+ * Throws a RangeError for unknown timezones
+ */
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    })
+    formatters.set(timeZone, formatter)
+  }
+  return formatter
+}
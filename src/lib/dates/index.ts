@@ -0,0 +1,41 @@
+/**
+ * Dates Module
+ *
+ * Day boundaries in the user's timezone
+ *
+ * Exports:
+ * - React hook for the user's stored timezone
+ * - Date key functions shared by the client and server jobs
+ * - Month grids and ranges for calendar views
+ */
+
+// React Hook
+export { useTimeZone } from './useTimeZone'
+
+// Day Keys
+export {
+  DEFAULT_TIME_ZONE,
+  isValidTimeZone,
+  getDeviceTimeZone,
+  resolveTimeZone,
+  getLocalTime,
+  getDateKey,
+  shiftDateKey,
+  getDaysBetween,
+  getDateKeys,
+  getDailyStreak,
+  type LocalTime,
+} from './dayKeys'
+
+// Calendar
+export {
+  isMonthKey,
+  getMonthKey,
+  shiftMonthKey,
+  shiftDateKeyByMonths,
+  getMonthGrid,
+  getStartOfDay,
+  getMonthRange,
+  type CalendarDay,
+  type MonthRange,
+} from './calendar'
@@ -0,0 +1,63 @@
+/**
+ * useTimeZone Hook
+ *
+ * The timezone the user's days are counted in. It's stored on their
+ * `userSettings` row, so every device (and the server) agrees on when a day
+ * starts. Users without one get this device's timezone saved on first use.
+ *
+ * A device in another timezone (travelling) doesn't change it: days keep
+ * following the stored timezone until the user switches, so a trip doesn't
+ * skip or repeat a day. `isAway` tells the UI to offer the switch.
+ */
+
+import { useEffect, useCallback, useRef } from 'react'
+import { useUserSettings } from '@/lib/settings'
+import { getDeviceTimeZone, isValidTimeZone, resolveTimeZone } from './dayKeys'
+
+export function useTimeZone(userProfileId: string | undefined) {
+  const { settings, isLoading, updateSettings } = useUserSettings(userProfileId)
+  const hasRecorded = useRef(false)
+
+  const deviceTimeZone = getDeviceTimeZone()
+  const storedTimeZone = settings?.timezone ?? null
+
+  /**
+   * Record this device's timezone for users who don't have one yet
+   */
+  useEffect(() => {
+    if (!userProfileId || isLoading || storedTimeZone || hasRecorded.current) return
+
+    hasRecorded.current = true
+    updateSettings({ timezone: deviceTimeZone }).catch((err) =>
+      console.error('Error saving timezone:', err)
+    )
+  }, [userProfileId, isLoading, storedTimeZone, deviceTimeZone, updateSettings])
+
+  /**
+   * Count days in another timezone from now on
+   *
+   * @param timeZone - IANA timezone
+   */
+  const setTimeZone = useCallback(
+    async (timeZone: string) => {
+      if (!isValidTimeZone(timeZone)) {
+        throw new Error(`Unknown timezone: ${timeZone}`)
+      }
+      await updateSettings({ timezone: timeZone })
+    },
+    [updateSettings]
+  )
+
+  const timeZone = resolveTimeZone(storedTimeZone, deviceTimeZone)
+
+  return {
+    // State
+    timeZone,
+    deviceTimeZone,
+    isAway: !!storedTimeZone && timeZone !== deviceTimeZone,
+    isLoading,
+
+    // Functions
+    setTimeZone,
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Draft Storage
+ *
+ * Where the in-progress draft is kept on this device. Records only hold
+ * envelopes (see drafts.ts), so nothing readable is written to disk. The
+ * browser uses IndexedDB, which stores the sealed photo blobs directly;
+ * tests swap in the in-memory backend with setDraftStorage().
+ *
+ * IndexedDB Structure (database `reflections-drafts`):
+ * - `drafts` - One DraftRecord per user, keyed by userId
+ *
+ * Storage Structure (LocalStorage):
+ * - `reflections_draft_sync_${userId}` - '1' when drafts are synced to other devices
+ */
+
+import type { DraftRecord } from './drafts'
+
+const DB_NAME = 'reflections-drafts'
+const DB_VERSION = 1
+const DRAFTS_STORE = 'drafts'
+const SYNC_PREFIX = 'reflections_draft_sync_'
+
+export interface DraftStorage {
+  getDraft(userId: string): Promise<DraftRecord | null>
+  putDraft(record: DraftRecord): Promise<void>
+  deleteDraft(userId: string): Promise<void>
+}
+
+let storage: DraftStorage | null = null
+
+/**
+ * Replace the storage backend
+ * Tests use createMemoryDraftStorage(); the browser defaults to IndexedDB
+ *
+ * @param nextStorage - Backend to use from now on
+ */
+export function setDraftStorage(nextStorage: DraftStorage): void {
+  storage = nextStorage
+}
+
+/**
+ * The storage backend (IndexedDB in the browser, memory elsewhere)
+ */
+export function getDraftStorage(): DraftStorage {
+  if (!storage) {
+    storage =
+      typeof indexedDB !== 'undefined' ? createIndexedDBDraftStorage() : createMemoryDraftStorage()
+  }
+  return storage
+}
+
+/**
+ * IndexedDB backend (default in the browser)
+ *
+ * @param dbName - Database name (override for isolation)
+ * @returns DraftStorage
+ */
+export function createIndexedDBDraftStorage(dbName = DB_NAME): DraftStorage {
+  let dbPromise: Promise<IDBDatabase> | null = null
+
+  const open = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = openDatabase(dbName).catch((error) => {
+        dbPromise = null
+        throw error
+      })
+    }
+    return dbPromise
+  }
+
+  async function run<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await open()
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(DRAFTS_STORE, mode)
+      const request = operation(transaction.objectStore(DRAFTS_STORE))
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  }
+
+  return {
+    async getDraft(userId) {
+      return (await run<DraftRecord | undefined>('readonly', (store) => store.get(userId))) ?? null
+    },
+    async putDraft(record) {
+      await run('readwrite', (store) => store.put(record, record.userId))
+    },
+    async deleteDraft(userId) {
+      await run('readwrite', (store) => store.delete(userId))
+    },
+  }
+}
+
+/**
+ * In-memory backend (tests, or browsers without IndexedDB)
+ * Drafts are lost when the page reloads
+ *
+ * @returns DraftStorage
+ */
+export function createMemoryDraftStorage(): DraftStorage {
+  const drafts = new Map<string, DraftRecord>()
+
+  return {
+    async getDraft(userId) {
+      return drafts.get(userId) ?? null
+    },
+    async putDraft(record) {
+      drafts.set(record.userId, record)
+    },
+    async deleteDraft(userId) {
+      drafts.delete(userId)
+    },
+  }
+}
+
+/**
+ * Check whether this device syncs the user's drafts
+ *
+ * @param userId - User ID
+ * @returns boolean - True if sync is on (off by default)
+ */
+export function isDraftSyncEnabled(userId: string): boolean {
+  return localStorage.getItem(SYNC_PREFIX + userId) === '1'
+}
+
+/**
+ * Turn draft sync on or off for this device
+ *
+ * @param userId - User ID
+ * @param enabled - Whether to sync
+ */
+export function setDraftSyncEnabled(userId: string, enabled: boolean): void {
+  if (enabled) {
+    localStorage.setItem(SYNC_PREFIX + userId, '1')
+  } else {
+    localStorage.removeItem(SYNC_PREFIX + userId)
+  }
+}
+
+/**
+ * Utility: Open (and create/upgrade) the drafts database
+ */
+function openDatabase(dbName: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(dbName, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(DRAFTS_STORE)) {
+        db.createObjectStore(DRAFTS_STORE)
+      }
+    }
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
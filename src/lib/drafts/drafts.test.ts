@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest'
+import {
+  sealDraft,
+  openDraft,
+  isDraftEmpty,
+  pickLatestDraft,
+  type DraftContent,
+  type DraftSealer,
+} from './drafts'
+import { createMemoryDraftStorage } from './draftStorage'
+import { EMPTY_METADATA } from '@/lib/reflections/metadata'
+import { generateEncryptionKey } from '@/lib/encryption/crypto'
+import {
+  encryptTextEnvelope,
+  decryptTextEnvelope,
+  encryptFileEnvelope,
+  decryptFileEnvelope,
+} from '@/lib/encryption/envelope'
+
+describe('Reflection Drafts', () => {
+  const userId = 'test-user-123'
+  const keyId = 'key-1'
+
+  let key: CryptoKey
+  let sealer: DraftSealer
+  let sealedPhotos: number
+
+  function content(text: string, ...photos: [string, string][]): DraftContent {
+    return {
+      text,
+      photos: photos.map(([photoId, caption]) => ({
+        id: photoId,
+        blob: new Blob([`photo ${photoId}`], { type: 'image/jpeg' }),
+        thumbnail: new Blob([`thumb ${photoId}`], { type: 'image/jpeg' }),
+        caption,
+      })),
+      metadata: EMPTY_METADATA,
+    }
+  }
+
+  beforeAll(async () => {
+    key = (await generateEncryptionKey()).key
+  })
+
+  beforeEach(() => {
+    sealedPhotos = 0
+    sealer = {
+      sealText: (text, draftId, field, photoId) =>
+        encryptTextEnvelope(text, key, keyId, { userId, reflectionId: draftId, field, photoId }),
+      openText: (serialized, draftId, field, photoId) =>
+        decryptTextEnvelope(serialized, key, { userId, reflectionId: draftId, field, photoId }),
+      sealPhoto: (blob, draftId, field, photoId) => {
+        sealedPhotos++
+        return encryptFileEnvelope(blob, key, keyId, {
+          userId,
+          reflectionId: draftId,
+          field,
+          photoId,
+        })
+      },
+      openPhoto: (blob, draftId, originalType, field, photoId) =>
+        decryptFileEnvelope(
+          blob,
+          key,
+          { userId, reflectionId: draftId, field, photoId },
+          originalType
+        ),
+    }
+  })
+
+  it('should detect empty drafts', () => {
+    expect(isDraftEmpty(content('  \n'))).toBe(true)
+    expect(isDraftEmpty(content('Morning walk'))).toBe(false)
+    expect(isDraftEmpty(content('', ['p1', '']))).toBe(false)
+    expect(isDraftEmpty({ ...content(''), metadata: { ...EMPTY_METADATA, mood: 3 } })).toBe(false)
+  })
+
+  it('should seal and reopen metadata', async () => {
+    const metadata = { mood: 4, tags: ['beach'], children: ['Maya'] }
+    const record = await sealDraft(userId, 'draft-1', { ...content('Sunny'), metadata }, sealer)
+
+    expect(record.metadata).not.toContain('beach')
+    expect((await openDraft(record, sealer)).metadata).toEqual(metadata)
+  })
+
+  it('should store no metadata when there is none', async () => {
+    const record = await sealDraft(userId, 'draft-1', content('Plain'), sealer)
+
+    expect(record.metadata).toBeNull()
+    // Drafts saved before metadata was added have no field at all
+    const { metadata: _, ...older } = record
+    expect((await openDraft(older, sealer)).metadata).toEqual(EMPTY_METADATA)
+  })
+
+  it('should seal and reopen text, photos and captions', async () => {
+    const record = await sealDraft(
+      userId,
+      'draft-1',
+      content('Half-written', ['p1', 'Sunrise'], ['p2', '']),
+      sealer
+    )
+
+    expect(record.text).not.toContain('Half-written')
+    expect(record.photos.map(({ caption }) => caption === null)).toEqual([false, true])
+
+    const reopened = await openDraft(record, sealer)
+    expect(reopened.text).toBe('Half-written')
+    expect(reopened.photos.map(({ id, caption }) => [id, caption])).toEqual([
+      ['p1', 'Sunrise'],
+      ['p2', ''],
+    ])
+    expect(await reopened.photos[1].blob.text()).toBe('photo p2')
+    expect(await reopened.photos[0].thumbnail?.text()).toBe('thumb p1')
+  })
+
+  it('should reuse sealed photos that are already in the previous record', async () => {
+    const first = await sealDraft(userId, 'draft-1', content('a', ['p1', '']), sealer)
+    expect(sealedPhotos).toBe(2) // Photo and thumbnail
+
+    const second = await sealDraft(
+      userId,
+      'draft-1',
+      content('ab', ['p2', ''], ['p1', 'Now captioned']),
+      sealer,
+      first
+    )
+
+    expect(sealedPhotos).toBe(4) // Only p2 was sealed
+    expect(second.photos[1].photo).toBe(first.photos[0].photo)
+    expect((await openDraft(second, sealer)).photos[1].caption).toBe('Now captioned')
+  })
+
+  it('should bind drafts to their id', async () => {
+    const record = await sealDraft(userId, 'draft-1', content('Private'), sealer)
+
+    await expect(openDraft({ ...record, draftId: 'draft-2' }, sealer)).rejects.toThrow()
+  })
+
+  it('should pick the most recently saved draft', () => {
+    const local = { id: 'local', updatedAt: 2 }
+    const synced = { id: 'synced', updatedAt: 5 }
+
+    expect(pickLatestDraft(local, synced)?.id).toBe('synced')
+    expect(pickLatestDraft(local, null)?.id).toBe('local')
+    expect(pickLatestDraft(undefined, null)).toBeNull()
+  })
+
+  it('should keep one draft per user in storage', async () => {
+    const storage = createMemoryDraftStorage()
+    const first = await sealDraft(userId, 'draft-1', content('First'), sealer)
+    const second = await sealDraft(userId, 'draft-1', content('Second'), sealer, first)
+
+    await storage.putDraft(first)
+    await storage.putDraft(second)
+    const stored = await storage.getDraft(userId)
+    expect(stored && (await openDraft(stored, sealer)).text).toBe('Second')
+
+    await storage.deleteDraft(userId)
+    expect(await storage.getDraft(userId)).toBeNull()
+  })
+})
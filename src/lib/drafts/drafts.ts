@@ -0,0 +1,214 @@
+/**
+ * Reflection Drafts
+ *
+ * The in-progress text, photos and metadata (mood, tags, children) of
+ * `/reflections/new`, saved on every
+ * change so closing the tab doesn't lose them. Drafts are sealed with the
+ * same envelopes as reflections (see envelope.ts), bound to the draft id
+ * (photos and captions also to the photo id), and the reflection is later
+ * saved under that same id. Nothing readable is
+ * written to the device or, when sync is on, to InstantDB.
+ *
+ * Sealing a photo is the expensive part, so sealDraft() reuses the sealed
+ * blobs of photos the previous record already holds (matched by photo id)
+ * and only re-seals the text, captions and metadata.
+ */
+
+import type { NewReflectionPhoto } from '@/lib/reflections'
+import {
+  isEmptyMetadata,
+  normalizeMetadata,
+  parseMetadata,
+  serializeMetadata,
+  EMPTY_METADATA,
+  type ReflectionMetadata,
+} from '@/lib/reflections/metadata'
+
+export const DRAFT_SAVE_DELAY = 500 // ms after the last change before saving locally
+export const DRAFT_SYNC_DELAY = 5000 // ms after the last local save before syncing
+
+export interface DraftPhoto extends NewReflectionPhoto {
+  id: string // Stable while the draft is edited (the reflectionPhotos id once synced)
+}
+
+export interface DraftContent {
+  text: string
+  photos: DraftPhoto[] // Display order (first is the cover)
+  metadata: ReflectionMetadata
+}
+
+export interface DraftPhotoRecord {
+  photoId: string
+  photo: Blob // Photo envelope
+  thumbnail: Blob | null // Thumbnail envelope
+  caption: string | null // Caption envelope
+  photoType: string
+}
+
+export interface DraftRecord {
+  userId: string
+  draftId: string // The reflection is saved under this id (envelopes are bound to it)
+  text: string // Text envelope
+  photos: DraftPhotoRecord[]
+  metadata?: string | null // Metadata envelope (null when empty, absent on older drafts)
+  updatedAt: number
+}
+
+export interface DraftSealer {
+  sealText: (
+    text: string,
+    draftId: string,
+    field?: 'text' | 'caption' | 'metadata',
+    photoId?: string
+  ) => Promise<string>
+  openText: (
+    serialized: string,
+    draftId: string,
+    field?: 'text' | 'caption' | 'metadata',
+    photoId?: string
+  ) => Promise<string>
+  sealPhoto: (
+    blob: Blob,
+    draftId: string,
+    field?: 'photo' | 'thumbnail',
+    photoId?: string
+  ) => Promise<Blob>
+  openPhoto: (
+    blob: Blob,
+    draftId: string,
+    originalType?: string,
+    field?: 'photo' | 'thumbnail',
+    photoId?: string
+  ) => Promise<Blob>
+}
+
+/**
+ * Check whether a draft has anything worth keeping
+ *
+ * @param content - Draft content
+ * @returns boolean - True if there's no text, no photo and no metadata
+ */
+export function isDraftEmpty(content: DraftContent): boolean {
+  return (
+    content.text.trim() === '' &&
+    content.photos.length === 0 &&
+    isEmptyMetadata(normalizeMetadata(content.metadata))
+  )
+}
+
+/**
+ * Seal draft content for storage
+ *
+ * @param userId - Owner
+ * @param draftId - Draft (and future reflection) id
+ * @param content - Plaintext draft
+ * @param sealer - Envelope functions (useEncryption in the app)
+ * @param previous - Last stored record, whose sealed photos are reused
+ * @returns Promise<DraftRecord> - Record safe to store anywhere
+ */
+export async function sealDraft(
+  userId: string,
+  draftId: string,
+  content: DraftContent,
+  sealer: DraftSealer,
+  previous?: DraftRecord | null
+): Promise<DraftRecord> {
+  const sealedPhotos = new Map(
+    previous?.draftId === draftId ? previous.photos.map((photo) => [photo.photoId, photo]) : []
+  )
+
+  const photos: DraftPhotoRecord[] = []
+  for (const photo of content.photos) {
+    const caption = photo.caption?.trim()
+    const sealedCaption = caption
+      ? await sealer.sealText(caption, draftId, 'caption', photo.id)
+      : null
+    const existing = sealedPhotos.get(photo.id)
+
+    if (existing) {
+      photos.push({ ...existing, caption: sealedCaption })
+      continue
+    }
+
+    photos.push({
+      photoId: photo.id,
+      photo: await sealer.sealPhoto(photo.blob, draftId, 'photo', photo.id),
+      thumbnail: photo.thumbnail
+        ? await sealer.sealPhoto(photo.thumbnail, draftId, 'thumbnail', photo.id)
+        : null,
+      caption: sealedCaption,
+      photoType: photo.blob.type || 'image/jpeg',
+    })
+  }
+
+  const metadata = normalizeMetadata(content.metadata)
+
+  return {
+    userId,
+    draftId,
+    text: await sealer.sealText(content.text, draftId),
+    photos,
+    metadata: isEmptyMetadata(metadata)
+      ? null
+      : await sealer.sealText(serializeMetadata(metadata), draftId, 'metadata'),
+    updatedAt: Date.now(),
+  }
+}
+
+/**
+ * Open a stored draft
+ *
+ * @param record - Sealed draft (local or synced)
+ * @param sealer - Envelope functions
+ * @returns Promise<DraftContent> - Plaintext draft
+ */
+export async function openDraft(record: DraftRecord, sealer: DraftSealer): Promise<DraftContent> {
+  const photos: DraftPhoto[] = []
+  for (const photo of record.photos) {
+    photos.push({
+      id: photo.photoId,
+      blob: await sealer.openPhoto(
+        photo.photo,
+        record.draftId,
+        photo.photoType,
+        'photo',
+        photo.photoId
+      ),
+      thumbnail: photo.thumbnail
+        ? await sealer.openPhoto(
+            photo.thumbnail,
+            record.draftId,
+            'image/jpeg',
+            'thumbnail',
+            photo.photoId
+          )
+        : null,
+      caption: photo.caption
+        ? await sealer.openText(photo.caption, record.draftId, 'caption', photo.photoId)
+        : '',
+    })
+  }
+
+  return {
+    text: await sealer.openText(record.text, record.draftId),
+    photos,
+    metadata: record.metadata
+      ? parseMetadata(await sealer.openText(record.metadata, record.draftId, 'metadata'))
+      : { ...EMPTY_METADATA },
+  }
+}
+
+/**
+ * Pick the draft to restore: the most recently saved one
+ *
+ * @param drafts - Local and synced drafts (missing ones are skipped)
+ * @returns T | null - Newest draft, or null if there is none
+ */
+export function pickLatestDraft<T extends { updatedAt: number }>(
+  ...drafts: (T | null | undefined)[]
+): T | null {
+  return drafts.reduce<T | null>(
+    (latest, draft) => (draft && (!latest || draft.updatedAt > latest.updatedAt) ? draft : latest),
+    null
+  )
+}
@@ -0,0 +1,39 @@
+/**
+ * Drafts Module
+ *
+ * Autosaved, encrypted drafts of the reflection being written
+ *
+ * Exports:
+ * - React hook that saves, restores and syncs the draft
+ * - Draft sealing helpers
+ * - Draft storage backends and the sync preference
+ */
+
+// React Hook
+export { useReflectionDraft } from './useReflectionDraft'
+
+// Drafts
+export {
+  sealDraft,
+  openDraft,
+  isDraftEmpty,
+  pickLatestDraft,
+  DRAFT_SAVE_DELAY,
+  DRAFT_SYNC_DELAY,
+  type DraftPhoto,
+  type DraftContent,
+  type DraftPhotoRecord,
+  type DraftRecord,
+  type DraftSealer,
+} from './drafts'
+
+// Storage
+export {
+  getDraftStorage,
+  setDraftStorage,
+  createIndexedDBDraftStorage,
+  createMemoryDraftStorage,
+  isDraftSyncEnabled,
+  setDraftSyncEnabled,
+  type DraftStorage,
+} from './draftStorage'
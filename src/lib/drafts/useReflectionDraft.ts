@@ -0,0 +1,470 @@
+/**
+ * useReflectionDraft Hook
+ *
+ * Autosaves the reflection being written on `/reflections/new` and restores
+ * it when the page reopens. Every change is sealed and saved on this device
+ * (see draftStorage.ts) shortly after it's made.
+ *
+ * When the user turns sync on, the sealed draft is also copied to InstantDB
+ * (`reflectionDrafts`, with its photos as `reflectionPhotos`) so it can be
+ * finished on another device. Only photos that aren't synced yet are
+ * uploaded. The most recently saved draft wins: on restore the newer of the
+ * local and synced drafts is opened, and syncing replaces older synced ones.
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { id } from '@instantdb/react'
+import { useAuth } from '@/lib/auth'
+import { db, useQuery } from '@/lib/db'
+import { useEncryption } from '@/lib/encryption'
+import {
+  getPhotoFiles,
+  type NewReflectionPhoto,
+  type ReflectionMetadata,
+  type ReflectionPhoto,
+} from '@/lib/reflections'
+import {
+  sealDraft,
+  openDraft,
+  isDraftEmpty,
+  pickLatestDraft,
+  DRAFT_SAVE_DELAY,
+  DRAFT_SYNC_DELAY,
+  type DraftContent,
+  type DraftRecord,
+  type DraftSealer,
+} from './drafts'
+import { getDraftStorage, isDraftSyncEnabled, setDraftSyncEnabled } from './draftStorage'
+
+interface SyncedDraft {
+  id: string
+  draftText: string
+  metadata?: string | null
+  updatedAt: number
+  photos?: ReflectionPhoto[]
+}
+
+export function useReflectionDraft(userProfileId: string | undefined) {
+  const { user } = useAuth()
+  const { isReady, sealText, openText, sealPhoto, openPhoto } = useEncryption()
+  const [draftId, setDraftId] = useState<string | null>(null)
+  const [restoredDraft, setRestoredDraft] = useState<DraftContent | null>(null)
+  const [restoredAt, setRestoredAt] = useState<number | null>(null)
+  const [isRestoring, setIsRestoring] = useState(true)
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null)
+  const [isSyncEnabled, setIsSyncEnabled] = useState(false)
+  const [isSyncing, setIsSyncing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const recordRef = useRef<DraftRecord | null>(null) // Last record saved on this device
+  const pendingRef = useRef<DraftContent | null>(null) // Change waiting for the save delay
+  const queueRef = useRef<Promise<void>>(Promise.resolve()) // Saves run one at a time
+  const generationRef = useRef(0) // Bumped on discard so in-flight saves are dropped
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const syncTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const photoIdsRef = useRef(new WeakMap<Blob, string>())
+  const restoredForRef = useRef<string | null>(null)
+
+  // Synced drafts (all of this user's, normally zero or one)
+  const { data: remoteData, isLoading: isLoadingRemote } = useQuery(
+    userProfileId
+      ? {
+          reflectionDrafts: {
+            $: {
+              where: {
+                'user.id': userProfileId,
+              },
+            },
+            photos: {
+              file: {},
+              thumbnail: {},
+            },
+          },
+        }
+      : null
+  )
+
+  const remoteRef = useRef<SyncedDraft[]>([])
+  useEffect(() => {
+    remoteRef.current = remoteData?.reflectionDrafts ?? []
+  }, [remoteData])
+
+  const sealer = useMemo<DraftSealer | null>(
+    () => (isReady ? { sealText, openText, sealPhoto, openPhoto } : null),
+    [isReady, sealText, openText, sealPhoto, openPhoto]
+  )
+
+  useEffect(() => {
+    setIsSyncEnabled(!!user?.id && isDraftSyncEnabled(user.id))
+  }, [user?.id])
+
+  /**
+   * Restore the newest draft (local or synced) once per user
+   */
+  useEffect(() => {
+    if (!user?.id || !sealer || !userProfileId || isLoadingRemote) return
+    if (restoredForRef.current === user.id) return
+
+    const userId = user.id
+    const currentSealer = sealer
+    restoredForRef.current = userId
+
+    async function restoreDraft() {
+      try {
+        setIsRestoring(true)
+
+        const local = await getDraftStorage().getDraft(userId)
+        const remote = pickLatestDraft(...remoteRef.current)
+
+        let record = local
+        if (remote && (!local || remote.updatedAt > local.updatedAt)) {
+          record = await downloadDraft(userId, remote)
+        }
+
+        if (!record) {
+          setDraftId(id())
+          return
+        }
+
+        const content = await openDraft(record, currentSealer)
+        for (const photo of content.photos) {
+          photoIdsRef.current.set(photo.blob, photo.id)
+        }
+
+        recordRef.current = record
+        setDraftId(record.draftId)
+        setRestoredDraft(isDraftEmpty(content) ? null : content)
+        setRestoredAt(record.updatedAt)
+        setLastSavedAt(record.updatedAt)
+      } catch (err) {
+        // The next save replaces the unreadable draft
+        console.error('Error restoring draft:', err)
+        setError('Your saved draft could not be restored on this device.')
+        setDraftId(id())
+      } finally {
+        setIsRestoring(false)
+      }
+    }
+
+    restoreDraft()
+  }, [user?.id, sealer, userProfileId, isLoadingRemote])
+
+  /**
+   * Copy the local draft to InstantDB, replacing older synced drafts
+   */
+  const syncDraft = useCallback(async (): Promise<void> => {
+    if (!user?.id || !userProfileId) return
+
+    const userId = user.id
+    const record = recordRef.current
+    const remoteDrafts = remoteRef.current
+    const uploadedPaths: string[] = []
+
+    try {
+      setIsSyncing(true)
+
+      if (!record) {
+        await deleteSyncedDrafts(remoteDrafts)
+        return
+      }
+
+      const synced = remoteDrafts.find((draft) => draft.id === record.draftId)
+      const syncedPhotos = new Map((synced?.photos ?? []).map((photo) => [photo.id, photo]))
+      const keptIds = new Set(record.photos.map((photo) => photo.photoId))
+      const transactions = []
+
+      // New photos are uploaded; the rest only get their order and caption updated
+      for (const [position, photo] of record.photos.entries()) {
+        if (syncedPhotos.has(photo.photoId)) {
+          transactions.push(
+            db.tx.reflectionPhotos[photo.photoId].update({ position, caption: photo.caption })
+          )
+          continue
+        }
+
+        const path = `reflections/${userId}/drafts/${record.draftId}-${photo.photoId}`
+        const { data: fileData } = await db.storage.uploadFile(`${path}.enc`, photo.photo, {
+          contentType: 'application/octet-stream',
+        })
+        uploadedPaths.push(`${path}.enc`)
+        let create = db.tx.reflectionPhotos[photo.photoId]
+          .create({
+            position,
+            caption: photo.caption ?? undefined,
+            photoType: photo.photoType,
+            createdAt: record.updatedAt,
+          })
+          .link({ draft: record.draftId })
+          .link({ file: fileData.id })
+
+        if (photo.thumbnail) {
+          const { data: thumbnailData } = await db.storage.uploadFile(
+            `${path}.thumb.enc`,
+            photo.thumbnail,
+            { contentType: 'application/octet-stream' }
+          )
+          uploadedPaths.push(`${path}.thumb.enc`)
+          create = create.link({ thumbnail: thumbnailData.id })
+        }
+        transactions.push(create)
+      }
+
+      const removedPhotos = (synced?.photos ?? []).filter((photo) => !keptIds.has(photo.id))
+
+      await db.transact([
+        db.tx.reflectionDrafts[record.draftId]
+          .update({
+            draftText: record.text,
+            metadata: record.metadata ?? null,
+            updatedAt: record.updatedAt,
+          })
+          .link({ user: userProfileId }),
+        ...transactions,
+        ...getPhotoFiles(removedPhotos).map((file) => db.tx.$files[file.id].delete()),
+        ...removedPhotos.map((photo) => db.tx.reflectionPhotos[photo.id].delete()),
+        ...getDeleteTransactions(remoteDrafts.filter((draft) => draft.id !== record.draftId)),
+      ])
+    } catch (err) {
+      // The local draft is still saved; the next change retries
+      console.error('Error syncing draft:', err)
+      setError('Your draft is saved on this device but could not be synced.')
+
+      // Nothing links the files uploaded for this attempt; the retry uploads them again
+      await Promise.all(
+        uploadedPaths.map((path) =>
+          db.storage
+            .delete(path)
+            .catch((deleteErr) => console.error('Error deleting unsynced draft photo:', deleteErr))
+        )
+      )
+    } finally {
+      setIsSyncing(false)
+    }
+  }, [user?.id, userProfileId])
+
+  /**
+   * Utility: Sync a while after the last local save
+   */
+  const scheduleSync = useCallback(
+    (delay = DRAFT_SYNC_DELAY) => {
+      if (syncTimerRef.current) clearTimeout(syncTimerRef.current)
+      syncTimerRef.current = setTimeout(() => {
+        syncTimerRef.current = null
+        syncDraft()
+      }, delay)
+    },
+    [syncDraft]
+  )
+
+  /**
+   * Save the pending change now (skips the save delay)
+   */
+  const flushDraft = useCallback((): Promise<void> => {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current)
+      saveTimerRef.current = null
+    }
+
+    const content = pendingRef.current
+    if (!content || !user?.id || !sealer || !draftId) {
+      return queueRef.current
+    }
+
+    pendingRef.current = null
+    const userId = user.id
+    const generation = generationRef.current
+
+    queueRef.current = queueRef.current.then(async () => {
+      try {
+        const storage = getDraftStorage()
+
+        if (isDraftEmpty(content)) {
+          await storage.deleteDraft(userId)
+          recordRef.current = null
+          setLastSavedAt(null)
+        } else {
+          const record = await sealDraft(userId, draftId, content, sealer, recordRef.current)
+          if (generation !== generationRef.current) return
+
+          await storage.putDraft(record)
+          recordRef.current = record
+          setLastSavedAt(record.updatedAt)
+        }
+
+        setError(null)
+        if (isDraftSyncEnabled(userId)) {
+          scheduleSync()
+        }
+      } catch (err) {
+        console.error('Error saving draft:', err)
+        setError('Your draft could not be saved on this device.')
+      }
+    })
+
+    return queueRef.current
+  }, [user?.id, sealer, draftId, scheduleSync])
+
+  /**
+   * Record a change; it's saved once the user pauses
+   *
+   * @param content - Current text, photos and metadata (as given by the form)
+   */
+  const saveDraft = useCallback(
+    (content: { text: string; photos: NewReflectionPhoto[]; metadata: ReflectionMetadata }) => {
+      const photoIds = photoIdsRef.current
+      pendingRef.current = {
+        text: content.text,
+        metadata: content.metadata,
+        photos: content.photos.map((photo) => {
+          if (!photoIds.has(photo.blob)) photoIds.set(photo.blob, id())
+          return { ...photo, id: photoIds.get(photo.blob) as string }
+        }),
+      }
+
+      if (saveTimerRef.current) clearTimeout(saveTimerRef.current)
+      saveTimerRef.current = setTimeout(() => {
+        flushDraft()
+      }, DRAFT_SAVE_DELAY)
+    },
+    [flushDraft]
+  )
+
+  /**
+   * Delete the draft everywhere (after saving the reflection, or on request)
+   * and start a new one
+   */
+  const discardDraft = useCallback(async (): Promise<void> => {
+    generationRef.current++
+    pendingRef.current = null
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current)
+    if (syncTimerRef.current) clearTimeout(syncTimerRef.current)
+    saveTimerRef.current = null
+    syncTimerRef.current = null
+
+    await queueRef.current
+    recordRef.current = null
+    setRestoredDraft(null)
+    setRestoredAt(null)
+    setLastSavedAt(null)
+    setDraftId(id())
+
+    if (user?.id) {
+      await getDraftStorage().deleteDraft(user.id)
+    }
+    await deleteSyncedDrafts(remoteRef.current)
+  }, [user?.id])
+
+  /**
+   * Turn syncing to other devices on or off
+   * Turning it off deletes the synced copy
+   *
+   * @param enabled - Whether to sync
+   */
+  const setSyncEnabled = useCallback(
+    async (enabled: boolean): Promise<void> => {
+      if (!user?.id) return
+
+      setDraftSyncEnabled(user.id, enabled)
+      setIsSyncEnabled(enabled)
+
+      if (enabled) {
+        scheduleSync(0)
+      } else {
+        if (syncTimerRef.current) clearTimeout(syncTimerRef.current)
+        await deleteSyncedDrafts(remoteRef.current)
+      }
+    },
+    [user?.id, scheduleSync]
+  )
+
+  // Save the pending change when the tab is hidden or the page unmounts
+  useEffect(() => {
+    const handlePageHide = () => {
+      flushDraft()
+    }
+    window.addEventListener('pagehide', handlePageHide)
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide)
+      flushDraft()
+    }
+  }, [flushDraft])
+
+  // Stop the sync timer when the page unmounts
+  useEffect(() => {
+    return () => {
+      if (syncTimerRef.current) clearTimeout(syncTimerRef.current)
+    }
+  }, [])
+
+  return {
+    // State
+    draftId,
+    restoredDraft,
+    restoredAt,
+    isRestoring,
+    lastSavedAt,
+    isSyncEnabled,
+    isSyncing,
+    error,
+
+    // Functions
+    saveDraft,
+    flushDraft,
+    discardDraft,
+    setSyncEnabled,
+  }
+}
+
+/**
+ * Utility: Download a synced draft's sealed photos into a local record
+ */
+async function downloadDraft(userId: string, draft: SyncedDraft): Promise<DraftRecord> {
+  const download = async (url: string): Promise<Blob> => {
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw new Error('Failed to download draft photo')
+    }
+    return await response.blob()
+  }
+
+  const photos = [...(draft.photos ?? [])].sort((a, b) => a.position - b.position)
+  const records: DraftRecord['photos'] = []
+  for (const photo of photos) {
+    if (!photo.file) continue
+    records.push({
+      photoId: photo.id,
+      photo: await download(photo.file.url),
+      thumbnail: photo.thumbnail ? await download(photo.thumbnail.url) : null,
+      caption: photo.caption ?? null,
+      photoType: photo.photoType ?? 'image/jpeg',
+    })
+  }
+
+  return {
+    userId,
+    draftId: draft.id,
+    text: draft.draftText,
+    photos: records,
+    metadata: draft.metadata ?? null,
+    updatedAt: draft.updatedAt,
+  }
+}
+
+/**
+ * Utility: Transactions deleting synced drafts with their photos and files
+ */
+function getDeleteTransactions(drafts: SyncedDraft[]) {
+  return drafts.flatMap((draft) => [
+    ...getPhotoFiles(draft.photos ?? []).map((file) => db.tx.$files[file.id].delete()),
+    ...(draft.photos ?? []).map((photo) => db.tx.reflectionPhotos[photo.id].delete()),
+    db.tx.reflectionDrafts[draft.id].delete(),
+  ])
+}
+
+/**
+ * Utility: Delete synced drafts with their photos and files
+ */
+async function deleteSyncedDrafts(drafts: SyncedDraft[]): Promise<void> {
+  if (drafts.length === 0) return
+  await db.transact(getDeleteTransactions(drafts))
+}
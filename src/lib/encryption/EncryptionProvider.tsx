@@ -0,0 +1,20 @@
+import type { ReactNode } from 'react'
+import { EncryptionContext, useEncryptionState } from './useEncryption'
+
+/**
+ * Encryption Context
+ *
+ * Loads the signed-in user's key and verifies it against the profile's key
+ * check once, then shares it with every component calling useEncryption().
+ * Must be mounted inside AuthProvider.
+ */
+
+interface EncryptionProviderProps {
+  children: ReactNode
+}
+
+export function EncryptionProvider({ children }: EncryptionProviderProps) {
+  const encryption = useEncryptionState()
+
+  return <EncryptionContext.Provider value={encryption}>{children}</EncryptionContext.Provider>
+}
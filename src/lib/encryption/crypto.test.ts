@@ -6,10 +6,39 @@ import {
   decryptText,
   encryptFile,
   decryptFile,
+  encryptFileStream,
+  decryptFileStream,
+  isChunkedCiphertext,
   isWebCryptoAvailable,
   type EncryptedData,
 } from './crypto'
 
+/**
+ * Split bytes into a stream with arbitrary piece sizes (like a network body)
+ */
+function streamOf(bytes: Uint8Array, pieceSize = bytes.length || 1): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      for (let i = 0; i < bytes.length; i += pieceSize) {
+        controller.enqueue(bytes.slice(i, i + pieceSize))
+      }
+      controller.close()
+    },
+  })
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+function randomBytes(length: number): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(length)
+  for (let i = 0; i < length; i += 65536) {
+    crypto.getRandomValues(bytes.subarray(i, Math.min(i + 65536, length)))
+  }
+  return bytes
+}
+
 describe('Encryption Service', () => {
   let testKey: CryptoKey
   let testKeyData: string
@@ -40,6 +69,13 @@ describe('Encryption Service', () => {
       expect(keyData.length).toBeGreaterThan(0)
     })
 
+    it('should generate non-extractable keys', async () => {
+      const { key } = await generateEncryptionKey()
+
+      expect(key.extractable).toBe(false)
+      await expect(crypto.subtle.exportKey('raw', key)).rejects.toThrow()
+    })
+
     it('should generate unique keys each time', async () => {
       const { keyData: key1 } = await generateEncryptionKey()
       const { keyData: key2 } = await generateEncryptionKey()
@@ -216,6 +252,90 @@ describe('Encryption Service', () => {
     })
   })
 
+  describe('Chunked Stream Encryption', () => {
+    it('should round-trip data across many chunks', async () => {
+      const original = randomBytes(10_000)
+
+      const encrypted = await readAll(encryptFileStream(streamOf(original, 777), testKey, { chunkSize: 1024 }))
+      const decrypted = await readAll(decryptFileStream(streamOf(encrypted, 333), testKey))
+
+      expect(decrypted).toEqual(original)
+    })
+
+    it('should handle empty input and exact chunk multiples', async () => {
+      for (const size of [0, 1024, 2048]) {
+        const original = randomBytes(size)
+        const encrypted = await readAll(encryptFileStream(streamOf(original), testKey, { chunkSize: 1024 }))
+        expect(await readAll(decryptFileStream(streamOf(encrypted), testKey))).toEqual(original)
+      }
+    })
+
+    it('should decrypt a File stream', async () => {
+      const file = new File([randomBytes(5000)], 'video.mp4', { type: 'video/mp4' })
+
+      const encrypted = await new Response(encryptFileStream(file.stream(), testKey)).blob()
+      const decrypted = await new Response(decryptFileStream(encrypted.stream(), testKey)).blob()
+
+      expect(new Uint8Array(await decrypted.arrayBuffer())).toEqual(new Uint8Array(await file.arrayBuffer()))
+    })
+
+    it('should write a versioned header', async () => {
+      const encrypted = await readAll(encryptFileStream(streamOf(randomBytes(10)), testKey))
+
+      expect(isChunkedCiphertext(encrypted)).toBe(true)
+      expect(encrypted[4]).toBe(1)
+    })
+
+    it('should fail to decrypt with wrong key', async () => {
+      const encrypted = await readAll(encryptFileStream(streamOf(randomBytes(100)), testKey))
+      const { key: wrongKey } = await generateEncryptionKey()
+
+      await expect(readAll(decryptFileStream(streamOf(encrypted), wrongKey))).rejects.toThrow()
+    })
+
+    it('should detect tampered chunks', async () => {
+      const encrypted = await readAll(encryptFileStream(streamOf(randomBytes(3000)), testKey, { chunkSize: 1024 }))
+      encrypted[encrypted.length - 20] ^= 0xff
+
+      await expect(readAll(decryptFileStream(streamOf(encrypted), testKey))).rejects.toThrow()
+    })
+
+    it('should detect reordered chunks', async () => {
+      const chunkSize = 1024
+      const encrypted = await readAll(encryptFileStream(streamOf(randomBytes(3000)), testKey, { chunkSize }))
+
+      // Swap the first two (equal-length) frames
+      const frameLength = 1 + 12 + 4 + chunkSize + 16
+      const first = encrypted.slice(9, 9 + frameLength)
+      encrypted.copyWithin(9, 9 + frameLength, 9 + 2 * frameLength)
+      encrypted.set(first, 9 + frameLength)
+
+      await expect(readAll(decryptFileStream(streamOf(encrypted), testKey))).rejects.toThrow()
+    })
+
+    it('should detect truncated streams', async () => {
+      const chunkSize = 1024
+      const encrypted = await readAll(encryptFileStream(streamOf(randomBytes(3000)), testKey, { chunkSize }))
+
+      // Drop the final frame entirely
+      const frameLength = 1 + 12 + 4 + chunkSize + 16
+      const truncated = encrypted.slice(0, 9 + 2 * frameLength)
+
+      await expect(readAll(decryptFileStream(streamOf(truncated), testKey))).rejects.toThrow('truncated')
+    })
+
+    it('should reject unknown format versions', async () => {
+      const encrypted = await readAll(encryptFileStream(streamOf(randomBytes(10)), testKey))
+      encrypted[4] = 99
+
+      await expect(readAll(decryptFileStream(streamOf(encrypted), testKey))).rejects.toThrow('version')
+    })
+
+    it('should reject invalid chunk sizes', () => {
+      expect(() => encryptFileStream(streamOf(randomBytes(10)), testKey, { chunkSize: 0 })).toThrow()
+    })
+  })
+
   describe('Security Properties', () => {
     it('should not leak plaintext in encrypted data', async () => {
       const secretText = 'very secret password'
@@ -5,7 +5,7 @@
  * All encryption happens client-side before data is sent to InstantDB
  * 
  * Security Notes:
- * - Encryption keys are stored in LocalStorage (never sent to server)
+ * - Encryption keys are stored in IndexedDB on this device (never sent to server unwrapped)
  * - AES-256-GCM provides authenticated encryption
  * - Each encryption uses a unique IV (initialization vector)
  * - Keys are generated using cryptographically secure random values
@@ -33,21 +33,12 @@ export interface EncryptionKey {
  */
 export async function generateEncryptionKey(): Promise<EncryptionKey> {
   try {
-    // Generate a new AES-256 key
-    const key = await crypto.subtle.generateKey(
-      {
-        name: ALGORITHM,
-        length: KEY_LENGTH,
-      },
-      true, // extractable (so we can export it)
-      ['encrypt', 'decrypt']
-    )
+    // Random raw key material
+    const rawKey = crypto.getRandomValues(new Uint8Array(KEY_LENGTH / 8))
 
-    // Export the key to raw format
-    const rawKey = await crypto.subtle.exportKey('raw', key)
-    
-    // Convert to base64 for storage
+    // Convert to base64 for backups and transfer
     const keyData = arrayBufferToBase64(rawKey)
+    const key = await importEncryptionKey(keyData)
 
     return { key, keyData }
   } catch (error) {
@@ -73,7 +64,7 @@ export async function importEncryptionKey(keyData: string): Promise<CryptoKey> {
         name: ALGORITHM,
         length: KEY_LENGTH,
       },
-      true,
+      false,
       ['encrypt', 'decrypt']
     )
 
@@ -234,10 +225,278 @@ export async function decryptFile(
   }
 }
 
+/**
+ * Chunked (streaming) file encryption
+ *
+ * Large photos and videos are encrypted in fixed-size chunks so they never
+ * have to be held in memory as a single buffer.
+ *
+ * Format:
+ * - Header: magic "RFCE" (4 bytes) | version (1 byte) | chunk size (uint32)
+ * - Frames: final flag (1 byte) | IV (12 bytes) | ciphertext length (uint32) | ciphertext
+ *
+ * Each chunk has its own random IV. The header, chunk index and final flag are
+ * bound as additional authenticated data, so reordered, dropped, truncated or
+ * appended chunks fail to decrypt.
+ */
+
+export const CHUNKED_FORMAT_VERSION = 1
+export const CHUNKED_ALGORITHM = `${ALGORITHM}-${KEY_LENGTH}-CHUNKED`
+export const DEFAULT_CHUNK_SIZE = 64 * 1024 // 64 KiB
+
+const CHUNKED_MAGIC = [0x52, 0x46, 0x43, 0x45] // "RFCE"
+const CHUNKED_HEADER_LENGTH = 9
+const FRAME_HEADER_LENGTH = 1 + IV_LENGTH + 4
+const GCM_TAG_LENGTH = 16
+const MAX_CHUNK_SIZE = 16 * 1024 * 1024 // 16 MiB
+
+export interface ChunkedEncryptionOptions {
+  chunkSize?: number // Plaintext bytes per chunk (default 64 KiB)
+}
+
+/**
+ * Encrypt a stream of bytes into the chunked format
+ *
+ * @param input - Plaintext stream (e.g. `file.stream()`)
+ * @param key - Encryption key
+ * @param options - Optional chunk size
+ * @returns ReadableStream<Uint8Array> - Header followed by encrypted frames
+ */
+export function encryptFileStream(
+  input: ReadableStream<Uint8Array>,
+  key: CryptoKey,
+  options: ChunkedEncryptionOptions = {}
+): ReadableStream<Uint8Array> {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE
+  if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_CHUNK_SIZE) {
+    throw new Error('Invalid chunk size')
+  }
+
+  const header = createChunkedHeader(chunkSize)
+  const buffer = new ByteQueue()
+  let index = 0
+
+  const encryptChunk = async (plaintext: Uint8Array<ArrayBuffer>, final: boolean) => {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+    const ciphertext = new Uint8Array(
+      await crypto.subtle.encrypt(
+        {
+          name: ALGORITHM,
+          iv,
+          additionalData: chunkAdditionalData(header, index, final),
+        },
+        key,
+        plaintext
+      )
+    )
+
+    const frame = new Uint8Array(FRAME_HEADER_LENGTH + ciphertext.length)
+    const view = new DataView(frame.buffer)
+    frame[0] = final ? 1 : 0
+    frame.set(iv, 1)
+    view.setUint32(1 + IV_LENGTH, ciphertext.length)
+    frame.set(ciphertext, FRAME_HEADER_LENGTH)
+
+    index++
+    return frame
+  }
+
+  return input.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      start(controller) {
+        controller.enqueue(header)
+      },
+      async transform(chunk, controller) {
+        buffer.push(chunk)
+        // Always hold back at least one byte so the last chunk can be marked final
+        while (buffer.length > chunkSize) {
+          controller.enqueue(await encryptChunk(buffer.read(chunkSize), false))
+        }
+      },
+      async flush(controller) {
+        controller.enqueue(await encryptChunk(buffer.read(buffer.length), true))
+      },
+    })
+  )
+}
+
+/**
+ * Decrypt a stream produced by encryptFileStream
+ *
+ * @param input - Encrypted stream (e.g. `response.body`)
+ * @param key - Decryption key
+ * @returns ReadableStream<Uint8Array> - Plaintext stream (errors on tampering or truncation)
+ */
+export function decryptFileStream(
+  input: ReadableStream<Uint8Array>,
+  key: CryptoKey
+): ReadableStream<Uint8Array> {
+  const buffer = new ByteQueue()
+  let header: Uint8Array<ArrayBuffer> | null = null
+  let maxFrameLength = 0
+  let index = 0
+  let finished = false
+
+  const decryptFrames = async (controller: TransformStreamDefaultController<Uint8Array>) => {
+    if (!header) {
+      if (buffer.length < CHUNKED_HEADER_LENGTH) return
+      header = buffer.read(CHUNKED_HEADER_LENGTH)
+      const chunkSize = parseChunkedHeader(header)
+      maxFrameLength = chunkSize + GCM_TAG_LENGTH
+    }
+
+    while (!finished && buffer.length >= FRAME_HEADER_LENGTH) {
+      const frameHeader = buffer.peek(FRAME_HEADER_LENGTH)
+      const final = frameHeader[0] === 1
+      const length = new DataView(frameHeader.buffer).getUint32(1 + IV_LENGTH)
+
+      if (frameHeader[0] > 1 || length < GCM_TAG_LENGTH || length > maxFrameLength) {
+        throw new Error('Invalid encrypted chunk')
+      }
+      if (buffer.length < FRAME_HEADER_LENGTH + length) return
+
+      buffer.read(FRAME_HEADER_LENGTH)
+      const ciphertext = buffer.read(length)
+      const plaintext = await crypto.subtle.decrypt(
+        {
+          name: ALGORITHM,
+          iv: frameHeader.slice(1, 1 + IV_LENGTH),
+          additionalData: chunkAdditionalData(header, index, final),
+        },
+        key,
+        ciphertext
+      )
+
+      controller.enqueue(new Uint8Array(plaintext))
+      index++
+      finished = final
+    }
+
+    if (finished && buffer.length > 0) {
+      throw new Error('Unexpected data after final chunk')
+    }
+  }
+
+  return input.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      async transform(chunk, controller) {
+        buffer.push(chunk)
+        try {
+          await decryptFrames(controller)
+        } catch (error) {
+          console.error('Failed to decrypt file stream:', error)
+          // Format errors are already descriptive; authentication failures are not
+          if (error instanceof Error && error.name !== 'OperationError') throw error
+          throw new Error('Failed to decrypt file. Data may be corrupted or key is incorrect.')
+        }
+      },
+      flush() {
+        if (!finished) {
+          throw new Error('Encrypted file is truncated')
+        }
+      },
+    })
+  )
+}
+
+/**
+ * Check whether encrypted bytes start with the chunked format header
+ */
+export function isChunkedCiphertext(bytes: Uint8Array): boolean {
+  return CHUNKED_MAGIC.every((byte, i) => bytes[i] === byte)
+}
+
+function createChunkedHeader(chunkSize: number): Uint8Array<ArrayBuffer> {
+  const header = new Uint8Array(CHUNKED_HEADER_LENGTH)
+  header.set(CHUNKED_MAGIC, 0)
+  header[4] = CHUNKED_FORMAT_VERSION
+  new DataView(header.buffer).setUint32(5, chunkSize)
+  return header
+}
+
+function parseChunkedHeader(header: Uint8Array<ArrayBuffer>): number {
+  if (!isChunkedCiphertext(header)) {
+    throw new Error('Not a chunked encrypted file')
+  }
+  if (header[4] !== CHUNKED_FORMAT_VERSION) {
+    throw new Error(`Unsupported chunked format version: ${header[4]}`)
+  }
+
+  const chunkSize = new DataView(header.buffer).getUint32(5)
+  if (chunkSize < 1 || chunkSize > MAX_CHUNK_SIZE) {
+    throw new Error('Invalid chunk size')
+  }
+  return chunkSize
+}
+
+/**
+ * Additional data for a chunk: header | chunk index (uint32) | final flag
+ */
+function chunkAdditionalData(
+  header: Uint8Array<ArrayBuffer>,
+  index: number,
+  final: boolean
+): Uint8Array<ArrayBuffer> {
+  const data = new Uint8Array(CHUNKED_HEADER_LENGTH + 5)
+  data.set(header, 0)
+  new DataView(data.buffer).setUint32(CHUNKED_HEADER_LENGTH, index)
+  data[CHUNKED_HEADER_LENGTH + 4] = final ? 1 : 0
+  return data
+}
+
+/**
+ * FIFO byte buffer that avoids re-copying on every incoming chunk
+ */
+class ByteQueue {
+  private chunks: Uint8Array[] = []
+  private offset = 0
+  length = 0
+
+  push(chunk: Uint8Array) {
+    if (chunk.length === 0) return
+    this.chunks.push(chunk)
+    this.length += chunk.length
+  }
+
+  peek(size: number): Uint8Array<ArrayBuffer> {
+    return this.copy(size, false)
+  }
+
+  read(size: number): Uint8Array<ArrayBuffer> {
+    return this.copy(size, true)
+  }
+
+  private copy(size: number, consume: boolean): Uint8Array<ArrayBuffer> {
+    const out = new Uint8Array(size)
+    let written = 0
+    let chunkIndex = 0
+    let offset = this.offset
+
+    while (written < size) {
+      const chunk = this.chunks[chunkIndex]
+      const take = Math.min(size - written, chunk.length - offset)
+      out.set(chunk.subarray(offset, offset + take), written)
+      written += take
+      offset += take
+      if (offset === chunk.length) {
+        chunkIndex++
+        offset = 0
+      }
+    }
+
+    if (consume) {
+      this.chunks.splice(0, chunkIndex)
+      this.offset = offset
+      this.length -= size
+    }
+    return out
+  }
+}
+
 /**
  * Utility: Convert ArrayBuffer to Base64
  */
-function arrayBufferToBase64(buffer: ArrayBuffer): string {
+export function arrayBufferToBase64(buffer: ArrayBuffer | Uint8Array): string {
   const bytes = new Uint8Array(buffer)
   let binary = ''
   for (let i = 0; i < bytes.byteLength; i++) {
@@ -249,7 +508,7 @@ function arrayBufferToBase64(buffer: ArrayBuffer): string {
 /**
  * Utility: Convert Base64 to ArrayBuffer
  */
-function base64ToArrayBuffer(base64: string): ArrayBuffer {
+export function base64ToArrayBuffer(base64: string): ArrayBuffer {
   const binary = atob(base64)
   const bytes = new Uint8Array(binary.length)
   for (let i = 0; i < binary.length; i++) {
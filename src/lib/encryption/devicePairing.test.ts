@@ -0,0 +1,213 @@
+import { describe, it, expect } from 'vitest'
+import {
+  generatePairingKeyPair,
+  exportPairingPublicKey,
+  createPairingCommitment,
+  createPairingNonce,
+  derivePairingSecret,
+  encryptKeyring,
+  decryptKeyring,
+  createPairingLink,
+  parsePairingLink,
+  isPairingExpired,
+} from './devicePairing'
+import type { Keyring } from './keyStorage'
+
+const keyring: Keyring = {
+  active: {
+    keyData: 'YWN0aXZlLWtleQ==',
+    metadata: {
+      keyId: 'key-2',
+      keyVersion: 2,
+      version: '1.0',
+      createdAt: 2,
+      algorithm: 'AES-256-GCM',
+      userId: 'user-1',
+    },
+  },
+  archive: [
+    {
+      keyData: 'YXJjaGl2ZWQta2V5',
+      metadata: {
+        keyId: 'key-1',
+        keyVersion: 1,
+        version: '1.0',
+        createdAt: 1,
+        algorithm: 'AES-256-GCM',
+        userId: 'user-1',
+      },
+    },
+  ],
+}
+
+async function createTranscript(pairingId: string, nonce = createPairingNonce()) {
+  const initiator = await generatePairingKeyPair()
+  const responder = await generatePairingKeyPair()
+  const initiatorPublicKey = await exportPairingPublicKey(initiator.publicKey)
+  const responderPublicKey = await exportPairingPublicKey(responder.publicKey)
+
+  return {
+    initiator,
+    responder,
+    transcript: {
+      pairingId,
+      initiatorPublicKey,
+      responderPublicKey,
+      responderCommitment: await createPairingCommitment(pairingId, responderPublicKey),
+      nonce,
+    },
+  }
+}
+
+async function pairDevices(pairingId: string) {
+  const { initiator, responder, transcript } = await createTranscript(pairingId)
+
+  return {
+    initiator: await derivePairingSecret(initiator.privateKey, 'initiator', transcript),
+    responder: await derivePairingSecret(responder.privateKey, 'responder', transcript),
+  }
+}
+
+describe('Device Pairing', () => {
+  describe('Shared Secret', () => {
+    it('should derive the same verification code on both devices', async () => {
+      const { initiator, responder } = await pairDevices('pairing-1')
+
+      expect(initiator.verificationCode).toMatch(/^\d{6}$/)
+      expect(responder.verificationCode).toBe(initiator.verificationCode)
+    })
+
+    it('should derive a different code when the initiator key is substituted', async () => {
+      const { initiator, responder, transcript } = await createTranscript('pairing-1')
+      const attacker = await generatePairingKeyPair()
+
+      const initiatorSecret = await derivePairingSecret(
+        initiator.privateKey,
+        'initiator',
+        transcript
+      )
+      const responderSecret = await derivePairingSecret(responder.privateKey, 'responder', {
+        ...transcript,
+        initiatorPublicKey: await exportPairingPublicKey(attacker.publicKey),
+      })
+
+      expect(responderSecret.verificationCode).not.toBe(initiatorSecret.verificationCode)
+    })
+
+    it('should reject a substituted responder key even if its code would match', async () => {
+      const { initiator, transcript } = await createTranscript('pairing-1')
+      const attacker = await generatePairingKeyPair()
+
+      // The commitment is checked before any code is derived, so grinding
+      // attacker keys for a matching code gets nowhere
+      await expect(
+        derivePairingSecret(initiator.privateKey, 'initiator', {
+          ...transcript,
+          responderPublicKey: await exportPairingPublicKey(attacker.publicKey),
+        })
+      ).rejects.toThrow('Pairing key does not match its commitment')
+    })
+
+    it('should reject a commitment made for another pairing', async () => {
+      const { initiator, transcript } = await createTranscript('pairing-1')
+
+      await expect(
+        derivePairingSecret(initiator.privateKey, 'initiator', {
+          ...transcript,
+          responderCommitment: await createPairingCommitment(
+            'pairing-2',
+            transcript.responderPublicKey
+          ),
+        })
+      ).rejects.toThrow('Pairing key does not match its commitment')
+    })
+
+    it('should derive a different code for a different nonce', async () => {
+      const { initiator, transcript } = await createTranscript('pairing-1')
+
+      const first = await derivePairingSecret(initiator.privateKey, 'initiator', transcript)
+      const second = await derivePairingSecret(initiator.privateKey, 'initiator', {
+        ...transcript,
+        nonce: createPairingNonce(),
+      })
+
+      expect(second.verificationCode).not.toBe(first.verificationCode)
+    })
+
+    it('should reject an invalid public key', async () => {
+      const { privateKey } = await generatePairingKeyPair()
+      const responderPublicKey = 'bm90LWEta2V5'
+
+      await expect(
+        derivePairingSecret(privateKey, 'initiator', {
+          pairingId: 'pairing-1',
+          initiatorPublicKey: 'bm90LWEta2V5',
+          responderPublicKey,
+          responderCommitment: await createPairingCommitment('pairing-1', responderPublicKey),
+          nonce: createPairingNonce(),
+        })
+      ).rejects.toThrow('Invalid pairing public key')
+    })
+  })
+
+  describe('Keyring Transfer', () => {
+    it('should encrypt and decrypt a keyring', async () => {
+      const { initiator, responder } = await pairDevices('pairing-1')
+
+      const { encryptedKeyring, keyringIV } = await encryptKeyring(
+        keyring,
+        initiator.key,
+        'pairing-1'
+      )
+
+      expect(encryptedKeyring).not.toContain('YWN0aXZlLWtleQ')
+      expect(await decryptKeyring(encryptedKeyring, keyringIV, responder.key, 'pairing-1')).toEqual(
+        keyring
+      )
+    })
+
+    it('should fail to decrypt for a different pairing', async () => {
+      const { initiator, responder } = await pairDevices('pairing-1')
+      const { encryptedKeyring, keyringIV } = await encryptKeyring(
+        keyring,
+        initiator.key,
+        'pairing-1'
+      )
+
+      await expect(
+        decryptKeyring(encryptedKeyring, keyringIV, responder.key, 'pairing-2')
+      ).rejects.toThrow()
+    })
+  })
+
+  describe('Pairing Links', () => {
+    it('should round-trip an offer through a link', async () => {
+      const { publicKey } = await generatePairingKeyPair()
+      const offer = { pairingId: 'abc-123', publicKey: await exportPairingPublicKey(publicKey) }
+
+      const link = createPairingLink('https://example.com', offer)
+
+      expect(link).toMatch(/^https:\/\/example\.com\/link-device#pair=abc-123\.[\w-]+$/)
+      expect(parsePairingLink(link)).toEqual(offer)
+    })
+
+    it('should parse a fragment or bare code', () => {
+      const expected = { pairingId: 'abc-123', publicKey: 'ab+/cd==' }
+
+      expect(parsePairingLink('#pair=abc-123.ab-_cd')).toEqual(expected)
+      expect(parsePairingLink('  abc-123.ab-_cd  ')).toEqual(expected)
+    })
+
+    it('should return null for other input', () => {
+      expect(parsePairingLink('')).toBeNull()
+      expect(parsePairingLink('not a pairing link')).toBeNull()
+    })
+  })
+
+  describe('Expiry', () => {
+    it('should expire at expiresAt', () => {
+      expect(isPairingExpired({ expiresAt: 1000 }, 999)).toBe(false)
+      expect(isPairingExpired({ expiresAt: 1000 }, 1000)).toBe(true)
+    })
+  })
+})
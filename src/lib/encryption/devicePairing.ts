@@ -0,0 +1,252 @@
+/**
+ * Device Pairing
+ *
+ * Copies the user's keyring to a new device without a passphrase:
+ *
+ * 1. The signed-in device creates an ephemeral ECDH (P-256) key pair and a
+ *    `devicePairings` entity, and shows a QR code linking to
+ *    `/link-device#pair=<pairingId>.<publicKey>`
+ * 2. The new device opens the link, creates its own key pair and writes a hash
+ *    commitment to its public key
+ * 3. The first device answers with a random nonce, then the new device reveals
+ *    its public key
+ * 4. Both devices derive the same AES-GCM key (ECDH → HKDF) and show a short
+ *    verification code bound to both public keys and the nonce; once the user
+ *    confirms they match, the first device uploads the keyring encrypted with
+ *    the derived key
+ * 5. The new device decrypts and stores the keyring, then marks the pairing complete
+ *
+ * The server only ever sees the responder's public key and ciphertext. The
+ * initiator's public key travels only in the QR code, and because the responder
+ * commits to its key before the nonce is known, a substituted key can't be
+ * ground until its code matches.
+ */
+
+import { arrayBufferToBase64, base64ToArrayBuffer } from './crypto'
+import type { Keyring } from './keyStorage'
+
+export const PAIRING_TTL_MS = 10 * 60 * 1000 // 10 minutes
+export const PAIRING_LINK_PATH = '/link-device'
+
+const CURVE = 'P-256'
+const HKDF_INFO_KEY = 'reflections-device-pairing-v1/key'
+const HKDF_INFO_CODE = 'reflections-device-pairing-v1/code'
+const IV_LENGTH = 12
+const NONCE_LENGTH = 16
+
+export type PairingStatus =
+  'waiting' | 'committed' | 'challenged' | 'responded' | 'sent' | 'completed'
+
+export interface PairingOffer {
+  pairingId: string
+  publicKey: string // Base64 raw P-256 public key of the initiating device
+}
+
+/**
+ * Everything both devices must agree on before the verification code is shown
+ * Each device fills in its own public key (and the initiator its own nonce)
+ * rather than trusting the copy on the server
+ */
+export interface PairingTranscript {
+  pairingId: string
+  initiatorPublicKey: string
+  responderPublicKey: string
+  responderCommitment: string // Hash of responderPublicKey, written before the nonce
+  nonce: string // Base64 random nonce from the initiator
+}
+
+export interface PairingSecret {
+  key: CryptoKey // AES-GCM key for the keyring
+  verificationCode: string // 6 digits shown on both devices
+}
+
+/**
+ * Generate an ephemeral ECDH key pair (private key is non-extractable)
+ */
+export async function generatePairingKeyPair(): Promise<CryptoKeyPair> {
+  return await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: CURVE }, false, [
+    'deriveBits',
+  ])
+}
+
+/**
+ * Export a pairing public key as base64 (raw uncompressed point)
+ */
+export async function exportPairingPublicKey(publicKey: CryptoKey): Promise<string> {
+  return arrayBufferToBase64(await crypto.subtle.exportKey('raw', publicKey))
+}
+
+/**
+ * Commit to the responder's public key before the initiator's nonce is known
+ */
+export async function createPairingCommitment(
+  pairingId: string,
+  responderPublicKey: string
+): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(`${pairingId}.${responderPublicKey}`)
+  )
+  return arrayBufferToBase64(digest)
+}
+
+/**
+ * Generate the initiator's nonce, sent once the responder has committed
+ */
+export function createPairingNonce(): string {
+  return arrayBufferToBase64(crypto.getRandomValues(new Uint8Array(NONCE_LENGTH)))
+}
+
+/**
+ * Derive the shared keyring key and verification code
+ * Both devices get the same result from their own private key and the same transcript
+ *
+ * @param privateKey - This device's ephemeral private key
+ * @param role - Which side of the transcript this device is
+ * @param transcript - Public keys, responder commitment and nonce
+ * @returns Promise<PairingSecret> - Keyring key and verification code
+ * @throws Error if the responder's public key doesn't match its commitment
+ */
+export async function derivePairingSecret(
+  privateKey: CryptoKey,
+  role: 'initiator' | 'responder',
+  transcript: PairingTranscript
+): Promise<PairingSecret> {
+  const { pairingId, initiatorPublicKey, responderPublicKey, responderCommitment, nonce } =
+    transcript
+
+  const commitment = await createPairingCommitment(pairingId, responderPublicKey)
+  if (commitment !== responderCommitment) {
+    throw new Error('Pairing key does not match its commitment')
+  }
+
+  let peerKey: CryptoKey
+  try {
+    peerKey = await crypto.subtle.importKey(
+      'raw',
+      base64ToArrayBuffer(role === 'initiator' ? responderPublicKey : initiatorPublicKey),
+      { name: 'ECDH', namedCurve: CURVE },
+      false,
+      []
+    )
+  } catch {
+    throw new Error('Invalid pairing public key')
+  }
+
+  const sharedBits = await crypto.subtle.deriveBits({ name: 'ECDH', public: peerKey }, privateKey, 256)
+  const hkdfKey = await crypto.subtle.importKey('raw', sharedBits, 'HKDF', false, [
+    'deriveKey',
+    'deriveBits',
+  ])
+
+  const encoder = new TextEncoder()
+  const salt = encoder.encode(pairingId)
+  const context = `${initiatorPublicKey}.${responderPublicKey}.${nonce}`
+
+  const key = await crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: encoder.encode(`${HKDF_INFO_KEY}|${context}`) },
+    hkdfKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+
+  const codeBits = await crypto.subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: encoder.encode(`${HKDF_INFO_CODE}|${context}`) },
+    hkdfKey,
+    32
+  )
+  const code = new DataView(codeBits).getUint32(0) % 1_000_000
+
+  return { key, verificationCode: code.toString().padStart(6, '0') }
+}
+
+/**
+ * Encrypt a keyring for transfer (pairing id bound as additional data)
+ */
+export async function encryptKeyring(
+  keyring: Keyring,
+  pairingKey: CryptoKey,
+  pairingId: string
+): Promise<{ encryptedKeyring: string; keyringIV: string }> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(pairingId) },
+    pairingKey,
+    new TextEncoder().encode(JSON.stringify(keyring))
+  )
+
+  return {
+    encryptedKeyring: arrayBufferToBase64(ciphertext),
+    keyringIV: arrayBufferToBase64(iv),
+  }
+}
+
+/**
+ * Decrypt a transferred keyring
+ */
+export async function decryptKeyring(
+  encryptedKeyring: string,
+  keyringIV: string,
+  pairingKey: CryptoKey,
+  pairingId: string
+): Promise<Keyring> {
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: base64ToArrayBuffer(keyringIV),
+        additionalData: new TextEncoder().encode(pairingId),
+      },
+      pairingKey,
+      base64ToArrayBuffer(encryptedKeyring)
+    )
+    return JSON.parse(new TextDecoder().decode(plaintext))
+  } catch (error) {
+    console.error('Failed to decrypt keyring:', error)
+    throw new Error('Failed to receive encryption key. Please start pairing again.')
+  }
+}
+
+/**
+ * Build the link encoded in the QR code
+ * The offer is in the URL fragment so it is never sent to the server
+ */
+export function createPairingLink(origin: string, offer: PairingOffer): string {
+  return `${origin}${PAIRING_LINK_PATH}#pair=${offer.pairingId}.${toBase64Url(offer.publicKey)}`
+}
+
+/**
+ * Parse a pairing link, its fragment, or the bare "<pairingId>.<publicKey>" code
+ *
+ * @returns PairingOffer | null - Offer, or null if the input isn't a pairing code
+ */
+export function parsePairingLink(input: string): PairingOffer | null {
+  const trimmed = input.trim()
+  const match = trimmed.match(/(?:#pair=)?([\w-]+)\.([\w-]+)$/)
+  if (!match) {
+    return null
+  }
+
+  const [, pairingId, publicKey] = match
+  return { pairingId, publicKey: fromBase64Url(publicKey) }
+}
+
+/**
+ * Check whether a pairing has expired
+ */
+export function isPairingExpired(pairing: { expiresAt: number }, now = Date.now()): boolean {
+  return pairing.expiresAt <= now
+}
+
+/**
+ * Utility: URL-safe base64 (no padding) for links
+ */
+function toBase64Url(base64: string): string {
+  return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(base64Url: string): string {
+  const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/')
+  return base64 + '='.repeat((4 - (base64.length % 4)) % 4)
+}
@@ -0,0 +1,227 @@
+import { describe, it, expect, beforeAll } from 'vitest'
+import {
+  sealEnvelope,
+  openEnvelope,
+  stringifyEnvelope,
+  parseEnvelope,
+  encodeEnvelope,
+  decodeEnvelope,
+  peekEnvelopeKeyId,
+  encryptTextEnvelope,
+  decryptTextEnvelope,
+  encryptFileEnvelope,
+  decryptFileEnvelope,
+  ENVELOPE_VERSION,
+  type EnvelopeContext,
+} from './envelope'
+import { generateEncryptionKey } from './crypto'
+
+describe('Ciphertext Envelope', () => {
+  const keyId = 'key-1'
+  const context = { userId: 'user-1', reflectionId: 'reflection-1' }
+  let testKey: CryptoKey
+
+  beforeAll(async () => {
+    const { key } = await generateEncryptionKey()
+    testKey = key
+  })
+
+  describe('Text Envelopes', () => {
+    it('should encrypt and decrypt text', async () => {
+      const serialized = await encryptTextEnvelope('My reflection 🌅', testKey, keyId, context)
+      expect(await decryptTextEnvelope(serialized, testKey, context)).toBe('My reflection 🌅')
+    })
+
+    it('should be self-describing', async () => {
+      const serialized = await encryptTextEnvelope('Text', testKey, keyId, context)
+      const json = JSON.parse(serialized)
+
+      expect(json).toMatchObject({ v: ENVELOPE_VERSION, alg: 'AES-GCM-256', kid: keyId })
+      expect(serialized).not.toContain('Text')
+    })
+
+    it('should reject ciphertext moved to another reflection', async () => {
+      const serialized = await encryptTextEnvelope('Text', testKey, keyId, context)
+
+      await expect(
+        decryptTextEnvelope(serialized, testKey, { ...context, reflectionId: 'reflection-2' })
+      ).rejects.toThrow('another reflection')
+    })
+
+    it('should reject ciphertext moved to another user', async () => {
+      const serialized = await encryptTextEnvelope('Text', testKey, keyId, context)
+
+      await expect(
+        decryptTextEnvelope(serialized, testKey, { ...context, userId: 'user-2' })
+      ).rejects.toThrow()
+    })
+
+    it('should not swap a caption in for the reflection text', async () => {
+      const caption = await encryptTextEnvelope('Beach day', testKey, keyId, {
+        ...context,
+        field: 'caption',
+      })
+
+      expect(await decryptTextEnvelope(caption, testKey, { ...context, field: 'caption' })).toBe(
+        'Beach day'
+      )
+      await expect(decryptTextEnvelope(caption, testKey, context)).rejects.toThrow()
+    })
+
+    it('should not swap a caption in from another photo', async () => {
+      const captionContext = { ...context, field: 'caption' as const }
+      const caption = await encryptTextEnvelope('Beach day', testKey, keyId, {
+        ...captionContext,
+        photoId: 'photo-1',
+      })
+
+      expect(
+        await decryptTextEnvelope(caption, testKey, { ...captionContext, photoId: 'photo-1' })
+      ).toBe('Beach day')
+      await expect(
+        decryptTextEnvelope(caption, testKey, { ...captionContext, photoId: 'photo-2' })
+      ).rejects.toThrow('another reflection')
+    })
+
+    it('should still open version 1 envelopes, which have no photo id', async () => {
+      // Sealed the way version 1 did: no photo id in the additional data
+      const header = new Uint8Array([1, 1, keyId.length, ...new TextEncoder().encode(keyId)])
+      const scope = new TextEncoder().encode('reflections|user-1|reflection-1|caption')
+      const iv = crypto.getRandomValues(new Uint8Array(12))
+      const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv, additionalData: new Uint8Array([...header, ...scope]) },
+        testKey,
+        new TextEncoder().encode('Old caption')
+      )
+      const serialized = stringifyEnvelope({
+        version: 1,
+        algorithm: 'AES-GCM-256',
+        keyId,
+        iv,
+        ciphertext: new Uint8Array(ciphertext),
+      })
+
+      expect(
+        await decryptTextEnvelope(serialized, testKey, {
+          ...context,
+          field: 'caption',
+          photoId: 'photo-1',
+        })
+      ).toBe('Old caption')
+    })
+
+    it('should reject a tampered key id', async () => {
+      const serialized = await encryptTextEnvelope('Text', testKey, keyId, context)
+      const tampered = JSON.stringify({ ...JSON.parse(serialized), kid: 'key-2' })
+
+      await expect(decryptTextEnvelope(tampered, testKey, context)).rejects.toThrow()
+    })
+
+    it('should fail to decrypt with wrong key', async () => {
+      const serialized = await encryptTextEnvelope('Text', testKey, keyId, context)
+      const { key: wrongKey } = await generateEncryptionKey()
+
+      await expect(decryptTextEnvelope(serialized, wrongKey, context)).rejects.toThrow()
+    })
+  })
+
+  describe('Parsing', () => {
+    it('should reject unknown versions', async () => {
+      const serialized = await encryptTextEnvelope('Text', testKey, keyId, context)
+      const future = JSON.stringify({ ...JSON.parse(serialized), v: 9 })
+
+      expect(() => parseEnvelope(future)).toThrow('Unsupported envelope version: 9')
+    })
+
+    it('should reject unknown algorithms', async () => {
+      const serialized = await encryptTextEnvelope('Text', testKey, keyId, context)
+      const other = JSON.stringify({ ...JSON.parse(serialized), alg: 'XChaCha20' })
+
+      expect(() => parseEnvelope(other)).toThrow('Unsupported envelope algorithm')
+    })
+
+    it('should reject malformed input', () => {
+      expect(() => parseEnvelope('not json')).toThrow('Invalid envelope')
+      expect(() => parseEnvelope('null')).toThrow('Invalid envelope')
+      expect(() => parseEnvelope(JSON.stringify({ v: 1, alg: 'AES-GCM-256' }))).toThrow(
+        'missing fields'
+      )
+    })
+
+    it('should round-trip the JSON and binary encodings', async () => {
+      const envelope = await sealEnvelope(new Uint8Array([1, 2, 3]), testKey, keyId, {
+        ...context,
+        field: 'text',
+      })
+
+      expect(parseEnvelope(stringifyEnvelope(envelope))).toEqual(envelope)
+      expect(decodeEnvelope(encodeEnvelope(envelope))).toEqual(envelope)
+    })
+
+    it('should reject unknown binary versions and truncated input', async () => {
+      const bytes = encodeEnvelope(
+        await sealEnvelope(new Uint8Array([1]), testKey, keyId, { ...context, field: 'photo' })
+      )
+
+      expect(() => decodeEnvelope(bytes.slice(0, 5))).toThrow('truncated')
+
+      bytes[0] = 9
+      expect(() => decodeEnvelope(bytes)).toThrow('Unsupported envelope version: 9')
+    })
+  })
+
+  describe('File Envelopes', () => {
+    it('should encrypt and decrypt a photo', async () => {
+      const photo = new Blob([new Uint8Array([0xff, 0xd8, 0xff, 0xe0])], { type: 'image/jpeg' })
+
+      const encrypted = await encryptFileEnvelope(photo, testKey, keyId, context)
+      const decrypted = await decryptFileEnvelope(encrypted, testKey, context, 'image/jpeg')
+
+      expect(decrypted.type).toBe('image/jpeg')
+      expect(new Uint8Array(await decrypted.arrayBuffer())).toEqual(
+        new Uint8Array(await photo.arrayBuffer())
+      )
+    })
+
+    it('should expose the key id in the header', async () => {
+      const encrypted = await encryptFileEnvelope(new Blob(['photo']), testKey, keyId, context)
+      const header = new Uint8Array(await encrypted.slice(0, 258).arrayBuffer())
+
+      expect(peekEnvelopeKeyId(header)).toBe(keyId)
+    })
+
+    it('should not decrypt a photo as reflection text', async () => {
+      const photoContext: EnvelopeContext = { ...context, field: 'photo' }
+      const envelope = await sealEnvelope(new TextEncoder().encode('x'), testKey, keyId, photoContext)
+
+      await expect(
+        openEnvelope(envelope, testKey, { ...context, field: 'text' })
+      ).rejects.toThrow()
+    })
+
+    it('should not swap a photo in from another photo row', async () => {
+      const photo = await encryptFileEnvelope(new Blob(['photo']), testKey, keyId, {
+        ...context,
+        photoId: 'photo-1',
+      })
+
+      await expect(
+        decryptFileEnvelope(photo, testKey, { ...context, photoId: 'photo-2' })
+      ).rejects.toThrow()
+    })
+
+    it('should not swap a thumbnail in for the full photo', async () => {
+      const thumbnail = await encryptFileEnvelope(new Blob(['thumb']), testKey, keyId, {
+        ...context,
+        field: 'thumbnail',
+      })
+
+      expect(
+        await (
+          await decryptFileEnvelope(thumbnail, testKey, { ...context, field: 'thumbnail' })
+        ).text()
+      ).toBe('thumb')
+      await expect(decryptFileEnvelope(thumbnail, testKey, context)).rejects.toThrow()
+    })
+  })
+})
@@ -0,0 +1,376 @@
+/**
+ * Ciphertext Envelope Format
+ *
+ * Self-describing container for encrypted reflection data. Every envelope
+ * records the format version, the key that sealed it and the algorithm used,
+ * so the crypto can evolve without guessing how old data was written.
+ *
+ * AES-GCM additional authenticated data binds each envelope to its header
+ * and to the reflection it belongs to (user id, reflection id, field, and the
+ * `reflectionPhotos` id for photo files and captions), so ciphertext copied
+ * onto another reflection, user, field or photo fails to decrypt.
+ *
+ * Versions:
+ * - 1: no photo id in the additional data (still opened, never written)
+ * - 2: photo id included whenever the context has one
+ *
+ * Encodings:
+ * - JSON (reflection text): `{"v":2,"alg":"AES-GCM-256","kid":"...","iv":"base64","ct":"base64"}`
+ * - Binary (photos): version (1 byte) | algorithm id (1 byte) | key id length (1 byte)
+ *   | key id (UTF-8) | IV (12 bytes) | ciphertext
+ */
+
+import { arrayBufferToBase64, base64ToArrayBuffer } from './crypto'
+
+export const ENVELOPE_VERSION = 2
+
+/**
+ * Versions this build can open
+ */
+const SUPPORTED_VERSIONS: readonly number[] = [1, ENVELOPE_VERSION]
+
+/**
+ * Stored in `reflections.encryptionAlgorithm` for envelope-encrypted rows
+ */
+export const ENVELOPE_FORMAT = 'envelope'
+
+/**
+ * Algorithm ids written into envelopes (never reuse a number)
+ */
+export const ENVELOPE_ALGORITHMS = {
+  'AES-GCM-256': 1,
+} as const
+
+export type EnvelopeAlgorithm = keyof typeof ENVELOPE_ALGORITHMS
+
+const IV_LENGTH = 12
+const BINARY_HEADER_LENGTH = 3
+const MAX_KEY_ID_LENGTH = 255
+
+export interface EnvelopeContext {
+  userId: string
+  reflectionId: string
+  field: 'text' | 'caption' | 'metadata' | 'photo' | 'thumbnail'
+  photoId?: string // reflectionPhotos row the photo, thumbnail or caption belongs to
+}
+
+/**
+ * Context for JSON envelopes (field defaults to 'text')
+ */
+export type TextEnvelopeContext = Omit<EnvelopeContext, 'field'> & {
+  field?: 'text' | 'caption' | 'metadata'
+}
+
+/**
+ * Context for binary envelopes (field defaults to 'photo')
+ */
+export type FileEnvelopeContext = Omit<EnvelopeContext, 'field'> & {
+  field?: 'photo' | 'thumbnail'
+}
+
+export interface CiphertextEnvelope {
+  version: number
+  algorithm: EnvelopeAlgorithm
+  keyId: string
+  iv: Uint8Array<ArrayBuffer>
+  ciphertext: Uint8Array<ArrayBuffer>
+}
+
+/**
+ * Encrypt bytes into an envelope bound to a reflection
+ *
+ * @param plaintext - Data to encrypt
+ * @param key - Encryption key
+ * @param keyId - Identifier of the key (see KeyMetadata.keyId)
+ * @param context - Reflection the data belongs to
+ * @returns Promise<CiphertextEnvelope> - Sealed envelope
+ */
+export async function sealEnvelope(
+  plaintext: ArrayBuffer | Uint8Array<ArrayBuffer>,
+  key: CryptoKey,
+  keyId: string,
+  context: EnvelopeContext
+): Promise<CiphertextEnvelope> {
+  const header = {
+    version: ENVELOPE_VERSION,
+    algorithm: 'AES-GCM-256' as const,
+    keyId,
+  }
+  const additionalData = buildAdditionalData(header, context)
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+
+  try {
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData },
+      key,
+      plaintext
+    )
+    return { ...header, iv, ciphertext: new Uint8Array(ciphertext) }
+  } catch (error) {
+    console.error('Failed to seal envelope:', error)
+    throw new Error('Failed to encrypt data')
+  }
+}
+
+/**
+ * Decrypt an envelope, verifying it belongs to the given reflection
+ *
+ * @param envelope - Parsed envelope
+ * @param key - Key matching envelope.keyId
+ * @param context - Reflection the data is expected to belong to
+ * @returns Promise<ArrayBuffer> - Decrypted bytes
+ */
+export async function openEnvelope(
+  envelope: CiphertextEnvelope,
+  key: CryptoKey,
+  context: EnvelopeContext
+): Promise<ArrayBuffer> {
+  assertSupported(envelope.version, envelope.algorithm)
+
+  try {
+    return await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: envelope.iv, additionalData: buildAdditionalData(envelope, context) },
+      key,
+      envelope.ciphertext
+    )
+  } catch (error) {
+    console.error('Failed to open envelope:', error)
+    throw new Error(
+      'Failed to decrypt data. It may belong to another reflection or the key is incorrect.'
+    )
+  }
+}
+
+/**
+ * Serialize an envelope as JSON (for string fields)
+ */
+export function stringifyEnvelope(envelope: CiphertextEnvelope): string {
+  return JSON.stringify({
+    v: envelope.version,
+    alg: envelope.algorithm,
+    kid: envelope.keyId,
+    iv: arrayBufferToBase64(envelope.iv),
+    ct: arrayBufferToBase64(envelope.ciphertext),
+  })
+}
+
+/**
+ * Parse a JSON envelope
+ * Throws on malformed input, unknown versions and unknown algorithms
+ */
+export function parseEnvelope(serialized: string): CiphertextEnvelope {
+  let raw: Record<string, unknown>
+  try {
+    raw = JSON.parse(serialized)
+  } catch {
+    throw new Error('Invalid envelope: not JSON')
+  }
+
+  if (typeof raw !== 'object' || raw === null) {
+    throw new Error('Invalid envelope: not an object')
+  }
+
+  const { v, alg, kid, iv, ct } = raw
+  if (typeof v !== 'number') {
+    throw new Error('Invalid envelope: missing version')
+  }
+  assertSupported(v, alg)
+
+  if (typeof kid !== 'string' || !kid || typeof iv !== 'string' || typeof ct !== 'string') {
+    throw new Error('Invalid envelope: missing fields')
+  }
+
+  const ivBytes = new Uint8Array(base64ToArrayBuffer(iv))
+  if (ivBytes.length !== IV_LENGTH) {
+    throw new Error('Invalid envelope: bad IV length')
+  }
+
+  return {
+    version: v,
+    algorithm: alg as EnvelopeAlgorithm,
+    keyId: kid,
+    iv: ivBytes,
+    ciphertext: new Uint8Array(base64ToArrayBuffer(ct)),
+  }
+}
+
+/**
+ * Serialize an envelope as bytes (for files)
+ */
+export function encodeEnvelope(envelope: CiphertextEnvelope): Uint8Array<ArrayBuffer> {
+  const header = encodeHeader(envelope)
+  const bytes = new Uint8Array(header.length + envelope.iv.length + envelope.ciphertext.length)
+  bytes.set(header, 0)
+  bytes.set(envelope.iv, header.length)
+  bytes.set(envelope.ciphertext, header.length + envelope.iv.length)
+  return bytes
+}
+
+/**
+ * Parse a binary envelope
+ * Throws on truncated input, unknown versions and unknown algorithms
+ */
+export function decodeEnvelope(bytes: Uint8Array): CiphertextEnvelope {
+  const { version, algorithm, keyId, headerLength } = decodeHeader(bytes)
+
+  if (bytes.length < headerLength + IV_LENGTH) {
+    throw new Error('Invalid envelope: truncated')
+  }
+
+  return {
+    version,
+    algorithm,
+    keyId,
+    iv: bytes.slice(headerLength, headerLength + IV_LENGTH),
+    ciphertext: bytes.slice(headerLength + IV_LENGTH),
+  }
+}
+
+/**
+ * Read the key id from the start of a binary envelope without parsing the rest
+ * (pass at least the first 258 bytes)
+ */
+export function peekEnvelopeKeyId(bytes: Uint8Array): string {
+  return decodeHeader(bytes).keyId
+}
+
+/**
+ * Encrypt reflection text (a photo caption or metadata) into a JSON envelope
+ */
+export async function encryptTextEnvelope(
+  text: string,
+  key: CryptoKey,
+  keyId: string,
+  context: TextEnvelopeContext
+): Promise<string> {
+  const envelope = await sealEnvelope(new TextEncoder().encode(text), key, keyId, {
+    ...context,
+    field: context.field ?? 'text',
+  })
+  return stringifyEnvelope(envelope)
+}
+
+/**
+ * Decrypt reflection text (a photo caption or metadata) from a JSON envelope
+ */
+export async function decryptTextEnvelope(
+  serialized: string,
+  key: CryptoKey,
+  context: TextEnvelopeContext
+): Promise<string> {
+  const plaintext = await openEnvelope(parseEnvelope(serialized), key, {
+    ...context,
+    field: context.field ?? 'text',
+  })
+  return new TextDecoder().decode(plaintext)
+}
+
+/**
+ * Encrypt a photo (or its thumbnail) into a binary envelope blob
+ */
+export async function encryptFileEnvelope(
+  file: Blob,
+  key: CryptoKey,
+  keyId: string,
+  context: FileEnvelopeContext
+): Promise<Blob> {
+  const envelope = await sealEnvelope(await file.arrayBuffer(), key, keyId, {
+    ...context,
+    field: context.field ?? 'photo',
+  })
+  return new Blob([encodeEnvelope(envelope)], { type: 'application/octet-stream' })
+}
+
+/**
+ * Decrypt a photo (or its thumbnail) from a binary envelope blob
+ */
+export async function decryptFileEnvelope(
+  encryptedBlob: Blob,
+  key: CryptoKey,
+  context: FileEnvelopeContext,
+  originalType = 'image/jpeg'
+): Promise<Blob> {
+  const envelope = decodeEnvelope(new Uint8Array(await encryptedBlob.arrayBuffer()))
+  const plaintext = await openEnvelope(envelope, key, {
+    ...context,
+    field: context.field ?? 'photo',
+  })
+  return new Blob([plaintext], { type: originalType })
+}
+
+/**
+ * Utility: Reject versions/algorithms this build doesn't understand
+ */
+function assertSupported(version: number, algorithm: unknown): void {
+  if (!SUPPORTED_VERSIONS.includes(version)) {
+    throw new Error(`Unsupported envelope version: ${version}`)
+  }
+  if (typeof algorithm !== 'string' || !(algorithm in ENVELOPE_ALGORITHMS)) {
+    throw new Error(`Unsupported envelope algorithm: ${String(algorithm)}`)
+  }
+}
+
+/**
+ * Utility: Binary header (version | algorithm id | key id length | key id)
+ */
+function encodeHeader(header: Pick<CiphertextEnvelope, 'version' | 'algorithm' | 'keyId'>) {
+  const keyIdBytes = new TextEncoder().encode(header.keyId)
+  if (keyIdBytes.length === 0 || keyIdBytes.length > MAX_KEY_ID_LENGTH) {
+    throw new Error('Invalid key id')
+  }
+
+  const bytes = new Uint8Array(BINARY_HEADER_LENGTH + keyIdBytes.length)
+  bytes[0] = header.version
+  bytes[1] = ENVELOPE_ALGORITHMS[header.algorithm]
+  bytes[2] = keyIdBytes.length
+  bytes.set(keyIdBytes, BINARY_HEADER_LENGTH)
+  return bytes
+}
+
+function decodeHeader(bytes: Uint8Array) {
+  if (bytes.length < BINARY_HEADER_LENGTH) {
+    throw new Error('Invalid envelope: truncated')
+  }
+
+  const version = bytes[0]
+  const algorithm = (Object.keys(ENVELOPE_ALGORITHMS) as EnvelopeAlgorithm[]).find(
+    (name) => ENVELOPE_ALGORITHMS[name] === bytes[1]
+  )
+  if (!SUPPORTED_VERSIONS.includes(version)) {
+    throw new Error(`Unsupported envelope version: ${version}`)
+  }
+  if (!algorithm) {
+    throw new Error(`Unsupported envelope algorithm: ${bytes[1]}`)
+  }
+
+  const keyIdLength = bytes[2]
+  const headerLength = BINARY_HEADER_LENGTH + keyIdLength
+  if (keyIdLength === 0 || bytes.length < headerLength) {
+    throw new Error('Invalid envelope: truncated')
+  }
+
+  const keyId = new TextDecoder().decode(bytes.subarray(BINARY_HEADER_LENGTH, headerLength))
+  return { version, algorithm, keyId, headerLength }
+}
+
+/**
+ * Utility: Additional authenticated data
+ * Binary header followed by "reflections|<userId>|<reflectionId>|<field>",
+ * then "|<photoId>" from version 2 on when the data belongs to a photo row
+ */
+function buildAdditionalData(
+  header: Pick<CiphertextEnvelope, 'version' | 'algorithm' | 'keyId'>,
+  context: EnvelopeContext
+): Uint8Array<ArrayBuffer> {
+  const headerBytes = encodeHeader(header)
+  const parts = ['reflections', context.userId, context.reflectionId, context.field]
+  if (header.version >= 2 && context.photoId) {
+    parts.push(context.photoId)
+  }
+  const contextBytes = new TextEncoder().encode(parts.join('|'))
+
+  const data = new Uint8Array(headerBytes.length + contextBytes.length)
+  data.set(headerBytes, 0)
+  data.set(contextBytes, headerBytes.length)
+  return data
+}
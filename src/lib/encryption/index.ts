@@ -4,13 +4,22 @@
  * Client-side end-to-end encryption for photos and reflections
  * 
  * Exports:
- * - useEncryption hook for React components
+ * - EncryptionProvider and useEncryption hook for React components
  * - Core crypto functions for direct use
+ * - Versioned ciphertext envelopes
  * - Key storage management
+ * - Passphrase key escrow for device recovery
+ * - QR-code device pairing
+ * - Key rotation with resumable re-encryption
  */
 
-// React Hook
+// React Provider and Hooks
+export { EncryptionProvider } from './EncryptionProvider'
 export { useEncryption } from './useEncryption'
+export { useKeyRotation } from './useKeyRotation'
+export { useDevicePairing } from './useDevicePairing'
+export { useDeviceLinking } from './useDeviceLinking'
+export { useKeyManagement } from './useKeyManagement'
 
 // Core Crypto Functions
 export {
@@ -20,11 +29,52 @@ export {
   decryptText,
   encryptFile,
   decryptFile,
+  encryptFileStream,
+  decryptFileStream,
+  isChunkedCiphertext,
   isWebCryptoAvailable,
+  CHUNKED_ALGORITHM,
+  CHUNKED_FORMAT_VERSION,
+  DEFAULT_CHUNK_SIZE,
   type EncryptedData,
   type EncryptionKey,
+  type ChunkedEncryptionOptions,
 } from './crypto'
 
+// Ciphertext Envelopes
+export {
+  sealEnvelope,
+  openEnvelope,
+  stringifyEnvelope,
+  parseEnvelope,
+  encodeEnvelope,
+  decodeEnvelope,
+  peekEnvelopeKeyId,
+  encryptTextEnvelope,
+  decryptTextEnvelope,
+  encryptFileEnvelope,
+  decryptFileEnvelope,
+  ENVELOPE_VERSION,
+  ENVELOPE_FORMAT,
+  ENVELOPE_ALGORITHMS,
+  type CiphertextEnvelope,
+  type EnvelopeContext,
+  type FileEnvelopeContext,
+  type TextEnvelopeContext,
+  type EnvelopeAlgorithm,
+} from './envelope'
+
+// Reflection Text and Photos (plaintext, legacy or envelope rows)
+export {
+  openReflectionText,
+  openReflectionPhoto,
+  isEnvelopePhoto,
+  getEnvelopePhotoId,
+  type StoredReflectionText,
+  type StoredReflectionPhoto,
+  type StoredPhoto,
+} from './reflectionContent'
+
 // Key Storage
 export {
   generateAndStoreKey,
@@ -35,7 +85,94 @@ export {
   deleteKey,
   hasStoredKey,
   getKeyMetadata,
+  storeKey,
+  rotateKey,
+  getKeyByVersion,
+  getKeyById,
+  ensureKeyId,
+  getKeyVersion,
+  getArchivedKeyMetadata,
+  exportKeyring,
+  importKeyring,
+  setKeyStorageBackend,
   type KeyMetadata,
   type StoredKey,
+  type Keyring,
 } from './keyStorage'
 
+// Key Storage Backends
+export {
+  createIndexedDBKeyStorage,
+  createMemoryKeyStorage,
+  isIndexedDBAvailable,
+  type KeyStorageBackend,
+  type StoredKeyEntry,
+  type StoredKeyring,
+} from './keyStorageBackend'
+
+// Passphrase Key Escrow
+export {
+  wrapKeyWithPassphrase,
+  unwrapKeyWithPassphrase,
+  createKeyEscrow,
+  restoreKeyFromEscrow,
+  MIN_PASSPHRASE_LENGTH,
+  type WrappedKeyBundle,
+} from './keyEscrow'
+
+// Key Backup Files
+export {
+  createKeyBackup,
+  serializeKeyBackup,
+  getKeyBackupFilename,
+  readKeyBackup,
+  decryptKeyBackup,
+  restoreKeyBackup,
+  KEY_BACKUP_FORMAT,
+  KEY_BACKUP_VERSION,
+  type KeyBackupHeader,
+  type KeyBackupFile,
+} from './keyBackup'
+
+// Key Check Values
+export {
+  createKeyCheck,
+  parseKeyCheck,
+  verifyKeyCheck,
+  KEY_CHECK_VERSION,
+  type KeyCheck,
+} from './keyCheck'
+
+// Device Pairing
+export {
+  generatePairingKeyPair,
+  exportPairingPublicKey,
+  createPairingCommitment,
+  createPairingNonce,
+  derivePairingSecret,
+  encryptKeyring,
+  decryptKeyring,
+  createPairingLink,
+  parsePairingLink,
+  isPairingExpired,
+  PAIRING_TTL_MS,
+  PAIRING_LINK_PATH,
+  type PairingOffer,
+  type PairingSecret,
+  type PairingStatus,
+  type PairingTranscript,
+} from './devicePairing'
+
+// Key Rotation
+export {
+  reencryptReflections,
+  reencryptReflection,
+  reencryptDraft,
+  needsReencryption,
+  getPendingReencryption,
+  type ReencryptableReflection,
+  type ReencryptableRevision,
+  type ReencryptableDraft,
+  type ReencryptionDeps,
+  type ReencryptionProgress,
+} from './reencrypt'
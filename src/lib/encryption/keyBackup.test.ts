@@ -0,0 +1,242 @@
+import { describe, it, expect, beforeEach, beforeAll } from 'vitest'
+import {
+  createKeyBackup,
+  serializeKeyBackup,
+  getKeyBackupFilename,
+  readKeyBackup,
+  decryptKeyBackup,
+  restoreKeyBackup,
+  KEY_BACKUP_FORMAT,
+} from './keyBackup'
+import {
+  generateAndStoreKey,
+  ensureKeyId,
+  rotateKey,
+  getKeyById,
+  getKeyMetadata,
+  getArchivedKeyMetadata,
+  exportKeyring,
+  setKeyStorageBackend,
+} from './keyStorage'
+import { createMemoryKeyStorage } from './keyStorageBackend'
+import { TEST_ITERATIONS, expectStoredKey } from './testUtils'
+import { encryptText, decryptText } from './crypto'
+
+// Mock LocalStorage for Node.js test environment
+class LocalStorageMock {
+  private store: Record<string, string> = {}
+
+  get length() {
+    return Object.keys(this.store).length
+  }
+
+  clear() {
+    this.store = {}
+  }
+
+  getItem(key: string) {
+    return this.store[key] || null
+  }
+
+  setItem(key: string, value: string) {
+    this.store[key] = value
+  }
+
+  removeItem(key: string) {
+    delete this.store[key]
+  }
+
+  key(index: number) {
+    const keys = Object.keys(this.store)
+    return keys[index] || null
+  }
+}
+
+describe('Key Backup Files', () => {
+  const testUserId = 'test-user-123'
+  const passphrase = 'correct horse battery staple'
+
+  beforeAll(() => {
+    global.localStorage = new LocalStorageMock() as Storage
+  })
+
+  beforeEach(() => {
+    setKeyStorageBackend(createMemoryKeyStorage())
+    localStorage.clear()
+  })
+
+  describe('Creating', () => {
+    it('should describe the keys in the header', async () => {
+      await generateAndStoreKey(testUserId)
+      const { keyId } = await ensureKeyId(testUserId)
+      await rotateKey(testUserId)
+
+      const backup = await createKeyBackup(testUserId, passphrase, TEST_ITERATIONS)
+
+      expect(backup.format).toBe(KEY_BACKUP_FORMAT)
+      expect(backup.keyCount).toBe(2)
+      expect(backup.activeKeyVersion).toBe(2)
+      expect(backup.activeKeyId).not.toBe(keyId)
+      expect(backup.iterations).toBe(TEST_ITERATIONS)
+    })
+
+    it('should not contain the raw key', async () => {
+      await generateAndStoreKey(testUserId)
+      const { active } = await exportKeyring(testUserId)
+      const backup = await createKeyBackup(testUserId, passphrase, TEST_ITERATIONS)
+
+      expect(serializeKeyBackup(backup)).not.toContain(active.keyData)
+    })
+
+    it('should reject short passphrases', async () => {
+      await generateAndStoreKey(testUserId)
+
+      await expect(createKeyBackup(testUserId, 'short', TEST_ITERATIONS)).rejects.toThrow(
+        'Passphrase must be at least'
+      )
+    })
+
+    it('should name the file after its creation date', () => {
+      const createdAt = Date.UTC(2025, 0, 31, 12)
+      expect(getKeyBackupFilename({ createdAt })).toBe('reflections-key-backup-2025-01-31.json')
+    })
+  })
+
+  describe('Reading', () => {
+    it('should read a serialized backup', async () => {
+      await generateAndStoreKey(testUserId)
+      const backup = await createKeyBackup(testUserId, passphrase, TEST_ITERATIONS)
+
+      const read = await readKeyBackup(serializeKeyBackup(backup))
+
+      expect(read).toEqual(backup)
+    })
+
+    it('should reject files that are not backups', async () => {
+      await expect(readKeyBackup('not json')).rejects.toThrow('not a key backup')
+      await expect(readKeyBackup('{"format":"other"}')).rejects.toThrow('not a key backup')
+    })
+
+    it('should reject unsupported versions', async () => {
+      await generateAndStoreKey(testUserId)
+      const backup = await createKeyBackup(testUserId, passphrase, TEST_ITERATIONS)
+
+      await expect(readKeyBackup(JSON.stringify({ ...backup, version: 99 }))).rejects.toThrow(
+        'Unsupported key backup version'
+      )
+    })
+
+    it('should reject backups with missing fields', async () => {
+      await generateAndStoreKey(testUserId)
+      const { ciphertext: _, ...backup } = await createKeyBackup(
+        testUserId,
+        passphrase,
+        TEST_ITERATIONS
+      )
+
+      await expect(readKeyBackup(JSON.stringify(backup))).rejects.toThrow(
+        'missing required fields'
+      )
+    })
+
+    it('should reject an unbounded iteration count', async () => {
+      await generateAndStoreKey(testUserId)
+      const backup = await createKeyBackup(testUserId, passphrase, TEST_ITERATIONS)
+
+      await expect(
+        readKeyBackup(JSON.stringify({ ...backup, iterations: 1_000_000_000 }))
+      ).rejects.toThrow('Unsupported iteration count')
+      await expect(decryptKeyBackup({ ...backup, iterations: 0 }, passphrase)).rejects.toThrow(
+        'Unsupported iteration count'
+      )
+    })
+
+    it('should detect a damaged ciphertext', async () => {
+      await generateAndStoreKey(testUserId)
+      const backup = await createKeyBackup(testUserId, passphrase, TEST_ITERATIONS)
+      const damaged = { ...backup, ciphertext: `A${backup.ciphertext.slice(1)}` }
+
+      await expect(readKeyBackup(JSON.stringify(damaged))).rejects.toThrow('checksum mismatch')
+    })
+
+    it('should detect an edited header', async () => {
+      await generateAndStoreKey(testUserId)
+      const backup = await createKeyBackup(testUserId, passphrase, TEST_ITERATIONS)
+
+      await expect(
+        readKeyBackup(JSON.stringify({ ...backup, keyCount: backup.keyCount + 1 }))
+      ).rejects.toThrow('checksum mismatch')
+    })
+  })
+
+  describe('Restoring', () => {
+    it('should restore keys onto a new device', async () => {
+      await generateAndStoreKey(testUserId)
+      const original = await ensureKeyId(testUserId)
+      const encrypted = await encryptText('My reflection', original.key)
+      const contents = serializeKeyBackup(
+        await createKeyBackup(testUserId, passphrase, TEST_ITERATIONS)
+      )
+
+      // New device
+      setKeyStorageBackend(createMemoryKeyStorage())
+      const backup = await readKeyBackup(contents)
+      const restored = await restoreKeyBackup(testUserId, backup, passphrase)
+
+      expect(restored.metadata.keyId).toBe(original.keyId)
+      expect(await decryptText(encrypted, restored.key)).toBe('My reflection')
+    })
+
+    it('should restore archived keys', async () => {
+      await generateAndStoreKey(testUserId)
+      const { keyId, key } = await ensureKeyId(testUserId)
+      const encrypted = await encryptText('Older reflection', key)
+      await rotateKey(testUserId)
+      const backup = await createKeyBackup(testUserId, passphrase, TEST_ITERATIONS)
+
+      setKeyStorageBackend(createMemoryKeyStorage())
+      await restoreKeyBackup(testUserId, backup, passphrase)
+
+      const archived = await getKeyById(testUserId, keyId)
+      expect(await decryptText(encrypted, expectStoredKey(archived).key)).toBe('Older reflection')
+    })
+
+    it('should archive a different key already on the device', async () => {
+      await generateAndStoreKey(testUserId)
+      const { keyId: backedUpKeyId } = await ensureKeyId(testUserId)
+      const backup = await createKeyBackup(testUserId, passphrase, TEST_ITERATIONS)
+
+      setKeyStorageBackend(createMemoryKeyStorage())
+      await generateAndStoreKey(testUserId)
+      const { keyId: localKeyId } = await ensureKeyId(testUserId)
+      await restoreKeyBackup(testUserId, backup, passphrase)
+
+      expect((await getKeyMetadata(testUserId))?.keyId).toBe(backedUpKeyId)
+      const archived = await getArchivedKeyMetadata(testUserId)
+      expect(archived.map((metadata) => metadata.keyId)).toContain(localKeyId)
+    })
+
+    it('should keep a key rotated after the backup active', async () => {
+      await generateAndStoreKey(testUserId)
+      const backup = await createKeyBackup(testUserId, passphrase, TEST_ITERATIONS)
+      const { metadata: rotated } = await rotateKey(testUserId)
+
+      const restored = await restoreKeyBackup(testUserId, backup, passphrase)
+
+      expect(restored.metadata.keyId).toBe(rotated.keyId)
+      expect((await getKeyMetadata(testUserId))?.keyVersion).toBe(2)
+      expect((await getArchivedKeyMetadata(testUserId)).map((m) => m.keyId)).toEqual([
+        backup.activeKeyId,
+      ])
+    })
+
+    it('should fail with the wrong passphrase', async () => {
+      await generateAndStoreKey(testUserId)
+      const backup = await createKeyBackup(testUserId, passphrase, TEST_ITERATIONS)
+
+      await expect(decryptKeyBackup(backup, 'wrong passphrase!')).rejects.toThrow(
+        'Incorrect passphrase'
+      )
+    })
+  })
+})
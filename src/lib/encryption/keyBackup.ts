@@ -0,0 +1,254 @@
+/**
+ * Key Backup Files
+ *
+ * Passphrase-encrypted backup of every key on this device (active + archived),
+ * downloaded as a JSON file and restored from an upload.
+ *
+ * Scheme:
+ * - Encryption key: PBKDF2-SHA256(passphrase, random 16-byte salt) -> AES-256-GCM
+ *   (same derivation as passphrase escrow)
+ * - Ciphertext: AES-GCM over the JSON keyring, with the file's header fields as
+ *   additional data so they can't be edited
+ * - Checksum: SHA-256 of the header and ciphertext, so a damaged file is reported
+ *   as damaged instead of as a wrong passphrase
+ */
+
+import { arrayBufferToBase64, base64ToArrayBuffer } from './crypto'
+import {
+  deriveWrappingKey,
+  isSupportedIterationCount,
+  DEFAULT_ESCROW_ITERATIONS,
+  ESCROW_KDF,
+  MIN_PASSPHRASE_LENGTH,
+} from './keyEscrow'
+import {
+  exportKeyring,
+  getKeyVersion,
+  importKeyring,
+  type Keyring,
+  type StoredKey,
+} from './keyStorage'
+
+export const KEY_BACKUP_FORMAT = 'reflections-key-backup'
+export const KEY_BACKUP_VERSION = 1
+
+const SALT_LENGTH = 16
+const IV_LENGTH = 12
+
+export interface KeyBackupHeader {
+  format: string // 'reflections-key-backup'
+  version: number
+  createdAt: number // Unix timestamp
+  keyCount: number // Active + archived keys in the backup
+  activeKeyId?: string
+  activeKeyVersion: number
+  kdf: string // 'PBKDF2-SHA256'
+  iterations: number
+  salt: string // Base64 PBKDF2 salt
+  iv: string // Base64 AES-GCM IV
+}
+
+export interface KeyBackupFile extends KeyBackupHeader {
+  ciphertext: string // Base64 encrypted keyring
+  checksum: string // Hex SHA-256 of header + ciphertext
+}
+
+/**
+ * Create a passphrase-encrypted backup of the user's keys
+ *
+ * @param userId - User ID
+ * @param passphrase - Passphrase to encrypt the backup with
+ * @param iterations - PBKDF2 iteration count
+ * @returns Promise<KeyBackupFile> - Backup ready to serialize
+ */
+export async function createKeyBackup(
+  userId: string,
+  passphrase: string,
+  iterations = DEFAULT_ESCROW_ITERATIONS
+): Promise<KeyBackupFile> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`)
+  }
+
+  const keyring = await exportKeyring(userId)
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH))
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+
+  const header: KeyBackupHeader = {
+    format: KEY_BACKUP_FORMAT,
+    version: KEY_BACKUP_VERSION,
+    createdAt: Date.now(),
+    keyCount: 1 + keyring.archive.length,
+    activeKeyId: keyring.active.metadata.keyId,
+    activeKeyVersion: getKeyVersion(keyring.active.metadata),
+    kdf: ESCROW_KDF,
+    iterations,
+    salt: arrayBufferToBase64(salt),
+    iv: arrayBufferToBase64(iv),
+  }
+
+  const key = await deriveWrappingKey(passphrase, salt, iterations)
+  const ciphertext = arrayBufferToBase64(
+    await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: encodeHeader(header) },
+      key,
+      new TextEncoder().encode(JSON.stringify(keyring))
+    )
+  )
+
+  return { ...header, ciphertext, checksum: await computeChecksum(header, ciphertext) }
+}
+
+/**
+ * Serialize a backup for download
+ */
+export function serializeKeyBackup(backup: KeyBackupFile): string {
+  return JSON.stringify(backup, null, 2)
+}
+
+/**
+ * Suggested download filename, e.g. reflections-key-backup-2025-01-31.json
+ */
+export function getKeyBackupFilename(backup: Pick<KeyBackupHeader, 'createdAt'>): string {
+  const date = new Date(backup.createdAt).toISOString().slice(0, 10)
+  return `${KEY_BACKUP_FORMAT}-${date}.json`
+}
+
+/**
+ * Parse an uploaded backup and verify its checksum
+ * Doesn't need the passphrase, so the file's details can be shown before restoring
+ *
+ * @param contents - File contents
+ * @returns Promise<KeyBackupFile> - The parsed backup
+ */
+export async function readKeyBackup(contents: string): Promise<KeyBackupFile> {
+  let parsed: Partial<KeyBackupFile>
+  try {
+    parsed = JSON.parse(contents)
+  } catch {
+    throw new Error('This file is not a key backup')
+  }
+
+  if (parsed?.format !== KEY_BACKUP_FORMAT) {
+    throw new Error('This file is not a key backup')
+  }
+  if (parsed.version !== KEY_BACKUP_VERSION) {
+    throw new Error(`Unsupported key backup version: ${parsed.version}`)
+  }
+  if (
+    typeof parsed.createdAt !== 'number' ||
+    typeof parsed.keyCount !== 'number' ||
+    typeof parsed.activeKeyVersion !== 'number' ||
+    typeof parsed.iterations !== 'number' ||
+    typeof parsed.kdf !== 'string' ||
+    typeof parsed.salt !== 'string' ||
+    typeof parsed.iv !== 'string' ||
+    typeof parsed.ciphertext !== 'string' ||
+    typeof parsed.checksum !== 'string'
+  ) {
+    throw new Error('This key backup is missing required fields')
+  }
+  if (!isSupportedIterationCount(parsed.iterations)) {
+    throw new Error(`Unsupported iteration count: ${parsed.iterations}`)
+  }
+
+  const backup = parsed as KeyBackupFile
+  if ((await computeChecksum(backup, backup.ciphertext)) !== backup.checksum) {
+    throw new Error('This key backup is damaged (checksum mismatch)')
+  }
+
+  return backup
+}
+
+/**
+ * Decrypt a backup with its passphrase
+ *
+ * @param backup - Backup from readKeyBackup
+ * @param passphrase - Passphrase the backup was created with
+ * @returns Promise<Keyring> - The backed-up keys
+ */
+export async function decryptKeyBackup(
+  backup: KeyBackupFile,
+  passphrase: string
+): Promise<Keyring> {
+  if (backup.kdf !== ESCROW_KDF) {
+    throw new Error(`Unsupported key derivation: ${backup.kdf}`)
+  }
+  if (!isSupportedIterationCount(backup.iterations)) {
+    throw new Error(`Unsupported iteration count: ${backup.iterations}`)
+  }
+
+  try {
+    const salt = new Uint8Array(base64ToArrayBuffer(backup.salt))
+    const key = await deriveWrappingKey(passphrase, salt, backup.iterations)
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: base64ToArrayBuffer(backup.iv),
+        additionalData: encodeHeader(backup),
+      },
+      key,
+      base64ToArrayBuffer(backup.ciphertext)
+    )
+    return JSON.parse(new TextDecoder().decode(plaintext))
+  } catch (error) {
+    console.error('Failed to decrypt key backup:', error)
+    throw new Error('Incorrect passphrase or corrupted key backup')
+  }
+}
+
+/**
+ * Restore the keys in a backup onto this device
+ * A different key already on this device is archived rather than discarded,
+ * and one rotated since the backup was made stays active
+ *
+ * @param userId - User ID
+ * @param backup - Backup from readKeyBackup
+ * @param passphrase - Passphrase the backup was created with
+ * @returns Promise<StoredKey> - The restored active key and metadata
+ */
+export async function restoreKeyBackup(
+  userId: string,
+  backup: KeyBackupFile,
+  passphrase: string
+): Promise<StoredKey> {
+  const keyring = await decryptKeyBackup(backup, passphrase)
+  const storedKey = await importKeyring(userId, keyring)
+
+  console.log(`Restored ${backup.keyCount} keys from backup for user: ${userId}`)
+  return storedKey
+}
+
+/**
+ * Utility: Header fields in a fixed order (additional data and checksum input)
+ */
+function encodeHeader(header: KeyBackupHeader): Uint8Array<ArrayBuffer> {
+  const fields: KeyBackupHeader = {
+    format: header.format,
+    version: header.version,
+    createdAt: header.createdAt,
+    keyCount: header.keyCount,
+    activeKeyId: header.activeKeyId,
+    activeKeyVersion: header.activeKeyVersion,
+    kdf: header.kdf,
+    iterations: header.iterations,
+    salt: header.salt,
+    iv: header.iv,
+  }
+  return new TextEncoder().encode(JSON.stringify(fields))
+}
+
+/**
+ * Utility: Hex SHA-256 of the header and ciphertext
+ */
+async function computeChecksum(header: KeyBackupHeader, ciphertext: string): Promise<string> {
+  const headerBytes = encodeHeader(header)
+  const body = new TextEncoder().encode(ciphertext)
+  const input = new Uint8Array(headerBytes.length + 1 + body.length)
+  input.set(headerBytes, 0)
+  input[headerBytes.length] = 0x0a // newline separator
+  input.set(body, headerBytes.length + 1)
+
+  const digest = await crypto.subtle.digest('SHA-256', input)
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
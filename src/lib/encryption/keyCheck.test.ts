@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { createKeyCheck, parseKeyCheck, verifyKeyCheck, KEY_CHECK_VERSION } from './keyCheck'
+import { generateEncryptionKey } from './crypto'
+
+describe('Key Check Values', () => {
+  const userId = 'test-user-123'
+  const keyId = 'key-1'
+
+  it('should verify with the key it was created with', async () => {
+    const { key } = await generateEncryptionKey()
+    const check = await createKeyCheck(key, keyId, userId)
+
+    expect(await verifyKeyCheck(check, key, keyId, userId)).toBe(true)
+  })
+
+  it('should record the key id', async () => {
+    const { key } = await generateEncryptionKey()
+    const check = parseKeyCheck(await createKeyCheck(key, keyId, userId))
+
+    expect(check.version).toBe(KEY_CHECK_VERSION)
+    expect(check.keyId).toBe(keyId)
+  })
+
+  it('should use a fresh IV for each check', async () => {
+    const { key } = await generateEncryptionKey()
+    const first = parseKeyCheck(await createKeyCheck(key, keyId, userId))
+    const second = parseKeyCheck(await createKeyCheck(key, keyId, userId))
+
+    expect(first.iv).not.toBe(second.iv)
+  })
+
+  it('should not verify with a different key', async () => {
+    const { key } = await generateEncryptionKey()
+    const { key: otherKey } = await generateEncryptionKey()
+    const check = await createKeyCheck(key, keyId, userId)
+
+    expect(await verifyKeyCheck(check, otherKey, keyId, userId)).toBe(false)
+  })
+
+  it('should not verify with a different key id', async () => {
+    const { key } = await generateEncryptionKey()
+    const check = await createKeyCheck(key, keyId, userId)
+
+    expect(await verifyKeyCheck(check, key, 'key-2', userId)).toBe(false)
+    expect(await verifyKeyCheck(check, key, undefined, userId)).toBe(false)
+  })
+
+  it("should not verify on another user's profile", async () => {
+    const { key } = await generateEncryptionKey()
+    const check = await createKeyCheck(key, keyId, userId)
+
+    expect(await verifyKeyCheck(check, key, keyId, 'other-user')).toBe(false)
+  })
+
+  it('should not verify a check with an edited key id', async () => {
+    const { key } = await generateEncryptionKey()
+    const check = JSON.parse(await createKeyCheck(key, keyId, userId))
+    const edited = JSON.stringify({ ...check, kid: 'key-2' })
+
+    expect(await verifyKeyCheck(edited, key, 'key-2', userId)).toBe(false)
+  })
+
+  it('should not verify a tampered check', async () => {
+    const { key } = await generateEncryptionKey()
+    const check = JSON.parse(await createKeyCheck(key, keyId, userId))
+    const tampered = JSON.stringify({ ...check, ct: `A${check.ct.slice(1)}` })
+
+    expect(await verifyKeyCheck(tampered, key, keyId, userId)).toBe(false)
+  })
+
+  it('should throw on malformed checks instead of reporting a mismatch', async () => {
+    const { key } = await generateEncryptionKey()
+
+    await expect(verifyKeyCheck('not json', key, keyId, userId)).rejects.toThrow('not JSON')
+    await expect(verifyKeyCheck('{"v":1}', key, keyId, userId)).rejects.toThrow(
+      'missing fields'
+    )
+  })
+
+  it('should reject unknown versions', () => {
+    expect(() => parseKeyCheck('{"v":99,"kid":"key-1","iv":"","ct":""}')).toThrow(
+      'Unsupported key check version'
+    )
+  })
+})
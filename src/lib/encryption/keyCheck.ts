@@ -0,0 +1,127 @@
+/**
+ * Key Check Values
+ *
+ * A known canary encrypted with the account's active key and stored on
+ * `userProfiles.keyCheck`. A device verifies its local key against it on
+ * sign-in, so a wrong or outdated key (e.g. an imported backup from another
+ * account) is reported once, up front, instead of as a decryption error on
+ * every reflection.
+ *
+ * AES-GCM additional data binds the check to the user id and key id, so a
+ * check copied from another account doesn't verify.
+ *
+ * Encoding: `{"v":1,"kid":"...","iv":"base64","ct":"base64"}`
+ */
+
+import { arrayBufferToBase64, base64ToArrayBuffer } from './crypto'
+
+export const KEY_CHECK_VERSION = 1
+
+const KEY_CHECK_CANARY = 'reflections-key-check'
+const IV_LENGTH = 12
+
+export interface KeyCheck {
+  version: number
+  keyId: string // Key the check was created with
+  iv: string // Base64 AES-GCM IV
+  ciphertext: string // Base64 encrypted canary
+}
+
+/**
+ * Create a key check value for the user's active key
+ *
+ * @param key - Active encryption key
+ * @param keyId - Identifier of the key (see KeyMetadata.keyId)
+ * @param userId - User ID
+ * @returns Promise<string> - Serialized check for userProfiles.keyCheck
+ */
+export async function createKeyCheck(
+  key: CryptoKey,
+  keyId: string,
+  userId: string
+): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: buildAdditionalData(keyId, userId) },
+    key,
+    new TextEncoder().encode(KEY_CHECK_CANARY)
+  )
+
+  return JSON.stringify({
+    v: KEY_CHECK_VERSION,
+    kid: keyId,
+    iv: arrayBufferToBase64(iv),
+    ct: arrayBufferToBase64(ciphertext),
+  })
+}
+
+/**
+ * Parse a serialized key check
+ * Throws on malformed input and unknown versions
+ */
+export function parseKeyCheck(serialized: string): KeyCheck {
+  let raw: Record<string, unknown>
+  try {
+    raw = JSON.parse(serialized)
+  } catch {
+    throw new Error('Invalid key check: not JSON')
+  }
+
+  if (typeof raw !== 'object' || raw === null) {
+    throw new Error('Invalid key check: not an object')
+  }
+
+  const { v, kid, iv, ct } = raw
+  if (v !== KEY_CHECK_VERSION) {
+    throw new Error(`Unsupported key check version: ${v}`)
+  }
+  if (typeof kid !== 'string' || !kid || typeof iv !== 'string' || typeof ct !== 'string') {
+    throw new Error('Invalid key check: missing fields')
+  }
+
+  return { version: v, keyId: kid, iv, ciphertext: ct }
+}
+
+/**
+ * Check whether a key is the one the key check was created with
+ * Throws (rather than returning false) when the check itself can't be read
+ *
+ * @param serialized - Value of userProfiles.keyCheck
+ * @param key - Local active key
+ * @param keyId - Local active key's keyId (undefined for legacy keys)
+ * @param userId - User ID
+ * @returns Promise<boolean> - True when the key matches
+ */
+export async function verifyKeyCheck(
+  serialized: string,
+  key: CryptoKey,
+  keyId: string | undefined,
+  userId: string
+): Promise<boolean> {
+  const check = parseKeyCheck(serialized)
+  if (check.keyId !== keyId) {
+    return false
+  }
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: base64ToArrayBuffer(check.iv),
+        additionalData: buildAdditionalData(check.keyId, userId),
+      },
+      key,
+      base64ToArrayBuffer(check.ciphertext)
+    )
+    return new TextDecoder().decode(plaintext) === KEY_CHECK_CANARY
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Utility: Additional data binding a check to its key and user
+ */
+function buildAdditionalData(keyId: string, userId: string): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(JSON.stringify({ check: KEY_CHECK_VERSION, keyId, userId }))
+}
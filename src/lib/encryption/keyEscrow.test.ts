@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeEach, beforeAll } from 'vitest'
+import {
+  wrapKeyWithPassphrase,
+  unwrapKeyWithPassphrase,
+  createKeyEscrow,
+  restoreKeyFromEscrow,
+} from './keyEscrow'
+import {
+  generateAndStoreKey,
+  deleteKey,
+  getKeyMetadata,
+  getKeyById,
+  hasStoredKey,
+  setKeyStorageBackend,
+} from './keyStorage'
+import { createMemoryKeyStorage } from './keyStorageBackend'
+import { TEST_ITERATIONS, expectStoredKey } from './testUtils'
+import { generateEncryptionKey, importEncryptionKey, encryptText, decryptText } from './crypto'
+
+// Mock LocalStorage for Node.js test environment
+class LocalStorageMock {
+  private store: Record<string, string> = {}
+
+  get length() {
+    return Object.keys(this.store).length
+  }
+
+  clear() {
+    this.store = {}
+  }
+
+  getItem(key: string) {
+    return this.store[key] || null
+  }
+
+  setItem(key: string, value: string) {
+    this.store[key] = value
+  }
+
+  removeItem(key: string) {
+    delete this.store[key]
+  }
+
+  key(index: number) {
+    const keys = Object.keys(this.store)
+    return keys[index] || null
+  }
+}
+
+describe('Key Escrow Service', () => {
+  const testUserId = 'test-user-123'
+  const passphrase = 'correct horse battery staple'
+
+  beforeAll(() => {
+    global.localStorage = new LocalStorageMock() as Storage
+  })
+
+  beforeEach(() => {
+    setKeyStorageBackend(createMemoryKeyStorage())
+    localStorage.clear()
+  })
+
+  describe('Wrapping', () => {
+    it('should wrap and unwrap a key with the same passphrase', async () => {
+      const { key, keyData } = await generateEncryptionKey()
+      const bundle = await wrapKeyWithPassphrase(keyData, 'key-1', passphrase, TEST_ITERATIONS)
+
+      const unwrapped = await unwrapKeyWithPassphrase(bundle, passphrase)
+
+      const encrypted = await encryptText('Family memory', key)
+      expect(await decryptText(encrypted, await importEncryptionKey(unwrapped))).toBe(
+        'Family memory'
+      )
+    })
+
+    it('should not contain the raw key', async () => {
+      const { keyData } = await generateEncryptionKey()
+      const bundle = await wrapKeyWithPassphrase(keyData, 'key-1', passphrase, TEST_ITERATIONS)
+
+      expect(JSON.stringify(bundle)).not.toContain(keyData)
+      expect(bundle.kdf).toBe('PBKDF2-SHA256')
+      expect(bundle.iterations).toBe(TEST_ITERATIONS)
+    })
+
+    it('should use a unique salt and IV each time', async () => {
+      const { keyData } = await generateEncryptionKey()
+      const first = await wrapKeyWithPassphrase(keyData, 'key-1', passphrase, TEST_ITERATIONS)
+      const second = await wrapKeyWithPassphrase(keyData, 'key-1', passphrase, TEST_ITERATIONS)
+
+      expect(first.salt).not.toBe(second.salt)
+      expect(first.iv).not.toBe(second.iv)
+      expect(first.wrappedKey).not.toBe(second.wrappedKey)
+    })
+
+    it('should reject a wrong passphrase', async () => {
+      const { keyData } = await generateEncryptionKey()
+      const bundle = await wrapKeyWithPassphrase(keyData, 'key-1', passphrase, TEST_ITERATIONS)
+
+      await expect(unwrapKeyWithPassphrase(bundle, 'wrong passphrase')).rejects.toThrow(
+        'Incorrect passphrase'
+      )
+    })
+
+    it('should reject a bundle whose keyId was changed', async () => {
+      const { keyData } = await generateEncryptionKey()
+      const bundle = await wrapKeyWithPassphrase(keyData, 'key-1', passphrase, TEST_ITERATIONS)
+
+      await expect(
+        unwrapKeyWithPassphrase({ ...bundle, keyId: 'key-2' }, passphrase)
+      ).rejects.toThrow()
+    })
+
+    it('should reject an unbounded iteration count', async () => {
+      const { keyData } = await generateEncryptionKey()
+      const bundle = await wrapKeyWithPassphrase(keyData, 'key-1', passphrase, TEST_ITERATIONS)
+
+      await expect(
+        unwrapKeyWithPassphrase({ ...bundle, iterations: 1_000_000_000 }, passphrase)
+      ).rejects.toThrow('Unsupported iteration count')
+    })
+
+    it('should reject short passphrases', async () => {
+      const { keyData } = await generateEncryptionKey()
+
+      await expect(wrapKeyWithPassphrase(keyData, 'key-1', 'short')).rejects.toThrow(
+        'at least 8 characters'
+      )
+    })
+  })
+
+  describe('Escrow and Restore', () => {
+    it('should restore a key on a new device', async () => {
+      const { key: originalKey, metadata } = await generateAndStoreKey(testUserId)
+      const encrypted = await encryptText('Secret family memory', originalKey)
+
+      const bundle = await createKeyEscrow(testUserId, passphrase, TEST_ITERATIONS)
+      expect(bundle.keyId).toBe(metadata.keyId)
+
+      // Simulate new device
+      await deleteKey(testUserId)
+      expect(await hasStoredKey(testUserId)).toBe(false)
+
+      const { key: restoredKey, metadata: restoredMetadata } = await restoreKeyFromEscrow(
+        testUserId,
+        bundle,
+        passphrase
+      )
+
+      expect(await hasStoredKey(testUserId)).toBe(true)
+      expect(restoredMetadata.keyId).toBe(metadata.keyId)
+      expect(await decryptText(encrypted, restoredKey)).toBe('Secret family memory')
+    })
+
+    it('should archive a different key already on this device', async () => {
+      const { metadata } = await generateAndStoreKey(testUserId)
+      const bundle = await createKeyEscrow(testUserId, passphrase, TEST_ITERATIONS)
+
+      // Simulate a device holding someone else's key
+      setKeyStorageBackend(createMemoryKeyStorage())
+      const { key: otherKey, metadata: otherMetadata } = await generateAndStoreKey(testUserId)
+      const encrypted = await encryptText('Written with the wrong key', otherKey)
+
+      await restoreKeyFromEscrow(testUserId, bundle, passphrase)
+
+      expect((await getKeyMetadata(testUserId))?.keyId).toBe(metadata.keyId)
+      const archived = await getKeyById(testUserId, otherMetadata.keyId as string)
+      expect(await decryptText(encrypted, expectStoredKey(archived).key)).toBe('Written with the wrong key')
+    })
+
+    it('should assign a keyId to keys created before escrow support', async () => {
+      // Written to LocalStorage by an earlier version, without a keyId
+      const { keyData } = await generateEncryptionKey()
+      localStorage.setItem(`reflections_encryption_key_${testUserId}`, keyData)
+      localStorage.setItem(
+        `reflections_key_metadata_${testUserId}`,
+        JSON.stringify({
+          version: '1.0',
+          createdAt: Date.now(),
+          algorithm: 'AES-256-GCM',
+          userId: testUserId,
+        })
+      )
+
+      const bundle = await createKeyEscrow(testUserId, passphrase, TEST_ITERATIONS)
+
+      expect(bundle.keyId).toBeTruthy()
+      expect((await getKeyMetadata(testUserId))?.keyId).toBe(bundle.keyId)
+    })
+
+    it('should throw when no key is stored', async () => {
+      await expect(createKeyEscrow('non-existent-user', passphrase)).rejects.toThrow()
+    })
+
+    it('should not store anything when the passphrase is wrong', async () => {
+      await generateAndStoreKey(testUserId)
+      const bundle = await createKeyEscrow(testUserId, passphrase, TEST_ITERATIONS)
+      await deleteKey(testUserId)
+
+      await expect(
+        restoreKeyFromEscrow(testUserId, bundle, 'wrong passphrase')
+      ).rejects.toThrow()
+      expect(await hasStoredKey(testUserId)).toBe(false)
+    })
+  })
+})
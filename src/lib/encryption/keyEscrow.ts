@@ -0,0 +1,238 @@
+/**
+ * Passphrase Key Escrow
+ *
+ * Wraps the user's AES key with a key derived from a passphrase so only the
+ * wrapped form ever leaves the device. The wrapped bundle is stored on the
+ * user's `keyEscrows` entity and can be unwrapped on any device that knows
+ * the passphrase.
+ *
+ * Scheme:
+ * - Wrapping key: PBKDF2-SHA256(passphrase, random 16-byte salt) -> AES-256-GCM
+ * - Wrapped key: AES-GCM over the raw key with a random IV, keyId as additional data
+ *   (the same bytes as wrapKey('raw'); the raw key comes from the sealed copy in
+ *   keyStorage.ts)
+ */
+
+import { arrayBufferToBase64, base64ToArrayBuffer } from './crypto'
+import {
+  ensureKeyId,
+  exportKeyring,
+  getKeyVersion,
+  importKeyring,
+  type StoredKey,
+} from './keyStorage'
+
+const WRAP_ALGORITHM = 'AES-GCM'
+const KEY_LENGTH = 256
+const SALT_LENGTH = 16
+const IV_LENGTH = 12
+const ESCROW_VERSION = '1.0'
+
+export const ESCROW_KDF = 'PBKDF2-SHA256'
+export const DEFAULT_ESCROW_ITERATIONS = 600_000 // OWASP recommendation for PBKDF2-SHA256
+export const MAX_ESCROW_ITERATIONS = 10_000_000 // Upper bound for counts read from bundles and backup files
+export const MIN_PASSPHRASE_LENGTH = 8
+
+export interface WrappedKeyBundle {
+  keyId: string
+  keyVersion?: number // Rotation version of the wrapped key
+  wrappedKey: string // Base64 AES-GCM wrapped raw key
+  salt: string // Base64 PBKDF2 salt
+  iv: string // Base64 IV used for wrapping
+  kdf: string // 'PBKDF2-SHA256'
+  iterations: number
+  algorithm: string // Algorithm of the wrapped key, 'AES-256-GCM'
+  version: string
+  createdAt: number // Unix timestamp
+}
+
+/**
+ * Check a PBKDF2 iteration count read from a bundle or backup file
+ * Bounded so a tampered file can't hang the tab deriving a key
+ */
+export function isSupportedIterationCount(iterations: number): boolean {
+  return Number.isInteger(iterations) && iterations > 0 && iterations <= MAX_ESCROW_ITERATIONS
+}
+
+/**
+ * Derive an AES-GCM wrapping key from a passphrase
+ *
+ * @param passphrase - User passphrase
+ * @param salt - Random salt stored with the bundle
+ * @param iterations - PBKDF2 iteration count
+ * @returns Promise<CryptoKey> - Non-extractable wrapping key
+ */
+export async function deriveWrappingKey(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  )
+
+  return await crypto.subtle.deriveKey(
+    {
+      name: 'PBKDF2',
+      salt,
+      iterations,
+      hash: 'SHA-256',
+    },
+    baseKey,
+    {
+      name: WRAP_ALGORITHM,
+      length: KEY_LENGTH,
+    },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+/**
+ * Wrap an encryption key with a passphrase
+ *
+ * @param keyData - Base64 raw AES key to wrap
+ * @param keyId - Key identifier, bound to the ciphertext as additional data
+ * @param passphrase - User passphrase
+ * @param iterations - PBKDF2 iteration count
+ * @returns Promise<WrappedKeyBundle> - Bundle safe to store server-side
+ */
+export async function wrapKeyWithPassphrase(
+  keyData: string,
+  keyId: string,
+  passphrase: string,
+  iterations = DEFAULT_ESCROW_ITERATIONS
+): Promise<WrappedKeyBundle> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`)
+  }
+
+  try {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH))
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+    const wrappingKey = await deriveWrappingKey(passphrase, salt, iterations)
+
+    const wrappedKey = await crypto.subtle.encrypt(
+      {
+        name: WRAP_ALGORITHM,
+        iv,
+        additionalData: new TextEncoder().encode(keyId),
+      },
+      wrappingKey,
+      base64ToArrayBuffer(keyData)
+    )
+
+    return {
+      keyId,
+      wrappedKey: arrayBufferToBase64(wrappedKey),
+      salt: arrayBufferToBase64(salt),
+      iv: arrayBufferToBase64(iv),
+      kdf: ESCROW_KDF,
+      iterations,
+      algorithm: 'AES-256-GCM',
+      version: ESCROW_VERSION,
+      createdAt: Date.now(),
+    }
+  } catch (error) {
+    console.error('Failed to wrap key:', error)
+    throw new Error('Failed to protect encryption key with passphrase')
+  }
+}
+
+/**
+ * Unwrap an encryption key with a passphrase
+ *
+ * @param bundle - Wrapped key bundle
+ * @param passphrase - User passphrase
+ * @returns Promise<string> - The unwrapped base64 raw AES key
+ */
+export async function unwrapKeyWithPassphrase(
+  bundle: WrappedKeyBundle,
+  passphrase: string
+): Promise<string> {
+  if (bundle.kdf !== ESCROW_KDF) {
+    throw new Error(`Unsupported key derivation: ${bundle.kdf}`)
+  }
+  if (!isSupportedIterationCount(bundle.iterations)) {
+    throw new Error(`Unsupported iteration count: ${bundle.iterations}`)
+  }
+
+  try {
+    const salt = new Uint8Array(base64ToArrayBuffer(bundle.salt))
+    const wrappingKey = await deriveWrappingKey(passphrase, salt, bundle.iterations)
+
+    const rawKey = await crypto.subtle.decrypt(
+      {
+        name: WRAP_ALGORITHM,
+        iv: base64ToArrayBuffer(bundle.iv),
+        additionalData: new TextEncoder().encode(bundle.keyId),
+      },
+      wrappingKey,
+      base64ToArrayBuffer(bundle.wrappedKey)
+    )
+
+    return arrayBufferToBase64(rawKey)
+  } catch (error) {
+    console.error('Failed to unwrap key:', error)
+    throw new Error('Incorrect passphrase or corrupted key backup')
+  }
+}
+
+/**
+ * Create an escrow bundle for the key stored on this device
+ * Assigns a keyId to keys created before escrow support
+ *
+ * @param userId - User ID
+ * @param passphrase - User passphrase
+ * @param iterations - PBKDF2 iteration count
+ * @returns Promise<WrappedKeyBundle> - Bundle to persist on the user's keyEscrows entity
+ */
+export async function createKeyEscrow(
+  userId: string,
+  passphrase: string,
+  iterations = DEFAULT_ESCROW_ITERATIONS
+): Promise<WrappedKeyBundle> {
+  const storedKey = await ensureKeyId(userId)
+  const { active } = await exportKeyring(userId)
+  const bundle = await wrapKeyWithPassphrase(active.keyData, storedKey.keyId, passphrase, iterations)
+  return { ...bundle, keyVersion: getKeyVersion(storedKey.metadata) }
+}
+
+/**
+ * Restore a user's key from an escrow bundle and store it on this device
+ * A different key already on this device (e.g. a mismatched one) is archived, not discarded
+ *
+ * @param userId - User ID
+ * @param bundle - Wrapped key bundle from the server
+ * @param passphrase - User passphrase
+ * @returns Promise<StoredKey> - The restored key and metadata
+ */
+export async function restoreKeyFromEscrow(
+  userId: string,
+  bundle: WrappedKeyBundle,
+  passphrase: string
+): Promise<StoredKey> {
+  const keyData = await unwrapKeyWithPassphrase(bundle, passphrase)
+
+  const storedKey = await importKeyring(userId, {
+    active: {
+      keyData,
+      metadata: {
+        keyId: bundle.keyId,
+        keyVersion: bundle.keyVersion ?? 1,
+        version: bundle.version,
+        createdAt: bundle.createdAt,
+        algorithm: bundle.algorithm,
+        userId,
+      },
+    },
+    archive: [],
+  })
+
+  console.log(`Restored encryption key from escrow for user: ${userId}`)
+  return storedKey
+}
@@ -8,8 +8,18 @@ import {
   deleteKey,
   hasStoredKey,
   getKeyMetadata,
+  rotateKey,
+  getKeyByVersion,
+  getArchivedKeyMetadata,
+  ensureKeyId,
+  getKeyById,
+  exportKeyring,
+  importKeyring,
+  setKeyStorageBackend,
 } from './keyStorage'
-import { encryptText, decryptText } from './crypto'
+import { createMemoryKeyStorage } from './keyStorageBackend'
+import { expectStoredKey } from './testUtils'
+import { generateEncryptionKey, encryptText, decryptText } from './crypto'
 
 // Mock LocalStorage for Node.js test environment
 class LocalStorageMock {
@@ -41,6 +51,23 @@ class LocalStorageMock {
   }
 }
 
+// Write a key the way earlier versions stored it in LocalStorage
+async function storeLegacyKey(userId: string, metadataOverrides: Record<string, unknown> = {}) {
+  const { key, keyData } = await generateEncryptionKey()
+  const metadata = {
+    keyId: 'legacy-key',
+    keyVersion: 1,
+    version: '1.0',
+    createdAt: Date.now(),
+    algorithm: 'AES-256-GCM',
+    userId,
+    ...metadataOverrides,
+  }
+  localStorage.setItem(`reflections_encryption_key_${userId}`, keyData)
+  localStorage.setItem(`reflections_key_metadata_${userId}`, JSON.stringify(metadata))
+  return { key, keyData }
+}
+
 describe('Key Storage Service', () => {
   const testUserId = 'test-user-123'
   const testUserId2 = 'test-user-456'
@@ -50,8 +77,9 @@ describe('Key Storage Service', () => {
     global.localStorage = new LocalStorageMock() as Storage
   })
 
-  // Clean up LocalStorage before and after each test
+  // Fresh key storage (and LocalStorage) before and after each test
   beforeEach(() => {
+    setKeyStorageBackend(createMemoryKeyStorage())
     localStorage.clear()
   })
 
@@ -72,31 +100,23 @@ describe('Key Storage Service', () => {
       expect(metadata.createdAt).toBeGreaterThan(0)
     })
 
-    it('should store key in LocalStorage', async () => {
+    it('should store a non-extractable key outside LocalStorage', async () => {
       await generateAndStoreKey(testUserId)
 
-      const keyData = localStorage.getItem(`reflections_encryption_key_${testUserId}`)
-      const metadataStr = localStorage.getItem(`reflections_key_metadata_${testUserId}`)
+      const retrieved = await getStoredKey(testUserId)
 
-      expect(keyData).toBeDefined()
-      expect(metadataStr).toBeDefined()
+      expect(retrieved?.key.extractable).toBe(false)
+      expect(localStorage.length).toBe(0)
     })
 
     it('should store separate keys for different users', async () => {
       const { key: key1 } = await generateAndStoreKey(testUserId)
       const { key: key2 } = await generateAndStoreKey(testUserId2)
 
-      // Export keys to compare (as base64 strings)
-      const exported1 = await crypto.subtle.exportKey('raw', key1)
-      const exported2 = await crypto.subtle.exportKey('raw', key2)
+      // Keys are non-extractable, so compare by decrypting across users
+      const encrypted = await encryptText('User 1', key1)
 
-      // Convert to base64 for comparison
-      const bytes1 = new Uint8Array(exported1)
-      const bytes2 = new Uint8Array(exported2)
-      const base64_1 = Buffer.from(bytes1).toString('base64')
-      const base64_2 = Buffer.from(bytes2).toString('base64')
-
-      expect(base64_1).not.toBe(base64_2)
+      await expect(decryptText(encrypted, key2)).rejects.toThrow()
     })
   })
 
@@ -108,7 +128,6 @@ describe('Key Storage Service', () => {
       // Retrieve it
       const retrieved = await getStoredKey(testUserId)
 
-      expect(retrieved).not.toBeNull()
       expect(retrieved?.key).toBeDefined()
       expect(retrieved?.metadata.userId).toBe(originalMetadata.userId)
       expect(retrieved?.metadata.createdAt).toBe(originalMetadata.createdAt)
@@ -126,12 +145,11 @@ describe('Key Storage Service', () => {
 
       // Retrieve it
       const retrieved = await getStoredKey(testUserId)
-      expect(retrieved).not.toBeNull()
 
       // Test that it works for encryption
       const testText = 'Test message'
       const encrypted = await encryptText(testText, originalKey)
-      const decrypted = await decryptText(encrypted, retrieved!.key)
+      const decrypted = await decryptText(encrypted, expectStoredKey(retrieved).key)
 
       expect(decrypted).toBe(testText)
     })
@@ -139,13 +157,13 @@ describe('Key Storage Service', () => {
 
   describe('Get or Create Key', () => {
     it('should create key if none exists', async () => {
-      expect(hasStoredKey(testUserId)).toBe(false)
+      expect(await hasStoredKey(testUserId)).toBe(false)
 
       const { key, metadata } = await getOrCreateKey(testUserId)
 
       expect(key).toBeDefined()
       expect(metadata.userId).toBe(testUserId)
-      expect(hasStoredKey(testUserId)).toBe(true)
+      expect(await hasStoredKey(testUserId)).toBe(true)
     })
 
     it('should return existing key if one exists', async () => {
@@ -165,13 +183,23 @@ describe('Key Storage Service', () => {
 
       // Should be the same key (same creation time)
       expect(first.createdAt).toBe(second.createdAt)
-      expect(hasStoredKey(testUserId)).toBe(true)
+      expect(await hasStoredKey(testUserId)).toBe(true)
 
-      // Verify only one key/metadata pair in localStorage
-      const keyData = localStorage.getItem(`reflections_encryption_key_${testUserId}`)
-      const metadataData = localStorage.getItem(`reflections_key_metadata_${testUserId}`)
-      expect(keyData).not.toBeNull()
-      expect(metadataData).not.toBeNull()
+      // Verify only one key was stored
+      expect(await getArchivedKeyMetadata(testUserId)).toEqual([])
+    })
+
+    it('should return the same key to concurrent callers', async () => {
+      const [first, second] = await Promise.all([
+        getOrCreateKey(testUserId),
+        getOrCreateKey(testUserId),
+      ])
+
+      const encrypted = await encryptText('Shared key', first.key)
+      const decrypted = await decryptText(encrypted, second.key)
+
+      expect(decrypted).toBe('Shared key')
+      expect(first.metadata.createdAt).toBe(second.metadata.createdAt)
     })
   })
 
@@ -205,15 +233,15 @@ describe('Key Storage Service', () => {
       const backup = await exportKeyForBackup(testUserId)
 
       // Clear storage
-      deleteKey(testUserId)
-      expect(hasStoredKey(testUserId)).toBe(false)
+      await deleteKey(testUserId)
+      expect(await hasStoredKey(testUserId)).toBe(false)
 
       // Import the backup
       const { key, metadata } = await importKeyFromBackup(testUserId, backup)
 
       expect(key).toBeDefined()
       expect(metadata.userId).toBe(testUserId)
-      expect(hasStoredKey(testUserId)).toBe(true)
+      expect(await hasStoredKey(testUserId)).toBe(true)
     })
 
     it('should maintain encryption functionality after import', async () => {
@@ -226,7 +254,7 @@ describe('Key Storage Service', () => {
       const backup = await exportKeyForBackup(testUserId)
 
       // Simulate new device: clear storage
-      deleteKey(testUserId)
+      await deleteKey(testUserId)
 
       // Import on "new device"
       const { key: importedKey } = await importKeyFromBackup(testUserId, backup)
@@ -248,40 +276,37 @@ describe('Key Storage Service', () => {
   describe('Key Deletion', () => {
     it('should delete key from storage', async () => {
       await generateAndStoreKey(testUserId)
-      expect(hasStoredKey(testUserId)).toBe(true)
+      expect(await hasStoredKey(testUserId)).toBe(true)
 
-      deleteKey(testUserId)
+      await deleteKey(testUserId)
 
-      expect(hasStoredKey(testUserId)).toBe(false)
+      expect(await hasStoredKey(testUserId)).toBe(false)
       expect(await getStoredKey(testUserId)).toBeNull()
     })
 
     it('should delete both key and metadata', async () => {
       await generateAndStoreKey(testUserId)
 
-      deleteKey(testUserId)
+      await deleteKey(testUserId)
 
-      const keyData = localStorage.getItem(`reflections_encryption_key_${testUserId}`)
-      const metadata = localStorage.getItem(`reflections_key_metadata_${testUserId}`)
-
-      expect(keyData).toBeNull()
-      expect(metadata).toBeNull()
+      expect(await getKeyMetadata(testUserId)).toBeNull()
+      await expect(exportKeyForBackup(testUserId)).rejects.toThrow()
     })
   })
 
   describe('Key Metadata', () => {
     it('should check if key exists', async () => {
-      expect(hasStoredKey(testUserId)).toBe(false)
+      expect(await hasStoredKey(testUserId)).toBe(false)
 
       await generateAndStoreKey(testUserId)
 
-      expect(hasStoredKey(testUserId)).toBe(true)
+      expect(await hasStoredKey(testUserId)).toBe(true)
     })
 
     it('should get key metadata without loading full key', async () => {
       const { metadata: original } = await generateAndStoreKey(testUserId)
 
-      const metadata = getKeyMetadata(testUserId)
+      const metadata = await getKeyMetadata(testUserId)
 
       expect(metadata).not.toBeNull()
       expect(metadata?.userId).toBe(original.userId)
@@ -289,8 +314,8 @@ describe('Key Storage Service', () => {
       expect(metadata?.algorithm).toBe(original.algorithm)
     })
 
-    it('should return null for non-existent metadata', () => {
-      const metadata = getKeyMetadata('non-existent-user')
+    it('should return null for non-existent metadata', async () => {
+      const metadata = await getKeyMetadata('non-existent-user')
 
       expect(metadata).toBeNull()
     })
@@ -301,15 +326,15 @@ describe('Key Storage Service', () => {
       await generateAndStoreKey(testUserId)
       await generateAndStoreKey(testUserId2)
 
-      expect(hasStoredKey(testUserId)).toBe(true)
-      expect(hasStoredKey(testUserId2)).toBe(true)
+      expect(await hasStoredKey(testUserId)).toBe(true)
+      expect(await hasStoredKey(testUserId2)).toBe(true)
 
       // Delete one user's key
-      deleteKey(testUserId)
+      await deleteKey(testUserId)
 
       // Other user's key should remain
-      expect(hasStoredKey(testUserId)).toBe(false)
-      expect(hasStoredKey(testUserId2)).toBe(true)
+      expect(await hasStoredKey(testUserId)).toBe(false)
+      expect(await hasStoredKey(testUserId2)).toBe(true)
     })
 
     it('should not allow cross-user key access', async () => {
@@ -323,5 +348,227 @@ describe('Key Storage Service', () => {
       await expect(decryptText(encrypted, key2)).rejects.toThrow()
     })
   })
-})
 
+  describe('Key Rotation', () => {
+    it('should start new keys at version 1', async () => {
+      const { metadata } = await generateAndStoreKey(testUserId)
+
+      expect(metadata.keyVersion).toBe(1)
+      expect(metadata.keyId).toBeDefined()
+    })
+
+    it('should rotate to the next version with a new key', async () => {
+      const { metadata: original } = await generateAndStoreKey(testUserId)
+
+      const { metadata: rotated } = await rotateKey(testUserId)
+
+      expect(rotated.keyVersion).toBe(2)
+      expect(rotated.keyId).not.toBe(original.keyId)
+      expect((await getKeyMetadata(testUserId))?.keyVersion).toBe(2)
+    })
+
+    it('should keep old versions for decryption', async () => {
+      const { key: originalKey } = await generateAndStoreKey(testUserId)
+      const encrypted = await encryptText('Before rotation', originalKey)
+
+      await rotateKey(testUserId)
+      await rotateKey(testUserId)
+
+      const v1 = await getKeyByVersion(testUserId, 1)
+      expect(await decryptText(encrypted, expectStoredKey(v1).key)).toBe('Before rotation')
+
+      expect((await getArchivedKeyMetadata(testUserId)).map((m) => m.keyVersion)).toEqual([1, 2])
+    })
+
+    it('should return the active key for the active version', async () => {
+      await generateAndStoreKey(testUserId)
+      const { key: activeKey } = await rotateKey(testUserId)
+
+      const v2 = await getKeyByVersion(testUserId, 2)
+      const encrypted = await encryptText('After rotation', activeKey)
+
+      expect(await decryptText(encrypted, expectStoredKey(v2).key)).toBe('After rotation')
+    })
+
+    it('should treat keys without a version as version 1', async () => {
+      await storeLegacyKey(testUserId, { keyVersion: undefined })
+
+      const { metadata } = await rotateKey(testUserId)
+
+      expect(metadata.keyVersion).toBe(2)
+      expect(await getKeyByVersion(testUserId, 1)).not.toBeNull()
+    })
+
+    it('should return null for unknown versions', async () => {
+      await generateAndStoreKey(testUserId)
+
+      expect(await getKeyByVersion(testUserId, 5)).toBeNull()
+    })
+
+    it('should throw when rotating without a key', async () => {
+      await expect(rotateKey('non-existent-user')).rejects.toThrow()
+    })
+
+    it('should delete archived versions with the key', async () => {
+      await generateAndStoreKey(testUserId)
+      await rotateKey(testUserId)
+
+      await deleteKey(testUserId)
+
+      expect(await getArchivedKeyMetadata(testUserId)).toEqual([])
+      expect(await getKeyByVersion(testUserId, 1)).toBeNull()
+    })
+  })
+
+  describe('Keyrings', () => {
+    it('should export the active key and archive', async () => {
+      await generateAndStoreKey(testUserId)
+      await rotateKey(testUserId)
+
+      const keyring = await exportKeyring(testUserId)
+
+      expect(keyring.active.metadata.keyVersion).toBe(2)
+      expect(keyring.archive.map((entry) => entry.metadata.keyVersion)).toEqual([1])
+    })
+
+    it('should throw when exporting without a key', async () => {
+      await expect(exportKeyring('non-existent-user')).rejects.toThrow()
+    })
+
+    it('should import a keyring onto a new device', async () => {
+      const { key: originalKey } = await generateAndStoreKey(testUserId)
+      const encrypted = await encryptText('Old device', originalKey)
+      await rotateKey(testUserId)
+      const keyring = await exportKeyring(testUserId)
+
+      setKeyStorageBackend(createMemoryKeyStorage())
+      await importKeyring(testUserId, keyring)
+
+      expect((await getKeyMetadata(testUserId))?.keyVersion).toBe(2)
+      const v1 = await getKeyByVersion(testUserId, 1)
+      if (v1) {
+        expect(await decryptText(encrypted, v1.key)).toBe('Old device')
+      }
+    })
+
+    it('should archive a different local key instead of discarding it', async () => {
+      await generateAndStoreKey(testUserId)
+      const keyring = await exportKeyring(testUserId)
+
+      setKeyStorageBackend(createMemoryKeyStorage())
+      await generateAndStoreKey(testUserId)
+      const { key: localKey, keyId: localKeyId } = await ensureKeyId(testUserId)
+      const encrypted = await encryptText('New device', localKey)
+
+      await importKeyring(testUserId, keyring)
+
+      expect((await getKeyMetadata(testUserId))?.keyId).toBe(keyring.active.metadata.keyId)
+      expect((await getArchivedKeyMetadata(testUserId)).map((m) => m.keyId)).toContain(localKeyId)
+      const archived = await getKeyById(testUserId, localKeyId)
+      if (archived) {
+        expect(await decryptText(encrypted, archived.key)).toBe('New device')
+      }
+    })
+
+    it('should keep a newer local key active when importing an older keyring', async () => {
+      await generateAndStoreKey(testUserId)
+      const keyring = await exportKeyring(testUserId)
+      const { metadata: rotated } = await rotateKey(testUserId)
+
+      const imported = await importKeyring(testUserId, keyring)
+
+      expect(imported.metadata.keyId).toBe(rotated.keyId)
+      expect((await getKeyMetadata(testUserId))?.keyVersion).toBe(2)
+      expect((await getArchivedKeyMetadata(testUserId)).map((m) => m.keyId)).toEqual([
+        keyring.active.metadata.keyId,
+      ])
+    })
+
+    it('should not duplicate keys that are already in the keyring', async () => {
+      await generateAndStoreKey(testUserId)
+      await rotateKey(testUserId)
+      const keyring = await exportKeyring(testUserId)
+
+      await importKeyring(testUserId, keyring)
+
+      expect(await getArchivedKeyMetadata(testUserId)).toHaveLength(1)
+    })
+
+    it('should reject an invalid keyring without changing storage', async () => {
+      await generateAndStoreKey(testUserId)
+      const before = await exportKeyring(testUserId)
+      const invalid = { ...before, archive: [{ ...before.active, keyData: 'not-a-key' }] }
+
+      await expect(importKeyring(testUserId, invalid)).rejects.toThrow()
+      expect(await exportKeyring(testUserId)).toEqual(before)
+    })
+  })
+
+  describe('LocalStorage Migration', () => {
+    it('should migrate a LocalStorage key on first use', async () => {
+      const { key: legacyKey } = await storeLegacyKey(testUserId)
+      const encrypted = await encryptText('Before migration', legacyKey)
+
+      const migrated = await getStoredKey(testUserId)
+
+      expect(migrated?.metadata.keyId).toBe('legacy-key')
+      expect(migrated?.key.extractable).toBe(false)
+      if (migrated) {
+        expect(await decryptText(encrypted, migrated.key)).toBe('Before migration')
+      }
+      expect(localStorage.length).toBe(0)
+    })
+
+    it('should migrate archived versions', async () => {
+      const { keyData: archivedKeyData } = await generateEncryptionKey()
+      await storeLegacyKey(testUserId, { keyVersion: 2 })
+      localStorage.setItem(
+        `reflections_key_archive_${testUserId}`,
+        JSON.stringify([
+          {
+            keyData: archivedKeyData,
+            metadata: {
+              keyVersion: 1,
+              version: '1.0',
+              createdAt: 1,
+              algorithm: 'AES-256-GCM',
+              userId: testUserId,
+            },
+          },
+        ])
+      )
+
+      expect((await getArchivedKeyMetadata(testUserId)).map((m) => m.keyVersion)).toEqual([1])
+      expect((await exportKeyring(testUserId)).archive[0].keyData).toBe(archivedKeyData)
+    })
+
+    it('should keep the raw key available for backups', async () => {
+      const { keyData } = await storeLegacyKey(testUserId)
+
+      const backup = JSON.parse(atob(await exportKeyForBackup(testUserId)))
+
+      expect(backup.keyData).toBe(keyData)
+    })
+
+    it('should migrate once for concurrent callers', async () => {
+      await storeLegacyKey(testUserId)
+
+      const [first, second] = await Promise.all([
+        getStoredKey(testUserId),
+        getStoredKey(testUserId),
+      ])
+
+      expect(first?.metadata.keyId).toBe('legacy-key')
+      expect(second?.key).toBe(first?.key)
+    })
+
+    it('should not bring back a deleted key', async () => {
+      await storeLegacyKey(testUserId)
+
+      await deleteKey(testUserId)
+
+      expect(await hasStoredKey(testUserId)).toBe(false)
+      expect(localStorage.length).toBe(0)
+    })
+  })
+})
@@ -1,21 +1,58 @@
 /**
  * Encryption Key Storage Service
  * 
- * Manages encryption keys in LocalStorage
+ * Manages encryption keys in IndexedDB (see keyStorageBackend.ts)
  * Keys are never sent to the server
  * 
- * Storage Structure:
- * - `reflections_encryption_key_${userId}` - User's encryption key (base64)
+ * Each entry holds a CryptoKey for encryption and, because backups, escrow
+ * and device pairing need the raw key, a copy sealed with a per-device key
+ * stored in the same database. Anything that can run script on the page can
+ * unseal that copy just as this module does, so local key storage offers no
+ * protection against an XSS.
+ * 
+ * Keys stored in LocalStorage by earlier versions are migrated on first use:
+ * - `reflections_encryption_key_${userId}` - Active encryption key (base64)
  * - `reflections_key_metadata_${userId}` - Key metadata (created date, version)
+ * - `reflections_key_archive_${userId}` - Previous key versions (JSON)
  */
 
-import { generateEncryptionKey, importEncryptionKey, type EncryptionKey } from './crypto'
+import {
+  generateEncryptionKey,
+  importEncryptionKey,
+  encryptText,
+  decryptText,
+} from './crypto'
+import {
+  createIndexedDBKeyStorage,
+  createMemoryKeyStorage,
+  isIndexedDBAvailable,
+  type KeyStorageBackend,
+  type StoredKeyEntry,
+  type StoredKeyring,
+} from './keyStorageBackend'
 
 const KEY_PREFIX = 'reflections_encryption_key_'
 const METADATA_PREFIX = 'reflections_key_metadata_'
+const ARCHIVE_PREFIX = 'reflections_key_archive_'
 const KEY_VERSION = '1.0'
 
+let backend: KeyStorageBackend | null = null
+
+// This device's sealing key, loaded (or created) once
+let deviceKeyLoad: Promise<CryptoKey> | null = null
+
+// In-flight getOrCreateKey calls, keyed by userId
+const pendingKeyLoads = new Map<string, Promise<StoredKey>>()
+
+// In-flight LocalStorage migrations, keyed by userId
+const pendingMigrations = new Map<string, Promise<StoredKeyring | null>>()
+
+// Tail of each user's queued keyring writes, so read-modify-write updates don't interleave
+const keyringWrites = new Map<string, Promise<unknown>>()
+
 export interface KeyMetadata {
+  keyId?: string // Stable key identifier (absent on keys created before escrow support)
+  keyVersion?: number // Rotation counter, starts at 1 (absent on keys created before rotation support)
   version: string
   createdAt: number // Unix timestamp
   algorithm: string
@@ -27,6 +64,34 @@ export interface StoredKey {
   metadata: KeyMetadata
 }
 
+interface ArchivedKey {
+  keyData: string // Base64 raw key
+  metadata: KeyMetadata
+}
+
+/**
+ * Every key a user has on this device (active + archived)
+ * Transferred as a unit so a new device can read reflections from any key version
+ */
+export interface Keyring {
+  active: ArchivedKey
+  archive: ArchivedKey[]
+}
+
+/**
+ * Replace the storage backend
+ * Tests use createMemoryKeyStorage(); the browser defaults to IndexedDB
+ * 
+ * @param nextBackend - Backend to use from now on
+ */
+export function setKeyStorageBackend(nextBackend: KeyStorageBackend): void {
+  backend = nextBackend
+  deviceKeyLoad = null
+  pendingKeyLoads.clear()
+  pendingMigrations.clear()
+  keyringWrites.clear()
+}
+
 /**
  * Generate and store a new encryption key for a user
  * 
@@ -40,15 +105,17 @@ export async function generateAndStoreKey(userId: string): Promise<StoredKey> {
 
     // Create metadata
     const metadata: KeyMetadata = {
+      keyId: crypto.randomUUID(),
+      keyVersion: 1,
       version: KEY_VERSION,
       createdAt: Date.now(),
       algorithm: 'AES-256-GCM',
       userId,
     }
 
-    // Store in LocalStorage
-    localStorage.setItem(KEY_PREFIX + userId, keyData)
-    localStorage.setItem(METADATA_PREFIX + userId, JSON.stringify(metadata))
+    // Store in IndexedDB
+    const entry = await createEntry(keyData, metadata, key)
+    await updateKeyring(userId, (current) => ({ active: entry, archive: current?.archive ?? [] }))
 
     return { key, metadata }
   } catch (error) {
@@ -58,24 +125,19 @@ export async function generateAndStoreKey(userId: string): Promise<StoredKey> {
 }
 
 /**
- * Retrieve a user's encryption key from LocalStorage
+ * Retrieve a user's encryption key
  * 
  * @param userId - User ID
  * @returns Promise<StoredKey | null> - The key and metadata, or null if not found
  */
 export async function getStoredKey(userId: string): Promise<StoredKey | null> {
   try {
-    const keyData = localStorage.getItem(KEY_PREFIX + userId)
-    const metadataStr = localStorage.getItem(METADATA_PREFIX + userId)
-
-    if (!keyData || !metadataStr) {
+    const keyring = await loadKeyring(userId)
+    if (!keyring) {
       return null
     }
 
-    const metadata: KeyMetadata = JSON.parse(metadataStr)
-    const key = await importEncryptionKey(keyData)
-
-    return { key, metadata }
+    return toStoredKey(keyring.active)
   } catch (error) {
     console.error('Failed to retrieve stored key:', error)
     throw new Error('Failed to retrieve encryption key')
@@ -90,15 +152,31 @@ export async function getStoredKey(userId: string): Promise<StoredKey | null> {
  * @returns Promise<StoredKey> - The key and metadata
  */
 export async function getOrCreateKey(userId: string): Promise<StoredKey> {
-  // Try to get existing key
-  const existingKey = await getStoredKey(userId)
-  if (existingKey) {
-    return existingKey
+  // Share an in-flight lookup so components mounting together
+  // (e.g. a list of ReflectionCards) can't each generate a different key
+  const pending = pendingKeyLoads.get(userId)
+  if (pending) {
+    return pending
   }
 
-  // Generate new key if none exists
-  console.log(`Generating new encryption key for user: ${userId}`)
-  return await generateAndStoreKey(userId)
+  const load = (async () => {
+    // Try to get existing key
+    const existingKey = await getStoredKey(userId)
+    if (existingKey) {
+      return existingKey
+    }
+
+    // Generate new key if none exists
+    console.log(`Generating new encryption key for user: ${userId}`)
+    return await generateAndStoreKey(userId)
+  })()
+
+  pendingKeyLoads.set(userId, load)
+  try {
+    return await load
+  } finally {
+    pendingKeyLoads.delete(userId)
+  }
 }
 
 /**
@@ -110,14 +188,13 @@ export async function getOrCreateKey(userId: string): Promise<StoredKey> {
  */
 export async function exportKeyForBackup(userId: string): Promise<string> {
   try {
-    const keyData = localStorage.getItem(KEY_PREFIX + userId)
-    const metadataStr = localStorage.getItem(METADATA_PREFIX + userId)
+    const keyring = await loadKeyring(userId)
 
-    if (!keyData || !metadataStr) {
+    if (!keyring) {
       throw new Error('No encryption key found for this user')
     }
 
-    const metadata: KeyMetadata = JSON.parse(metadataStr)
+    const { keyData, metadata } = await unsealEntry(keyring.active)
 
     // Create a backup bundle
     const backup = {
@@ -157,21 +234,11 @@ export async function importKeyFromBackup(
       throw new Error('Invalid backup data')
     }
 
-    // Import the key to verify it's valid
-    const key = await importEncryptionKey(backup.keyData)
-
-    // Update metadata with current userId
-    const metadata: KeyMetadata = {
-      ...backup.metadata,
-      userId, // Use current userId
-    }
-
-    // Store in LocalStorage
-    localStorage.setItem(KEY_PREFIX + userId, backup.keyData)
-    localStorage.setItem(METADATA_PREFIX + userId, JSON.stringify(metadata))
+    // Store the key (importing it verifies it's valid)
+    const storedKey = await storeKey(userId, backup.keyData, backup.metadata)
 
     console.log(`Imported encryption key for user: ${userId}`)
-    return { key, metadata }
+    return storedKey
   } catch (error) {
     console.error('Failed to import key:', error)
     throw new Error('Failed to import encryption key. The backup may be corrupted.')
@@ -179,14 +246,42 @@ export async function importKeyFromBackup(
 }
 
 /**
- * Delete encryption key for a user
+ * Store an existing key for a user
+ * Used when a key is recovered from escrow rather than generated on this device
+ * 
+ * @param userId - User ID
+ * @param keyData - Base64 raw key to store
+ * @param metadata - Metadata to store alongside the key
+ * @returns Promise<StoredKey> - The stored key and metadata
+ */
+export async function storeKey(
+  userId: string,
+  keyData: string,
+  metadata: KeyMetadata
+): Promise<StoredKey> {
+  try {
+    const entry = await createEntry(keyData, { ...metadata, userId })
+    await updateKeyring(userId, (current) => ({ active: entry, archive: current?.archive ?? [] }))
+
+    return toStoredKey(entry)
+  } catch (error) {
+    console.error('Failed to store key:', error)
+    throw new Error('Failed to store encryption key')
+  }
+}
+
+/**
+ * Delete encryption key for a user (including archived versions)
  * WARNING: This will make all encrypted data unrecoverable
  * 
  * @param userId - User ID
  */
-export function deleteKey(userId: string): void {
-  localStorage.removeItem(KEY_PREFIX + userId)
-  localStorage.removeItem(METADATA_PREFIX + userId)
+export async function deleteKey(userId: string): Promise<void> {
+  await queueKeyringWrite(userId, async () => {
+    await getBackend().deleteKeyring(userId)
+    // Otherwise the next read would migrate them back
+    removeLegacyKeys(userId)
+  })
   console.warn(`Deleted encryption key for user: ${userId}`)
 }
 
@@ -194,28 +289,420 @@ export function deleteKey(userId: string): void {
  * Check if a user has an encryption key stored
  * 
  * @param userId - User ID
- * @returns boolean - True if key exists
+ * @returns Promise<boolean> - True if key exists
  */
-export function hasStoredKey(userId: string): boolean {
-  return localStorage.getItem(KEY_PREFIX + userId) !== null
+export async function hasStoredKey(userId: string): Promise<boolean> {
+  return (await loadKeyring(userId)) !== null
 }
 
 /**
  * Get key metadata without loading the full key
  * 
  * @param userId - User ID
- * @returns KeyMetadata | null - Metadata or null if not found
+ * @returns Promise<KeyMetadata | null> - Metadata or null if not found
  */
-export function getKeyMetadata(userId: string): KeyMetadata | null {
+export async function getKeyMetadata(userId: string): Promise<KeyMetadata | null> {
+  try {
+    return (await loadKeyring(userId))?.active.metadata ?? null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Get the version number of a key
+ * Keys created before rotation support are version 1
+ * 
+ * @param metadata - Key metadata
+ * @returns number - Key version
+ */
+export function getKeyVersion(metadata: KeyMetadata): number {
+  return metadata.keyVersion ?? 1
+}
+
+/**
+ * Rotate a user's encryption key
+ * The current key is archived so existing data stays decryptable,
+ * and a new key with the next version becomes the active key
+ * 
+ * @param userId - User ID
+ * @returns Promise<StoredKey> - The new active key and metadata
+ */
+export async function rotateKey(userId: string): Promise<StoredKey> {
+  if (!(await loadKeyring(userId))) {
+    throw new Error('No encryption key found for this user')
+  }
+
+  try {
+    const { key, keyData } = await generateEncryptionKey()
+
+    // The old key is archived in the same write that activates the new one,
+    // so a failure can never lose it
+    const keyring = await updateKeyring(userId, async (current) => {
+      if (!current) {
+        throw new Error('No encryption key found for this user')
+      }
+
+      const currentVersion = getKeyVersion(current.active.metadata)
+      const archive = current.archive.filter(
+        (entry) => getKeyVersion(entry.metadata) !== currentVersion
+      )
+      archive.push(current.active)
+
+      const metadata: KeyMetadata = {
+        keyId: crypto.randomUUID(),
+        keyVersion: currentVersion + 1,
+        version: KEY_VERSION,
+        createdAt: Date.now(),
+        algorithm: 'AES-256-GCM',
+        userId,
+      }
+
+      return { active: await createEntry(keyData, metadata, key), archive }
+    })
+
+    const { metadata } = keyring.active
+    console.log(`Rotated encryption key for user: ${userId} (v${metadata.keyVersion})`)
+    return { key, metadata }
+  } catch (error) {
+    console.error('Failed to rotate key:', error)
+    throw new Error('Failed to rotate encryption key')
+  }
+}
+
+/**
+ * Retrieve a specific key version (active or archived)
+ * 
+ * @param userId - User ID
+ * @param keyVersion - Key version to load
+ * @returns Promise<StoredKey | null> - The key and metadata, or null if not found
+ */
+export async function getKeyByVersion(
+  userId: string,
+  keyVersion: number
+): Promise<StoredKey | null> {
+  const keyring = await loadKeyring(userId)
+  if (!keyring) {
+    return null
+  }
+
+  const entry = [keyring.active, ...keyring.archive].find(
+    (candidate) => getKeyVersion(candidate.metadata) === keyVersion
+  )
+  return entry ? toStoredKey(entry) : null
+}
+
+/**
+ * Retrieve a key by its keyId (active or archived)
+ * 
+ * @param userId - User ID
+ * @param keyId - Key identifier recorded in ciphertext envelopes
+ * @returns Promise<StoredKey | null> - The key and metadata, or null if not found
+ */
+export async function getKeyById(userId: string, keyId: string): Promise<StoredKey | null> {
+  const keyring = await loadKeyring(userId)
+  if (!keyring) {
+    return null
+  }
+
+  const entry = [keyring.active, ...keyring.archive].find(
+    (candidate) => candidate.metadata.keyId === keyId
+  )
+  return entry ? toStoredKey(entry) : null
+}
+
+/**
+ * Get the active key, assigning a keyId first if it was created without one
+ * 
+ * @param userId - User ID
+ * @returns Promise<StoredKey & { keyId }> - The active key and its keyId
+ */
+export async function ensureKeyId(userId: string): Promise<StoredKey & { keyId: string }> {
+  const storedKey = await getStoredKey(userId)
+  if (!storedKey) {
+    throw new Error('No encryption key found for this user')
+  }
+
+  if (storedKey.metadata.keyId) {
+    return { ...storedKey, keyId: storedKey.metadata.keyId }
+  }
+
+  const keyId = crypto.randomUUID()
+  const keyring = await updateKeyring(userId, (current) => {
+    if (!current) {
+      throw new Error('No encryption key found for this user')
+    }
+    if (current.active.metadata.keyId) {
+      return current
+    }
+
+    const metadata = { ...current.active.metadata, keyId }
+    return { active: { ...current.active, metadata }, archive: current.archive }
+  })
+
+  return { ...toStoredKey(keyring.active), keyId: keyring.active.metadata.keyId ?? keyId }
+}
+
+/**
+ * List metadata for archived (non-active) key versions
+ * 
+ * @param userId - User ID
+ * @returns Promise<KeyMetadata[]> - Archived key metadata, oldest first
+ */
+export async function getArchivedKeyMetadata(userId: string): Promise<KeyMetadata[]> {
+  const keyring = await loadKeyring(userId)
+  return (keyring?.archive ?? [])
+    .map((entry) => entry.metadata)
+    .sort((a, b) => getKeyVersion(a) - getKeyVersion(b))
+}
+
+/**
+ * Export the active key and all archived keys
+ * 
+ * @param userId - User ID
+ * @returns Promise<Keyring> - Raw key material (encrypt before it leaves the device)
+ */
+export async function exportKeyring(userId: string): Promise<Keyring> {
+  const keyring = await loadKeyring(userId)
+
+  if (!keyring) {
+    throw new Error('No encryption key found for this user')
+  }
+
+  return {
+    active: await unsealEntry(keyring.active),
+    archive: await Promise.all(keyring.archive.map(unsealEntry)),
+  }
+}
+
+/**
+ * Import a keyring from another device
+ * A different key already on this device is archived rather than discarded,
+ * unless it has a higher keyVersion (e.g. it was rotated after a backup was
+ * made), in which case it stays active and the imported key is archived
+ * 
+ * @param userId - User ID
+ * @param keyring - Keyring from exportKeyring
+ * @returns Promise<StoredKey> - The new active key and metadata
+ */
+export async function importKeyring(userId: string, keyring: Keyring): Promise<StoredKey> {
+  if (!keyring?.active?.keyData || !keyring.active.metadata || !Array.isArray(keyring.archive)) {
+    throw new Error('Invalid keyring')
+  }
+
+  const withUser = (entry: ArchivedKey): ArchivedKey => ({
+    keyData: entry.keyData,
+    metadata: { ...entry.metadata, userId },
+  })
+  const isSameKey = (a: ArchivedKey, b: ArchivedKey) =>
+    a.metadata.keyId ? a.metadata.keyId === b.metadata.keyId : a.keyData === b.keyData
+
+  // Import every key first so a bad entry can't leave storage half-written
+  const active = await createEntry(keyring.active.keyData, withUser(keyring.active).metadata)
+  const incoming = keyring.archive.map(withUser)
+  const archive = await Promise.all(
+    incoming.map((entry) => createEntry(entry.keyData, entry.metadata))
+  )
+
+  const updated = await updateKeyring(userId, async (current) => {
+    if (!current) {
+      return { active, archive }
+    }
+
+    const merged = [...archive]
+    for (const entry of [...current.archive, current.active]) {
+      const local = await unsealEntry(entry)
+      if (
+        !isSameKey(local, withUser(keyring.active)) &&
+        !incoming.some((candidate) => isSameKey(local, candidate))
+      ) {
+        merged.push(entry)
+      }
+    }
+
+    // Ties go to the imported key, so recovering replaces a mismatched key
+    const newest = merged.reduce(
+      (best, entry) => (getKeyVersion(entry.metadata) > getKeyVersion(best.metadata) ? entry : best),
+      active
+    )
+    if (newest !== active) {
+      return { active: newest, archive: [...merged.filter((entry) => entry !== newest), active] }
+    }
+    return { active, archive: merged }
+  })
+
+  console.log(`Imported keyring for user: ${userId} (${updated.archive.length} archived keys)`)
+  return toStoredKey(updated.active)
+}
+
+/**
+ * Utility: The storage backend (IndexedDB in the browser, memory elsewhere)
+ */
+function getBackend(): KeyStorageBackend {
+  if (!backend) {
+    backend = isIndexedDBAvailable() ? createIndexedDBKeyStorage() : createMemoryKeyStorage()
+  }
+  return backend
+}
+
+/**
+ * Utility: Load a user's keyring, migrating LocalStorage keys on first use
+ */
+async function loadKeyring(userId: string): Promise<StoredKeyring | null> {
+  const keyring = await getBackend().getKeyring(userId)
+  if (keyring) {
+    return keyring
+  }
+
+  const pending = pendingMigrations.get(userId)
+  if (pending) {
+    return pending
+  }
+
+  const migration = migrateLegacyKeys(userId)
+  pendingMigrations.set(userId, migration)
+  try {
+    return await migration
+  } finally {
+    pendingMigrations.delete(userId)
+  }
+}
+
+/**
+ * Utility: Apply an update to a user's keyring
+ * Updates for the same user run one at a time, in order
+ */
+async function updateKeyring(
+  userId: string,
+  update: (current: StoredKeyring | null) => StoredKeyring | Promise<StoredKeyring>
+): Promise<StoredKeyring> {
+  return await queueKeyringWrite(userId, async () => {
+    const keyring = await update(await loadKeyring(userId))
+    await getBackend().putKeyring(userId, keyring)
+    return keyring
+  })
+}
+
+/**
+ * Utility: Run a write after the user's previous writes have finished
+ */
+function queueKeyringWrite<T>(userId: string, write: () => Promise<T>): Promise<T> {
+  const previous = keyringWrites.get(userId) ?? Promise.resolve()
+  const next = previous.catch(() => {}).then(write)
+  keyringWrites.set(userId, next)
+  return next
+}
+
+/**
+ * Utility: Move keys stored in LocalStorage by earlier versions into the backend
+ */
+async function migrateLegacyKeys(userId: string): Promise<StoredKeyring | null> {
+  if (typeof localStorage === 'undefined') {
+    return null
+  }
+
+  const keyData = localStorage.getItem(KEY_PREFIX + userId)
   const metadataStr = localStorage.getItem(METADATA_PREFIX + userId)
-  if (!metadataStr) {
+  if (!keyData || !metadataStr) {
     return null
   }
 
+  const archive = readLegacyArchive(userId)
+  const keyring: StoredKeyring = {
+    active: await createEntry(keyData, JSON.parse(metadataStr)),
+    archive: await Promise.all(archive.map((entry) => createEntry(entry.keyData, entry.metadata))),
+  }
+
+  await getBackend().putKeyring(userId, keyring)
+  removeLegacyKeys(userId)
+
+  console.log(`Migrated encryption key out of LocalStorage for user: ${userId}`)
+  return keyring
+}
+
+/**
+ * Utility: Read archived keys stored in LocalStorage by earlier versions
+ */
+function readLegacyArchive(userId: string): ArchivedKey[] {
+  const archiveStr = localStorage.getItem(ARCHIVE_PREFIX + userId)
+  if (!archiveStr) {
+    return []
+  }
+
   try {
-    return JSON.parse(metadataStr)
+    return JSON.parse(archiveStr)
   } catch {
-    return null
+    return []
+  }
+}
+
+/**
+ * Utility: Remove keys stored in LocalStorage by earlier versions
+ */
+function removeLegacyKeys(userId: string): void {
+  if (typeof localStorage === 'undefined') {
+    return
+  }
+
+  localStorage.removeItem(KEY_PREFIX + userId)
+  localStorage.removeItem(METADATA_PREFIX + userId)
+  localStorage.removeItem(ARCHIVE_PREFIX + userId)
+}
+
+/**
+ * Utility: This device's sealing key (created on first use)
+ */
+function getDeviceKey(): Promise<CryptoKey> {
+  if (!deviceKeyLoad) {
+    const storage = getBackend()
+    deviceKeyLoad = (async () => {
+      const existing = await storage.getDeviceKey()
+      if (existing) {
+        return existing
+      }
+
+      const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+        'encrypt',
+        'decrypt',
+      ])
+      await storage.putDeviceKey(key)
+      return key
+    })().catch((error) => {
+      deviceKeyLoad = null
+      throw error
+    })
   }
+  return deviceKeyLoad
 }
 
+/**
+ * Utility: Build a stored entry from raw key data
+ */
+async function createEntry(
+  keyData: string,
+  metadata: KeyMetadata,
+  key?: CryptoKey
+): Promise<StoredKeyEntry> {
+  return {
+    key: key ?? (await importEncryptionKey(keyData)),
+    sealedKey: await encryptText(keyData, await getDeviceKey()),
+    metadata,
+  }
+}
+
+/**
+ * Utility: Recover the raw key data from a stored entry
+ */
+async function unsealEntry(entry: StoredKeyEntry): Promise<ArchivedKey> {
+  return {
+    keyData: await decryptText(entry.sealedKey, await getDeviceKey()),
+    metadata: entry.metadata,
+  }
+}
+
+/**
+ * Utility: Strip the sealed copy from a stored entry
+ */
+function toStoredKey(entry: StoredKeyEntry): StoredKey {
+  return { key: entry.key, metadata: entry.metadata }
+}
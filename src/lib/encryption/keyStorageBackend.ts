@@ -0,0 +1,157 @@
+/**
+ * Key Storage Backends
+ *
+ * Where keyStorage.ts persists keys. The browser uses IndexedDB, which can
+ * store CryptoKey objects directly; tests swap in the in-memory backend with
+ * setKeyStorageBackend().
+ *
+ * IndexedDB Structure (database `reflections-keys`):
+ * - `keyrings` - One StoredKeyring per user, keyed by userId
+ * - `device` - This device's sealing key, under `deviceKey`
+ */
+
+import type { EncryptedData } from './crypto'
+import type { KeyMetadata } from './keyStorage'
+
+const DB_NAME = 'reflections-keys'
+const DB_VERSION = 1
+const KEYRINGS_STORE = 'keyrings'
+const DEVICE_STORE = 'device'
+const DEVICE_KEY = 'deviceKey'
+
+export interface StoredKeyEntry {
+  key: CryptoKey // AES-GCM key used for encryption
+  sealedKey: EncryptedData // Raw key encrypted with the device key, for backups, escrow and pairing
+  metadata: KeyMetadata
+}
+
+export interface StoredKeyring {
+  active: StoredKeyEntry
+  archive: StoredKeyEntry[] // Previous key versions kept for decryption
+}
+
+export interface KeyStorageBackend {
+  getKeyring(userId: string): Promise<StoredKeyring | null>
+  putKeyring(userId: string, keyring: StoredKeyring): Promise<void>
+  deleteKeyring(userId: string): Promise<void>
+  getDeviceKey(): Promise<CryptoKey | null>
+  putDeviceKey(key: CryptoKey): Promise<void>
+}
+
+/**
+ * Check if IndexedDB is available (browser only)
+ */
+export function isIndexedDBAvailable(): boolean {
+  return typeof indexedDB !== 'undefined'
+}
+
+/**
+ * IndexedDB backend (default in the browser)
+ *
+ * @param dbName - Database name (override for isolation)
+ * @returns KeyStorageBackend
+ */
+export function createIndexedDBKeyStorage(dbName = DB_NAME): KeyStorageBackend {
+  let dbPromise: Promise<IDBDatabase> | null = null
+
+  const open = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = openDatabase(dbName).catch((error) => {
+        dbPromise = null
+        throw error
+      })
+    }
+    return dbPromise
+  }
+
+  async function run<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await open()
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode)
+      const request = operation(transaction.objectStore(storeName))
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  }
+
+  return {
+    async getKeyring(userId) {
+      const keyring = await run<StoredKeyring | undefined>(KEYRINGS_STORE, 'readonly', (store) =>
+        store.get(userId)
+      )
+      return keyring ?? null
+    },
+    async putKeyring(userId, keyring) {
+      await run(KEYRINGS_STORE, 'readwrite', (store) => store.put(keyring, userId))
+    },
+    async deleteKeyring(userId) {
+      await run(KEYRINGS_STORE, 'readwrite', (store) => store.delete(userId))
+    },
+    async getDeviceKey() {
+      const key = await run<CryptoKey | undefined>(DEVICE_STORE, 'readonly', (store) =>
+        store.get(DEVICE_KEY)
+      )
+      return key ?? null
+    },
+    async putDeviceKey(key) {
+      await run(DEVICE_STORE, 'readwrite', (store) => store.put(key, DEVICE_KEY))
+    },
+  }
+}
+
+/**
+ * In-memory backend (tests, or browsers without IndexedDB)
+ * Keys are lost when the page reloads
+ *
+ * @returns KeyStorageBackend
+ */
+export function createMemoryKeyStorage(): KeyStorageBackend {
+  const keyrings = new Map<string, StoredKeyring>()
+  let deviceKey: CryptoKey | null = null
+
+  return {
+    async getKeyring(userId) {
+      const keyring = keyrings.get(userId)
+      return keyring ? { active: keyring.active, archive: [...keyring.archive] } : null
+    },
+    async putKeyring(userId, keyring) {
+      keyrings.set(userId, { active: keyring.active, archive: [...keyring.archive] })
+    },
+    async deleteKeyring(userId) {
+      keyrings.delete(userId)
+    },
+    async getDeviceKey() {
+      return deviceKey
+    },
+    async putDeviceKey(key) {
+      deviceKey = key
+    },
+  }
+}
+
+/**
+ * Utility: Open (and create/upgrade) the key database
+ */
+function openDatabase(dbName: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(dbName, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(KEYRINGS_STORE)) {
+        db.createObjectStore(KEYRINGS_STORE)
+      }
+      if (!db.objectStoreNames.contains(DEVICE_STORE)) {
+        db.createObjectStore(DEVICE_STORE)
+      }
+    }
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
@@ -0,0 +1,572 @@
+import { describe, it, expect, beforeEach, beforeAll } from 'vitest'
+import {
+  reencryptReflections,
+  reencryptDraft,
+  needsReencryption,
+  markReencryptionPending,
+  getPendingReencryption,
+  clearPendingReencryption,
+  type ReencryptableReflection,
+  type ReencryptableRevision,
+  type ReencryptableDraft,
+  type ReencryptedFields,
+  type ReencryptedPhoto,
+  type ReencryptionDeps,
+  type ReencryptionProgress,
+} from './reencrypt'
+import {
+  generateAndStoreKey,
+  rotateKey,
+  getKeyByVersion,
+  getKeyById,
+  setKeyStorageBackend,
+  type StoredKey,
+} from './keyStorage'
+import { createMemoryKeyStorage } from './keyStorageBackend'
+import { encryptText, encryptFile } from './crypto'
+import {
+  encryptTextEnvelope,
+  encryptFileEnvelope,
+  decryptTextEnvelope,
+  decryptFileEnvelope,
+  ENVELOPE_FORMAT,
+} from './envelope'
+
+// Mock LocalStorage for Node.js test environment
+class LocalStorageMock {
+  private store: Record<string, string> = {}
+
+  get length() {
+    return Object.keys(this.store).length
+  }
+
+  clear() {
+    this.store = {}
+  }
+
+  getItem(key: string) {
+    return this.store[key] || null
+  }
+
+  setItem(key: string, value: string) {
+    this.store[key] = value
+  }
+
+  removeItem(key: string) {
+    delete this.store[key]
+  }
+
+  key(index: number) {
+    const keys = Object.keys(this.store)
+    return keys[index] || null
+  }
+}
+
+/**
+ * In-memory stand-in for InstantDB reflections + storage
+ */
+function createFakeStore(userId: string) {
+  const files = new Map<string, Blob>()
+  const reflections = new Map<string, ReencryptableReflection>()
+  const drafts = new Map<string, ReencryptableDraft>()
+  let nextFileId = 0
+
+  const addFile = (blob: Blob) => {
+    const fileId = `file-${nextFileId++}`
+    files.set(fileId, blob)
+    return { id: fileId, path: `${fileId}.enc`, url: `memory://${fileId}` }
+  }
+  const toFile = (fileId: string) => ({
+    id: fileId,
+    path: `${fileId}.enc`,
+    url: `memory://${fileId}`,
+  })
+  const savePhotos = (existing: ReencryptableReflection['photos'], photos: ReencryptedPhoto[]) =>
+    existing?.map((photo) => {
+      const saved = photos.find(({ id }) => id === photo.id)
+      if (!saved) return photo
+      return {
+        ...photo,
+        caption: saved.caption,
+        file: saved.fileId ? toFile(saved.fileId) : photo.file,
+        thumbnail: saved.thumbnailFileId ? toFile(saved.thumbnailFileId) : photo.thumbnail,
+      }
+    })
+  const save = <T extends ReencryptableRevision>(
+    existing: T,
+    fields: ReencryptedFields,
+    photoFileId?: string,
+    thumbnailFileId?: string,
+    photos: ReencryptedPhoto[] = []
+  ): T => ({
+    ...existing,
+    ...fields,
+    photo: photoFileId ? toFile(photoFileId) : existing.photo,
+    thumbnail: thumbnailFileId ? toFile(thumbnailFileId) : existing.thumbnail,
+    photos: savePhotos(existing.photos, photos),
+  })
+
+  const deps: ReencryptionDeps = {
+    getKey: async (version) => (await getKeyByVersion(userId, version))?.key ?? null,
+    getKeyById: async (keyId) => (await getKeyById(userId, keyId))?.key ?? null,
+    fetchPhoto: async (url) => {
+      const blob = files.get(url.replace('memory://', ''))
+      if (!blob) throw new Error('Not found')
+      return blob
+    },
+    uploadPhoto: async (_reflectionId, blob) => addFile(blob).id,
+    saveReflection: async (reflectionId, ...args) => {
+      const existing = reflections.get(reflectionId)
+      if (!existing) throw new Error('Unknown reflection')
+      reflections.set(reflectionId, save(existing, ...args))
+    },
+    saveRevision: async (revisionId, ...args) => {
+      const reflection = [...reflections.values()].find((candidate) =>
+        candidate.revisions?.some(({ id }) => id === revisionId)
+      )
+      if (!reflection) throw new Error('Unknown revision')
+      reflections.set(reflection.id, {
+        ...reflection,
+        revisions: reflection.revisions?.map((revision) =>
+          revision.id === revisionId ? save(revision, ...args) : revision
+        ),
+      })
+    },
+    saveDraft: async (draftId, fields, photos) => {
+      const existing = drafts.get(draftId)
+      if (!existing) throw new Error('Unknown draft')
+      drafts.set(draftId, { ...existing, ...fields, photos: savePhotos(existing.photos, photos) })
+    },
+    deletePhoto: async (path) => {
+      files.delete(path.replace('.enc', ''))
+    },
+  }
+
+  return { files, reflections, drafts, addFile, deps }
+}
+
+async function addEncryptedReflection(
+  store: ReturnType<typeof createFakeStore>,
+  reflectionId: string,
+  text: string,
+  storedKey: StoredKey
+) {
+  const encryptedText = await encryptText(text, storedKey.key)
+  const photo = await encryptFile(new Blob([`photo of ${text}`], { type: 'image/jpeg' }), storedKey.key)
+  store.reflections.set(reflectionId, {
+    id: reflectionId,
+    reflectionText: encryptedText.ciphertext,
+    encryptionIV: encryptedText.iv,
+    encryptionAlgorithm: encryptedText.algorithm,
+    photoIV: photo.iv,
+    photoType: 'image/jpeg',
+    keyVersion: storedKey.metadata.keyVersion,
+    photo: store.addFile(photo.encryptedBlob),
+  })
+}
+
+async function readReflection(
+  store: ReturnType<typeof createFakeStore>,
+  reflectionId: string,
+  key: CryptoKey,
+  userId = 'test-user-123'
+) {
+  const reflection = store.reflections.get(reflectionId)
+  if (reflection?.encryptionAlgorithm !== ENVELOPE_FORMAT || !reflection.photo) {
+    throw new Error('Reflection is not envelope-encrypted')
+  }
+
+  const context = { userId, reflectionId }
+  const text = await decryptTextEnvelope(reflection.reflectionText, key, context)
+  const photo = await decryptFileEnvelope(
+    await store.deps.fetchPhoto(reflection.photo.url),
+    key,
+    context
+  )
+  return { text, photo: await photo.text(), keyVersion: reflection.keyVersion }
+}
+
+describe('Reflection Re-encryption', () => {
+  const testUserId = 'test-user-123'
+
+  beforeAll(() => {
+    global.localStorage = new LocalStorageMock() as Storage
+  })
+
+  beforeEach(() => {
+    setKeyStorageBackend(createMemoryKeyStorage())
+    localStorage.clear()
+  })
+
+  it('should detect reflections on older key versions', () => {
+    const base = { id: 'r1', reflectionText: 'x', encryptionAlgorithm: 'AES-GCM-256' }
+
+    expect(needsReencryption({ ...base, keyVersion: 1 }, 2)).toBe(true)
+    expect(needsReencryption({ ...base, keyVersion: 2 }, 2)).toBe(false)
+    expect(needsReencryption(base, 1)).toBe(false) // untagged = version 1
+    expect(needsReencryption({ id: 'r2', reflectionText: 'plain' }, 1)).toBe(true)
+  })
+
+  it('should re-encrypt text and photos under the new key', async () => {
+    const store = createFakeStore(testUserId)
+    const original = await generateAndStoreKey(testUserId)
+    await addEncryptedReflection(store, 'r1', 'First steps', original)
+    await addEncryptedReflection(store, 'r2', 'Beach day', original)
+
+    const rotated = await rotateKey(testUserId)
+    const result = await reencryptReflections(
+      [...store.reflections.values()],
+      rotated,
+      store.deps
+    )
+
+    expect(result).toMatchObject({ total: 2, completed: 2, failed: 0 })
+    expect(await readReflection(store, 'r1', rotated.key)).toEqual({
+      text: 'First steps',
+      photo: 'photo of First steps',
+      keyVersion: 2,
+    })
+    await expect(readReflection(store, 'r2', original.key)).rejects.toThrow()
+  })
+
+  it('should delete superseded photo files', async () => {
+    const store = createFakeStore(testUserId)
+    const original = await generateAndStoreKey(testUserId)
+    await addEncryptedReflection(store, 'r1', 'Park', original)
+
+    const rotated = await rotateKey(testUserId)
+    await reencryptReflections([...store.reflections.values()], rotated, store.deps)
+
+    expect(store.files.size).toBe(1)
+  })
+
+  it('should re-encrypt thumbnails and delete the old ones', async () => {
+    const store = createFakeStore(testUserId)
+    const original = await generateAndStoreKey(testUserId)
+    const keyId = original.metadata.keyId as string
+    const context = { userId: testUserId, reflectionId: 'r1' }
+    store.reflections.set('r1', {
+      id: 'r1',
+      reflectionText: await encryptTextEnvelope('Tiny', original.key, keyId, context),
+      encryptionAlgorithm: ENVELOPE_FORMAT,
+      photoType: 'image/jpeg',
+      keyVersion: 1,
+      photo: store.addFile(
+        await encryptFileEnvelope(new Blob(['full photo']), original.key, keyId, context)
+      ),
+      thumbnail: store.addFile(
+        await encryptFileEnvelope(new Blob(['thumbnail']), original.key, keyId, {
+          ...context,
+          field: 'thumbnail',
+        })
+      ),
+    })
+
+    const rotated = await rotateKey(testUserId)
+    await reencryptReflections([...store.reflections.values()], rotated, store.deps)
+
+    const thumbnail = store.reflections.get('r1')?.thumbnail
+    expect(thumbnail).toBeDefined()
+    const decrypted = await decryptFileEnvelope(
+      await store.deps.fetchPhoto(thumbnail?.url ?? ''),
+      rotated.key,
+      { ...context, field: 'thumbnail' }
+    )
+    expect(await decrypted.text()).toBe('thumbnail')
+    expect(store.files.size).toBe(2)
+  })
+
+  it('should re-encrypt every photo and caption of a reflection', async () => {
+    const store = createFakeStore(testUserId)
+    const original = await generateAndStoreKey(testUserId)
+    const keyId = original.metadata.keyId as string
+    const context = { userId: testUserId, reflectionId: 'r1' }
+    const addPhoto = async (photoId: string, position: number, caption: string) => ({
+      id: photoId,
+      caption: await encryptTextEnvelope(caption, original.key, keyId, {
+        ...context,
+        field: 'caption',
+        photoId,
+      }),
+      photoType: 'image/jpeg',
+      position,
+      file: store.addFile(
+        await encryptFileEnvelope(new Blob([`photo ${photoId}`]), original.key, keyId, {
+          ...context,
+          photoId,
+        })
+      ),
+      thumbnail: store.addFile(
+        await encryptFileEnvelope(new Blob([`thumb ${photoId}`]), original.key, keyId, {
+          ...context,
+          field: 'thumbnail',
+          photoId,
+        })
+      ),
+    })
+    store.reflections.set('r1', {
+      id: 'r1',
+      reflectionText: await encryptTextEnvelope('Two photos', original.key, keyId, context),
+      encryptionAlgorithm: ENVELOPE_FORMAT,
+      keyVersion: 1,
+      photos: [await addPhoto('p1', 0, 'Sunrise'), await addPhoto('p2', 1, 'Sunset')],
+    })
+
+    const rotated = await rotateKey(testUserId)
+    const result = await reencryptReflections([...store.reflections.values()], rotated, store.deps)
+
+    expect(result).toMatchObject({ completed: 1, failed: 0 })
+    const photos = store.reflections.get('r1')?.photos ?? []
+    const captions = await Promise.all(
+      photos.map((photo) =>
+        decryptTextEnvelope(photo.caption ?? '', rotated.key, {
+          ...context,
+          field: 'caption',
+          photoId: photo.id,
+        })
+      )
+    )
+    const thumbnail = await decryptFileEnvelope(
+      await store.deps.fetchPhoto(photos[1].thumbnail?.url ?? ''),
+      rotated.key,
+      { ...context, field: 'thumbnail', photoId: 'p2' }
+    )
+    expect(captions).toEqual(['Sunrise', 'Sunset'])
+    expect(await thumbnail.text()).toBe('thumb p2')
+    expect(store.files.size).toBe(4)
+  })
+
+  it('should re-encrypt a reflection\'s metadata', async () => {
+    const store = createFakeStore(testUserId)
+    const original = await generateAndStoreKey(testUserId)
+    const keyId = original.metadata.keyId as string
+    const context = { userId: testUserId, reflectionId: 'r1' }
+    const metadataContext = { ...context, field: 'metadata' as const }
+    const metadata = '{"mood":4,"tags":["beach"],"children":["Ada"]}'
+    store.reflections.set('r1', {
+      id: 'r1',
+      reflectionText: await encryptTextEnvelope('Sandcastles', original.key, keyId, context),
+      encryptionAlgorithm: ENVELOPE_FORMAT,
+      keyVersion: 1,
+      metadata: await encryptTextEnvelope(metadata, original.key, keyId, metadataContext),
+    })
+
+    const rotated = await rotateKey(testUserId)
+    await reencryptReflections([...store.reflections.values()], rotated, store.deps)
+
+    const saved = store.reflections.get('r1')?.metadata ?? ''
+    expect(await decryptTextEnvelope(saved, rotated.key, metadataContext)).toBe(metadata)
+    await expect(decryptTextEnvelope(saved, rotated.key, context)).rejects.toThrow()
+  })
+
+  it('should re-encrypt a reflection\'s revisions', async () => {
+    const store = createFakeStore(testUserId)
+    const original = await generateAndStoreKey(testUserId)
+    const keyId = original.metadata.keyId as string
+    const context = { userId: testUserId, reflectionId: 'r1' }
+    const metadataContext = { ...context, field: 'metadata' as const }
+    const rotated = await rotateKey(testUserId)
+    const rotatedKeyId = rotated.metadata.keyId as string
+
+    // Edited after the rotation, so only the revisions are on the old key
+    const legacyText = await encryptText('First draft', original.key)
+    store.reflections.set('r1', {
+      id: 'r1',
+      reflectionText: await encryptTextEnvelope('Final', rotated.key, rotatedKeyId, context),
+      encryptionAlgorithm: ENVELOPE_FORMAT,
+      keyVersion: 2,
+      revisions: [
+        {
+          id: 'rev-1',
+          reflectionText: legacyText.ciphertext,
+          encryptionIV: legacyText.iv,
+          encryptionAlgorithm: legacyText.algorithm,
+          keyVersion: 1,
+        },
+        {
+          id: 'rev-2',
+          reflectionText: await encryptTextEnvelope('Second draft', original.key, keyId, context),
+          encryptionAlgorithm: ENVELOPE_FORMAT,
+          keyVersion: 1,
+          metadata: await encryptTextEnvelope('{"mood":2}', original.key, keyId, metadataContext),
+          photo: store.addFile(
+            await encryptFileEnvelope(new Blob(['old photo']), original.key, keyId, context)
+          ),
+        },
+      ],
+    })
+
+    expect(needsReencryption(store.reflections.get('r1') as ReencryptableReflection, 2)).toBe(true)
+    const result = await reencryptReflections([...store.reflections.values()], rotated, store.deps)
+
+    expect(result).toMatchObject({ total: 1, completed: 1, failed: 0 })
+    const reflection = store.reflections.get('r1') as ReencryptableReflection
+    const [first, second] = reflection.revisions ?? []
+    expect(needsReencryption(reflection, 2)).toBe(false)
+    expect(await decryptTextEnvelope(first.reflectionText, rotated.key, context)).toBe(
+      'First draft'
+    )
+    expect(await decryptTextEnvelope(second.reflectionText, rotated.key, context)).toBe(
+      'Second draft'
+    )
+    expect(await decryptTextEnvelope(second.metadata ?? '', rotated.key, metadataContext)).toBe(
+      '{"mood":2}'
+    )
+    const photo = await decryptFileEnvelope(
+      await store.deps.fetchPhoto(second.photo?.url ?? ''),
+      rotated.key,
+      context
+    )
+    expect(await photo.text()).toBe('old photo')
+    expect(store.files.size).toBe(1)
+    // The live reflection was already on the new key and is left alone
+    expect(await decryptTextEnvelope(reflection.reflectionText, rotated.key, context)).toBe('Final')
+  })
+
+  it('should re-seal a synced draft\'s fields that are on an older key', async () => {
+    const store = createFakeStore(testUserId)
+    const original = await generateAndStoreKey(testUserId)
+    const keyId = original.metadata.keyId as string
+    const context = { userId: testUserId, reflectionId: 'draft-1' }
+    const photoContext = { ...context, photoId: 'p1' }
+    const captionContext = { ...photoContext, field: 'caption' as const }
+    store.drafts.set('draft-1', {
+      id: 'draft-1',
+      draftText: await encryptTextEnvelope('Half written', original.key, keyId, context),
+      photos: [
+        {
+          id: 'p1',
+          caption: await encryptTextEnvelope('Garden', original.key, keyId, captionContext),
+          photoType: 'image/jpeg',
+          file: store.addFile(
+            await encryptFileEnvelope(new Blob(['draft photo']), original.key, keyId, photoContext)
+          ),
+        },
+      ],
+    })
+
+    const rotated = await rotateKey(testUserId)
+    const changed = await reencryptDraft(
+      store.drafts.get('draft-1') as ReencryptableDraft,
+      rotated,
+      store.deps
+    )
+
+    expect(changed).toBe(true)
+    const draft = store.drafts.get('draft-1') as ReencryptableDraft
+    const [photo] = draft.photos ?? []
+    expect(await decryptTextEnvelope(draft.draftText, rotated.key, context)).toBe('Half written')
+    expect(await decryptTextEnvelope(photo.caption ?? '', rotated.key, captionContext)).toBe(
+      'Garden'
+    )
+    const file = await decryptFileEnvelope(
+      await store.deps.fetchPhoto(photo.file?.url ?? ''),
+      rotated.key,
+      photoContext
+    )
+    expect(await file.text()).toBe('draft photo')
+    expect(store.files.size).toBe(1)
+
+    // Already on the active key: nothing to do
+    expect(await reencryptDraft(draft, rotated, store.deps)).toBe(false)
+  })
+
+  it('should encrypt legacy plaintext reflections', async () => {
+    const store = createFakeStore(testUserId)
+    const storedKey = await generateAndStoreKey(testUserId)
+    store.reflections.set('legacy', {
+      id: 'legacy',
+      reflectionText: 'Written before encryption',
+      photo: store.addFile(new Blob(['plain photo'], { type: 'image/jpeg' })),
+    })
+
+    await reencryptReflections([...store.reflections.values()], storedKey, store.deps)
+
+    expect(await readReflection(store, 'legacy', storedKey.key)).toEqual({
+      text: 'Written before encryption',
+      photo: 'plain photo',
+      keyVersion: 1,
+    })
+  })
+
+  it('should re-encrypt envelope rows from an earlier rotation', async () => {
+    const store = createFakeStore(testUserId)
+    const original = await generateAndStoreKey(testUserId)
+    await addEncryptedReflection(store, 'r1', 'Twice rotated', original)
+
+    const second = await rotateKey(testUserId)
+    await reencryptReflections([...store.reflections.values()], second, store.deps)
+
+    const third = await rotateKey(testUserId)
+    await reencryptReflections([...store.reflections.values()], third, store.deps)
+
+    expect(await readReflection(store, 'r1', third.key)).toMatchObject({
+      text: 'Twice rotated',
+      keyVersion: 3,
+    })
+    expect(store.reflections.get('r1')).toMatchObject({ encryptionIV: null, photoIV: null })
+  })
+
+  it('should resume by skipping reflections already on the target version', async () => {
+    const store = createFakeStore(testUserId)
+    const original = await generateAndStoreKey(testUserId)
+    await addEncryptedReflection(store, 'r1', 'One', original)
+    await addEncryptedReflection(store, 'r2', 'Two', original)
+    await addEncryptedReflection(store, 'r3', 'Three', original)
+
+    const rotated = await rotateKey(testUserId)
+
+    // Interrupt after the first reflection
+    const controller = new AbortController()
+    const first = await reencryptReflections([...store.reflections.values()], rotated, store.deps, {
+      signal: controller.signal,
+      onProgress: (progress) => {
+        if (progress.completed === 1) controller.abort()
+      },
+    })
+    expect(first.completed).toBe(1)
+
+    const resumed = await reencryptReflections(
+      [...store.reflections.values()],
+      rotated,
+      store.deps
+    )
+    expect(resumed).toMatchObject({ total: 2, completed: 2, failed: 0 })
+    expect((await readReflection(store, 'r3', rotated.key)).text).toBe('Three')
+  })
+
+  it('should report progress and continue past failures', async () => {
+    const store = createFakeStore(testUserId)
+    const original = await generateAndStoreKey(testUserId)
+    await addEncryptedReflection(store, 'good', 'Good', original)
+    store.reflections.set('broken', {
+      id: 'broken',
+      reflectionText: 'not-ciphertext',
+      encryptionIV: 'AAAAAAAAAAAAAAAA',
+      encryptionAlgorithm: 'AES-GCM-256',
+      keyVersion: 1,
+    })
+
+    const rotated = await rotateKey(testUserId)
+    const updates: ReencryptionProgress[] = []
+    const result = await reencryptReflections(
+      [...store.reflections.values()],
+      rotated,
+      store.deps,
+      { onProgress: (progress) => updates.push(progress) }
+    )
+
+    expect(result).toMatchObject({ total: 2, completed: 1, failed: 1, failedIds: ['broken'] })
+    expect(updates.map((u) => u.completed + u.failed)).toEqual([0, 1, 2])
+  })
+
+  it('should track pending jobs per user', () => {
+    expect(getPendingReencryption(testUserId)).toBeNull()
+
+    markReencryptionPending(testUserId, 3)
+    expect(getPendingReencryption(testUserId)?.targetKeyVersion).toBe(3)
+
+    clearPendingReencryption(testUserId)
+    expect(getPendingReencryption(testUserId)).toBeNull()
+  })
+})
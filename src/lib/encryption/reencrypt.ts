@@ -0,0 +1,577 @@
+/**
+ * Reflection Re-encryption Job
+ *
+ * Re-encrypts reflections (text, metadata, photos, thumbnails and captions) under the active key after a key
+ * rotation, along with their revisions and the user's synced drafts, so
+ * nothing is left that only an archived key can read. The job is resumable:
+ * each reflection and revision is tagged with the key version it was
+ * encrypted with, so re-running the job only touches the ones still on an
+ * older version. Drafts have no version tag; their envelopes name the key
+ * that sealed them instead.
+ *
+ * Reflections are always rewritten as versioned envelopes (see envelope.ts),
+ * so rotation also upgrades rows saved in the older `{ciphertext, iv}` format.
+ *
+ * Storage access is injected via `ReencryptionDeps` so the job can be driven
+ * by InstantDB in the app and by in-memory fakes in tests.
+ *
+ * Storage Structure:
+ * - `reflections_reencryption_${userId}` - Pending job marker (target key version, start time)
+ */
+
+import { decryptText, decryptFile } from './crypto'
+import {
+  encryptTextEnvelope,
+  decryptTextEnvelope,
+  encryptFileEnvelope,
+  decryptFileEnvelope,
+  parseEnvelope,
+  peekEnvelopeKeyId,
+  ENVELOPE_FORMAT,
+} from './envelope'
+import { getKeyVersion, type StoredKey } from './keyStorage'
+
+const JOB_PREFIX = 'reflections_reencryption_'
+
+interface StoredFile {
+  id: string
+  path: string
+  url: string
+}
+
+export interface ReencryptableReflection {
+  id: string
+  reflectionText: string
+  encryptionIV?: string | null
+  encryptionAlgorithm?: string | null
+  photoIV?: string | null
+  photoType?: string | null
+  keyVersion?: number | null
+  metadata?: string | null // Metadata envelope (envelope rows only)
+  photo?: StoredFile
+  thumbnail?: StoredFile
+  photos?: ReencryptablePhoto[] // Ordered photos (always envelopes)
+  revisions?: ReencryptableRevision[]
+}
+
+/**
+ * Earlier version of a reflection, bound to the reflection's id like the reflection itself
+ */
+export type ReencryptableRevision = Omit<ReencryptableReflection, 'revisions'>
+
+/**
+ * Synced draft (reflectionDrafts), bound to the draft id
+ */
+export interface ReencryptableDraft {
+  id: string
+  draftText: string // Text envelope
+  metadata?: string | null // Metadata envelope
+  photos?: ReencryptablePhoto[]
+}
+
+export interface ReencryptablePhoto {
+  id: string
+  caption?: string | null
+  photoType?: string | null
+  file?: StoredFile
+  thumbnail?: StoredFile
+}
+
+export interface ReencryptedPhoto {
+  id: string
+  caption: string | null
+  fileId?: string // New $files id (link replaces the old file)
+  thumbnailFileId?: string
+}
+
+export interface ReencryptedFields {
+  reflectionText: string // JSON envelope
+  encryptionAlgorithm: typeof ENVELOPE_FORMAT
+  encryptionIV: null // IVs live inside envelopes
+  photoIV: null
+  photoType?: string
+  metadata?: string // JSON envelope
+  keyVersion: number
+}
+
+export interface ReencryptedDraftFields {
+  draftText: string // JSON envelope
+  metadata?: string // JSON envelope
+}
+
+export interface ReencryptionProgress {
+  total: number
+  completed: number
+  failed: number
+  failedIds: string[]
+}
+
+export interface ReencryptionDeps {
+  // Resolve the key for a version (active or archived)
+  getKey: (keyVersion: number) => Promise<CryptoKey | null>
+  // Resolve the key named by an envelope (drafts only record the key id)
+  getKeyById: (keyId: string) => Promise<CryptoKey | null>
+  // Download a stored (possibly encrypted) photo
+  fetchPhoto: (url: string) => Promise<Blob>
+  // Upload a re-encrypted photo or thumbnail, returning the new $files id
+  uploadPhoto: (reflectionId: string, encryptedBlob: Blob) => Promise<string>
+  // Persist re-encrypted fields, captions and new photo/thumbnail links atomically
+  saveReflection: (
+    reflectionId: string,
+    fields: ReencryptedFields,
+    photoFileId?: string,
+    thumbnailFileId?: string,
+    photos?: ReencryptedPhoto[]
+  ) => Promise<void>
+  // Persist a re-encrypted revision, like saveReflection
+  saveRevision: (
+    revisionId: string,
+    fields: ReencryptedFields,
+    photoFileId?: string,
+    thumbnailFileId?: string,
+    photos?: ReencryptedPhoto[]
+  ) => Promise<void>
+  // Persist a re-encrypted synced draft and its photos atomically
+  saveDraft: (
+    draftId: string,
+    fields: ReencryptedDraftFields,
+    photos: ReencryptedPhoto[]
+  ) => Promise<void>
+  // Remove a superseded photo or thumbnail file (best effort)
+  deletePhoto?: (path: string) => Promise<void>
+}
+
+export interface PendingReencryption {
+  targetKeyVersion: number
+  startedAt: number
+}
+
+/**
+ * Check whether a reflection (or any of its revisions) needs re-encryption under the target key
+ *
+ * @param reflection - Reflection to check
+ * @param targetKeyVersion - Active key version
+ * @returns boolean - True if it or a revision is still on another key version or unencrypted
+ */
+export function needsReencryption(
+  reflection: ReencryptableReflection,
+  targetKeyVersion: number
+): boolean {
+  return [reflection, ...(reflection.revisions ?? [])].some(
+    (version) => !isOnKeyVersion(version, targetKeyVersion)
+  )
+}
+
+/**
+ * Re-encrypt a single reflection and its revisions under the target key
+ *
+ * @param reflection - Reflection to re-encrypt
+ * @param targetKey - Active key
+ * @param deps - Storage access
+ */
+export async function reencryptReflection(
+  reflection: ReencryptableReflection,
+  targetKey: StoredKey,
+  deps: ReencryptionDeps
+): Promise<void> {
+  const targetKeyVersion = getKeyVersion(targetKey.metadata)
+
+  // Revisions first, so the reflection only reaches the target version once they have
+  for (const revision of reflection.revisions ?? []) {
+    if (isOnKeyVersion(revision, targetKeyVersion)) continue
+    const reencrypted = await reencryptVersion(revision, reflection.id, targetKey, deps)
+    await deps.saveRevision(revision.id, ...reencrypted.save)
+    await deleteSuperseded(reencrypted.superseded, deps)
+  }
+
+  if (isOnKeyVersion(reflection, targetKeyVersion)) return
+  const reencrypted = await reencryptVersion(reflection, reflection.id, targetKey, deps)
+  await deps.saveReflection(reflection.id, ...reencrypted.save)
+  await deleteSuperseded(reencrypted.superseded, deps)
+}
+
+/**
+ * Re-seal a synced draft's fields that are on another key
+ * Drafts are re-sealed on every save, but photos are reused as they were sealed
+ *
+ * @param draft - Synced draft
+ * @param targetKey - Active key
+ * @param deps - Storage access
+ * @returns Promise<boolean> - True if anything was re-encrypted
+ */
+export async function reencryptDraft(
+  draft: ReencryptableDraft,
+  targetKey: StoredKey,
+  deps: ReencryptionDeps
+): Promise<boolean> {
+  const keyId = targetKey.metadata.keyId
+  if (!keyId) {
+    throw new Error('Active key has no key id')
+  }
+
+  const context = { userId: targetKey.metadata.userId, reflectionId: draft.id }
+  let changed = false
+
+  const resealText = async (
+    serialized: string,
+    field: 'text' | 'caption' | 'metadata',
+    photoId?: string
+  ): Promise<string> => {
+    const sourceKeyId = parseEnvelope(serialized).keyId
+    if (sourceKeyId === keyId) return serialized
+
+    const fieldContext = { ...context, field, photoId }
+    const plaintext = await decryptTextEnvelope(
+      serialized,
+      await getDraftKey(sourceKeyId, deps),
+      fieldContext
+    )
+    changed = true
+    return await encryptTextEnvelope(plaintext, targetKey.key, keyId, fieldContext)
+  }
+
+  const fields: ReencryptedDraftFields = {
+    draftText: await resealText(draft.draftText, 'text'),
+  }
+  if (draft.metadata) {
+    fields.metadata = await resealText(draft.metadata, 'metadata')
+  }
+
+  const photos: ReencryptedPhoto[] = []
+  const superseded: StoredFile[] = []
+  for (const photo of draft.photos ?? []) {
+    const result: ReencryptedPhoto = {
+      id: photo.id,
+      caption: photo.caption ? await resealText(photo.caption, 'caption', photo.id) : null,
+    }
+
+    for (const field of ['photo', 'thumbnail'] as const) {
+      const file = field === 'photo' ? photo.file : photo.thumbnail
+      if (!file?.url) continue
+
+      const stored = await deps.fetchPhoto(file.url)
+      const sourceKeyId = peekEnvelopeKeyId(new Uint8Array(await stored.arrayBuffer()))
+      if (sourceKeyId === keyId) continue
+
+      const fileContext = { ...context, field, photoId: photo.id }
+      const blob = await decryptFileEnvelope(
+        stored,
+        await getDraftKey(sourceKeyId, deps),
+        fileContext,
+        field === 'photo' ? (photo.photoType ?? 'image/jpeg') : undefined
+      )
+      const fileId = await deps.uploadPhoto(
+        draft.id,
+        await encryptFileEnvelope(blob, targetKey.key, keyId, fileContext)
+      )
+      if (field === 'photo') {
+        result.fileId = fileId
+      } else {
+        result.thumbnailFileId = fileId
+      }
+      superseded.push(file)
+      changed = true
+    }
+    photos.push(result)
+  }
+
+  if (!changed) {
+    return false
+  }
+
+  await deps.saveDraft(draft.id, fields, photos)
+  await deleteSuperseded(superseded, deps)
+  return true
+}
+
+/**
+ * Utility: Check whether a reflection or revision is already on the target key version
+ */
+function isOnKeyVersion(version: ReencryptableRevision, targetKeyVersion: number): boolean {
+  return !!version.encryptionAlgorithm && (version.keyVersion ?? 1) === targetKeyVersion
+}
+
+/**
+ * Utility: Key named by a draft envelope
+ */
+async function getDraftKey(keyId: string, deps: ReencryptionDeps): Promise<CryptoKey> {
+  const key = await deps.getKeyById(keyId)
+  if (!key) {
+    throw new Error(`Key ${keyId} is not available on this device`)
+  }
+  return key
+}
+
+/**
+ * Utility: Remove files replaced by re-encrypted copies (best effort)
+ */
+async function deleteSuperseded(files: StoredFile[], deps: ReencryptionDeps): Promise<void> {
+  if (!deps.deletePhoto) return
+  for (const file of files) {
+    try {
+      await deps.deletePhoto(file.path)
+    } catch (error) {
+      console.warn('Failed to delete superseded photo:', error)
+    }
+  }
+}
+
+/**
+ * Utility: Re-encrypt a reflection or one of its revisions
+ * Returns the arguments to save it with, and the files the saved copy replaces
+ */
+async function reencryptVersion(
+  version: ReencryptableRevision,
+  reflectionId: string,
+  targetKey: StoredKey,
+  deps: ReencryptionDeps
+): Promise<{
+  save: [ReencryptedFields, string | undefined, string | undefined, ReencryptedPhoto[]]
+  superseded: StoredFile[]
+}> {
+  const keyId = targetKey.metadata.keyId
+  if (!keyId) {
+    throw new Error('Active key has no key id')
+  }
+
+  const isEncrypted = !!version.encryptionAlgorithm
+  const isEnvelope = version.encryptionAlgorithm === ENVELOPE_FORMAT
+  const sourceKey = isEncrypted ? await deps.getKey(version.keyVersion ?? 1) : null
+
+  if (isEncrypted && !sourceKey) {
+    throw new Error(`Key version ${version.keyVersion ?? 1} is not available on this device`)
+  }
+
+  // Envelopes are bound to the owner and reflection id (revisions use their reflection's)
+  const context = { userId: targetKey.metadata.userId, reflectionId }
+
+  // Text: legacy plaintext rows are encrypted for the first time
+  let plaintext = version.reflectionText
+  if (sourceKey && isEnvelope) {
+    plaintext = await decryptTextEnvelope(version.reflectionText, sourceKey, context)
+  } else if (sourceKey) {
+    plaintext = await decryptText(
+      {
+        ciphertext: version.reflectionText,
+        iv: version.encryptionIV ?? '',
+        algorithm: version.encryptionAlgorithm ?? '',
+      },
+      sourceKey
+    )
+  }
+
+  const fields: ReencryptedFields = {
+    reflectionText: await encryptTextEnvelope(plaintext, targetKey.key, keyId, context),
+    encryptionAlgorithm: ENVELOPE_FORMAT,
+    encryptionIV: null,
+    photoIV: null,
+    keyVersion: getKeyVersion(targetKey.metadata),
+  }
+
+  // Metadata: only envelope rows have it (bound to the 'metadata' field)
+  if (version.metadata && sourceKey && isEnvelope) {
+    const metadataContext = { ...context, field: 'metadata' as const }
+    fields.metadata = await encryptTextEnvelope(
+      await decryptTextEnvelope(version.metadata, sourceKey, metadataContext),
+      targetKey.key,
+      keyId,
+      metadataContext
+    )
+  }
+
+  // Photo: upload under a new path so a crash never leaves a photo the
+  // row's format/keyVersion can't decrypt
+  let photoFileId: string | undefined
+  if (version.photo?.url) {
+    const stored = await deps.fetchPhoto(version.photo.url)
+    const photoType = version.photoType ?? 'image/jpeg'
+
+    let photoBlob = stored
+    if (sourceKey && isEnvelope) {
+      photoBlob = await decryptFileEnvelope(stored, sourceKey, context, photoType)
+    } else if (sourceKey && version.photoIV) {
+      photoBlob = await decryptFile(stored, version.photoIV, sourceKey, photoType)
+    }
+
+    const encryptedPhoto = await encryptFileEnvelope(photoBlob, targetKey.key, keyId, context)
+    photoFileId = await deps.uploadPhoto(reflectionId, encryptedPhoto)
+    fields.photoType = photoType
+  }
+
+  // Thumbnail: only envelope rows have one (JPEG, bound to the 'thumbnail' field)
+  let thumbnailFileId: string | undefined
+  if (version.thumbnail?.url && sourceKey && isEnvelope) {
+    const thumbnailContext = { ...context, field: 'thumbnail' as const }
+    const thumbnailBlob = await decryptFileEnvelope(
+      await deps.fetchPhoto(version.thumbnail.url),
+      sourceKey,
+      thumbnailContext
+    )
+    thumbnailFileId = await deps.uploadPhoto(
+      reflectionId,
+      await encryptFileEnvelope(thumbnailBlob, targetKey.key, keyId, thumbnailContext)
+    )
+  }
+
+  // Ordered photos: files, thumbnails and captions are envelopes on the row's key
+  const photos: ReencryptedPhoto[] = []
+  for (const photo of version.photos ?? []) {
+    if (!sourceKey || !isEnvelope) continue
+    photos.push(await reencryptPhoto(photo, sourceKey, targetKey.key, keyId, context, deps))
+  }
+
+  const superseded = [
+    photoFileId ? version.photo : undefined,
+    thumbnailFileId ? version.thumbnail : undefined,
+    ...(version.photos ?? []).flatMap((photo) => {
+      const reencrypted = photos.find(({ id }) => id === photo.id)
+      return [
+        reencrypted?.fileId ? photo.file : undefined,
+        reencrypted?.thumbnailFileId ? photo.thumbnail : undefined,
+      ]
+    }),
+  ].filter((file): file is StoredFile => !!file)
+
+  return { save: [fields, photoFileId, thumbnailFileId, photos], superseded }
+}
+
+/**
+ * Utility: Re-encrypt one of a reflection's ordered photos (file, thumbnail, caption)
+ */
+async function reencryptPhoto(
+  photo: ReencryptablePhoto,
+  sourceKey: CryptoKey,
+  targetKey: CryptoKey,
+  keyId: string,
+  context: { userId: string; reflectionId: string },
+  deps: ReencryptionDeps
+): Promise<ReencryptedPhoto> {
+  const photoContext = { ...context, photoId: photo.id }
+  const captionContext = { ...photoContext, field: 'caption' as const }
+  const result: ReencryptedPhoto = {
+    id: photo.id,
+    caption: photo.caption
+      ? await encryptTextEnvelope(
+          await decryptTextEnvelope(photo.caption, sourceKey, captionContext),
+          targetKey,
+          keyId,
+          captionContext
+        )
+      : null,
+  }
+
+  const files = [
+    { file: photo.file, field: 'photo' as const },
+    { file: photo.thumbnail, field: 'thumbnail' as const },
+  ]
+  for (const { file, field } of files) {
+    if (!file?.url) continue
+    const fileContext = { ...photoContext, field }
+    const blob = await decryptFileEnvelope(
+      await deps.fetchPhoto(file.url),
+      sourceKey,
+      fileContext,
+      field === 'photo' ? (photo.photoType ?? 'image/jpeg') : undefined
+    )
+    const fileId = await deps.uploadPhoto(
+      context.reflectionId,
+      await encryptFileEnvelope(blob, targetKey, keyId, fileContext)
+    )
+    if (field === 'photo') {
+      result.fileId = fileId
+    } else {
+      result.thumbnailFileId = fileId
+    }
+  }
+
+  return result
+}
+
+/**
+ * Re-encrypt all reflections that are not yet on the target key
+ * Failures are counted and skipped so one bad reflection can't block the rest
+ *
+ * @param reflections - User's reflections
+ * @param targetKey - Active key
+ * @param deps - Storage access
+ * @param options - Progress callback and abort signal
+ * @returns Promise<ReencryptionProgress> - Final progress
+ */
+export async function reencryptReflections(
+  reflections: ReencryptableReflection[],
+  targetKey: StoredKey,
+  deps: ReencryptionDeps,
+  options: {
+    onProgress?: (progress: ReencryptionProgress) => void
+    signal?: AbortSignal
+  } = {}
+): Promise<ReencryptionProgress> {
+  const targetKeyVersion = getKeyVersion(targetKey.metadata)
+  const pending = reflections.filter((r) => needsReencryption(r, targetKeyVersion))
+
+  const progress: ReencryptionProgress = {
+    total: pending.length,
+    completed: 0,
+    failed: 0,
+    failedIds: [],
+  }
+  options.onProgress?.({ ...progress })
+
+  for (const reflection of pending) {
+    if (options.signal?.aborted) {
+      break
+    }
+
+    try {
+      await reencryptReflection(reflection, targetKey, deps)
+      progress.completed++
+    } catch (error) {
+      console.error(`Failed to re-encrypt reflection ${reflection.id}:`, error)
+      progress.failed++
+      progress.failedIds.push(reflection.id)
+    }
+
+    options.onProgress?.({ ...progress, failedIds: [...progress.failedIds] })
+  }
+
+  return progress
+}
+
+/**
+ * Record that a re-encryption job is pending for a user
+ *
+ * @param userId - User ID
+ * @param targetKeyVersion - Key version reflections should end up on
+ */
+export function markReencryptionPending(userId: string, targetKeyVersion: number): void {
+  const job: PendingReencryption = { targetKeyVersion, startedAt: Date.now() }
+  localStorage.setItem(JOB_PREFIX + userId, JSON.stringify(job))
+}
+
+/**
+ * Get the pending re-encryption job for a user, if any
+ *
+ * @param userId - User ID
+ * @returns PendingReencryption | null - Pending job or null
+ */
+export function getPendingReencryption(userId: string): PendingReencryption | null {
+  const jobStr = localStorage.getItem(JOB_PREFIX + userId)
+  if (!jobStr) {
+    return null
+  }
+
+  try {
+    return JSON.parse(jobStr)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Clear the pending re-encryption marker once all reflections are done
+ *
+ * @param userId - User ID
+ */
+export function clearPendingReencryption(userId: string): void {
+  localStorage.removeItem(JOB_PREFIX + userId)
+}
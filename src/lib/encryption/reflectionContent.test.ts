@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest'
+import { openReflectionText, openReflectionPhoto, isEnvelopePhoto } from './reflectionContent'
+import { ENVELOPE_FORMAT } from './envelope'
+import type { EncryptedData } from './crypto'
+
+/**
+ * Stand-in for useEncryption() that records which path was taken
+ */
+function createFakeEncryption() {
+  const calls: string[] = []
+
+  return {
+    calls,
+    openText: async (serialized: string, reflectionId: string) => {
+      calls.push(`openText:${reflectionId}`)
+      return `opened ${serialized}`
+    },
+    decrypt: async (data: EncryptedData, keyVersion?: number) => {
+      calls.push(`decrypt:v${keyVersion}`)
+      return `decrypted ${data.ciphertext}`
+    },
+    openPhoto: async (
+      blob: Blob,
+      reflectionId: string,
+      _type?: string,
+      _field?: 'photo' | 'thumbnail',
+      photoId?: string
+    ) => {
+      calls.push(`openPhoto:${reflectionId}:${photoId}`)
+      return blob
+    },
+    decryptPhoto: async (blob: Blob, iv: string, _type?: string, keyVersion?: number) => {
+      calls.push(`decryptPhoto:${iv}:v${keyVersion}`)
+      return blob
+    },
+  }
+}
+
+describe('Reflection Content', () => {
+  describe('Text', () => {
+    it('should return plaintext rows as-is', async () => {
+      const encryption = createFakeEncryption()
+
+      expect(await openReflectionText({ reflectionText: 'plain' }, 'r1', encryption)).toBe('plain')
+      expect(encryption.calls).toEqual([])
+    })
+
+    it('should open envelopes bound to the reflection', async () => {
+      const encryption = createFakeEncryption()
+      const source = { reflectionText: 'env', encryptionAlgorithm: ENVELOPE_FORMAT }
+
+      expect(await openReflectionText(source, 'r1', encryption)).toBe('opened env')
+      expect(encryption.calls).toEqual(['openText:r1'])
+    })
+
+    it('should decrypt legacy rows with their key version', async () => {
+      const encryption = createFakeEncryption()
+      const source = {
+        reflectionText: 'ct',
+        encryptionIV: 'iv',
+        encryptionAlgorithm: 'AES-GCM-256',
+      }
+
+      expect(await openReflectionText(source, 'r1', encryption)).toBe('decrypted ct')
+      expect(await openReflectionText({ ...source, keyVersion: 3 }, 'r1', encryption)).toBe(
+        'decrypted ct'
+      )
+      expect(encryption.calls).toEqual(['decrypt:v1', 'decrypt:v3'])
+    })
+  })
+
+  describe('Photos', () => {
+    const stored = new Blob(['stored'])
+
+    it('should treat ordered photos and envelope rows as envelopes', () => {
+      const legacy = { encryptionAlgorithm: 'AES-GCM-256' }
+      const envelope = { encryptionAlgorithm: ENVELOPE_FORMAT }
+
+      expect(isEnvelopePhoto(legacy, { isLegacy: false })).toBe(true)
+      expect(isEnvelopePhoto(envelope, { isLegacy: true })).toBe(true)
+      expect(isEnvelopePhoto(legacy, { isLegacy: true })).toBe(false)
+    })
+
+    it('should open envelope photos bound to their row', async () => {
+      const encryption = createFakeEncryption()
+      const envelope = { encryptionAlgorithm: ENVELOPE_FORMAT }
+
+      await openReflectionPhoto(stored, {}, { id: 'p1', isLegacy: false }, 'r1', encryption)
+      await openReflectionPhoto(stored, envelope, { id: 'f1', isLegacy: true }, 'r1', encryption)
+
+      // The single older photo has no reflectionPhotos row
+      expect(encryption.calls).toEqual(['openPhoto:r1:p1', 'openPhoto:r1:undefined'])
+    })
+
+    it('should decrypt the single photo of legacy rows with the row IV', async () => {
+      const encryption = createFakeEncryption()
+      const source = { encryptionAlgorithm: 'AES-GCM-256', photoIV: 'photo-iv', keyVersion: 2 }
+
+      await openReflectionPhoto(stored, source, { id: 'f1', isLegacy: true }, 'r1', encryption)
+
+      expect(encryption.calls).toEqual(['decryptPhoto:photo-iv:v2'])
+    })
+
+    it('should return unencrypted photos as-is', async () => {
+      const encryption = createFakeEncryption()
+
+      expect(
+        await openReflectionPhoto(stored, {}, { id: 'f1', isLegacy: true }, 'r1', encryption)
+      ).toBe(stored)
+      expect(encryption.calls).toEqual([])
+    })
+  })
+})
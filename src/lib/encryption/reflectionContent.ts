@@ -0,0 +1,124 @@
+/**
+ * Reflection Content
+ *
+ * Opens the stored text and photos of a reflection (or one of its revisions)
+ * whichever way they were written:
+ * - No `encryptionAlgorithm`: saved before encryption was enabled (plaintext)
+ * - `ENVELOPE_FORMAT`: envelopes bound to the reflection (see envelope.ts)
+ * - Anything else: `{ciphertext, iv}` under the row's `keyVersion` (missing = 1)
+ *
+ * Ordered photos (`reflectionPhotos`) are always envelopes, also bound to
+ * their row id; only the single photo of older rows follows the row's own format.
+ */
+
+import { ENVELOPE_FORMAT } from './envelope'
+import type { EncryptionContextType } from './useEncryption'
+
+export interface StoredReflectionText {
+  reflectionText: string
+  encryptionIV?: string | null
+  encryptionAlgorithm?: string | null
+  keyVersion?: number | null
+}
+
+export interface StoredReflectionPhoto {
+  encryptionAlgorithm?: string | null
+  photoIV?: string | null
+  keyVersion?: number | null
+}
+
+export interface StoredPhoto {
+  id: string // reflectionPhotos id, or the file id for the single older photo
+  isLegacy: boolean // Single older photo, encrypted in the reflection's own format
+  photoType?: string | null
+}
+
+/**
+ * Check whether a photo is an envelope (and so may have a thumbnail)
+ *
+ * @param source - Reflection or revision the photo belongs to
+ * @param photo - Photo from getOrderedPhotos()
+ * @returns boolean - True for ordered photos and the photo of envelope rows
+ */
+export function isEnvelopePhoto(
+  source: Pick<StoredReflectionPhoto, 'encryptionAlgorithm'>,
+  photo: Pick<StoredPhoto, 'isLegacy'>
+): boolean {
+  return !photo.isLegacy || source.encryptionAlgorithm === ENVELOPE_FORMAT
+}
+
+/**
+ * reflectionPhotos id a photo's envelopes (file, thumbnail, caption) are bound to
+ *
+ * @param photo - Photo from getOrderedPhotos()
+ * @returns string | undefined - Undefined for the single older photo (bound to the reflection only)
+ */
+export function getEnvelopePhotoId(
+  photo: Pick<StoredPhoto, 'id' | 'isLegacy'>
+): string | undefined {
+  return photo.isLegacy ? undefined : photo.id
+}
+
+/**
+ * Decrypt the text of a reflection or revision
+ *
+ * @param source - Stored text fields
+ * @param reflectionId - Reflection the text is bound to (a revision's reflection)
+ * @param encryption - From useEncryption()
+ * @returns Promise<string> - Plaintext
+ */
+export async function openReflectionText(
+  source: StoredReflectionText,
+  reflectionId: string,
+  encryption: Pick<EncryptionContextType, 'openText' | 'decrypt'>
+): Promise<string> {
+  if (!source.encryptionAlgorithm) {
+    return source.reflectionText
+  }
+  if (source.encryptionAlgorithm === ENVELOPE_FORMAT) {
+    return await encryption.openText(source.reflectionText, reflectionId)
+  }
+  return await encryption.decrypt(
+    {
+      ciphertext: source.reflectionText,
+      iv: source.encryptionIV ?? '',
+      algorithm: source.encryptionAlgorithm,
+    },
+    source.keyVersion ?? 1
+  )
+}
+
+/**
+ * Decrypt a downloaded photo of a reflection or revision
+ * Older photos stored without an IV were never encrypted and are returned as-is
+ *
+ * @param stored - Downloaded file
+ * @param source - Reflection or revision the photo belongs to
+ * @param photo - Photo from getOrderedPhotos()
+ * @param reflectionId - Reflection the photo is bound to
+ * @param encryption - From useEncryption()
+ * @returns Promise<Blob> - Decrypted photo
+ */
+export async function openReflectionPhoto(
+  stored: Blob,
+  source: StoredReflectionPhoto,
+  photo: StoredPhoto,
+  reflectionId: string,
+  encryption: Pick<EncryptionContextType, 'openPhoto' | 'decryptPhoto'>
+): Promise<Blob> {
+  const photoType = photo.photoType ?? undefined
+
+  if (isEnvelopePhoto(source, photo)) {
+    return await encryption.openPhoto(
+      stored,
+      reflectionId,
+      photoType,
+      'photo',
+      getEnvelopePhotoId(photo)
+    )
+  }
+  if (source.encryptionAlgorithm && source.photoIV) {
+    return await encryption.decryptPhoto(stored, source.photoIV, photoType, source.keyVersion ?? 1)
+  }
+  return stored
+}
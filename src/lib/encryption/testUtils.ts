@@ -0,0 +1,23 @@
+/**
+ * Shared helpers for the encryption tests
+ */
+
+import { expect } from 'vitest'
+import type { StoredKey } from './keyStorage'
+
+// Keep PBKDF2 fast in tests; production uses DEFAULT_ESCROW_ITERATIONS
+export const TEST_ITERATIONS = 1000
+
+/**
+ * Assert that a key lookup found a key, narrowing it for the rest of the test
+ *
+ * @param storedKey - Result of getStoredKey, getKeyById, getKeyByVersion, ...
+ * @returns StoredKey - The same key, no longer nullable
+ */
+export function expectStoredKey(storedKey: StoredKey | null): StoredKey {
+  expect(storedKey).not.toBeNull()
+  if (!storedKey) {
+    throw new Error('Expected a stored key')
+  }
+  return storedKey
+}
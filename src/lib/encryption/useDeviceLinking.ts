@@ -0,0 +1,196 @@
+/**
+ * useDeviceLinking Hook
+ *
+ * Runs the new-device side of device pairing: commits to a key for a scanned
+ * pairing offer, reveals it once the signed-in device sends its nonce, shows
+ * the verification code, and stores the keyring once the signed-in device
+ * sends it.
+ *
+ * Deliberately does not use useEncryption, which would generate a fresh key
+ * on a device that has none.
+ *
+ * See devicePairing.ts for the protocol.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useAuth } from '@/lib/auth'
+import { db, useQuery } from '@/lib/db'
+import { importKeyring } from './keyStorage'
+import {
+  generatePairingKeyPair,
+  exportPairingPublicKey,
+  createPairingCommitment,
+  derivePairingSecret,
+  decryptKeyring,
+  isPairingExpired,
+  type PairingOffer,
+  type PairingSecret,
+  type PairingStatus,
+} from './devicePairing'
+
+/**
+ * This device's key pair, kept until the signed-in device sends its nonce
+ */
+interface ResponderKey {
+  pairingId: string
+  keyPair: CryptoKeyPair
+  publicKey: string
+  commitment: string
+}
+
+export function useDeviceLinking(offer: PairingOffer | null) {
+  const { user } = useAuth()
+  const [secret, setSecret] = useState<PairingSecret | null>(null)
+  const [isLinked, setIsLinked] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const respondedRef = useRef<string | null>(null)
+  const responderRef = useRef<ResponderKey | null>(null)
+  const revealedRef = useRef<string | null>(null)
+  const receivingRef = useRef(false)
+
+  // Watch the pairing created by the signed-in device
+  const { data: pairingData, isLoading } = useQuery(
+    offer && user
+      ? {
+          devicePairings: {
+            $: {
+              where: {
+                id: offer.pairingId,
+              },
+            },
+          },
+        }
+      : null
+  )
+
+  const pairing = pairingData?.devicePairings?.[0]
+  const status = (pairing?.status as PairingStatus | undefined) ?? null
+  const isExpired = !!pairing && isPairingExpired(pairing)
+  const isMissing = !!offer && !!user && !isLoading && !pairing && !isLinked
+
+  // Commit to our public key without revealing it
+  useEffect(() => {
+    if (!offer || !pairing || isExpired || status !== 'waiting') return
+    if (respondedRef.current === offer.pairingId) return
+
+    respondedRef.current = offer.pairingId
+
+    async function commit(pairingId: string) {
+      try {
+        const keyPair = await generatePairingKeyPair()
+        const publicKey = await exportPairingPublicKey(keyPair.publicKey)
+        const commitment = await createPairingCommitment(pairingId, publicKey)
+        responderRef.current = { pairingId, keyPair, publicKey, commitment }
+
+        await db.transact([
+          db.tx.devicePairings[pairingId].update({
+            responderCommitment: commitment,
+            status: 'committed',
+          }),
+        ])
+      } catch (err) {
+        console.error('Failed to respond to pairing:', err)
+        setError('Failed to connect to your other device')
+      }
+    }
+
+    commit(offer.pairingId)
+  }, [offer, pairing, isExpired, status])
+
+  // Reveal our public key once the signed-in device has sent its nonce
+  useEffect(() => {
+    const nonce = pairing?.initiatorNonce
+    const local = responderRef.current
+    if (!offer || !nonce || isExpired || status !== 'challenged') return
+    if (!local || local.pairingId !== offer.pairingId) return
+    if (revealedRef.current === offer.pairingId) return
+
+    revealedRef.current = offer.pairingId
+
+    async function reveal(
+      pairingOffer: PairingOffer,
+      responder: ResponderKey,
+      initiatorNonce: string
+    ) {
+      try {
+        const derived = await derivePairingSecret(responder.keyPair.privateKey, 'responder', {
+          pairingId: pairingOffer.pairingId,
+          // The QR code is the only source of the initiator's key
+          initiatorPublicKey: pairingOffer.publicKey,
+          responderPublicKey: responder.publicKey,
+          responderCommitment: responder.commitment,
+          nonce: initiatorNonce,
+        })
+
+        await db.transact([
+          db.tx.devicePairings[pairingOffer.pairingId].update({
+            responderPublicKey: responder.publicKey,
+            status: 'responded',
+          }),
+        ])
+        setSecret(derived)
+      } catch (err) {
+        console.error('Failed to respond to pairing:', err)
+        setError('Failed to connect to your other device')
+      }
+    }
+
+    reveal(offer, local, nonce)
+  }, [offer, pairing?.initiatorNonce, isExpired, status])
+
+  // Receive and store the keyring
+  useEffect(() => {
+    if (!user?.id || !offer || !secret || !pairing || status !== 'sent') return
+    if (!pairing.encryptedKeyring || !pairing.keyringIV || receivingRef.current) return
+
+    receivingRef.current = true
+    const userId = user.id
+    const { encryptedKeyring, keyringIV } = pairing
+
+    async function receive(pairingId: string, pairingSecret: PairingSecret) {
+      try {
+        const keyring = await decryptKeyring(
+          encryptedKeyring,
+          keyringIV,
+          pairingSecret.key,
+          pairingId
+        )
+        await importKeyring(userId, keyring)
+        await db.transact([db.tx.devicePairings[pairingId].update({ status: 'completed' })])
+        setIsLinked(true)
+      } catch (err) {
+        console.error('Failed to receive keyring:', err)
+        setError(err instanceof Error ? err.message : 'Failed to receive encryption key')
+      }
+    }
+
+    receive(offer.pairingId, secret)
+  }, [user?.id, offer, secret, pairing, status])
+
+  /**
+   * Forget the local pairing state (e.g. to scan a new code)
+   */
+  const reset = useCallback(() => {
+    respondedRef.current = null
+    revealedRef.current = null
+    responderRef.current = null
+    receivingRef.current = false
+    setSecret(null)
+    setError(null)
+    setIsLinked(false)
+  }, [])
+
+  return {
+    // State
+    status,
+    verificationCode: secret?.verificationCode ?? null,
+    isLinked,
+    isExpired,
+    isMissing,
+    isLoading,
+    error,
+
+    // Functions
+    reset,
+  }
+}
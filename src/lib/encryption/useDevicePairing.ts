@@ -0,0 +1,235 @@
+/**
+ * useDevicePairing Hook
+ *
+ * Runs the signed-in side of device pairing: creates the pairing, exposes the
+ * QR link, answers the new device's commitment with a nonce, shows the
+ * verification code once it reveals its key, and sends the encrypted keyring
+ * after the user confirms the codes match.
+ *
+ * See devicePairing.ts for the protocol.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { id } from '@instantdb/react'
+import { useAuth } from '@/lib/auth'
+import { db, useQuery } from '@/lib/db'
+import { exportKeyring } from './keyStorage'
+import {
+  generatePairingKeyPair,
+  exportPairingPublicKey,
+  createPairingNonce,
+  derivePairingSecret,
+  encryptKeyring,
+  createPairingLink,
+  isPairingExpired,
+  PAIRING_TTL_MS,
+  type PairingSecret,
+  type PairingStatus,
+} from './devicePairing'
+
+export function useDevicePairing() {
+  const { user } = useAuth()
+  const [pairingId, setPairingId] = useState<string | null>(null)
+  const [link, setLink] = useState<string | null>(null)
+  const [secret, setSecret] = useState<PairingSecret | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isStarting, setIsStarting] = useState(false)
+  const [isSending, setIsSending] = useState(false)
+  const [isComplete, setIsComplete] = useState(false)
+  const privateKeyRef = useRef<CryptoKey | null>(null)
+  const publicKeyRef = useRef<string | null>(null)
+  // The first commitment and our nonce, kept locally so the server can't swap them later
+  const challengeRef = useRef<{ commitment: string; nonce: string } | null>(null)
+  const responderKeyRef = useRef<string | null>(null)
+
+  // Get user profile
+  const { data: profileData } = useQuery(
+    user?.email
+      ? {
+          userProfiles: {
+            $: {
+              where: {
+                email: user.email,
+              },
+            },
+          },
+        }
+      : null
+  )
+
+  const userProfile = profileData?.userProfiles?.[0]
+
+  // Watch the active pairing for the new device's response
+  const { data: pairingData } = useQuery(
+    pairingId
+      ? {
+          devicePairings: {
+            $: {
+              where: {
+                id: pairingId,
+              },
+            },
+          },
+        }
+      : null
+  )
+
+  const pairing = pairingData?.devicePairings?.[0]
+  const status = (pairing?.status as PairingStatus | undefined) ?? null
+  const isExpired = !!pairing && isPairingExpired(pairing)
+
+  // Answer the new device's commitment with a nonce (once per pairing)
+  useEffect(() => {
+    const responderCommitment = pairing?.responderCommitment
+    if (!pairingId || !responderCommitment || status !== 'committed') return
+    if (challengeRef.current) return
+
+    const nonce = createPairingNonce()
+    challengeRef.current = { commitment: responderCommitment, nonce }
+
+    db.transact([
+      db.tx.devicePairings[pairingId].update({ initiatorNonce: nonce, status: 'challenged' }),
+    ]).catch((err) => {
+      console.error('Failed to answer pairing:', err)
+      setError('Failed to connect to your other device')
+    })
+  }, [pairingId, pairing?.responderCommitment, status])
+
+  // Derive the shared secret when the new device reveals its key
+  useEffect(() => {
+    const responderPublicKey = pairing?.responderPublicKey
+    const challenge = challengeRef.current
+    if (!pairingId || !responderPublicKey || !challenge) return
+    if (!privateKeyRef.current || !publicKeyRef.current) return
+    if (responderKeyRef.current === responderPublicKey) return
+
+    responderKeyRef.current = responderPublicKey
+    setSecret(null)
+
+    derivePairingSecret(privateKeyRef.current, 'initiator', {
+      pairingId,
+      initiatorPublicKey: publicKeyRef.current,
+      responderPublicKey,
+      responderCommitment: challenge.commitment,
+      nonce: challenge.nonce,
+    })
+      .then(setSecret)
+      .catch((err) => {
+        console.error('Failed to derive pairing secret:', err)
+        setError('The other device sent an invalid pairing key. Please start again.')
+      })
+  }, [pairingId, pairing?.responderPublicKey])
+
+  // Clean up once the new device has the key
+  useEffect(() => {
+    if (pairingId && status === 'completed') {
+      setIsComplete(true)
+      db.transact([db.tx.devicePairings[pairingId].delete()]).catch((err) =>
+        console.warn('Failed to delete completed pairing:', err)
+      )
+      privateKeyRef.current = null
+      publicKeyRef.current = null
+    }
+  }, [pairingId, status])
+
+  /**
+   * Start a new pairing and produce the QR link
+   */
+  const start = useCallback(async (): Promise<void> => {
+    if (!userProfile) {
+      throw new Error('User profile not available')
+    }
+
+    try {
+      setIsStarting(true)
+      setError(null)
+      setSecret(null)
+      setIsComplete(false)
+      challengeRef.current = null
+      responderKeyRef.current = null
+
+      const keyPair = await generatePairingKeyPair()
+      const publicKey = await exportPairingPublicKey(keyPair.publicKey)
+      const newPairingId = id()
+      const now = Date.now()
+
+      await db.transact([
+        db.tx.devicePairings[newPairingId]
+          .create({
+            status: 'waiting',
+            createdAt: now,
+            expiresAt: now + PAIRING_TTL_MS,
+          })
+          .link({ user: userProfile.id }),
+      ])
+
+      privateKeyRef.current = keyPair.privateKey
+      publicKeyRef.current = publicKey
+      setPairingId(newPairingId)
+      setLink(createPairingLink(window.location.origin, { pairingId: newPairingId, publicKey }))
+    } catch (err) {
+      console.error('Failed to start pairing:', err)
+      setError('Failed to start pairing')
+    } finally {
+      setIsStarting(false)
+    }
+  }, [userProfile])
+
+  /**
+   * Send the encrypted keyring after the user confirms the codes match
+   */
+  const confirm = useCallback(async (): Promise<void> => {
+    if (!user?.id || !pairingId || !secret) {
+      throw new Error('Pairing is not ready')
+    }
+    if (isExpired) {
+      throw new Error('This pairing has expired. Please start again.')
+    }
+
+    try {
+      setIsSending(true)
+      const encrypted = await encryptKeyring(await exportKeyring(user.id), secret.key, pairingId)
+      await db.transact([
+        db.tx.devicePairings[pairingId].update({ ...encrypted, status: 'sent' }),
+      ])
+    } finally {
+      setIsSending(false)
+    }
+  }, [user?.id, pairingId, secret, isExpired])
+
+  /**
+   * Abandon the pairing and delete it
+   */
+  const cancel = useCallback(async (): Promise<void> => {
+    if (pairingId) {
+      await db.transact([db.tx.devicePairings[pairingId].delete()])
+    }
+    privateKeyRef.current = null
+    publicKeyRef.current = null
+    challengeRef.current = null
+    responderKeyRef.current = null
+    setPairingId(null)
+    setLink(null)
+    setSecret(null)
+    setError(null)
+    setIsComplete(false)
+  }, [pairingId])
+
+  return {
+    // State
+    link,
+    // The pairing entity is deleted once completed, so remember that it finished
+    status: isComplete ? ('completed' as const) : status,
+    verificationCode: secret?.verificationCode ?? null,
+    isExpired,
+    isStarting,
+    isSending,
+    error,
+    expiresAt: pairing?.expiresAt,
+
+    // Functions
+    start,
+    confirm,
+    cancel,
+  }
+}
@@ -1,36 +1,129 @@
 /**
  * useEncryption Hook
- * 
+ *
  * React hook for easy access to encryption functions
  * Automatically manages keys for the current user
+ *
+ * On a device without a local key, a key is only generated when the user has
+ * no escrowed key; otherwise `needsUnlock` is set and `unlock(passphrase)`
+ * restores the existing key so old reflections stay readable.
+ *
+ * After a key rotation, pass a reflection's `keyVersion` to `decrypt` /
+ * `decryptPhoto` so archived key versions are used where needed.
+ *
+ * New reflections use `sealText` / `sealPhoto`, which write versioned envelopes
+ * bound to the reflection id and user id (see envelope.ts). Photos, thumbnails
+ * and captions of `reflectionPhotos` rows also take the row id. `openText` /
+ * `openPhoto` pick the right key from the envelope's key id.
+ *
+ * Once a key is loaded it's verified against the key check on the user's
+ * profile (see keyCheck.ts). A different key, e.g. from someone else's backup,
+ * sets `keyMismatch` so the UI can offer recovery before anything is decrypted.
+ *
+ * The key state lives in EncryptionProvider (mounted once in the root route),
+ * so the key is loaded and checked once per session rather than by every
+ * component that calls the hook, and unlocking or rotating the key on one
+ * screen updates all of them.
  */
 
-import { useState, useEffect, useCallback } from 'react'
+import { createContext, useContext, useState, useEffect, useCallback } from 'react'
+import { id } from '@instantdb/react'
 import { useAuth } from '@/lib/auth'
-import { getOrCreateKey, type StoredKey } from './keyStorage'
-import { encryptText, decryptText, encryptFile, decryptFile, type EncryptedData } from './crypto'
+import { db, useQuery } from '@/lib/db'
+import {
+  getOrCreateKey,
+  getStoredKey,
+  getKeyByVersion,
+  getKeyById,
+  getKeyVersion,
+  ensureKeyId,
+  type StoredKey,
+} from './keyStorage'
+import { createKeyEscrow, restoreKeyFromEscrow, unwrapKeyWithPassphrase } from './keyEscrow'
+import { createKeyCheck, verifyKeyCheck } from './keyCheck'
+import { encryptText, decryptText, type EncryptedData } from './crypto'
+import {
+  encryptTextEnvelope,
+  decryptTextEnvelope,
+  parseEnvelope,
+  peekEnvelopeKeyId,
+} from './envelope'
+import {
+  encryptFileInWorker,
+  decryptFileInWorker,
+  encryptFileEnvelopeInWorker,
+  decryptFileEnvelopeInWorker,
+} from '@/lib/media'
 
-export function useEncryption() {
+// Enough bytes to read any binary envelope header (3 + 255-byte key id)
+const ENVELOPE_HEADER_PEEK_BYTES = 258
+
+/**
+ * Key state and encryption functions for the signed-in user
+ * Used by EncryptionProvider; components call useEncryption()
+ */
+export function useEncryptionState() {
   const { user } = useAuth()
   const [storedKey, setStoredKey] = useState<StoredKey | null>(null)
   const [isLoading, setIsLoading] = useState(true)
+  const [needsUnlock, setNeedsUnlock] = useState(false)
+  const [isCheckingKey, setIsCheckingKey] = useState(true)
+  const [keyMismatch, setKeyMismatch] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
+  // Get user profile with its escrowed key (if any)
+  const { data: profileData, isLoading: isLoadingProfile } = useQuery(
+    user?.email
+      ? {
+          userProfiles: {
+            $: {
+              where: {
+                email: user.email,
+              },
+            },
+            keyEscrow: {},
+          },
+        }
+      : null
+  )
+
+  const userProfile = profileData?.userProfiles?.[0]
+  const keyEscrow = userProfile?.keyEscrow
+  const hasEscrow = !!keyEscrow
+  const userProfileId = userProfile?.id
+  const keyCheck = userProfile?.keyCheck
+
   // Load or generate encryption key when user signs in
   useEffect(() => {
     async function initializeKey() {
       if (!user?.id) {
         setStoredKey(null)
+        setNeedsUnlock(false)
         setIsLoading(false)
         return
       }
 
+      // Wait for the escrow lookup so we never generate a key over an escrowed one
+      if (isLoadingProfile) {
+        return
+      }
+
       try {
         setIsLoading(true)
         setError(null)
-        
-        const key = await getOrCreateKey(user.id)
-        setStoredKey(key)
+
+        const existingKey = await getStoredKey(user.id)
+        if (existingKey) {
+          setStoredKey(existingKey)
+          setNeedsUnlock(false)
+        } else if (hasEscrow) {
+          setStoredKey(null)
+          setNeedsUnlock(true)
+        } else {
+          const key = await getOrCreateKey(user.id)
+          setStoredKey(key)
+          setNeedsUnlock(false)
+        }
       } catch (err) {
         console.error('Failed to initialize encryption key:', err)
         setError('Failed to initialize encryption')
@@ -40,6 +133,120 @@ export function useEncryption() {
     }
 
     initializeKey()
+  }, [user?.id, isLoadingProfile, hasEscrow])
+
+  // Verify the loaded key against the profile's key check (or record one)
+  useEffect(() => {
+    async function checkKey() {
+      if (!user?.id || !storedKey || (!isLoadingProfile && !userProfileId)) {
+        setKeyMismatch(false)
+        setIsCheckingKey(false)
+        return
+      }
+
+      if (!userProfileId) {
+        return
+      }
+
+      let keyChanged = false
+      try {
+        // Another component may have rotated or restored the key since this one loaded it
+        const latest = (await getStoredKey(user.id)) ?? storedKey
+        if (latest.metadata.keyId !== storedKey.metadata.keyId) {
+          keyChanged = true
+          setStoredKey(latest)
+          return
+        }
+
+        if (keyCheck) {
+          const matches = await verifyKeyCheck(keyCheck, latest.key, latest.metadata.keyId, user.id)
+          setKeyMismatch(!matches)
+        } else {
+          // No check yet (new account, or created before checks existed): record this key
+          const { key, keyId } = await ensureKeyId(user.id)
+          await db.transact([
+            db.tx.userProfiles[userProfileId].update({
+              keyCheck: await createKeyCheck(key, keyId, user.id),
+            }),
+          ])
+          setKeyMismatch(false)
+        }
+      } catch (err) {
+        // An unreadable check shouldn't lock the user out
+        console.error('Failed to verify encryption key:', err)
+        setKeyMismatch(false)
+      } finally {
+        // The effect runs again for the new key
+        if (!keyChanged) {
+          setIsCheckingKey(false)
+        }
+      }
+    }
+
+    checkKey()
+  }, [user?.id, storedKey, isLoadingProfile, userProfileId, keyCheck])
+
+  /**
+   * Resolve the key for a key version (defaults to the active key)
+   */
+  const resolveKey = useCallback(
+    async (keyVersion?: number): Promise<CryptoKey> => {
+      if (!storedKey || !user?.id) {
+        throw new Error('Encryption key not available')
+      }
+      if (keyVersion === undefined || keyVersion === getKeyVersion(storedKey.metadata)) {
+        return storedKey.key
+      }
+      const versionedKey = await getKeyByVersion(user.id, keyVersion)
+      if (!versionedKey) {
+        throw new Error(`Encryption key version ${keyVersion} not available on this device`)
+      }
+      return versionedKey.key
+    },
+    [storedKey, user?.id]
+  )
+
+  /**
+   * Resolve the key recorded in an envelope (active or archived)
+   */
+  const resolveKeyById = useCallback(
+    async (keyId: string): Promise<CryptoKey> => {
+      if (!storedKey || !user?.id) {
+        throw new Error('Encryption key not available')
+      }
+      if (storedKey.metadata.keyId === keyId) {
+        return storedKey.key
+      }
+      const keyForId = await getKeyById(user.id, keyId)
+      if (!keyForId) {
+        throw new Error('The key for this reflection is not available on this device')
+      }
+      return keyForId.key
+    },
+    [storedKey, user?.id]
+  )
+
+  /**
+   * Active key and its keyId (legacy keys get a keyId assigned on first use)
+   */
+  const getSealingKey = useCallback(async (): Promise<{ key: CryptoKey; keyId: string }> => {
+    if (!storedKey || !user?.id) {
+      throw new Error('Encryption key not available')
+    }
+    if (storedKey.metadata.keyId) {
+      return { key: storedKey.key, keyId: storedKey.metadata.keyId }
+    }
+    const withId = await ensureKeyId(user.id)
+    setStoredKey(withId)
+    return { key: withId.key, keyId: withId.keyId }
+  }, [storedKey, user?.id])
+
+  /**
+   * Re-read the active key from storage (e.g. after rotation)
+   */
+  const refreshKey = useCallback(async (): Promise<void> => {
+    if (!user?.id) return
+    setStoredKey(await getStoredKey(user.id))
   }, [user?.id])
 
   /**
@@ -59,53 +266,271 @@ export function useEncryption() {
    * Decrypt reflection text
    */
   const decrypt = useCallback(
-    async (encryptedData: EncryptedData): Promise<string> => {
-      if (!storedKey) {
-        throw new Error('Encryption key not available')
-      }
-      return await decryptText(encryptedData, storedKey.key)
+    async (encryptedData: EncryptedData, keyVersion?: number): Promise<string> => {
+      return await decryptText(encryptedData, await resolveKey(keyVersion))
     },
-    [storedKey]
+    [resolveKey]
   )
 
   /**
-   * Encrypt a photo file
+   * Encrypt a photo file (off the main thread when workers are available)
    */
   const encryptPhoto = useCallback(
     async (file: File | Blob): Promise<{ encryptedBlob: Blob; iv: string; algorithm: string }> => {
       if (!storedKey) {
         throw new Error('Encryption key not available')
       }
-      return await encryptFile(file, storedKey.key)
+      return await encryptFileInWorker(file, storedKey.key)
     },
     [storedKey]
   )
 
   /**
-   * Decrypt a photo blob
+   * Decrypt a photo blob (off the main thread when workers are available)
    */
   const decryptPhoto = useCallback(
-    async (encryptedBlob: Blob, iv: string, originalType?: string): Promise<Blob> => {
-      if (!storedKey) {
+    async (
+      encryptedBlob: Blob,
+      iv: string,
+      originalType?: string,
+      keyVersion?: number
+    ): Promise<Blob> => {
+      return await decryptFileInWorker(
+        encryptedBlob,
+        iv,
+        await resolveKey(keyVersion),
+        originalType
+      )
+    },
+    [resolveKey]
+  )
+
+  /**
+   * Encrypt reflection text (a photo caption or metadata) into an envelope bound to the reflection
+   */
+  const sealText = useCallback(
+    async (
+      text: string,
+      reflectionId: string,
+      field: 'text' | 'caption' | 'metadata' = 'text',
+      photoId?: string
+    ): Promise<string> => {
+      if (!user?.id) {
         throw new Error('Encryption key not available')
       }
-      return await decryptFile(encryptedBlob, iv, storedKey.key, originalType)
+      const { key, keyId } = await getSealingKey()
+      return await encryptTextEnvelope(text, key, keyId, {
+        userId: user.id,
+        reflectionId,
+        field,
+        photoId,
+      })
     },
-    [storedKey]
+    [user?.id, getSealingKey]
+  )
+
+  /**
+   * Decrypt reflection text (a photo caption or metadata) from an envelope
+   */
+  const openText = useCallback(
+    async (
+      serialized: string,
+      reflectionId: string,
+      field: 'text' | 'caption' | 'metadata' = 'text',
+      photoId?: string
+    ): Promise<string> => {
+      if (!user?.id) {
+        throw new Error('Encryption key not available')
+      }
+      const key = await resolveKeyById(parseEnvelope(serialized).keyId)
+      return await decryptTextEnvelope(serialized, key, {
+        userId: user.id,
+        reflectionId,
+        field,
+        photoId,
+      })
+    },
+    [user?.id, resolveKeyById]
   )
 
+  /**
+   * Encrypt a photo (or its thumbnail) into an envelope bound to the reflection
+   */
+  const sealPhoto = useCallback(
+    async (
+      file: File | Blob,
+      reflectionId: string,
+      field: 'photo' | 'thumbnail' = 'photo',
+      photoId?: string
+    ): Promise<Blob> => {
+      if (!user?.id) {
+        throw new Error('Encryption key not available')
+      }
+      const { key, keyId } = await getSealingKey()
+      return await encryptFileEnvelopeInWorker(file, key, keyId, {
+        userId: user.id,
+        reflectionId,
+        field,
+        photoId,
+      })
+    },
+    [user?.id, getSealingKey]
+  )
+
+  /**
+   * Decrypt a photo (or thumbnail) envelope
+   */
+  const openPhoto = useCallback(
+    async (
+      encryptedBlob: Blob,
+      reflectionId: string,
+      originalType?: string,
+      field: 'photo' | 'thumbnail' = 'photo',
+      photoId?: string
+    ): Promise<Blob> => {
+      if (!user?.id) {
+        throw new Error('Encryption key not available')
+      }
+      const header = new Uint8Array(
+        await encryptedBlob.slice(0, ENVELOPE_HEADER_PEEK_BYTES).arrayBuffer()
+      )
+      const key = await resolveKeyById(peekEnvelopeKeyId(header))
+      return await decryptFileEnvelopeInWorker(
+        encryptedBlob,
+        key,
+        { userId: user.id, reflectionId, field, photoId },
+        originalType
+      )
+    },
+    [user?.id, resolveKeyById]
+  )
+
+  /**
+   * Unlock the escrowed key on this device with the user's passphrase
+   */
+  const unlock = useCallback(
+    async (passphrase: string): Promise<void> => {
+      if (!user?.id || !keyEscrow) {
+        throw new Error('No escrowed key to unlock')
+      }
+      const key = await restoreKeyFromEscrow(user.id, keyEscrow, passphrase)
+      setStoredKey(key)
+      setNeedsUnlock(false)
+      setKeyMismatch(false)
+    },
+    [user?.id, keyEscrow]
+  )
+
+  /**
+   * Check a passphrase against the escrowed key without storing anything
+   */
+  const verifyPassphrase = useCallback(
+    async (passphrase: string): Promise<boolean> => {
+      if (!keyEscrow) {
+        return false
+      }
+      try {
+        await unwrapKeyWithPassphrase(keyEscrow, passphrase)
+        return true
+      } catch {
+        return false
+      }
+    },
+    [keyEscrow]
+  )
+
+  /**
+   * Protect this device's key with a passphrase and escrow the wrapped key
+   * Replaces any existing escrow for the user
+   */
+  const setupKeyEscrow = useCallback(
+    async (passphrase: string): Promise<void> => {
+      if (!user?.id || !userProfile) {
+        throw new Error('User profile not available')
+      }
+      if (keyMismatch) {
+        throw new Error("This device's key doesn't match your account")
+      }
+
+      const bundle = await createKeyEscrow(user.id, passphrase)
+      const escrowId = keyEscrow?.id ?? id()
+      const { key } = await ensureKeyId(user.id)
+
+      await db.transact([
+        db.tx.keyEscrows[escrowId]
+          .update({ ...bundle, updatedAt: Date.now() })
+          .link({ user: userProfile.id }),
+        db.tx.userProfiles[userProfile.id].update({
+          encryptionKeyId: bundle.keyId,
+          keyCheck: await createKeyCheck(key, bundle.keyId, user.id),
+        }),
+      ])
+
+      // Pick up the keyId assigned to legacy keys
+      setStoredKey(await getStoredKey(user.id))
+    },
+    [user?.id, userProfile, keyEscrow?.id, keyMismatch]
+  )
+
+  /**
+   * Point the profile's key check at this device's active key
+   * Call after rotating, before other devices should stop accepting the old key
+   */
+  const updateKeyCheck = useCallback(async (): Promise<void> => {
+    if (!user?.id || !userProfileId) {
+      throw new Error('User profile not available')
+    }
+
+    const { key, keyId } = await ensureKeyId(user.id)
+    await db.transact([
+      db.tx.userProfiles[userProfileId].update({
+        keyCheck: await createKeyCheck(key, keyId, user.id),
+      }),
+    ])
+  }, [user?.id, userProfileId])
+
   return {
     // State
-    isLoading,
+    isLoading: isLoading || isCheckingKey,
     error,
-    isReady: !!storedKey && !isLoading,
+    isReady: !!storedKey && !isLoading && !isCheckingKey && !keyMismatch,
     keyMetadata: storedKey?.metadata,
+    keyVersion: storedKey ? getKeyVersion(storedKey.metadata) : undefined,
+    needsUnlock,
+    keyMismatch,
+    hasEscrow,
 
     // Functions
     encrypt,
     decrypt,
     encryptPhoto,
     decryptPhoto,
+    sealText,
+    openText,
+    sealPhoto,
+    openPhoto,
+    unlock,
+    verifyPassphrase,
+    setupKeyEscrow,
+    updateKeyCheck,
+    refreshKey,
   }
 }
 
+export type EncryptionContextType = ReturnType<typeof useEncryptionState>
+
+export const EncryptionContext = createContext<EncryptionContextType | undefined>(undefined)
+
+/**
+ * Access the shared encryption state and functions from any component
+ *
+ * @example
+ * const { isReady, sealText, openText } = useEncryption()
+ */
+export function useEncryption(): EncryptionContextType {
+  const context = useContext(EncryptionContext)
+  if (context === undefined) {
+    throw new Error('useEncryption must be used within an EncryptionProvider')
+  }
+  return context
+}
@@ -0,0 +1,120 @@
+/**
+ * useKeyManagement Hook
+ *
+ * Key details, backup files and deletion for the security settings page.
+ * See keyBackup.ts for the backup file format.
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/lib/auth'
+import { useEncryption } from './useEncryption'
+import { deleteKey, getArchivedKeyMetadata, getKeyMetadata, type KeyMetadata } from './keyStorage'
+import {
+  createKeyBackup,
+  getKeyBackupFilename,
+  readKeyBackup,
+  restoreKeyBackup,
+  serializeKeyBackup,
+  type KeyBackupFile,
+} from './keyBackup'
+
+export function useKeyManagement() {
+  const { user } = useAuth()
+  const { keyMetadata: activeKeyMetadata, refreshKey } = useEncryption()
+  const [metadata, setMetadata] = useState<KeyMetadata | null>(null)
+  const [archivedKeys, setArchivedKeys] = useState<KeyMetadata[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  /**
+   * Re-read key details from storage
+   */
+  const refresh = useCallback(async (): Promise<void> => {
+    if (!user?.id) {
+      setMetadata(null)
+      setArchivedKeys([])
+      setIsLoading(false)
+      return
+    }
+
+    try {
+      const [active, archived] = await Promise.all([
+        getKeyMetadata(user.id),
+        getArchivedKeyMetadata(user.id),
+      ])
+      setMetadata(active)
+      setArchivedKeys(archived)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [user?.id])
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: reload when the active key changes (e.g. after rotation)
+  useEffect(() => {
+    refresh()
+  }, [refresh, activeKeyMetadata?.keyId, activeKeyMetadata?.keyVersion])
+
+  /**
+   * Create a passphrase-encrypted backup file
+   */
+  const createBackup = useCallback(
+    async (passphrase: string): Promise<{ filename: string; contents: string }> => {
+      if (!user?.id) {
+        throw new Error('You must be signed in to back up your key')
+      }
+
+      const backup = await createKeyBackup(user.id, passphrase)
+      return { filename: getKeyBackupFilename(backup), contents: serializeKeyBackup(backup) }
+    },
+    [user?.id]
+  )
+
+  /**
+   * Read and verify an uploaded backup file (no passphrase needed)
+   */
+  const readBackup = useCallback(async (file: File): Promise<KeyBackupFile> => {
+    return await readKeyBackup(await file.text())
+  }, [])
+
+  /**
+   * Restore keys from a backup file onto this device
+   */
+  const restoreBackup = useCallback(
+    async (backup: KeyBackupFile, passphrase: string): Promise<void> => {
+      if (!user?.id) {
+        throw new Error('You must be signed in to restore your key')
+      }
+
+      await restoreKeyBackup(user.id, backup, passphrase)
+      await refreshKey()
+      await refresh()
+    },
+    [user?.id, refreshKey, refresh]
+  )
+
+  /**
+   * Delete every key on this device
+   * WARNING: Reflections become unreadable here unless the key is restored
+   */
+  const removeKey = useCallback(async (): Promise<void> => {
+    if (!user?.id) {
+      throw new Error('You must be signed in to delete your key')
+    }
+
+    await deleteKey(user.id)
+    await refresh()
+  }, [user?.id, refresh])
+
+  return {
+    // State
+    metadata,
+    archivedKeys,
+    isLoading,
+
+    // Functions
+    createBackup,
+    readBackup,
+    restoreBackup,
+    removeKey,
+    refresh,
+  }
+}
@@ -0,0 +1,286 @@
+/**
+ * useKeyRotation Hook
+ *
+ * Rotates the user's encryption key and re-encrypts existing reflections,
+ * their revisions and photos, and synced drafts under the new key, reporting
+ * progress as it goes.
+ *
+ * The job is resumable: reflections are tagged with their keyVersion as they
+ * finish, and a pending marker in LocalStorage lets the next visit pick up
+ * where an interrupted run stopped.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { id } from '@instantdb/react'
+import { useAuth } from '@/lib/auth'
+import { db, useQuery } from '@/lib/db'
+import { useEncryption } from './useEncryption'
+import { rotateKey, ensureKeyId, getKeyByVersion, getKeyById } from './keyStorage'
+import {
+  reencryptReflections,
+  reencryptDraft,
+  needsReencryption,
+  markReencryptionPending,
+  getPendingReencryption,
+  clearPendingReencryption,
+  type ReencryptedPhoto,
+  type ReencryptionDeps,
+  type ReencryptionProgress,
+} from './reencrypt'
+
+export function useKeyRotation() {
+  const { user } = useAuth()
+  const { keyVersion, hasEscrow, verifyPassphrase, setupKeyEscrow, updateKeyCheck, refreshKey } =
+    useEncryption()
+  const [progress, setProgress] = useState<ReencryptionProgress | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [hasPendingJob, setHasPendingJob] = useState(false)
+  const abortRef = useRef<AbortController | null>(null)
+
+  // Get user profile
+  const { data: profileData } = useQuery(
+    user?.email
+      ? {
+          userProfiles: {
+            $: {
+              where: {
+                email: user.email,
+              },
+            },
+          },
+        }
+      : null
+  )
+
+  const userProfile = profileData?.userProfiles?.[0]
+
+  // Get user's reflections and synced drafts with their photos
+  const { data: reflectionsData, isLoading: isLoadingReflections } = useQuery(
+    userProfile
+      ? {
+          reflections: {
+            $: {
+              where: {
+                'user.id': userProfile.id,
+              },
+            },
+            photo: {},
+            thumbnail: {},
+            photos: {
+              file: {},
+              thumbnail: {},
+            },
+            revisions: {
+              photo: {},
+              thumbnail: {},
+              photos: {
+                file: {},
+                thumbnail: {},
+              },
+            },
+          },
+          reflectionDrafts: {
+            $: {
+              where: {
+                'user.id': userProfile.id,
+              },
+            },
+            photos: {
+              file: {},
+              thumbnail: {},
+            },
+          },
+        }
+      : null
+  )
+
+  const reflections = reflectionsData?.reflections ?? []
+  const drafts = reflectionsData?.reflectionDrafts ?? []
+  const pendingCount =
+    keyVersion === undefined
+      ? 0
+      : reflections.filter((reflection) => needsReencryption(reflection, keyVersion)).length
+
+  useEffect(() => {
+    setHasPendingJob(!!user?.id && !!getPendingReencryption(user.id))
+  }, [user?.id])
+
+  // Stop the job if the component using the hook unmounts
+  useEffect(() => {
+    return () => abortRef.current?.abort()
+  }, [])
+
+  /**
+   * Re-encrypt every reflection not yet on the active key
+   */
+  const runReencryption = useCallback(async (): Promise<ReencryptionProgress | null> => {
+    if (!user?.id) {
+      throw new Error('Not signed in')
+    }
+
+    const userId = user.id
+    // Envelopes record the key id, so legacy keys get one before re-encrypting
+    const targetKey = await ensureKeyId(userId)
+
+    const deps: ReencryptionDeps = {
+      getKey: async (version) => (await getKeyByVersion(userId, version))?.key ?? null,
+      getKeyById: async (keyId) => (await getKeyById(userId, keyId))?.key ?? null,
+      fetchPhoto: async (url) => {
+        const response = await fetch(url)
+        if (!response.ok) {
+          throw new Error('Failed to download photo')
+        }
+        return await response.blob()
+      },
+      uploadPhoto: async (_reflectionId, encryptedBlob) => {
+        const { data } = await db.storage.uploadFile(
+          // A reflection can have several photos, so paths need more than a timestamp
+          `reflections/${userId}/${Date.now()}-${id()}.enc`,
+          encryptedBlob,
+          { contentType: 'application/octet-stream' }
+        )
+        return data.id
+      },
+      saveReflection: async (reflectionId, fields, photoFileId, thumbnailFileId, photos = []) => {
+        let transaction = db.tx.reflections[reflectionId].update(fields)
+        if (photoFileId) transaction = transaction.link({ photo: photoFileId })
+        if (thumbnailFileId) transaction = transaction.link({ thumbnail: thumbnailFileId })
+
+        await db.transact([transaction, ...getPhotoTransactions(photos)])
+      },
+      saveRevision: async (revisionId, fields, photoFileId, thumbnailFileId, photos = []) => {
+        let transaction = db.tx.reflectionRevisions[revisionId].update(fields)
+        if (photoFileId) transaction = transaction.link({ photo: photoFileId })
+        if (thumbnailFileId) transaction = transaction.link({ thumbnail: thumbnailFileId })
+
+        await db.transact([transaction, ...getPhotoTransactions(photos)])
+      },
+      saveDraft: async (draftId, fields, photos) => {
+        await db.transact([
+          db.tx.reflectionDrafts[draftId].update(fields),
+          ...getPhotoTransactions(photos),
+        ])
+      },
+      deletePhoto: async (path) => {
+        await db.storage.delete(path)
+      },
+    }
+
+    const controller = new AbortController()
+    abortRef.current = controller
+
+    try {
+      setIsRunning(true)
+      setError(null)
+
+      const result = await reencryptReflections(reflections, targetKey, deps, {
+        onProgress: setProgress,
+        signal: controller.signal,
+      })
+
+      // Synced drafts (normally zero or one) once the reflections are done
+      let failedDrafts = 0
+      for (const draft of drafts) {
+        if (controller.signal.aborted) break
+        try {
+          await reencryptDraft(draft, targetKey, deps)
+        } catch (err) {
+          console.error(`Failed to re-encrypt draft ${draft.id}:`, err)
+          failedDrafts++
+        }
+      }
+
+      if (!controller.signal.aborted && result.failed === 0 && failedDrafts === 0) {
+        clearPendingReencryption(userId)
+        setHasPendingJob(false)
+      }
+
+      return result
+    } catch (err) {
+      console.error('Re-encryption failed:', err)
+      setError(err instanceof Error ? err.message : 'Re-encryption failed')
+      return null
+    } finally {
+      setIsRunning(false)
+      abortRef.current = null
+    }
+  }, [user?.id, reflections, drafts])
+
+  /**
+   * Rotate to a new key version and start re-encrypting
+   * When the key is escrowed, the passphrase is required to re-escrow the new key
+   */
+  const rotate = useCallback(
+    async (passphrase?: string): Promise<void> => {
+      if (!user?.id) {
+        throw new Error('Not signed in')
+      }
+
+      if (hasEscrow) {
+        if (!passphrase || !(await verifyPassphrase(passphrase))) {
+          throw new Error('Incorrect passphrase')
+        }
+      }
+
+      const { metadata } = await rotateKey(user.id)
+      markReencryptionPending(user.id, metadata.keyVersion ?? 1)
+      setHasPendingJob(true)
+
+      // Other devices should now report the old key as outdated
+      if (hasEscrow && passphrase) {
+        await setupKeyEscrow(passphrase)
+      } else {
+        await updateKeyCheck()
+      }
+      await refreshKey()
+
+      await runReencryption()
+    },
+    [
+      user?.id,
+      hasEscrow,
+      verifyPassphrase,
+      setupKeyEscrow,
+      updateKeyCheck,
+      refreshKey,
+      runReencryption,
+    ]
+  )
+
+  /**
+   * Stop a running job (it can be resumed later)
+   */
+  const cancel = useCallback(() => {
+    abortRef.current?.abort()
+  }, [])
+
+  return {
+    // State
+    keyVersion,
+    progress,
+    isRunning,
+    error,
+    hasPendingJob,
+    pendingCount,
+    isLoading: isLoadingReflections,
+    requiresPassphrase: hasEscrow,
+
+    // Functions
+    rotate,
+    resume: runReencryption,
+    cancel,
+  }
+}
+
+/**
+ * Utility: Transactions saving re-encrypted captions and relinking re-encrypted files
+ */
+function getPhotoTransactions(photos: ReencryptedPhoto[]) {
+  return photos.map((photo) => {
+    let transaction = db.tx.reflectionPhotos[photo.id].update({ caption: photo.caption })
+    if (photo.fileId) transaction = transaction.link({ file: photo.fileId })
+    if (photo.thumbnailFileId) transaction = transaction.link({ thumbnail: photo.thumbnailFileId })
+    return transaction
+  })
+}
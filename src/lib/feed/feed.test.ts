@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  getFeedCursor,
+  getItemOffsets,
+  getVisibleRange,
+  loadFeedPage,
+  mergeFeedItems,
+  type FeedCursor,
+  type FeedItem,
+  type FeedPage,
+} from './feed'
+
+/**
+ * Reflections stored newest first, as the createdAt query returns them
+ */
+function createFetch(items: FeedItem[]) {
+  const sorted = [...items].sort((a, b) => b.createdAt - a.createdAt)
+  return vi.fn(async (before: number | null, limit: number) =>
+    sorted.filter((item) => before === null || item.createdAt <= before).slice(0, limit)
+  )
+}
+
+describe('Feed', () => {
+  it('should page through reflections newest first', async () => {
+    const items = Array.from({ length: 5 }, (_, index) => ({
+      id: `r${index}`,
+      createdAt: 1000 + index,
+    }))
+    const fetchPage = createFetch(items)
+
+    const first = await loadFeedPage(null, 2, fetchPage)
+    expect(first.items.map(({ id }) => id)).toEqual(['r4', 'r3'])
+    expect(first.cursor).toEqual({ createdAt: 1003, seenIds: ['r3'] })
+    expect(fetchPage).toHaveBeenLastCalledWith(null, 2)
+
+    const second = await loadFeedPage(first.cursor, 2, fetchPage)
+    expect(second.items.map(({ id }) => id)).toEqual(['r2', 'r1'])
+    expect(fetchPage).toHaveBeenLastCalledWith(1003, 3)
+
+    const last = await loadFeedPage(second.cursor, 2, fetchPage)
+    expect(last.items.map(({ id }) => id)).toEqual(['r0'])
+    expect(last.cursor).toBeNull()
+  })
+
+  it('should neither skip nor repeat reflections that share a timestamp', async () => {
+    const items = [
+      { id: 'a', createdAt: 3000 },
+      { id: 'b', createdAt: 2000 },
+      { id: 'c', createdAt: 2000 },
+      { id: 'd', createdAt: 2000 },
+      { id: 'e', createdAt: 1000 },
+    ]
+    const fetchPage = createFetch(items)
+
+    const seen: string[] = []
+    let cursor: FeedCursor | null = null
+    do {
+      const page: FeedPage<FeedItem> = await loadFeedPage(cursor, 2, fetchPage)
+      seen.push(...page.items.map(({ id }) => id))
+      cursor = page.cursor
+    } while (cursor)
+
+    expect(seen).toEqual(['a', 'b', 'c', 'd', 'e'])
+  })
+
+  it('should carry ids seen at the same timestamp across pages', () => {
+    const cursor = getFeedCursor(
+      [
+        { id: 'c', createdAt: 2000 },
+        { id: 'd', createdAt: 2000 },
+      ],
+      { createdAt: 2000, seenIds: ['b'] }
+    )
+    expect(cursor).toEqual({ createdAt: 2000, seenIds: ['b', 'c', 'd'] })
+    expect(getFeedCursor([], cursor)).toBe(cursor)
+  })
+
+  it('should end on an exactly full last page', async () => {
+    const fetchPage = createFetch([
+      { id: 'a', createdAt: 2 },
+      { id: 'b', createdAt: 1 },
+    ])
+
+    const first = await loadFeedPage(null, 2, fetchPage)
+    expect(first.cursor).not.toBeNull()
+
+    const empty = await loadFeedPage(first.cursor, 2, fetchPage)
+    expect(empty.items).toEqual([])
+    expect(empty.cursor).toBeNull()
+  })
+
+  it('should prefer the live copy of a reflection when merging', () => {
+    const live = [
+      { id: 'new', createdAt: 30, syncStatus: 'synced' },
+      { id: 'edge', createdAt: 20, syncStatus: 'synced' },
+    ]
+    const older = [
+      { id: 'edge', createdAt: 20, syncStatus: 'pending' },
+      { id: 'old', createdAt: 10, syncStatus: 'synced' },
+    ]
+
+    expect(mergeFeedItems(older.slice(1), live, older)).toEqual([
+      live[0],
+      live[1],
+      older[1],
+    ])
+  })
+
+  it('should find the items around the viewport', () => {
+    const offsets = getItemOffsets([100, 200, 100, 100], 10)
+    expect(offsets).toEqual([0, 110, 320, 430, 530])
+
+    // Viewport over the second and third items
+    expect(getVisibleRange(offsets, 150, 400)).toEqual({ start: 1, end: 3 })
+    expect(getVisibleRange(offsets, 150, 400, 1)).toEqual({ start: 0, end: 4 })
+
+    // Scrolled above and past the list
+    expect(getVisibleRange(offsets, -500, -100)).toEqual({ start: 0, end: 1 })
+    expect(getVisibleRange(offsets, 900, 1200)).toEqual({ start: 3, end: 4 })
+    expect(getVisibleRange([0], 0, 500)).toEqual({ start: 0, end: 0 })
+  })
+})
@@ -0,0 +1,205 @@
+/**
+ * Feed
+ *
+ * Cursor pagination over the indexed `createdAt` of reflections, newest
+ * first, and the layout math of the virtualized list that shows them.
+ *
+ * A cursor is the `createdAt` of the last reflection shown plus the ids shown
+ * at that exact moment, so reflections sharing a timestamp are neither
+ * skipped nor repeated across pages.
+ */
+
+import type { ReflectionPhoto } from '@/lib/reflections'
+
+export const FEED_PAGE_SIZE = 20
+
+export interface FeedItem {
+  id: string
+  createdAt: number
+}
+
+export interface FeedReflection extends FeedItem {
+  reflectionText: string
+  encryptionIV?: string
+  encryptionAlgorithm?: string
+  photoIV?: string
+  photoType?: string
+  keyVersion?: number
+  metadata?: string
+  syncStatus?: string
+  photo?: {
+    id: string
+    path: string
+    url: string
+  }
+  thumbnail?: {
+    id: string
+    path: string
+    url: string
+  }
+  photos?: ReflectionPhoto[]
+  prompt?: {
+    id: string
+    promptText: string
+    category?: string
+  }
+}
+
+export interface FeedFilter {
+  start?: number // Earliest createdAt (inclusive, Unix ms)
+  end?: number // Latest createdAt (exclusive)
+  category?: string // Prompt category
+}
+
+export interface FeedCursor {
+  createdAt: number // Load reflections created at or before this (Unix ms)
+  seenIds: string[] // Already shown reflections created exactly at `createdAt`
+}
+
+export interface FeedPage<T extends FeedItem> {
+  items: T[]
+  cursor: FeedCursor | null // Null when there's nothing older
+}
+
+/**
+ * Load reflections created at or before `before` (all when null), newest
+ * first, at most `limit`
+ */
+export type FetchFeedPage<T extends FeedItem> = (
+  before: number | null,
+  limit: number
+) => Promise<T[]>
+
+export interface VisibleRange {
+  start: number // First index to render
+  end: number // One past the last index to render
+}
+
+/**
+ * Load the page after a cursor
+ *
+ * @param cursor - Where the previous page ended (null for the first page)
+ * @param pageSize - Reflections per page
+ * @param fetchPage - Query for reflections at or before a moment
+ * @returns Promise<FeedPage> - The page and the cursor for the next one
+ */
+export async function loadFeedPage<T extends FeedItem>(
+  cursor: FeedCursor | null,
+  pageSize: number,
+  fetchPage: FetchFeedPage<T>
+): Promise<FeedPage<T>> {
+  // Ask for enough to fill the page after dropping the ones already shown
+  const seen = new Set(cursor?.seenIds ?? [])
+  const limit = pageSize + seen.size
+  const fetched = await fetchPage(cursor?.createdAt ?? null, limit)
+  const items = fetched.filter((item) => !seen.has(item.id)).slice(0, pageSize)
+
+  // A short answer means the oldest reflection has been reached
+  if (fetched.length < limit || items.length === 0) {
+    return { items, cursor: null }
+  }
+
+  return { items, cursor: getFeedCursor(items, cursor) }
+}
+
+/**
+ * The cursor after a list of shown reflections
+ *
+ * @param items - Shown reflections, newest first
+ * @param previous - Cursor the items were loaded after
+ * @returns FeedCursor | null - Null when nothing was shown
+ */
+export function getFeedCursor(
+  items: FeedItem[],
+  previous: FeedCursor | null = null
+): FeedCursor | null {
+  const last = items[items.length - 1]
+  if (!last) return previous
+
+  const seenIds = items.filter((item) => item.createdAt === last.createdAt).map(({ id }) => id)
+  if (previous?.createdAt === last.createdAt) {
+    seenIds.unshift(...previous.seenIds)
+  }
+  return { createdAt: last.createdAt, seenIds }
+}
+
+/**
+ * Combine lists of reflections into one feed
+ *
+ * @param lists - Lists in order of precedence (the first copy of an id wins)
+ * @returns T[] - Unique reflections, newest first
+ */
+export function mergeFeedItems<T extends FeedItem>(...lists: T[][]): T[] {
+  const byId = new Map<string, T>()
+  for (const list of lists) {
+    for (const item of list) {
+      if (!byId.has(item.id)) {
+        byId.set(item.id, item)
+      }
+    }
+  }
+  return [...byId.values()].sort((a, b) => b.createdAt - a.createdAt)
+}
+
+/**
+ * Offsets of stacked items
+ *
+ * @param sizes - Height of each item (px)
+ * @param gap - Space between items (px)
+ * @returns number[] - Top of each item, plus the total height as the last entry
+ */
+export function getItemOffsets(sizes: number[], gap = 0): number[] {
+  const offsets = [0]
+  for (const [index, size] of sizes.entries()) {
+    offsets.push(offsets[index] + size + (index < sizes.length - 1 ? gap : 0))
+  }
+  return offsets
+}
+
+/**
+ * Items that overlap a viewport
+ *
+ * @param offsets - Result of getItemOffsets()
+ * @param viewTop - Top of the viewport relative to the list (px)
+ * @param viewBottom - Bottom of the viewport relative to the list (px)
+ * @param overscan - Extra items to render above and below
+ * @returns VisibleRange
+ */
+export function getVisibleRange(
+  offsets: number[],
+  viewTop: number,
+  viewBottom: number,
+  overscan = 0
+): VisibleRange {
+  const count = offsets.length - 1
+  if (count <= 0) {
+    return { start: 0, end: 0 }
+  }
+
+  // First item whose bottom is below the top of the viewport
+  let start = findFirst(offsets, viewTop, 1) - 1
+  // First item that starts below the bottom of the viewport
+  let end = findFirst(offsets, viewBottom, 0)
+
+  start = Math.max(0, Math.min(start, count - 1) - overscan)
+  end = Math.min(count, Math.max(end, start + 1) + overscan)
+  return { start, end }
+}
+
+/**
+ * Utility: Index of the first offset above a value, or the last index when
+ * none is (binary search)
+ */
+function findFirst(offsets: number[], value: number, from: number): number {
+  let low = from
+  let high = offsets.length - 1
+  while (low < high) {
+    const middle = (low + high) >> 1
+    if (offsets[middle] > value) {
+      high = middle
+    } else {
+      low = middle + 1
+    }
+  }
+  return low
+}
@@ -0,0 +1,30 @@
+/**
+ * Feed Module
+ *
+ * The dashboard's list of reflections, a page at a time
+ *
+ * Exports:
+ * - React hooks for paging through reflections and virtualizing the list
+ * - Cursor and layout helpers
+ */
+
+// React Hooks
+export { useReflectionFeed } from './useReflectionFeed'
+export { useWindowVirtualizer, type VirtualItem } from './useWindowVirtualizer'
+
+// Feed
+export {
+  FEED_PAGE_SIZE,
+  loadFeedPage,
+  getFeedCursor,
+  mergeFeedItems,
+  getItemOffsets,
+  getVisibleRange,
+  type FeedItem,
+  type FeedReflection,
+  type FeedFilter,
+  type FeedCursor,
+  type FeedPage,
+  type FetchFeedPage,
+  type VisibleRange,
+} from './feed'
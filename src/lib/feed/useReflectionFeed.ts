@@ -0,0 +1,242 @@
+/**
+ * useReflectionFeed Hook
+ *
+ * Pages through a user's reflections, newest first, with cursor queries on
+ * the indexed `createdAt` instead of loading every reflection at once.
+ *
+ * The newest page is a live query, so reflections that sync in (or change
+ * sync status) show up at the top. Once it loads, it becomes a live window
+ * from its oldest reflection to now, so new reflections grow the window
+ * instead of pushing older ones out of it. Older pages are loaded once, when
+ * the list scrolls near its end, and the cover thumbnails of each page are
+ * downloaded as soon as the page arrives.
+ *
+ * An optional filter narrows every query to a `createdAt` range and/or a
+ * prompt category; changing it starts over from the newest page.
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { db, useQuery } from '@/lib/db'
+import { prefetchThumbnails } from '@/lib/reflections'
+import {
+  FEED_PAGE_SIZE,
+  getFeedCursor,
+  loadFeedPage,
+  mergeFeedItems,
+  type FeedCursor,
+  type FeedFilter,
+  type FeedReflection,
+} from './feed'
+
+interface CreatedAtRange {
+  $gte?: number
+  $lt?: number
+  $lte?: number
+}
+
+// A createdAt condition names at least one bound (the where type rejects `{}`)
+type CreatedAtCondition =
+  | { $gte: number; $lt?: number; $lte?: number }
+  | { $lt: number; $lte?: number }
+  | { $lte: number }
+
+// Where clause of the feed queries, checked against the schema by useQuery/queryOnce
+// (a type rather than an interface: their where check needs an index-signature-compatible object)
+type FeedWhere = {
+  'user.id': string
+  createdAt?: CreatedAtCondition
+  'prompt.category'?: string
+}
+
+interface OlderPages {
+  feedKey: string
+  anchor: number // createdAt the live window starts at
+  items: FeedReflection[]
+  cursor: FeedCursor | null // Null once the oldest reflection is loaded
+}
+
+export function useReflectionFeed(
+  userProfileId: string | undefined,
+  filter: FeedFilter = {},
+  pageSize = FEED_PAGE_SIZE
+) {
+  const { start, end, category } = filter
+  // State below belongs to one user and filter
+  const feedKey = JSON.stringify([userProfileId, start, end, category])
+
+  // Oldest createdAt of the live window (null until the newest page loads)
+  const [anchor, setAnchor] = useState<{ feedKey: string; createdAt: number } | null>(null)
+  const [older, setOlder] = useState<OlderPages | null>(null)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const loadingRef = useRef(false)
+
+  const windowStart = anchor && anchor.feedKey === feedKey ? anchor.createdAt : null
+
+  const { data, isLoading, error: queryError } = useQuery(
+    userProfileId
+      ? {
+          reflections: {
+            $: {
+              where: getFeedWhere(userProfileId, category, {
+                $gte: Math.max(windowStart ?? 0, start ?? 0) || undefined,
+                $lt: end,
+              }),
+              order: {
+                createdAt: 'desc' as const,
+              },
+              ...(windowStart === null ? { limit: pageSize } : {}),
+            },
+            photo: {},
+            thumbnail: {},
+            photos: {
+              file: {},
+              thumbnail: {},
+            },
+            prompt: {},
+          },
+        }
+      : null
+  )
+
+  // Keep showing the newest page while the query switches to the live window
+  const liveRef = useRef<{ feedKey: string; items: FeedReflection[] } | null>(null)
+  if (data?.reflections && userProfileId) {
+    liveRef.current = { feedKey, items: data.reflections }
+  }
+  const live =
+    liveRef.current && liveRef.current.feedKey === feedKey ? liveRef.current.items : undefined
+
+  /**
+   * Anchor the live window at the oldest reflection of the newest page
+   */
+  useEffect(() => {
+    if (!userProfileId || windowStart !== null || !data?.reflections) return
+
+    const newest = data.reflections
+    const cursor = newest.length < pageSize ? null : getFeedCursor(newest)
+    setAnchor({ feedKey, createdAt: cursor?.createdAt ?? 0 })
+    setOlder({ feedKey, anchor: cursor?.createdAt ?? 0, items: [], cursor })
+  }, [userProfileId, feedKey, windowStart, data?.reflections, pageSize])
+
+  /**
+   * Download the thumbnails of the live window as it changes
+   */
+  useEffect(() => {
+    if (live) {
+      prefetchThumbnails(live)
+    }
+  }, [live])
+
+  const pages = older?.feedKey === feedKey ? older : null
+
+  /**
+   * Load the next older page
+   */
+  const loadMore = useCallback(async () => {
+    if (!userProfileId || !pages?.cursor || loadingRef.current) return
+
+    loadingRef.current = true
+    setIsLoadingMore(true)
+    setError(null)
+
+    try {
+      const page = await loadFeedPage<FeedReflection>(
+        pages.cursor,
+        pageSize,
+        async (before, limit) => {
+          const { data: pageData } = await db.queryOnce({
+            reflections: {
+              $: {
+                where: getFeedWhere(
+                  userProfileId,
+                  category,
+                  // Pages are inside the range, so `before` is already below its end
+                  before === null ? { $gte: start, $lt: end } : { $gte: start, $lte: before }
+                ),
+                order: {
+                  createdAt: 'desc' as const,
+                },
+                limit,
+              },
+              photo: {},
+              thumbnail: {},
+              photos: {
+                file: {},
+                thumbnail: {},
+              },
+              prompt: {},
+            },
+          })
+          return pageData.reflections
+        }
+      )
+
+      prefetchThumbnails(page.items)
+      setOlder((current) =>
+        current?.feedKey === feedKey && current.anchor === pages.anchor
+          ? { ...current, items: [...current.items, ...page.items], cursor: page.cursor }
+          : current
+      )
+    } catch (err) {
+      console.error('Error loading reflections:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load reflections')
+    } finally {
+      loadingRef.current = false
+      setIsLoadingMore(false)
+    }
+  }, [userProfileId, feedKey, category, start, end, pages, pageSize])
+
+  // The live window wins over loaded copies of the same reflection
+  const reflections = useMemo(
+    () => (live ? mergeFeedItems(live, pages?.items ?? []) : undefined),
+    [live, pages?.items]
+  )
+
+  return {
+    // State
+    reflections,
+    isLoading: !!userProfileId && !live && isLoading,
+    isLoadingMore,
+    hasMore: !!pages?.cursor,
+    error: error ?? queryError?.message ?? null,
+
+    // Functions
+    loadMore,
+  }
+}
+
+/**
+ * Utility: Where clause for one user's reflections in a createdAt range,
+ * optionally of one prompt category
+ */
+function getFeedWhere(
+  userProfileId: string,
+  category: string | undefined,
+  createdAt: CreatedAtRange
+): FeedWhere {
+  const condition = getCreatedAtCondition(createdAt)
+  return {
+    'user.id': userProfileId,
+    ...(condition ? { createdAt: condition } : {}),
+    ...(category ? { 'prompt.category': category } : {}),
+  }
+}
+
+/**
+ * Utility: createdAt condition with the bounds that are set (undefined when none is)
+ */
+function getCreatedAtCondition({
+  $gte,
+  $lt,
+  $lte,
+}: CreatedAtRange): CreatedAtCondition | undefined {
+  const upper = {
+    ...($lt !== undefined ? { $lt } : {}),
+    ...($lte !== undefined ? { $lte } : {}),
+  }
+  if ($gte !== undefined) return { $gte, ...upper }
+  if ($lt !== undefined) return { $lt, ...($lte !== undefined ? { $lte } : {}) }
+  if ($lte !== undefined) return { $lte }
+  return undefined
+}
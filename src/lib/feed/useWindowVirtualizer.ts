@@ -0,0 +1,143 @@
+/**
+ * useWindowVirtualizer Hook
+ *
+ * Renders only the items of a long list that are near the viewport while
+ * the page itself scrolls. Items are measured as they render (cards change
+ * height when a reflection is expanded), and unmeasured items use an
+ * estimate. Heights are kept by item key, so items added at the top don't
+ * shift the measurements of the rest.
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { getItemOffsets, getVisibleRange } from './feed'
+
+interface WindowVirtualizerOptions {
+  keys: string[] // One stable key per item, in order
+  estimateSize: number // Height of an unmeasured item (px)
+  gap?: number // Space between items (px)
+  overscan?: number // Extra items to render above and below the viewport
+}
+
+export interface VirtualItem {
+  key: string
+  index: number
+  offset: number // Top of the item relative to the list (px)
+}
+
+export function useWindowVirtualizer({
+  keys,
+  estimateSize,
+  gap = 0,
+  overscan = 3,
+}: WindowVirtualizerOptions) {
+  const listRef = useRef<HTMLDivElement | null>(null)
+  const [sizes, setSizes] = useState<Map<string, number>>(new Map())
+  const [view, setView] = useState({ top: 0, bottom: 0 })
+
+  const offsets = useMemo(
+    () => getItemOffsets(keys.map((key) => sizes.get(key) ?? estimateSize), gap),
+    [keys, sizes, estimateSize, gap]
+  )
+
+  /**
+   * Utility: Read the viewport relative to the top of the list (once per frame)
+   */
+  const frameRef = useRef(0)
+  const updateView = useCallback(() => {
+    cancelAnimationFrame(frameRef.current)
+    frameRef.current = requestAnimationFrame(() => {
+      const list = listRef.current
+      if (!list) return
+      const top = -list.getBoundingClientRect().top
+      setView({ top, bottom: top + window.innerHeight })
+    })
+  }, [])
+
+  /**
+   * Track the viewport while the page scrolls or resizes
+   */
+  useEffect(() => {
+    updateView()
+    window.addEventListener('scroll', updateView, { passive: true })
+    window.addEventListener('resize', updateView)
+
+    return () => {
+      cancelAnimationFrame(frameRef.current)
+      window.removeEventListener('scroll', updateView)
+      window.removeEventListener('resize', updateView)
+    }
+  }, [updateView])
+
+  // Content above the list can move it without a scroll
+  const totalSize = offsets[offsets.length - 1]
+  // biome-ignore lint/correctness/useExhaustiveDependencies: re-read the viewport when the list's height changes
+  useEffect(() => {
+    updateView()
+  }, [updateView, totalSize])
+
+  // One observer measures every rendered item
+  const observerRef = useRef<ResizeObserver | null>(null)
+
+  /**
+   * Utility: The shared observer (created on first use, since item refs
+   * attach before effects run)
+   */
+  const getObserver = useCallback(() => {
+    if (!observerRef.current) {
+      observerRef.current = new ResizeObserver((entries) => {
+        setSizes((current) => {
+          let next = current
+          for (const entry of entries) {
+            const element = entry.target as HTMLElement
+            const key = element.dataset.virtualKey
+            const size = element.offsetHeight
+            // Detached items report 0; keep their last height
+            if (key && element.isConnected && current.get(key) !== size) {
+              if (next === current) next = new Map(current)
+              next.set(key, size)
+            }
+          }
+          return next
+        })
+      })
+    }
+    return observerRef.current
+  }, [])
+
+  useEffect(() => {
+    return () => {
+      observerRef.current?.disconnect()
+      observerRef.current = null
+    }
+  }, [])
+
+  /**
+   * Ref callback for a rendered item (it must carry `data-virtual-key`)
+   */
+  const measureElement = useCallback(
+    (element: HTMLElement | null) => {
+      if (!element) return
+      const observer = getObserver()
+      observer.observe(element)
+      return () => observer.unobserve(element)
+    },
+    [getObserver]
+  )
+
+  const range = getVisibleRange(offsets, view.top, view.bottom, overscan)
+  const items: VirtualItem[] = []
+  for (let index = range.start; index < range.end; index++) {
+    items.push({ key: keys[index], index, offset: offsets[index] })
+  }
+
+  return {
+    // State
+    listRef,
+    items,
+    totalSize,
+    lastVisibleIndex: range.end - 1,
+
+    // Functions
+    measureElement,
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getGalleryItems,
+  getGalleryRange,
+  getGalleryYears,
+  getSwipeDirection,
+  type GalleryReflection,
+} from './gallery'
+
+function createFile(id: string) {
+  return { id, path: `files/${id}`, url: `https://files.test/${id}` }
+}
+
+describe('Gallery', () => {
+  it('should list every photo, newest reflection first', () => {
+    const reflections: GalleryReflection[] = [
+      {
+        id: 'older',
+        createdAt: 1000,
+        reflectionText: 'sealed',
+        encryptionAlgorithm: 'envelope',
+        photo: createFile('legacy'),
+        thumbnail: createFile('legacy-thumb'),
+      },
+      {
+        id: 'newer',
+        createdAt: 2000,
+        reflectionText: 'sealed',
+        photos: [
+          { id: 'p2', position: 1, file: createFile('f2'), thumbnail: createFile('t2') },
+          { id: 'p1', position: 0, file: createFile('f1'), thumbnail: createFile('t1') },
+        ],
+      },
+      { id: 'text-only', createdAt: 3000, reflectionText: 'sealed' },
+    ]
+
+    const items = getGalleryItems(reflections)
+    expect(items.map(({ key }) => key)).toEqual(['newer:p1', 'newer:p2', 'older:legacy'])
+    expect(items[1]).toMatchObject({ index: 1, count: 2 })
+    expect(items[2].photo.isLegacy).toBe(true)
+  })
+
+  it('should turn filters into createdAt ranges in the user timezone', () => {
+    expect(getGalleryRange({}, 'UTC')).toEqual({})
+    expect(getGalleryRange({ year: 2025 }, 'America/New_York')).toEqual({
+      start: Date.UTC(2025, 0, 1, 5, 0),
+      end: Date.UTC(2026, 0, 1, 5, 0),
+    })
+
+    // A month wins over the year
+    expect(getGalleryRange({ year: 2024, month: '2025-06' }, 'UTC')).toEqual({
+      start: Date.UTC(2025, 5, 1),
+      end: Date.UTC(2025, 6, 1),
+    })
+  })
+
+  it('should offer the years since the first reflection', () => {
+    const now = Date.UTC(2026, 0, 1, 2, 0)
+
+    // Still 2025 in Los Angeles
+    expect(getGalleryYears(Date.UTC(2023, 5, 1), now, 'America/Los_Angeles')).toEqual([
+      2025, 2024, 2023,
+    ])
+    expect(getGalleryYears(undefined, now, 'UTC')).toEqual([2026])
+  })
+
+  it('should tell swipes from scrolls', () => {
+    expect(getSwipeDirection(-80, 10)).toBe(1)
+    expect(getSwipeDirection(80, -10)).toBe(-1)
+    expect(getSwipeDirection(30, 0)).toBe(0)
+    expect(getSwipeDirection(-80, 120)).toBe(0)
+  })
+})
@@ -0,0 +1,134 @@
+/**
+ * Gallery
+ *
+ * Every photo of a user's reflections as one list, the filters that narrow
+ * it (year, month, prompt category) and the swipe gesture of the lightbox.
+ *
+ * Years and months follow the user's timezone, and a filter becomes a
+ * `createdAt` range so only matching reflections are queried.
+ */
+
+import { getMonthRange, getStartOfDay, isMonthKey } from '@/lib/dates/calendar'
+import { getDateKey } from '@/lib/dates/dayKeys'
+import { getOrderedPhotos, type PhotoSource } from '@/lib/reflections/photos'
+import type { RevisionFields, ThumbnailSource } from '@/lib/reflections'
+
+export const SWIPE_THRESHOLD = 50 // Horizontal movement (px) that turns a photo
+
+export interface GalleryFilter {
+  year?: number
+  month?: string // 'YYYY-MM' (wins over year)
+  category?: string // Prompt category
+}
+
+export interface GalleryReflection extends ThumbnailSource, RevisionFields {
+  createdAt: number
+  prompt?: {
+    id: string
+    promptText: string
+    category?: string
+  }
+}
+
+export interface GalleryItem {
+  key: string // Unique per photo
+  reflection: GalleryReflection
+  photo: PhotoSource
+  index: number // Position of the photo within its reflection
+  count: number // Photos of the reflection
+}
+
+/**
+ * Photos of reflections in gallery order
+ *
+ * @param reflections - Reflections with their photo links
+ * @returns GalleryItem[] - Newest reflection first, each reflection's photos in order
+ */
+export function getGalleryItems(reflections: GalleryReflection[]): GalleryItem[] {
+  const items: GalleryItem[] = []
+  for (const reflection of [...reflections].sort((a, b) => b.createdAt - a.createdAt)) {
+    const photos = getOrderedPhotos(reflection)
+    for (const [index, photo] of photos.entries()) {
+      items.push({
+        key: `${reflection.id}:${photo.id}`,
+        reflection,
+        photo,
+        index,
+        count: photos.length,
+      })
+    }
+  }
+  return items
+}
+
+/**
+ * The createdAt range of a filter
+ *
+ * @param filter - Year and/or month
+ * @param timeZone - IANA timezone
+ * @returns { start, end } | {} - Empty when every date matches
+ */
+export function getGalleryRange(
+  filter: GalleryFilter,
+  timeZone: string
+): { start?: number; end?: number } {
+  if (filter.month && isMonthKey(filter.month)) {
+    return getMonthRange(filter.month, timeZone)
+  }
+  if (filter.year) {
+    return {
+      start: getStartOfDay(`${formatYear(filter.year)}-01-01`, timeZone),
+      end: getStartOfDay(`${formatYear(filter.year + 1)}-01-01`, timeZone),
+    }
+  }
+  return {}
+}
+
+/**
+ * Years the user can filter by
+ *
+ * @param firstCreatedAt - createdAt of the first reflection (undefined without any)
+ * @param now - Current time (Unix ms)
+ * @param timeZone - IANA timezone
+ * @returns number[] - Newest first
+ */
+export function getGalleryYears(
+  firstCreatedAt: number | undefined,
+  now: number,
+  timeZone: string
+): number[] {
+  const current = Number(getDateKey(now, timeZone).slice(0, 4))
+  const first = firstCreatedAt ? Number(getDateKey(firstCreatedAt, timeZone).slice(0, 4)) : current
+  const years: number[] = []
+  for (let year = current; year >= Math.min(first, current); year--) {
+    years.push(year)
+  }
+  return years
+}
+
+/**
+ * Direction of a swipe
+ *
+ * @param deltaX - Horizontal movement (px, positive to the right)
+ * @param deltaY - Vertical movement (px)
+ * @param threshold - Minimum horizontal movement
+ * @returns 1 for the next photo (swipe left), -1 for the previous one, 0 for neither
+ */
+export function getSwipeDirection(
+  deltaX: number,
+  deltaY: number,
+  threshold = SWIPE_THRESHOLD
+): -1 | 0 | 1 {
+  // Mostly vertical movement is a scroll, not a swipe
+  if (Math.abs(deltaX) < threshold || Math.abs(deltaX) <= Math.abs(deltaY)) {
+    return 0
+  }
+  return deltaX < 0 ? 1 : -1
+}
+
+/**
+ * Utility: Four-digit year
+ */
+function formatYear(year: number): string {
+  return String(year).padStart(4, '0')
+}
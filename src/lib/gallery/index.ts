@@ -0,0 +1,21 @@
+/**
+ * Gallery Module
+ *
+ * Every photo of a user's reflections, filtered by date and prompt category
+ *
+ * Exports:
+ * - Gallery items, filter ranges and filter years
+ * - Swipe detection for the lightbox
+ */
+
+// Gallery
+export {
+  SWIPE_THRESHOLD,
+  getGalleryItems,
+  getGalleryRange,
+  getGalleryYears,
+  getSwipeDirection,
+  type GalleryFilter,
+  type GalleryReflection,
+  type GalleryItem,
+} from './gallery'
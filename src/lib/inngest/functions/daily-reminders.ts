@@ -0,0 +1,120 @@
+/**
+ * Daily Reminder Function
+ *
+ * Runs every 15 minutes and sends a push reminder to users whose reminder
+ * time has come in their own timezone and who haven't written today's
+ * reflection yet (see src/lib/reminders). Without VAPID keys nothing can be
+ * delivered, so the run is skipped.
+ */
+
+import { inngest } from '../client'
+import { adminDb, tx } from '@/lib/db/backend'
+import { env } from '@/env'
+import { sendDueReminders, REMINDER_CRON, type ReminderDeps } from '@/lib/reminders/reminders'
+import { getPushSender, type PushSender, type VapidKeys } from '@/lib/reminders/pushSender'
+
+/**
+ * Send the reminders that are due
+ */
+export const sendDailyReminders = inngest.createFunction(
+  {
+    id: 'send-daily-reminders',
+    name: 'Send Daily Reflection Reminders',
+    concurrency: 1, // Overlapping runs could remind someone twice
+  },
+  { cron: REMINDER_CRON },
+  async ({ step }) => {
+    const sender = getPushSender(getVapidKeys())
+    if (!sender) {
+      console.warn('🔔 VAPID keys are not configured; skipping reminders')
+      return { reminded: 0, sent: 0, expired: 0 }
+    }
+
+    const result = await step.run('send-due-reminders', async () => {
+      return await sendDueReminders(createReminderDeps(sender))
+    })
+
+    console.log(
+      `🔔 Reminded ${result.reminded} user(s) on ${result.sent} device(s), ` +
+        `removed ${result.expired} expired subscription(s)`
+    )
+
+    return result
+  }
+)
+
+/**
+ * Utility: VAPID keys from the environment (null when not configured)
+ */
+function getVapidKeys(): VapidKeys | null {
+  return env.VITE_VAPID_PUBLIC_KEY && env.VAPID_PRIVATE_KEY
+    ? {
+        publicKey: env.VITE_VAPID_PUBLIC_KEY,
+        privateKey: env.VAPID_PRIVATE_KEY,
+        subject: env.VAPID_SUBJECT ?? 'mailto:support@reflections.app',
+      }
+    : null
+}
+
+/**
+ * Utility: Reminder dependencies backed by the admin SDK
+ */
+function createReminderDeps(sender: PushSender): ReminderDeps {
+  return {
+    getCandidates: async () => {
+      const { userSettings } = await adminDb.query({
+        userSettings: {
+          $: {
+            where: {
+              remindersEnabled: true,
+            },
+          },
+          user: {
+            pushSubscriptions: {},
+          },
+        },
+      })
+
+      return userSettings.flatMap((settings) =>
+        settings.user
+          ? [
+              {
+                settingsId: settings.id,
+                userProfileId: settings.user.id,
+                reminderTime: settings.reminderTime ?? null,
+                timezone: settings.timezone ?? null,
+                lastReminderDate: settings.lastReminderDate ?? null,
+                subscriptions: settings.user.pushSubscriptions.map((subscription) => ({
+                  id: subscription.id,
+                  endpoint: subscription.endpoint,
+                })),
+              },
+            ]
+          : []
+      )
+    },
+    getLastReflectionAt: async (userProfileId) => {
+      const { reflections } = await adminDb.query({
+        reflections: {
+          $: {
+            where: {
+              'user.id': userProfileId,
+            },
+            order: {
+              createdAt: 'desc',
+            },
+            limit: 1,
+          },
+        },
+      })
+      return reflections[0]?.createdAt ?? null
+    },
+    markReminded: async (settingsId, dateKey) => {
+      await adminDb.transact(tx.userSettings[settingsId].update({ lastReminderDate: dateKey }))
+    },
+    deleteSubscription: async (subscriptionId) => {
+      await adminDb.transact(tx.pushSubscriptions[subscriptionId].delete())
+    },
+    sender,
+  }
+}
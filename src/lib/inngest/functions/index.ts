@@ -14,3 +14,15 @@ export {
   generateReflectionPrompts,
 } from './generate-prompts'
 
+export {
+  sendDailyReminders,
+} from './daily-reminders'
+
+export {
+  updateUserStreak,
+  refreshStreaks,
+} from './streaks'
+
+export {
+  collectSummaryMemories,
+} from './memories'
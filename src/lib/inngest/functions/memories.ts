@@ -0,0 +1,118 @@
+/**
+ * Memory Functions
+ *
+ * Finds a user's "On this day" memories for their email summary (see
+ * src/lib/memories). The summary job invokes it for each recipient and adds
+ * the rendered section to the email:
+ *
+ *   const { section } = await step.invoke('memories', {
+ *     function: collectSummaryMemories,
+ *     data: { userProfileId },
+ *   })
+ *
+ * It can also be triggered with the `memories/summary.requested` event.
+ */
+
+import { inngest } from '../client'
+import { adminDb } from '@/lib/db/backend'
+import { env } from '@/env'
+import {
+  getSummaryMemories,
+  renderMemoriesSection,
+  MEMORIES_EVENT,
+  type MemoryDeps,
+} from '@/lib/memories/memories'
+
+/**
+ * Collect and render one user's memories for their next summary
+ */
+export const collectSummaryMemories = inngest.createFunction(
+  {
+    id: 'collect-summary-memories',
+    name: 'Collect Summary Memories',
+  },
+  { event: MEMORIES_EVENT },
+  async ({ event, step }) => {
+    const { userProfileId } = event.data as { userProfileId: string }
+
+    const summary = await step.run('find-memories', async () => {
+      return await getSummaryMemories(userProfileId, createMemoryDeps())
+    })
+
+    if (!summary) {
+      return { summary: null, section: null }
+    }
+
+    console.log(`📅 Found ${summary.memories.length} memory day(s) for ${userProfileId}`)
+
+    return {
+      summary,
+      section: renderMemoriesSection(summary, env.SERVER_URL || 'http://localhost:3000'),
+    }
+  }
+)
+
+/**
+ * Utility: Memory dependencies backed by the admin SDK
+ */
+function createMemoryDeps(): MemoryDeps {
+  return {
+    getMemoryInput: async (userProfileId) => {
+      const { userProfiles, reflections } = await adminDb.query({
+        userProfiles: {
+          $: {
+            where: {
+              id: userProfileId,
+            },
+          },
+          settings: {},
+        },
+        reflections: {
+          $: {
+            where: {
+              'user.id': userProfileId,
+            },
+            order: {
+              createdAt: 'asc' as const,
+            },
+            limit: 1,
+          },
+        },
+      })
+
+      const profile = userProfiles[0]
+      if (!profile) return null
+
+      return {
+        timezone: profile.settings?.timezone ?? null,
+        includeMonths: profile.settings?.memoriesIncludeMonths ?? false,
+        cadence: profile.settings?.emailCadence ?? null,
+        firstCreatedAt: reflections[0]?.createdAt ?? null,
+      }
+    },
+    getReflections: async (userProfileId, ranges) => {
+      const { reflections } = await adminDb.query({
+        reflections: {
+          $: {
+            where: {
+              'user.id': userProfileId,
+              or: ranges.map((range) => ({
+                createdAt: { $gte: range.start, $lt: range.end },
+              })),
+            },
+          },
+          photo: {},
+          photos: {},
+          prompt: {},
+        },
+      })
+
+      return reflections.map((reflection) => ({
+        id: reflection.id,
+        createdAt: reflection.createdAt,
+        promptText: reflection.prompt?.promptText ?? null,
+        photoCount: reflection.photos.length || (reflection.photo ? 1 : 0),
+      }))
+    },
+  }
+}
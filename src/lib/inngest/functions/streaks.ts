@@ -0,0 +1,152 @@
+/**
+ * Streak Functions
+ *
+ * Keeps every user's `streaks` row up to date (see src/lib/streaks):
+ * - After a change the app reports (new or deleted reflection, grace days)
+ * - Hourly, for streaks computed on an earlier local day, so a streak that
+ *   ended at midnight shows as ended on the dashboard and in emails
+ */
+
+import { inngest } from '../client'
+import { adminDb, tx } from '@/lib/db/backend'
+import { id } from '@instantdb/admin'
+import {
+  updateStreak,
+  refreshStaleStreaks,
+  STREAK_CRON,
+  type StreakDeps,
+} from '@/lib/streaks/streaks'
+import { STREAK_UPDATE_EVENT } from '@/lib/streaks/requestStreakUpdate'
+
+/**
+ * Recompute one user's streak
+ */
+export const updateUserStreak = inngest.createFunction(
+  {
+    id: 'update-user-streak',
+    name: 'Update User Streak',
+    // One run per user at a time, so a milestone isn't recorded twice
+    concurrency: {
+      key: 'event.data.userProfileId',
+      limit: 1,
+    },
+  },
+  { event: STREAK_UPDATE_EVENT },
+  async ({ event, step }) => {
+    const { userProfileId } = event.data as { userProfileId: string }
+
+    const result = await step.run('update-streak', async () => {
+      return await updateStreak(userProfileId, createStreakDeps())
+    })
+
+    if (result?.newMilestones.length) {
+      console.log(
+        `🏆 ${userProfileId} reached ${result.newMilestones.map((m) => m.days).join(', ')} days`
+      )
+    }
+
+    return result
+  }
+)
+
+/**
+ * Roll streaks over to each user's new day
+ */
+export const refreshStreaks = inngest.createFunction(
+  {
+    id: 'refresh-streaks',
+    name: 'Refresh Streaks',
+    concurrency: 1,
+  },
+  { cron: STREAK_CRON },
+  async ({ step }) => {
+    const updated = await step.run('refresh-stale-streaks', async () => {
+      return await refreshStaleStreaks(createStreakDeps())
+    })
+
+    console.log(`🔥 Refreshed ${updated} streak(s)`)
+
+    return { updated }
+  }
+)
+
+/**
+ * Utility: Streak dependencies backed by the admin SDK
+ */
+function createStreakDeps(): StreakDeps {
+  return {
+    getStreakInput: async (userProfileId) => {
+      const { userProfiles } = await adminDb.query({
+        userProfiles: {
+          $: {
+            where: {
+              id: userProfileId,
+            },
+          },
+          settings: {},
+          reflections: {},
+          streakMilestones: {},
+        },
+      })
+
+      const profile = userProfiles[0]
+      if (!profile) return null
+
+      return {
+        timezone: profile.settings?.timezone ?? null,
+        graceDays: profile.settings?.streakGraceDays ?? null,
+        reflectionTimestamps: profile.reflections.map((reflection) => reflection.createdAt),
+        milestones: profile.streakMilestones.map((milestone) => ({
+          days: milestone.days,
+          streakStart: milestone.streakStart,
+        })),
+      }
+    },
+    saveStreak: async (userProfileId, record) => {
+      const { streaks } = await adminDb.query({
+        streaks: {
+          $: {
+            where: {
+              'user.id': userProfileId,
+            },
+          },
+        },
+      })
+
+      await adminDb.transact(
+        tx.streaks[streaks[0]?.id ?? id()].update({ ...record }).link({ user: userProfileId })
+      )
+    },
+    addMilestones: async (userProfileId, milestones) => {
+      const createdAt = Date.now()
+      await adminDb.transact(
+        milestones.map((milestone) =>
+          tx.streakMilestones[id()]
+            .update({ ...milestone, createdAt })
+            .link({ user: userProfileId })
+        )
+      )
+    },
+    getStoredStreaks: async () => {
+      const { streaks } = await adminDb.query({
+        streaks: {
+          user: {
+            settings: {},
+          },
+        },
+      })
+
+      return streaks.flatMap((streak) =>
+        streak.user
+          ? [
+              {
+                userProfileId: streak.user.id,
+                timezone: streak.user.settings?.timezone ?? null,
+                computedDate: streak.computedDate,
+              },
+            ]
+          : []
+      )
+    },
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Insights Module
+ *
+ * Mood over time and tag frequency from reflection metadata
+ *
+ * Exports:
+ * - React hook that decrypts metadata and computes insights for a range
+ * - Insight calculations (no React)
+ */
+
+// React Hook
+export { useInsights } from './useInsights'
+
+// Insights
+export {
+  getInsightRange,
+  getMoodPoints,
+  getTagCounts,
+  getInsights,
+  INSIGHT_RANGES,
+  DEFAULT_INSIGHT_RANGE,
+  MAX_CHART_TAGS,
+  type InsightRangeKey,
+  type InsightEntry,
+  type InsightRange,
+  type MoodPoint,
+  type TagCount,
+  type Insights,
+} from './insights'
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getInsightRange,
+  getMoodPoints,
+  getTagCounts,
+  getInsights,
+  type InsightEntry,
+} from './insights'
+
+/**
+ * Decrypted reflection at a time
+ */
+function entry(
+  iso: string,
+  mood: number | null,
+  tags: string[] = [],
+  children: string[] = []
+): InsightEntry {
+  return { createdAt: Date.parse(iso), metadata: { mood, tags, children } }
+}
+
+describe('Insights', () => {
+  describe('getInsightRange', () => {
+    it('should end today and start at local midnight', () => {
+      const now = Date.parse('2025-03-14T12:00:00Z')
+
+      expect(getInsightRange(30, 'UTC', now)).toEqual({
+        startKey: '2025-02-13',
+        endKey: '2025-03-14',
+        days: 30,
+        start: Date.parse('2025-02-13T00:00:00Z'),
+      })
+      expect(getInsightRange(1, 'Europe/Berlin', now).start).toBe(
+        Date.parse('2025-03-13T23:00:00Z')
+      )
+    })
+  })
+
+  describe('getMoodPoints', () => {
+    it('should average moods per local day, oldest first', () => {
+      const entries = [
+        entry('2025-03-02T10:00:00Z', 5),
+        entry('2025-03-01T10:00:00Z', 2),
+        entry('2025-03-01T18:00:00Z', 3),
+        entry('2025-03-01T19:00:00Z', null),
+      ]
+
+      expect(getMoodPoints(entries, 'UTC')).toEqual([
+        { dateKey: '2025-03-01', mood: 2.5, count: 2 },
+        { dateKey: '2025-03-02', mood: 5, count: 1 },
+      ])
+    })
+
+    it('should use the user timezone for the day', () => {
+      const entries = [entry('2025-03-01T23:30:00Z', 4)]
+
+      expect(getMoodPoints(entries, 'UTC')[0].dateKey).toBe('2025-03-01')
+      expect(getMoodPoints(entries, 'Europe/Berlin')[0].dateKey).toBe('2025-03-02')
+    })
+  })
+
+  describe('getTagCounts', () => {
+    it('should count tags with the average mood of their reflections', () => {
+      const entries = [
+        entry('2025-03-01T10:00:00Z', 4, ['beach', 'family']),
+        entry('2025-03-02T10:00:00Z', 2, ['beach']),
+        entry('2025-03-03T10:00:00Z', null, ['zoo', 'family']),
+        entry('2025-03-04T10:00:00Z', null, ['alps']),
+      ]
+
+      expect(getTagCounts(entries, 'tags')).toEqual([
+        { name: 'beach', count: 2, averageMood: 3 },
+        { name: 'family', count: 2, averageMood: 4 },
+        { name: 'alps', count: 1, averageMood: null },
+        { name: 'zoo', count: 1, averageMood: null },
+      ])
+    })
+
+    it('should count names that differ only in case together', () => {
+      const entries = [
+        entry('2025-03-01T10:00:00Z', 5, [], ['Ada']),
+        entry('2025-03-02T10:00:00Z', 3, [], ['ada', 'Max']),
+      ]
+
+      expect(getTagCounts(entries, 'children')).toEqual([
+        { name: 'Ada', count: 2, averageMood: 4 },
+        { name: 'Max', count: 1, averageMood: 3 },
+      ])
+    })
+  })
+
+  describe('getInsights', () => {
+    it('should summarize a range', () => {
+      const insights = getInsights(
+        [
+          entry('2025-03-01T10:00:00Z', 4, ['beach']),
+          entry('2025-03-02T10:00:00Z', 1),
+          entry('2025-03-03T10:00:00Z', null),
+        ],
+        'UTC'
+      )
+
+      expect(insights).toMatchObject({ reflectionCount: 3, moodCount: 2, averageMood: 2.5 })
+      expect(insights.tags).toHaveLength(1)
+      expect(insights.children).toEqual([])
+    })
+
+    it('should have no average without moods', () => {
+      expect(getInsights([], 'UTC')).toMatchObject({ averageMood: null, moodPoints: [] })
+    })
+  })
+})
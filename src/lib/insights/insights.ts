@@ -0,0 +1,153 @@
+/**
+ * Insights
+ *
+ * Mood over time and how often tags and children come up, computed from
+ * reflection metadata (see src/lib/reflections/metadata.ts). Metadata is
+ * end-to-end encrypted, so insights are always computed on the device after
+ * decrypting; the server never sees moods or tags.
+ *
+ * Days follow the user's stored timezone (see src/lib/dates).
+ */
+
+import { getStartOfDay } from '@/lib/dates/calendar'
+import { getDateKey, shiftDateKey } from '@/lib/dates/dayKeys'
+import type { ReflectionMetadata } from '@/lib/reflections'
+
+export const INSIGHT_RANGES = [
+  { key: '30d', label: '30 days', days: 30 },
+  { key: '90d', label: '90 days', days: 90 },
+  { key: '1y', label: 'Year', days: 365 },
+] as const
+
+export type InsightRangeKey = (typeof INSIGHT_RANGES)[number]['key']
+
+export const DEFAULT_INSIGHT_RANGE: InsightRangeKey = '30d'
+export const MAX_CHART_TAGS = 10 // Most frequent tags (or children) charted
+
+export interface InsightEntry {
+  createdAt: number
+  metadata: ReflectionMetadata
+}
+
+export interface InsightRange {
+  startKey: string // First day ('YYYY-MM-DD')
+  endKey: string // Last day (today)
+  days: number
+  start: number // Local midnight starting the first day (Unix ms)
+}
+
+export interface MoodPoint {
+  dateKey: string
+  mood: number // Average of the day's moods
+  count: number // Reflections with a mood that day
+}
+
+export interface TagCount {
+  name: string
+  count: number // Reflections with the tag (or child)
+  averageMood: number | null // Average mood of those reflections
+}
+
+export interface Insights {
+  moodPoints: MoodPoint[] // Oldest first
+  averageMood: number | null
+  tags: TagCount[] // Most frequent first
+  children: TagCount[]
+  reflectionCount: number
+  moodCount: number // Reflections with a mood
+}
+
+/**
+ * Days covered by a range, ending today
+ *
+ * @param days - Length of the range
+ * @param timeZone - IANA timezone
+ * @param now - Current time (Unix ms)
+ * @returns InsightRange
+ */
+export function getInsightRange(days: number, timeZone: string, now = Date.now()): InsightRange {
+  const endKey = getDateKey(now, timeZone)
+  const startKey = shiftDateKey(endKey, 1 - days)
+  return { startKey, endKey, days, start: getStartOfDay(startKey, timeZone) }
+}
+
+/**
+ * Average mood per day
+ *
+ * @param entries - Decrypted reflections
+ * @param timeZone - IANA timezone
+ * @returns MoodPoint[] - Days with at least one mood, oldest first
+ */
+export function getMoodPoints(entries: InsightEntry[], timeZone: string): MoodPoint[] {
+  const days = new Map<string, { total: number; count: number }>()
+
+  for (const { createdAt, metadata } of entries) {
+    if (metadata.mood === null) continue
+    const dateKey = getDateKey(createdAt, timeZone)
+    const day = days.get(dateKey) ?? { total: 0, count: 0 }
+    day.total += metadata.mood
+    day.count++
+    days.set(dateKey, day)
+  }
+
+  return [...days.entries()]
+    .map(([dateKey, { total, count }]) => ({ dateKey, mood: total / count, count }))
+    .sort((a, b) => a.dateKey.localeCompare(b.dateKey))
+}
+
+/**
+ * How often each tag (or child) comes up
+ * Names that differ only in case are counted together, under their first spelling
+ *
+ * @param entries - Decrypted reflections
+ * @param field - 'tags' or 'children'
+ * @returns TagCount[] - Most frequent first, then alphabetical
+ */
+export function getTagCounts(entries: InsightEntry[], field: 'tags' | 'children'): TagCount[] {
+  const counts = new Map<
+    string,
+    { name: string; count: number; moodTotal: number; moods: number }
+  >()
+
+  for (const { metadata } of entries) {
+    for (const name of metadata[field]) {
+      const key = name.toLowerCase()
+      const count = counts.get(key) ?? { name, count: 0, moodTotal: 0, moods: 0 }
+      count.count++
+      if (metadata.mood !== null) {
+        count.moodTotal += metadata.mood
+        count.moods++
+      }
+      counts.set(key, count)
+    }
+  }
+
+  return [...counts.values()]
+    .map(({ name, count, moodTotal, moods }) => ({
+      name,
+      count,
+      averageMood: moods > 0 ? moodTotal / moods : null,
+    }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+}
+
+/**
+ * Everything the insights page charts
+ *
+ * @param entries - Decrypted reflections in the range
+ * @param timeZone - IANA timezone
+ * @returns Insights
+ */
+export function getInsights(entries: InsightEntry[], timeZone: string): Insights {
+  const moods = entries.flatMap(({ metadata }) => (metadata.mood === null ? [] : [metadata.mood]))
+
+  return {
+    moodPoints: getMoodPoints(entries, timeZone),
+    averageMood:
+      moods.length > 0 ? moods.reduce((sum, mood) => sum + mood, 0) / moods.length : null,
+    tags: getTagCounts(entries, 'tags'),
+    children: getTagCounts(entries, 'children'),
+    reflectionCount: entries.length,
+    moodCount: moods.length,
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * useInsights Hook
+ *
+ * Mood and tag insights for the last 30 days, 90 days or year. Only the
+ * `createdAt` and metadata envelope of each reflection in the range are
+ * queried (no text or photos); envelopes are decrypted on this device, once
+ * each, and reflections without metadata are counted but never decrypted.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useQuery } from '@/lib/db'
+import { useTimeZone } from '@/lib/dates'
+import { useEncryption, ENVELOPE_FORMAT } from '@/lib/encryption'
+import { parseMetadata, EMPTY_METADATA, type ReflectionMetadata } from '@/lib/reflections'
+import { getInsightRange, getInsights, type InsightEntry } from './insights'
+
+export function useInsights(userProfileId: string | undefined, days: number) {
+  const { timeZone, isLoading: isLoadingTimeZone } = useTimeZone(userProfileId)
+  const { openText, isReady } = useEncryption()
+  const [entries, setEntries] = useState<InsightEntry[]>([])
+  const [isDecrypting, setIsDecrypting] = useState(false)
+  const [failedCount, setFailedCount] = useState(0)
+  const decrypted = useRef(new Map<string, ReflectionMetadata>()) // By envelope
+
+  const range = getInsightRange(days, timeZone)
+  const { data, isLoading, error } = useQuery(
+    userProfileId && !isLoadingTimeZone
+      ? {
+          reflections: {
+            $: {
+              where: {
+                'user.id': userProfileId,
+                createdAt: { $gte: range.start },
+              },
+              fields: ['createdAt', 'encryptionAlgorithm', 'metadata'],
+            },
+          },
+        }
+      : null
+  )
+
+  const reflections = data?.reflections
+
+  /**
+   * Decrypt the metadata of reflections not seen before
+   */
+  useEffect(() => {
+    if (!reflections || !isReady) return
+
+    let cancelled = false
+
+    async function decryptMetadata() {
+      if (!reflections) return
+
+      setIsDecrypting(true)
+      let failed = 0
+      const result: InsightEntry[] = []
+
+      for (const reflection of reflections) {
+        const envelope = reflection.metadata
+        // Only envelope rows can have metadata
+        if (!envelope || reflection.encryptionAlgorithm !== ENVELOPE_FORMAT) {
+          result.push({ createdAt: reflection.createdAt, metadata: EMPTY_METADATA })
+          continue
+        }
+
+        let metadata = decrypted.current.get(envelope)
+        if (!metadata) {
+          try {
+            metadata = parseMetadata(await openText(envelope, reflection.id, 'metadata'))
+            decrypted.current.set(envelope, metadata)
+          } catch (err) {
+            console.error('Error decrypting reflection metadata:', err)
+            failed++
+            continue
+          }
+        }
+        if (cancelled) return
+        result.push({ createdAt: reflection.createdAt, metadata })
+      }
+
+      if (cancelled) return
+      setEntries(result)
+      setFailedCount(failed)
+      setIsDecrypting(false)
+    }
+
+    decryptMetadata()
+
+    return () => {
+      cancelled = true
+    }
+  }, [reflections, isReady, openText])
+
+  const insights = useMemo(() => getInsights(entries, timeZone), [entries, timeZone])
+
+  return {
+    // State
+    insights,
+    range,
+    isLoading: !userProfileId || isLoadingTimeZone || isLoading,
+    isDecrypting,
+    failedCount, // Reflections whose metadata couldn't be decrypted on this device
+    error: error?.message ?? null,
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Image Compression
+ *
+ * Resizes photos to a maximum dimension and re-encodes them as JPEG before
+ * encryption. Two implementations share the same sizing rules:
+ * - compressImageOffscreen: OffscreenCanvas, usable inside a Web Worker
+ * - compressImageOnMainThread: <canvas> fallback for browsers without workers
+ */
+
+export interface CompressOptions {
+  maxSize: number // Max width/height in pixels
+  quality: number // JPEG quality (0-1)
+  type: string // Output MIME type
+}
+
+export const DEFAULT_COMPRESS_OPTIONS: CompressOptions = {
+  maxSize: 1920,
+  quality: 0.85, // 85% quality
+  type: 'image/jpeg',
+}
+
+/**
+ * Thumbnails shown in list views (a few KB each)
+ */
+export const DEFAULT_THUMBNAIL_OPTIONS: CompressOptions = {
+  maxSize: 320,
+  quality: 0.7,
+  type: 'image/jpeg',
+}
+
+/**
+ * Scale dimensions down so neither side exceeds maxSize (keeps aspect ratio)
+ */
+export function scaleDimensions(
+  width: number,
+  height: number,
+  maxSize: number
+): { width: number; height: number } {
+  if (width > height && width > maxSize) {
+    return { width: maxSize, height: (height * maxSize) / width }
+  }
+  if (height > maxSize) {
+    return { width: (width * maxSize) / height, height: maxSize }
+  }
+  return { width, height }
+}
+
+/**
+ * Compress with OffscreenCanvas (works in workers and on the main thread)
+ */
+export async function compressImageOffscreen(
+  file: Blob,
+  options: CompressOptions = DEFAULT_COMPRESS_OPTIONS
+): Promise<Blob> {
+  const bitmap = await createImageBitmap(file).catch(() => {
+    throw new Error('Failed to load image')
+  })
+
+  try {
+    const { width, height } = scaleDimensions(bitmap.width, bitmap.height, options.maxSize)
+    const canvas = new OffscreenCanvas(width, height)
+    const ctx = canvas.getContext('2d')
+
+    if (!ctx) {
+      throw new Error('Could not get canvas context')
+    }
+
+    // Draw and compress
+    ctx.drawImage(bitmap, 0, 0, width, height)
+    return await canvas.convertToBlob({ type: options.type, quality: options.quality })
+  } finally {
+    bitmap.close()
+  }
+}
+
+/**
+ * Compress with a DOM canvas (main thread fallback)
+ */
+export function compressImageOnMainThread(
+  file: Blob,
+  options: CompressOptions = DEFAULT_COMPRESS_OPTIONS
+): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = (e) => {
+      const img = new Image()
+      img.onload = () => {
+        // Create canvas for compression
+        const canvas = document.createElement('canvas')
+        const ctx = canvas.getContext('2d')
+
+        if (!ctx) {
+          reject(new Error('Could not get canvas context'))
+          return
+        }
+
+        const { width, height } = scaleDimensions(img.width, img.height, options.maxSize)
+        canvas.width = width
+        canvas.height = height
+
+        // Draw and compress
+        ctx.drawImage(img, 0, 0, width, height)
+
+        canvas.toBlob(
+          (blob) => {
+            if (blob) {
+              resolve(blob)
+            } else {
+              reject(new Error('Failed to compress image'))
+            }
+          },
+          options.type,
+          options.quality
+        )
+      }
+      img.onerror = () => reject(new Error('Failed to load image'))
+      img.src = e.target?.result as string
+    }
+    reader.onerror = () => reject(new Error('Failed to read file'))
+    reader.readAsDataURL(file)
+  })
+}
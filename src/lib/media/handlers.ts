@@ -0,0 +1,33 @@
+/**
+ * Media Pipeline Handlers
+ *
+ * The work behind each protocol message. Runs inside the worker, and is kept
+ * separate from pipeline.worker.ts so it can be tested without a Worker.
+ */
+
+import { encryptFile, decryptFile } from '@/lib/encryption/crypto'
+import { encryptFileEnvelope, decryptFileEnvelope } from '@/lib/encryption/envelope'
+import { compressImageOffscreen } from './compress'
+import type { PipelineRequest, PipelineResults, PipelineRequestType } from './protocol'
+
+export async function handlePipelineRequest(
+  request: PipelineRequest
+): Promise<PipelineResults[PipelineRequestType]> {
+  switch (request.type) {
+    case 'compressImage':
+      return await compressImageOffscreen(request.file, request.options)
+    case 'encryptFile':
+      return await encryptFile(request.file, request.key)
+    case 'decryptFile':
+      return await decryptFile(request.encryptedBlob, request.iv, request.key, request.originalType)
+    case 'encryptFileEnvelope':
+      return await encryptFileEnvelope(request.file, request.key, request.keyId, request.context)
+    case 'decryptFileEnvelope':
+      return await decryptFileEnvelope(
+        request.encryptedBlob,
+        request.key,
+        request.context,
+        request.originalType
+      )
+  }
+}
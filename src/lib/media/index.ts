@@ -0,0 +1,39 @@
+/**
+ * Media Module
+ *
+ * Photo compression and encryption pipeline
+ *
+ * Exports:
+ * - Worker-backed compress/encrypt/decrypt with main-thread fallback
+ * - Image compression helpers
+ * - Worker message protocol types
+ */
+
+// Worker-backed Pipeline
+export {
+  compressImage,
+  createThumbnail,
+  encryptFileInWorker,
+  decryptFileInWorker,
+  encryptFileEnvelopeInWorker,
+  decryptFileEnvelopeInWorker,
+  isPipelineWorkerAvailable,
+} from './pipeline'
+
+// Image Compression
+export {
+  compressImageOnMainThread,
+  compressImageOffscreen,
+  scaleDimensions,
+  DEFAULT_COMPRESS_OPTIONS,
+  DEFAULT_THUMBNAIL_OPTIONS,
+  type CompressOptions,
+} from './compress'
+
+// Protocol
+export type {
+  PipelineRequest,
+  PipelineResults,
+  PipelineMessage,
+  PipelineResponse,
+} from './protocol'
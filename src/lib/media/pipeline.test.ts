@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest'
+import { generateEncryptionKey, encryptFile } from '@/lib/encryption/crypto'
+import { scaleDimensions } from './compress'
+import { handlePipelineRequest } from './handlers'
+import type { PipelineMessage, PipelineResponse } from './protocol'
+
+/**
+ * Stand-in for a Web Worker that runs the real handlers in-process
+ */
+class FakeWorker {
+  static instances = 0
+  static messages: PipelineMessage[] = []
+  onmessage: ((event: { data: PipelineResponse }) => void) | null = null
+  onerror: ((event: { message: string }) => void) | null = null
+
+  constructor() {
+    FakeWorker.instances++
+  }
+
+  postMessage(message: PipelineMessage) {
+    FakeWorker.messages.push(message)
+    const { id, ...request } = message
+    handlePipelineRequest(request).then(
+      (result) => this.onmessage?.({ data: { id, ok: true, result } }),
+      (error: Error) => this.onmessage?.({ data: { id, ok: false, error: error.message } })
+    )
+  }
+
+  terminate() {}
+}
+
+class BrokenWorker {
+  constructor() {
+    throw new Error('Workers disabled')
+  }
+}
+
+async function loadPipeline() {
+  vi.resetModules()
+  return await import('./pipeline')
+}
+
+describe('Media Pipeline', () => {
+  let testKey: CryptoKey
+
+  beforeAll(async () => {
+    const { key } = await generateEncryptionKey()
+    testKey = key
+  })
+
+  beforeEach(() => {
+    FakeWorker.instances = 0
+    FakeWorker.messages = []
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  describe('scaleDimensions', () => {
+    it('should keep small images unchanged', () => {
+      expect(scaleDimensions(800, 600, 1920)).toEqual({ width: 800, height: 600 })
+    })
+
+    it('should scale landscape and portrait images to the max size', () => {
+      expect(scaleDimensions(3840, 2160, 1920)).toEqual({ width: 1920, height: 1080 })
+      expect(scaleDimensions(2000, 4000, 1920)).toEqual({ width: 960, height: 1920 })
+    })
+  })
+
+  describe('Fallback', () => {
+    it('should encrypt on the main thread when workers are unavailable', async () => {
+      const { encryptFileInWorker, decryptFileInWorker, isPipelineWorkerAvailable } =
+        await loadPipeline()
+      expect(isPipelineWorkerAvailable()).toBe(false)
+
+      const { encryptedBlob, iv } = await encryptFileInWorker(new Blob(['photo']), testKey)
+      const decrypted = await decryptFileInWorker(encryptedBlob, iv, testKey, 'image/png')
+
+      expect(await decrypted.text()).toBe('photo')
+      expect(decrypted.type).toBe('image/png')
+    })
+
+    it('should fall back when the worker fails to start', async () => {
+      vi.stubGlobal('window', {})
+      vi.stubGlobal('Worker', BrokenWorker)
+      const { encryptFileInWorker, isPipelineWorkerAvailable } = await loadPipeline()
+      expect(isPipelineWorkerAvailable()).toBe(true)
+
+      const { encryptedBlob } = await encryptFileInWorker(new Blob(['photo']), testKey)
+
+      expect(encryptedBlob.size).toBeGreaterThan(0)
+      expect(isPipelineWorkerAvailable()).toBe(false)
+    })
+  })
+
+  describe('Worker', () => {
+    beforeEach(() => {
+      vi.stubGlobal('window', {})
+      vi.stubGlobal('Worker', FakeWorker)
+    })
+
+    it('should round-trip a photo through the worker protocol', async () => {
+      const { encryptFileInWorker, decryptFileInWorker } = await loadPipeline()
+
+      const { encryptedBlob, iv } = await encryptFileInWorker(new Blob(['photo']), testKey)
+      const decrypted = await decryptFileInWorker(encryptedBlob, iv, testKey)
+
+      expect(await decrypted.text()).toBe('photo')
+      expect(FakeWorker.messages.map((m) => m.type)).toEqual(['encryptFile', 'decryptFile'])
+    })
+
+    it('should reuse a single worker for concurrent requests', async () => {
+      const { encryptFileInWorker } = await loadPipeline()
+
+      const results = await Promise.all(
+        ['a', 'b', 'c'].map((text) => encryptFileInWorker(new Blob([text]), testKey))
+      )
+
+      expect(FakeWorker.instances).toBe(1)
+      expect(new Set(FakeWorker.messages.map((m) => m.id)).size).toBe(3)
+      expect(new Set(results.map((r) => r.iv)).size).toBe(3)
+    })
+
+    it('should surface request errors without falling back', async () => {
+      const { decryptFileInWorker } = await loadPipeline()
+      const { encryptedBlob, iv } = await encryptFile(new Blob(['photo']), testKey)
+      const { key: wrongKey } = await generateEncryptionKey()
+
+      await expect(decryptFileInWorker(encryptedBlob, iv, wrongKey)).rejects.toThrow(
+        'Failed to decrypt file'
+      )
+    })
+  })
+})
@@ -0,0 +1,230 @@
+/**
+ * Media Pipeline Client
+ *
+ * Sends compression and encryption work to a shared Web Worker and falls back
+ * to the main-thread implementations when workers (or OffscreenCanvas) are
+ * unavailable, or when the worker itself fails to start.
+ */
+
+import { encryptFile, decryptFile } from '@/lib/encryption/crypto'
+import {
+  encryptFileEnvelope,
+  decryptFileEnvelope,
+  type FileEnvelopeContext,
+} from '@/lib/encryption/envelope'
+import {
+  compressImageOnMainThread,
+  DEFAULT_COMPRESS_OPTIONS,
+  DEFAULT_THUMBNAIL_OPTIONS,
+  type CompressOptions,
+} from './compress'
+import type {
+  PipelineMessage,
+  PipelineRequestOf,
+  PipelineRequestType,
+  PipelineResponse,
+  PipelineResults,
+} from './protocol'
+
+/**
+ * The worker couldn't run the request at all (as opposed to the request failing)
+ */
+class PipelineWorkerError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PipelineWorkerError'
+  }
+}
+
+interface PendingRequest {
+  resolve: (result: PipelineResults[PipelineRequestType]) => void
+  reject: (error: Error) => void
+}
+
+let worker: Worker | null = null
+let workerFailed = false
+let nextRequestId = 0
+const pendingRequests = new Map<number, PendingRequest>()
+
+/**
+ * Check if a pipeline worker can be used in this environment
+ */
+export function isPipelineWorkerAvailable(): boolean {
+  return !workerFailed && typeof window !== 'undefined' && typeof Worker !== 'undefined'
+}
+
+function canCompressInWorker(): boolean {
+  return (
+    isPipelineWorkerAvailable() &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof createImageBitmap !== 'undefined'
+  )
+}
+
+function failWorker(reason: string) {
+  workerFailed = true
+  worker?.terminate()
+  worker = null
+
+  for (const { reject } of pendingRequests.values()) {
+    reject(new PipelineWorkerError(reason))
+  }
+  pendingRequests.clear()
+}
+
+function getWorker(): Worker {
+  if (worker) return worker
+
+  worker = new Worker(new URL('./pipeline.worker.ts', import.meta.url), { type: 'module' })
+
+  worker.onmessage = (event: MessageEvent<PipelineResponse>) => {
+    const response = event.data
+    const pending = pendingRequests.get(response.id)
+    if (!pending) return
+
+    pendingRequests.delete(response.id)
+    if (response.ok) {
+      pending.resolve(response.result)
+    } else {
+      pending.reject(new Error(response.error))
+    }
+  }
+
+  worker.onerror = (event) => {
+    console.error('Media pipeline worker failed:', event.message)
+    failWorker('Media pipeline worker failed')
+  }
+
+  return worker
+}
+
+function runInWorker<T extends PipelineRequestType>(
+  request: PipelineRequestOf<T>
+): Promise<PipelineResults[T]> {
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++
+    pendingRequests.set(id, {
+      resolve: resolve as PendingRequest['resolve'],
+      reject,
+    })
+
+    try {
+      const message: PipelineMessage = { ...request, id }
+      getWorker().postMessage(message)
+    } catch (error) {
+      pendingRequests.delete(id)
+      console.error('Failed to start media pipeline worker:', error)
+      failWorker('Failed to start media pipeline worker')
+      reject(new PipelineWorkerError('Failed to start media pipeline worker'))
+    }
+  })
+}
+
+/**
+ * Run in the worker when possible, otherwise (or if the worker dies) on the main thread
+ */
+async function runWithFallback<T extends PipelineRequestType>(
+  request: PipelineRequestOf<T>,
+  useWorker: boolean,
+  fallback: () => Promise<PipelineResults[T]>
+): Promise<PipelineResults[T]> {
+  if (!useWorker) {
+    return await fallback()
+  }
+
+  try {
+    return await runInWorker(request)
+  } catch (error) {
+    if (error instanceof PipelineWorkerError) {
+      return await fallback()
+    }
+    throw error
+  }
+}
+
+/**
+ * Resize and re-encode a photo before encryption
+ */
+export async function compressImage(
+  file: Blob,
+  options: Partial<CompressOptions> = {}
+): Promise<Blob> {
+  const resolved = { ...DEFAULT_COMPRESS_OPTIONS, ...options }
+  return await runWithFallback<'compressImage'>(
+    { type: 'compressImage', file, options: resolved },
+    canCompressInWorker(),
+    () => compressImageOnMainThread(file, resolved)
+  )
+}
+
+/**
+ * Small, lower-quality copy of a photo for list views
+ */
+export async function createThumbnail(
+  file: Blob,
+  options: Partial<CompressOptions> = {}
+): Promise<Blob> {
+  return await compressImage(file, { ...DEFAULT_THUMBNAIL_OPTIONS, ...options })
+}
+
+/**
+ * Encrypt a photo off the main thread
+ */
+export async function encryptFileInWorker(
+  file: Blob,
+  key: CryptoKey
+): Promise<PipelineResults['encryptFile']> {
+  return await runWithFallback<'encryptFile'>(
+    { type: 'encryptFile', file, key },
+    isPipelineWorkerAvailable(),
+    () => encryptFile(file, key)
+  )
+}
+
+/**
+ * Decrypt a photo off the main thread
+ */
+export async function decryptFileInWorker(
+  encryptedBlob: Blob,
+  iv: string,
+  key: CryptoKey,
+  originalType?: string
+): Promise<Blob> {
+  return await runWithFallback<'decryptFile'>(
+    { type: 'decryptFile', encryptedBlob, iv, key, originalType },
+    isPipelineWorkerAvailable(),
+    () => decryptFile(encryptedBlob, iv, key, originalType)
+  )
+}
+
+/**
+ * Encrypt a photo (or thumbnail) into a reflection-bound envelope off the main thread
+ */
+export async function encryptFileEnvelopeInWorker(
+  file: Blob,
+  key: CryptoKey,
+  keyId: string,
+  context: FileEnvelopeContext
+): Promise<Blob> {
+  return await runWithFallback<'encryptFileEnvelope'>(
+    { type: 'encryptFileEnvelope', file, key, keyId, context },
+    isPipelineWorkerAvailable(),
+    () => encryptFileEnvelope(file, key, keyId, context)
+  )
+}
+
+/**
+ * Decrypt a photo (or thumbnail) envelope off the main thread
+ */
+export async function decryptFileEnvelopeInWorker(
+  encryptedBlob: Blob,
+  key: CryptoKey,
+  context: FileEnvelopeContext,
+  originalType?: string
+): Promise<Blob> {
+  return await runWithFallback<'decryptFileEnvelope'>(
+    { type: 'decryptFileEnvelope', encryptedBlob, key, context, originalType },
+    isPipelineWorkerAvailable(),
+    () => decryptFileEnvelope(encryptedBlob, key, context, originalType)
+  )
+}
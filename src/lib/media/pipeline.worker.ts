@@ -0,0 +1,30 @@
+/**
+ * Media Pipeline Worker
+ *
+ * Runs image compression (OffscreenCanvas) and photo encryption (Web Crypto)
+ * off the main thread. Loaded by pipeline.ts.
+ */
+
+import { handlePipelineRequest } from './handlers'
+import type { PipelineMessage, PipelineResponse } from './protocol'
+
+// The DOM lib types `self` as Window; only the worker surface is used here
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<PipelineMessage>) => void) | null
+  postMessage: (message: PipelineResponse) => void
+}
+
+scope.onmessage = async (event) => {
+  const { id, ...request } = event.data
+
+  try {
+    const result = await handlePipelineRequest(request)
+    scope.postMessage({ id, ok: true, result })
+  } catch (error) {
+    scope.postMessage({
+      id,
+      ok: false,
+      error: error instanceof Error ? error.message : 'Worker request failed',
+    })
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Media Pipeline Message Protocol
+ *
+ * Typed messages exchanged between the main thread and pipeline.worker.ts.
+ * Blobs and CryptoKeys are structured-cloneable, so they're posted as-is.
+ */
+
+import type { CompressOptions } from './compress'
+import type { FileEnvelopeContext } from '@/lib/encryption/envelope'
+
+export type PipelineRequest =
+  | { type: 'compressImage'; file: Blob; options: CompressOptions }
+  | { type: 'encryptFile'; file: Blob; key: CryptoKey }
+  | {
+      type: 'decryptFile'
+      encryptedBlob: Blob
+      iv: string
+      key: CryptoKey
+      originalType?: string
+    }
+  | {
+      type: 'encryptFileEnvelope'
+      file: Blob
+      key: CryptoKey
+      keyId: string
+      context: FileEnvelopeContext
+    }
+  | {
+      type: 'decryptFileEnvelope'
+      encryptedBlob: Blob
+      key: CryptoKey
+      context: FileEnvelopeContext
+      originalType?: string
+    }
+
+export interface PipelineResults {
+  compressImage: Blob
+  encryptFile: { encryptedBlob: Blob; iv: string; algorithm: string }
+  decryptFile: Blob
+  encryptFileEnvelope: Blob
+  decryptFileEnvelope: Blob
+}
+
+export type PipelineRequestType = PipelineRequest['type']
+
+export type PipelineRequestOf<T extends PipelineRequestType> = Extract<
+  PipelineRequest,
+  { type: T }
+>
+
+/**
+ * Main thread → worker
+ */
+export type PipelineMessage = PipelineRequest & { id: number }
+
+/**
+ * Worker → main thread
+ */
+export type PipelineResponse =
+  | { id: number; ok: true; result: PipelineResults[PipelineRequestType] }
+  | { id: number; ok: false; error: string }
@@ -0,0 +1,35 @@
+/**
+ * Memories Module
+ *
+ * "On this day": reflections from the same day in earlier years
+ *
+ * Exports:
+ * - React hook for the dashboard card
+ * - Memory days, ranges and the email summary section (used by the Inngest job)
+ *
+ * Server code imports memories.ts directly, so the React hook (and the
+ * browser database client) stay out of server bundles.
+ */
+
+// React Hook
+export { useOnThisDay } from './useOnThisDay'
+
+// Memories
+export {
+  getMemoryDays,
+  getMemoryRange,
+  groupMemories,
+  getSummaryMemories,
+  renderMemoriesSection,
+  MAX_MEMORY_YEARS,
+  MONTH_MEMORIES,
+  MEMORIES_EVENT,
+  CADENCE_DAYS,
+  type MemoryDay,
+  type MemoryRange,
+  type Memory,
+  type MemoryReflection,
+  type MemoryInput,
+  type MemoryDeps,
+  type SummaryMemories,
+} from './memories'
@@ -0,0 +1,250 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getMemoryDays,
+  getMemoryRange,
+  groupMemories,
+  getSummaryMemories,
+  renderMemoriesSection,
+  type MemoryDeps,
+  type MemoryInput,
+  type MemoryRange,
+  type MemoryReflection,
+} from './memories'
+
+const NOON = 12 * 60 * 60 * 1000
+
+/**
+ * Unix ms of noon UTC on a day
+ */
+function noon(dateKey: string): number {
+  return Date.parse(`${dateKey}T00:00:00Z`) + NOON
+}
+
+/**
+ * In-memory MemoryDeps that records the ranges it was asked for
+ */
+function createFakeDeps(input: MemoryInput | null, reflections: MemoryReflection[]) {
+  const requested: MemoryRange[][] = []
+  const deps: MemoryDeps = {
+    getMemoryInput: async () => input,
+    getReflections: async (_userProfileId, ranges) => {
+      requested.push(ranges)
+      return reflections.filter((reflection) =>
+        ranges.some((range) => reflection.createdAt >= range.start && reflection.createdAt < range.end)
+      )
+    },
+  }
+  return { deps, requested }
+}
+
+describe('Memories', () => {
+  describe('getMemoryDays', () => {
+    it('should look back whole years, nearest first', () => {
+      const days = getMemoryDays('2025-03-14', '2020-01-01', false)
+
+      expect(days.map(({ key, dateKey }) => [key, dateKey])).toEqual([
+        ['1y', '2024-03-14'],
+        ['2y', '2023-03-14'],
+        ['3y', '2022-03-14'],
+        ['4y', '2021-03-14'],
+        ['5y', '2020-03-14'],
+      ])
+      expect(days[0].label).toBe('1 year ago')
+      expect(days[1].label).toBe('2 years ago')
+    })
+
+    it('should include 1 and 6 months ago when asked, clamped to shorter months', () => {
+      const days = getMemoryDays('2025-08-31', '2025-01-01', true)
+
+      expect(days.map(({ key, dateKey, label }) => [key, dateKey, label])).toEqual([
+        ['1m', '2025-07-31', '1 month ago'],
+        ['6m', '2025-02-28', '6 months ago'],
+      ])
+    })
+
+    it('should look back from a leap day to February 28th', () => {
+      const days = getMemoryDays('2024-02-29', '2019-01-01', false)
+
+      expect(days.map(({ dateKey }) => dateKey)).toEqual([
+        '2023-02-28',
+        '2022-02-28',
+        '2021-02-28',
+        '2020-02-29',
+        '2019-02-28',
+      ])
+    })
+
+    it('should skip days before the first reflection', () => {
+      expect(getMemoryDays('2025-03-14', null, true)).toEqual([])
+      expect(getMemoryDays('2025-03-14', '2024-03-14', false).map(({ key }) => key)).toEqual([
+        '1y',
+      ])
+      expect(getMemoryDays('2025-03-14', '2024-03-15', false)).toEqual([])
+    })
+  })
+
+  describe('getMemoryRange', () => {
+    it('should span local midnight to local midnight', () => {
+      expect(getMemoryRange('2024-03-14', 'UTC')).toEqual({
+        start: Date.parse('2024-03-14T00:00:00Z'),
+        end: Date.parse('2024-03-15T00:00:00Z'),
+      })
+      expect(getMemoryRange('2024-03-14', 'Europe/Berlin')).toEqual({
+        start: Date.parse('2024-03-13T23:00:00Z'),
+        end: Date.parse('2024-03-14T23:00:00Z'),
+      })
+    })
+
+    it('should end a longer period on the memory day', () => {
+      expect(getMemoryRange('2024-03-14', 'UTC', 7)).toEqual({
+        start: Date.parse('2024-03-08T00:00:00Z'),
+        end: Date.parse('2024-03-15T00:00:00Z'),
+      })
+    })
+  })
+
+  describe('groupMemories', () => {
+    it('should sort reflections into days and leave out empty days', () => {
+      const days = getMemoryDays('2025-03-14', '2020-01-01', false)
+      const reflections = [
+        { id: 'c', createdAt: noon('2023-03-14') + 1000 },
+        { id: 'a', createdAt: noon('2024-03-14') },
+        { id: 'b', createdAt: noon('2023-03-14') },
+        { id: 'x', createdAt: noon('2023-03-15') },
+      ]
+
+      const memories = groupMemories(reflections, days, 'UTC')
+
+      expect(memories.map(({ day, reflections }) => [day.key, reflections.map((r) => r.id)])).toEqual([
+        ['1y', ['a']],
+        ['2y', ['b', 'c']],
+      ])
+    })
+
+    it('should use the user timezone for the day', () => {
+      const days = getMemoryDays('2025-03-14', '2020-01-01', false)
+      // 23:30 UTC on the 13th is already the 14th in Berlin
+      const reflections = [{ id: 'a', createdAt: Date.parse('2024-03-13T23:30:00Z') }]
+
+      expect(groupMemories(reflections, days, 'UTC')).toEqual([])
+      expect(groupMemories(reflections, days, 'Europe/Berlin')).toHaveLength(1)
+    })
+  })
+
+  describe('getSummaryMemories', () => {
+    const input: MemoryInput = {
+      timezone: 'UTC',
+      includeMonths: false,
+      cadence: 'weekly',
+      firstCreatedAt: noon('2023-01-01'),
+    }
+
+    it('should return null for a missing profile', async () => {
+      const { deps } = createFakeDeps(null, [])
+
+      expect(await getSummaryMemories('user-1', deps, noon('2025-03-14'))).toBeNull()
+    })
+
+    it('should look back on the same week in earlier years', async () => {
+      const { deps, requested } = createFakeDeps(input, [
+        { id: 'a', createdAt: noon('2024-03-08'), promptText: 'Prompt', photoCount: 0 },
+        { id: 'b', createdAt: noon('2024-03-07'), promptText: 'Prompt', photoCount: 0 },
+        { id: 'c', createdAt: noon('2023-03-14'), promptText: null, photoCount: 2 },
+      ])
+
+      const summary = await getSummaryMemories('user-1', deps, noon('2025-03-14'))
+
+      expect(summary?.periodStart).toBe('2025-03-08')
+      expect(summary?.periodEnd).toBe('2025-03-14')
+      expect(requested).toHaveLength(1)
+      expect(requested[0]).toHaveLength(2)
+      expect(summary?.memories.map(({ day, reflections }) => [day.key, reflections.map((r) => r.id)]))
+        .toEqual([
+          ['1y', ['a']],
+          ['2y', ['c']],
+        ])
+    })
+
+    it('should skip month memories inside the summary period', async () => {
+      const { deps, requested } = createFakeDeps(
+        { ...input, includeMonths: true, cadence: 'monthly' },
+        []
+      )
+
+      await getSummaryMemories('user-1', deps, noon('2025-03-14'))
+
+      // 6 months, 1 year and 2 years ago; 1 month ago is in the period
+      expect(requested[0]).toHaveLength(3)
+    })
+
+    it('should not query without memory days', async () => {
+      const { deps, requested } = createFakeDeps({ ...input, firstCreatedAt: null }, [])
+
+      const summary = await getSummaryMemories('user-1', deps, noon('2025-03-14'))
+
+      expect(summary?.memories).toEqual([])
+      expect(requested).toHaveLength(0)
+    })
+  })
+
+  describe('renderMemoriesSection', () => {
+    it('should return null without memories', () => {
+      expect(
+        renderMemoriesSection({ periodStart: '2025-03-14', periodEnd: '2025-03-14', memories: [] }, '')
+      ).toBeNull()
+    })
+
+    it('should list prompts, photo counts and links, escaping HTML', () => {
+      const section = renderMemoriesSection(
+        {
+          periodStart: '2025-03-14',
+          periodEnd: '2025-03-14',
+          memories: [
+            {
+              day: { key: '1y', dateKey: '2024-03-14', label: '1 year ago' },
+              reflections: [
+                { id: 'r1', createdAt: noon('2024-03-14'), promptText: 'Cats & <dogs>', photoCount: 2 },
+                { id: 'r2', createdAt: noon('2024-03-14'), promptText: null, photoCount: 0 },
+              ],
+            },
+          ],
+        },
+        'https://example.com/'
+      )
+
+      expect(section?.text).toBe(
+        [
+          'On this day',
+          '',
+          '1 year ago:',
+          '- Cats & <dogs> (2 photos): https://example.com/reflections/r1',
+          '- A reflection: https://example.com/reflections/r2',
+        ].join('\n')
+      )
+      expect(section?.html).toContain('<h2>On this day</h2>')
+      expect(section?.html).toContain(
+        '<a href="https://example.com/reflections/r1">Cats &amp; &lt;dogs&gt;</a> (2 photos)'
+      )
+      expect(section?.html).not.toContain('<dogs>')
+    })
+
+    it('should title longer periods "Around this time"', () => {
+      const section = renderMemoriesSection(
+        {
+          periodStart: '2025-03-08',
+          periodEnd: '2025-03-14',
+          memories: [
+            {
+              day: { key: '1y', dateKey: '2024-03-14', label: '1 year ago' },
+              reflections: [{ id: 'r1', createdAt: 0, promptText: 'Prompt', photoCount: 1 }],
+            },
+          ],
+        },
+        'https://example.com'
+      )
+
+      expect(section?.text.startsWith('Around this time')).toBe(true)
+      expect(section?.text).toContain('(1 photo)')
+    })
+  })
+})
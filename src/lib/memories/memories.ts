@@ -0,0 +1,260 @@
+/**
+ * Memories ("On this day")
+ *
+ * Finds reflections from the same calendar day in earlier years, and
+ * optionally 1 and 6 months ago, in the user's timezone. Each memory day is a
+ * `createdAt` range (local midnight to local midnight), so the lookup is one
+ * query on the indexed `createdAt` whatever the number of reflections.
+ *
+ * The dashboard card shows today's memories. Email summaries cover a whole
+ * period (a week for weekly summaries), so their memories are the same
+ * period in earlier years. Reflection text and photos are end-to-end
+ * encrypted and never leave the app: emails only say when the user
+ * reflected, on which prompt and with how many photos, with a link back.
+ *
+ * Database access is injected via `MemoryDeps`, so the Inngest job runs
+ * against the admin SDK in production and in-memory fakes in tests.
+ */
+
+import { getStartOfDay, shiftDateKeyByMonths } from '@/lib/dates/calendar'
+import { getDateKey, getDaysBetween, resolveTimeZone, shiftDateKey } from '@/lib/dates/dayKeys'
+
+export const MAX_MEMORY_YEARS = 10
+export const MONTH_MEMORIES = [1, 6] as const // Months ago, when the user opts in
+export const MEMORIES_EVENT = 'memories/summary.requested'
+
+// Days an email summary covers, by userSettings.emailCadence
+export const CADENCE_DAYS: Record<string, number> = {
+  daily: 1,
+  weekly: 7,
+  biweekly: 14,
+  monthly: 30,
+}
+
+export interface MemoryDay {
+  key: string // '1m', '6m', '1y', '2y', ...
+  dateKey: string // The day in the past ('YYYY-MM-DD')
+  label: string // '1 year ago'
+}
+
+export interface MemoryRange {
+  start: number // Local midnight starting the period (Unix ms, inclusive)
+  end: number // Local midnight after the day (exclusive)
+}
+
+export interface Memory<T extends { createdAt: number }> {
+  day: MemoryDay
+  reflections: T[] // Oldest first
+}
+
+export interface MemoryReflection {
+  id: string
+  createdAt: number
+  promptText: string | null // Prompts are shared and stored in plaintext
+  photoCount: number
+}
+
+export interface MemoryInput {
+  timezone: string | null // userSettings.timezone
+  includeMonths: boolean // userSettings.memoriesIncludeMonths
+  cadence: string | null // userSettings.emailCadence
+  firstCreatedAt: number | null // createdAt of the user's first reflection
+}
+
+export interface MemoryDeps {
+  // Settings and first reflection of one user (null if the profile doesn't exist)
+  getMemoryInput: (userProfileId: string) => Promise<MemoryInput | null>
+  // Reflections of the user created in any of the ranges
+  getReflections: (userProfileId: string, ranges: MemoryRange[]) => Promise<MemoryReflection[]>
+}
+
+export interface SummaryMemories {
+  periodStart: string // First day the summary covers ('YYYY-MM-DD')
+  periodEnd: string // Last day (today)
+  memories: Memory<MemoryReflection>[]
+}
+
+/**
+ * Days to look back to from a day
+ *
+ * @param today - The user's current day
+ * @param firstDay - Day of the user's first reflection (null without any)
+ * @param includeMonths - Also 1 and 6 months ago
+ * @returns MemoryDay[] - Nearest first, none before the first reflection
+ */
+export function getMemoryDays(
+  today: string,
+  firstDay: string | null,
+  includeMonths: boolean
+): MemoryDay[] {
+  if (!firstDay) return []
+
+  const days: MemoryDay[] = []
+  if (includeMonths) {
+    for (const months of MONTH_MEMORIES) {
+      days.push({
+        key: `${months}m`,
+        dateKey: shiftDateKeyByMonths(today, -months),
+        label: `${months} month${months !== 1 ? 's' : ''} ago`,
+      })
+    }
+  }
+  for (let years = 1; years <= MAX_MEMORY_YEARS; years++) {
+    days.push({
+      key: `${years}y`,
+      dateKey: shiftDateKeyByMonths(today, -12 * years),
+      label: `${years} year${years !== 1 ? 's' : ''} ago`,
+    })
+  }
+  return days.filter(({ dateKey }) => dateKey >= firstDay)
+}
+
+/**
+ * The createdAt range of a memory day
+ *
+ * @param dateKey - Memory day
+ * @param timeZone - IANA timezone
+ * @param periodDays - Days ending on the memory day (1 for the day alone)
+ * @returns MemoryRange
+ */
+export function getMemoryRange(dateKey: string, timeZone: string, periodDays = 1): MemoryRange {
+  return {
+    start: getStartOfDay(shiftDateKey(dateKey, 1 - periodDays), timeZone),
+    end: getStartOfDay(shiftDateKey(dateKey, 1), timeZone),
+  }
+}
+
+/**
+ * Sort reflections into memory days
+ *
+ * @param reflections - Reflections from the memory ranges (any order)
+ * @param days - Result of getMemoryDays()
+ * @param timeZone - IANA timezone
+ * @param periodDays - Days ending on each memory day
+ * @returns Memory[] - Days with at least one reflection, nearest first
+ */
+export function groupMemories<T extends { createdAt: number }>(
+  reflections: T[],
+  days: MemoryDay[],
+  timeZone: string,
+  periodDays = 1
+): Memory<T>[] {
+  const sorted = [...reflections].sort((a, b) => a.createdAt - b.createdAt)
+  const memories: Memory<T>[] = []
+
+  for (const day of days) {
+    const matches = sorted.filter((reflection) => {
+      const daysBefore = getDaysBetween(getDateKey(reflection.createdAt, timeZone), day.dateKey)
+      return daysBefore >= 0 && daysBefore < periodDays
+    })
+    if (matches.length > 0) {
+      memories.push({ day, reflections: matches })
+    }
+  }
+  return memories
+}
+
+/**
+ * Find the memories for a user's next email summary
+ *
+ * @param userProfileId - User the summary is for
+ * @param deps - Database access
+ * @param now - Current time (Unix ms)
+ * @returns Promise<SummaryMemories | null> - Null if the profile doesn't exist
+ */
+export async function getSummaryMemories(
+  userProfileId: string,
+  deps: MemoryDeps,
+  now = Date.now()
+): Promise<SummaryMemories | null> {
+  const input = await deps.getMemoryInput(userProfileId)
+  if (!input) return null
+
+  const timeZone = resolveTimeZone(input.timezone)
+  const today = getDateKey(now, timeZone)
+  const periodDays = CADENCE_DAYS[input.cadence ?? ''] ?? CADENCE_DAYS.weekly
+  const periodStart = shiftDateKey(today, 1 - periodDays)
+
+  const firstDay =
+    input.firstCreatedAt !== null ? getDateKey(input.firstCreatedAt, timeZone) : null
+
+  // Month memories overlap the summary period itself for monthly summaries
+  const days = getMemoryDays(today, firstDay, input.includeMonths).filter(
+    ({ dateKey }) => dateKey < periodStart
+  )
+  if (days.length === 0) {
+    return { periodStart, periodEnd: today, memories: [] }
+  }
+
+  const reflections = await deps.getReflections(
+    userProfileId,
+    days.map(({ dateKey }) => getMemoryRange(dateKey, timeZone, periodDays))
+  )
+
+  return {
+    periodStart,
+    periodEnd: today,
+    memories: groupMemories(reflections, days, timeZone, periodDays),
+  }
+}
+
+/**
+ * Render memories as a section of an email summary
+ *
+ * Only dates, prompts and photo counts are included; the reflections
+ * themselves open in the app.
+ *
+ * @param summary - Result of getSummaryMemories()
+ * @param appUrl - Base URL of the app (e.g. 'https://reflections.app')
+ * @returns { text, html } | null - Null when there are no memories
+ */
+export function renderMemoriesSection(
+  summary: SummaryMemories,
+  appUrl: string
+): { text: string; html: string } | null {
+  if (summary.memories.length === 0) return null
+
+  const base = appUrl.replace(/\/+$/, '')
+  // Summaries longer than a day look back on the same period
+  const title = summary.periodStart === summary.periodEnd ? 'On this day' : 'Around this time'
+  const textLines = [title, '']
+  const htmlItems: string[] = []
+
+  for (const { day, reflections } of summary.memories) {
+    const htmlLines: string[] = []
+    textLines.push(`${day.label}:`)
+
+    for (const reflection of reflections) {
+      const prompt = reflection.promptText ?? 'A reflection'
+      const photos =
+        reflection.photoCount > 0
+          ? ` (${reflection.photoCount} photo${reflection.photoCount !== 1 ? 's' : ''})`
+          : ''
+      const url = `${base}/reflections/${reflection.id}`
+
+      textLines.push(`- ${prompt}${photos}: ${url}`)
+      htmlLines.push(`<li><a href="${escapeHtml(url)}">${escapeHtml(prompt)}</a>${photos}</li>`)
+    }
+
+    textLines.push('')
+    htmlItems.push(
+      `<li><strong>${escapeHtml(day.label)}</strong><ul>${htmlLines.join('')}</ul></li>`
+    )
+  }
+
+  return {
+    text: textLines.join('\n').trimEnd(),
+    html: `<h2>${title}</h2><ul>${htmlItems.join('')}</ul>`,
+  }
+}
+
+/**
+ * Utility: Escape text for HTML email bodies
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
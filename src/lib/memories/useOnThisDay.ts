@@ -0,0 +1,88 @@
+/**
+ * useOnThisDay Hook
+ *
+ * Today's memories for the dashboard: reflections from the same calendar
+ * day in earlier years (and 1 and 6 months ago when the user opted in), in
+ * the user's stored timezone. All memory days are fetched in one query on
+ * the indexed `createdAt`.
+ */
+
+import { useMemo } from 'react'
+import { useQuery } from '@/lib/db'
+import { getDateKey, useTimeZone } from '@/lib/dates'
+import { useUserSettings } from '@/lib/settings'
+import { getMemoryDays, getMemoryRange, groupMemories } from './memories'
+
+export function useOnThisDay(userProfileId: string | undefined) {
+  const { timeZone, isLoading: isLoadingTimeZone } = useTimeZone(userProfileId)
+  const { settings, isLoading: isLoadingSettings } = useUserSettings(userProfileId)
+  const includeMonths = settings?.memoriesIncludeMonths ?? false
+
+  // First reflection, so no day before it is looked up
+  const { data: firstData } = useQuery(
+    userProfileId
+      ? {
+          reflections: {
+            $: {
+              where: {
+                'user.id': userProfileId,
+              },
+              order: {
+                createdAt: 'asc' as const,
+              },
+              limit: 1,
+              fields: ['createdAt'],
+            },
+          },
+        }
+      : null
+  )
+
+  const firstCreatedAt = firstData?.reflections?.[0]?.createdAt
+  const today = getDateKey(Date.now(), timeZone)
+  const days = useMemo(
+    () =>
+      getMemoryDays(
+        today,
+        firstCreatedAt !== undefined ? getDateKey(firstCreatedAt, timeZone) : null,
+        includeMonths
+      ),
+    [today, firstCreatedAt, timeZone, includeMonths]
+  )
+
+  const isReady = !!userProfileId && !isLoadingTimeZone && !isLoadingSettings
+  const { data, isLoading } = useQuery(
+    isReady && days.length > 0
+      ? {
+          reflections: {
+            $: {
+              where: {
+                'user.id': userProfileId,
+                or: days.map(({ dateKey }) => {
+                  const range = getMemoryRange(dateKey, timeZone)
+                  return { createdAt: { $gte: range.start, $lt: range.end } }
+                }),
+              },
+            },
+            thumbnail: {},
+            photos: {
+              thumbnail: {},
+            },
+            prompt: {},
+          },
+        }
+      : null
+  )
+
+  const memories = useMemo(
+    () => groupMemories(data?.reflections ?? [], days, timeZone),
+    [data?.reflections, days, timeZone]
+  )
+
+  return {
+    // State
+    memories,
+    includeMonths,
+    isLoading: !isReady || (days.length > 0 && isLoading),
+  }
+}
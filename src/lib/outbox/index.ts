@@ -0,0 +1,43 @@
+/**
+ * Outbox Module
+ *
+ * Offline-first saving of new reflections
+ *
+ * Exports:
+ * - React hook that queues reflections and keeps the queue moving
+ * - Queue processing with retry and backoff
+ * - The transactions that create and commit queued reflections
+ * - Outbox storage backends
+ */
+
+// React Hook
+export { useOutbox, type QueuedReflection } from './useOutbox'
+
+// Outbox
+export {
+  processOutbox,
+  retryOutboxEntry,
+  summarizeOutbox,
+  getRetryDelay,
+  getUploadedFileIds,
+  getPendingTransaction,
+  getCommitTransactions,
+  MAX_ATTEMPTS,
+  RETRY_BASE_DELAY,
+  RETRY_MAX_DELAY,
+  type OutboxStatus,
+  type OutboxPhoto,
+  type UploadedPhoto,
+  type OutboxEntry,
+  type OutboxSummary,
+  type OutboxDeps,
+} from './outbox'
+
+// Storage
+export {
+  getOutboxStorage,
+  setOutboxStorage,
+  createIndexedDBOutboxStorage,
+  createMemoryOutboxStorage,
+  type OutboxStorage,
+} from './outboxStorage'
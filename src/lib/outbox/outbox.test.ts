@@ -0,0 +1,285 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  processOutbox,
+  retryOutboxEntry,
+  getRetryDelay,
+  getPendingTransaction,
+  getCommitTransactions,
+  getUploadedFileIds,
+  MAX_ATTEMPTS,
+  RETRY_BASE_DELAY,
+  RETRY_MAX_DELAY,
+  type OutboxDeps,
+  type OutboxEntry,
+  type OutboxStatus,
+  type UploadedPhoto,
+} from './outbox'
+import { createMemoryOutboxStorage } from './outboxStorage'
+
+describe('Reflection Outbox', () => {
+  const userId = 'test-user-123'
+
+  let deps: OutboxDeps
+  let clock: number
+  let online: boolean
+  let failUploads: number // Upload calls that throw before the next one succeeds
+  let uploads: string[]
+  let commits: { reflectionId: string; uploaded: UploadedPhoto[] }[]
+  let deletedFiles: string[]
+  let statuses: [string, OutboxStatus][]
+
+  function entry(reflectionId: string, photoCount: number, createdAt = 1000): OutboxEntry {
+    return {
+      userId,
+      userProfileId: 'profile-1',
+      reflectionId,
+      reflection: {
+        reflectionText: 'sealed text',
+        encryptionAlgorithm: 'envelope',
+        keyVersion: 1,
+        createdAt,
+      },
+      promptId: null,
+      photos: Array.from({ length: photoCount }, (_, index) => ({
+        photoId: `${reflectionId}-photo-${index}`,
+        photo: new Blob([`photo ${index}`]),
+        thumbnail: new Blob([`thumb ${index}`]),
+        caption: null,
+        photoType: 'image/jpeg',
+      })),
+      uploaded: Array.from({ length: photoCount }, () => null),
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: 0,
+      lastError: null,
+    }
+  }
+
+  beforeEach(() => {
+    clock = 10_000
+    online = true
+    failUploads = 0
+    uploads = []
+    commits = []
+    deletedFiles = []
+    statuses = []
+    deps = {
+      storage: createMemoryOutboxStorage(),
+      uploadFile: async (path) => {
+        if (failUploads > 0) {
+          failUploads--
+          throw new Error('Network error')
+        }
+        uploads.push(path)
+        return `file-${uploads.length}`
+      },
+      commit: async (queued, uploaded) => {
+        commits.push({ reflectionId: queued.reflectionId, uploaded })
+      },
+      deleteFiles: async (fileIds) => {
+        deletedFiles.push(...fileIds)
+      },
+      setSyncStatus: async (queued, status) => {
+        statuses.push([queued.reflectionId, status])
+      },
+      isOnline: () => online,
+      now: () => clock,
+    }
+  })
+
+  it('should upload photos and commit queued reflections in the order they were written', async () => {
+    await deps.storage.putEntry(entry('later', 1, 2000))
+    await deps.storage.putEntry(entry('earlier', 2, 1000))
+
+    const summary = await processOutbox(userId, deps)
+
+    expect(summary).toEqual({ pending: 0, failed: 0, nextAttemptAt: null })
+    expect(commits.map((commit) => commit.reflectionId)).toEqual(['earlier', 'later'])
+    expect(commits[0].uploaded).toEqual([
+      { fileId: 'file-1', thumbnailId: 'file-2' },
+      { fileId: 'file-3', thumbnailId: 'file-4' },
+    ])
+    expect(await deps.storage.getEntries(userId)).toEqual([])
+  })
+
+  it('should leave the queue alone while offline', async () => {
+    online = false
+    await deps.storage.putEntry(entry('r1', 1))
+
+    const summary = await processOutbox(userId, deps)
+
+    expect(summary.pending).toBe(1)
+    expect(uploads).toEqual([])
+    expect((await deps.storage.getEntries(userId))[0].attempts).toBe(0)
+  })
+
+  it('should only upload the photos that are still missing on retry', async () => {
+    await deps.storage.putEntry(entry('r1', 2))
+
+    // Second photo fails after the first finished
+    const uploadFile = deps.uploadFile
+    let calls = 0
+    deps.uploadFile = async (path, blob) => {
+      if (++calls === 3) throw new Error('Network error')
+      return uploadFile(path, blob)
+    }
+
+    let summary = await processOutbox(userId, deps)
+    expect(summary.pending).toBe(1)
+    expect(summary.nextAttemptAt).toBe(clock + RETRY_BASE_DELAY)
+    expect(commits).toEqual([])
+
+    // Not due yet
+    await processOutbox(userId, deps)
+    expect(commits).toEqual([])
+
+    clock += RETRY_BASE_DELAY
+    summary = await processOutbox(userId, deps)
+
+    expect(summary.pending).toBe(0)
+    expect(uploads.filter((path) => path.endsWith('-0.enc'))).toHaveLength(1)
+    expect(commits[0].uploaded).toHaveLength(2)
+  })
+
+  it('should back off exponentially up to a maximum delay', () => {
+    expect(getRetryDelay(1)).toBe(RETRY_BASE_DELAY)
+    expect(getRetryDelay(2)).toBe(RETRY_BASE_DELAY * 2)
+    expect(getRetryDelay(3)).toBe(RETRY_BASE_DELAY * 4)
+    expect(getRetryDelay(50)).toBe(RETRY_MAX_DELAY)
+  })
+
+  it('should not count an attempt when the connection drops mid-upload', async () => {
+    await deps.storage.putEntry(entry('r1', 1))
+    deps.uploadFile = async () => {
+      online = false
+      throw new Error('Failed to fetch')
+    }
+
+    await processOutbox(userId, deps)
+
+    const [queued] = await deps.storage.getEntries(userId)
+    expect(queued.attempts).toBe(0)
+    expect(queued.lastError).toBe('Failed to fetch')
+  })
+
+  it('should mark the reflection failed after repeated errors and retry on request', async () => {
+    await deps.storage.putEntry(entry('r1', 1))
+    failUploads = Number.POSITIVE_INFINITY
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      await processOutbox(userId, deps)
+      clock += RETRY_MAX_DELAY
+    }
+
+    const summary = await processOutbox(userId, deps)
+    expect(summary).toEqual({ pending: 0, failed: 1, nextAttemptAt: null })
+    expect(statuses).toEqual([['r1', 'failed']])
+
+    failUploads = 0
+    await retryOutboxEntry(userId, 'r1', deps)
+    expect(statuses).toEqual([
+      ['r1', 'failed'],
+      ['r1', 'pending'],
+    ])
+
+    await processOutbox(userId, deps)
+    expect(commits.map((commit) => commit.reflectionId)).toEqual(['r1'])
+    expect(await deps.storage.getEntries(userId)).toEqual([])
+  })
+
+  it('should delete the uploaded files once an entry fails for good', async () => {
+    await deps.storage.putEntry(entry('r1', 2))
+
+    // The first photo uploads, the second never does
+    const uploadFile = deps.uploadFile
+    deps.uploadFile = async (path, blob) => {
+      if (path.includes('-1.')) throw new Error('Network error')
+      return uploadFile(path, blob)
+    }
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      await processOutbox(userId, deps)
+      clock += RETRY_MAX_DELAY
+    }
+
+    expect(deletedFiles).toEqual(['file-1', 'file-2'])
+    const [failed] = await deps.storage.getEntries(userId)
+    expect(failed.status).toBe('failed')
+    expect(failed.uploaded).toEqual([null, null])
+  })
+
+  it('should not bring back a reflection deleted mid-upload', async () => {
+    await deps.storage.putEntry(entry('r1', 2))
+
+    // The reflection is deleted while its first photo uploads
+    const uploadFile = deps.uploadFile
+    deps.uploadFile = async (path, blob) => {
+      await deps.storage.deleteEntry(userId, 'r1')
+      return uploadFile(path, blob)
+    }
+
+    const summary = await processOutbox(userId, deps)
+
+    expect(summary).toEqual({ pending: 0, failed: 0, nextAttemptAt: null })
+    expect(commits).toEqual([])
+    expect(uploads).toHaveLength(2)
+    expect(deletedFiles).toEqual(['file-1', 'file-2'])
+    expect(await deps.storage.getEntries(userId)).toEqual([])
+  })
+
+  it('should not requeue a reflection deleted before a failed upload', async () => {
+    await deps.storage.putEntry(entry('r1', 1))
+    deps.uploadFile = async () => {
+      await deps.storage.deleteEntry(userId, 'r1')
+      throw new Error('Network error')
+    }
+
+    await processOutbox(userId, deps)
+
+    expect(statuses).toEqual([])
+    expect(await deps.storage.getEntries(userId)).toEqual([])
+  })
+
+  describe('Transactions', () => {
+    // Link ops recorded on a transaction chunk
+    const links = (chunk: { __ops: unknown[][] }) =>
+      chunk.__ops.filter(([command]) => command === 'link').map(([, , , args]) => args)
+
+    it('should create the pending reflection linked to its user and prompt', () => {
+      const transaction = getPendingTransaction({ ...entry('r1', 0), promptId: 'prompt-1' })
+
+      expect(transaction.__ops[0].slice(0, 3)).toEqual(['create', 'reflections', 'r1'])
+      expect(transaction.__ops[0][3]).toMatchObject({ syncStatus: 'pending' })
+      expect(links(transaction)).toEqual([{ user: 'profile-1' }, { prompt: 'prompt-1' }])
+    })
+
+    it('should not link a prompt when there is none', () => {
+      expect(links(getPendingTransaction(entry('r1', 0)))).toEqual([{ user: 'profile-1' }])
+    })
+
+    it('should list the uploaded files of an entry', () => {
+      const queued = entry('r1', 3)
+      queued.uploaded = [{ fileId: 'file-1', thumbnailId: 'thumb-1' }, null, null]
+
+      expect(getUploadedFileIds(queued)).toEqual(['file-1', 'thumb-1'])
+    })
+
+    it('should link the prompt and uploaded files on commit', () => {
+      const [reflectionTx, ...photoTxs] = getCommitTransactions(
+        { ...entry('r1', 2), promptId: 'prompt-1' },
+        [
+          { fileId: 'file-1', thumbnailId: 'thumb-1' },
+          { fileId: 'file-2', thumbnailId: 'thumb-2' },
+        ]
+      )
+
+      expect(reflectionTx.__ops[0][3]).toMatchObject({ syncStatus: 'synced' })
+      expect(links(reflectionTx)).toEqual([{ user: 'profile-1' }, { prompt: 'prompt-1' }])
+      expect(photoTxs.map((photoTx) => photoTx.__ops[0][3].position)).toEqual([0, 1])
+      expect(photoTxs.map(links)).toEqual([
+        [{ reflection: 'r1' }, { file: 'file-1' }, { thumbnail: 'thumb-1' }],
+        [{ reflection: 'r1' }, { file: 'file-2' }, { thumbnail: 'thumb-2' }],
+      ])
+    })
+  })
+})
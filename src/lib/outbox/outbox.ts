@@ -0,0 +1,307 @@
+/**
+ * Reflection Outbox
+ *
+ * New reflections are saved through an outbox so they survive being offline.
+ * Saving seals everything on the device and creates the reflection row with
+ * `syncStatus: 'pending'` (InstantDB queues the transaction while offline);
+ * the sealed photos wait here until they can be uploaded. Once they are, the
+ * photo rows are linked and the reflection is marked `'synced'`.
+ *
+ * Failed uploads are retried with exponential backoff. After MAX_ATTEMPTS
+ * errors the entry (and the reflection) is marked `'failed'` and waits for
+ * the user to retry. Losing the connection mid-upload doesn't count as an
+ * attempt. Uploaded files are recorded as they finish, so a retry only
+ * uploads what's missing.
+ *
+ * Uploaded files aren't linked to anything until the commit, so they're
+ * deleted when an entry fails for good (a retry uploads them again) or is
+ * dropped. An entry removed from storage mid-upload (the reflection was
+ * deleted) is neither written back nor committed.
+ *
+ * Storage access is injected via `OutboxDeps` so the outbox can be driven by
+ * InstantDB in the app and by in-memory fakes in tests. The transactions the
+ * app commits are built here too (see getPendingTransaction and
+ * getCommitTransactions), so they can be checked without a database.
+ */
+
+import { tx } from '@instantdb/react'
+import type { OutboxStorage } from './outboxStorage'
+
+export const MAX_ATTEMPTS = 5
+export const RETRY_BASE_DELAY = 5 * 1000 // First retry after 5 seconds
+export const RETRY_MAX_DELAY = 10 * 60 * 1000 // Never wait more than 10 minutes
+
+export type OutboxStatus = 'pending' | 'failed'
+
+export interface OutboxPhoto {
+  photoId: string // reflectionPhotos id (fixed up front so a repeated commit is harmless)
+  photo: Blob // Photo envelope
+  thumbnail: Blob // Thumbnail envelope
+  caption: string | null // Caption envelope
+  photoType: string
+}
+
+export interface UploadedPhoto {
+  fileId: string
+  thumbnailId: string
+}
+
+export interface OutboxEntry {
+  userId: string
+  userProfileId: string
+  reflectionId: string
+  reflection: {
+    reflectionText: string // Text envelope
+    metadata?: string // Metadata envelope (mood, tags, children), absent when none
+    encryptionAlgorithm: string
+    keyVersion: number
+    createdAt: number
+  }
+  promptId: string | null
+  photos: OutboxPhoto[] // Display order (first is the cover)
+  uploaded: (UploadedPhoto | null)[] // Files already uploaded, by photo index
+  status: OutboxStatus
+  attempts: number
+  nextAttemptAt: number
+  lastError: string | null
+}
+
+export interface OutboxSummary {
+  pending: number
+  failed: number
+  nextAttemptAt: number | null // Earliest scheduled retry
+}
+
+export interface OutboxDeps {
+  storage: OutboxStorage
+  // Upload a sealed file, returning the new $files id
+  uploadFile: (path: string, blob: Blob) => Promise<string>
+  // Link the uploaded photos and mark the reflection synced, atomically
+  commit: (entry: OutboxEntry, uploaded: UploadedPhoto[]) => Promise<void>
+  // Delete uploaded $files that will never be linked
+  deleteFiles: (fileIds: string[]) => Promise<void>
+  // Mark the reflection failed (or pending again on retry)
+  setSyncStatus: (entry: OutboxEntry, status: OutboxStatus) => Promise<void>
+  isOnline: () => boolean
+  now?: () => number
+}
+
+/**
+ * Delay before the next retry
+ *
+ * @param attempts - Failed attempts so far (1 or more)
+ * @returns number - Milliseconds, doubling per attempt up to RETRY_MAX_DELAY
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY)
+}
+
+/**
+ * Count pending and failed entries
+ *
+ * @param entries - Outbox entries
+ * @returns OutboxSummary - Counts and the next scheduled retry
+ */
+export function summarizeOutbox(entries: OutboxEntry[]): OutboxSummary {
+  const pending = entries.filter((entry) => entry.status === 'pending')
+  return {
+    pending: pending.length,
+    failed: entries.length - pending.length,
+    nextAttemptAt: pending.length
+      ? Math.min(...pending.map((entry) => entry.nextAttemptAt))
+      : null,
+  }
+}
+
+/**
+ * Files an entry has uploaded so far
+ * Not linked to anything until the commit, so they have to be deleted with the entry
+ *
+ * @param entry - Outbox entry
+ * @returns string[] - $files ids (photos and thumbnails)
+ */
+export function getUploadedFileIds(entry: OutboxEntry): string[] {
+  return entry.uploaded.flatMap((uploaded) =>
+    uploaded ? [uploaded.fileId, uploaded.thumbnailId] : []
+  )
+}
+
+/**
+ * Transaction creating the reflection row when it's queued
+ *
+ * @param entry - New outbox entry
+ * @returns Transaction creating the reflection as 'pending', linked to its user and prompt
+ */
+export function getPendingTransaction(entry: OutboxEntry) {
+  let transaction = tx.reflections[entry.reflectionId]
+    .create({ ...entry.reflection, syncStatus: 'pending' })
+    .link({ user: entry.userProfileId })
+  if (entry.promptId) {
+    transaction = transaction.link({ prompt: entry.promptId })
+  }
+  return transaction
+}
+
+/**
+ * Transactions linking the uploaded photos and marking the reflection synced
+ * Rewrites the whole reflection, so it lands even if the queued create was lost
+ *
+ * @param entry - Outbox entry
+ * @param uploaded - Uploaded files, by photo index
+ * @returns Transactions for OutboxDeps.commit
+ */
+export function getCommitTransactions(entry: OutboxEntry, uploaded: UploadedPhoto[]) {
+  let reflectionTx = tx.reflections[entry.reflectionId]
+    .update({ ...entry.reflection, syncStatus: 'synced' })
+    .link({ user: entry.userProfileId })
+  if (entry.promptId) {
+    reflectionTx = reflectionTx.link({ prompt: entry.promptId })
+  }
+
+  return [
+    reflectionTx,
+    ...entry.photos.map((photo, position) =>
+      tx.reflectionPhotos[photo.photoId]
+        .update({
+          position,
+          caption: photo.caption ?? undefined,
+          photoType: photo.photoType,
+          createdAt: entry.reflection.createdAt,
+        })
+        .link({ reflection: entry.reflectionId })
+        .link({ file: uploaded[position].fileId })
+        .link({ thumbnail: uploaded[position].thumbnailId })
+    ),
+  ]
+}
+
+/**
+ * Upload and commit every entry that's due
+ * Stops early when the device goes offline
+ *
+ * @param userId - User ID
+ * @param deps - Storage access
+ * @returns Promise<OutboxSummary> - What's left afterwards
+ */
+export async function processOutbox(userId: string, deps: OutboxDeps): Promise<OutboxSummary> {
+  const now = deps.now ?? Date.now
+  const entries = await deps.storage.getEntries(userId)
+
+  for (const entry of entries) {
+    if (entry.status !== 'pending' || entry.nextAttemptAt > now()) continue
+    if (!deps.isOnline()) break
+
+    try {
+      await sendEntry(entry, deps)
+      await deps.storage.deleteEntry(userId, entry.reflectionId)
+    } catch (error) {
+      console.error(`Failed to upload reflection ${entry.reflectionId}:`, error)
+
+      // Deleted mid-upload: nothing to retry, and writing it back would resurrect it
+      if (!(await isQueued(entry, deps))) {
+        await discardUploads(entry, deps)
+        continue
+      }
+
+      entry.lastError = error instanceof Error ? error.message : 'Upload failed'
+
+      // Going offline isn't the reflection's fault: try again once back online
+      if (deps.isOnline()) {
+        entry.attempts++
+        entry.nextAttemptAt = now() + getRetryDelay(entry.attempts)
+        if (entry.attempts >= MAX_ATTEMPTS) {
+          entry.status = 'failed'
+          await discardUploads(entry, deps)
+        }
+      }
+
+      await deps.storage.putEntry(entry)
+      if (entry.status === 'failed') {
+        await deps.setSyncStatus(entry, 'failed').catch((statusError) => {
+          console.warn('Failed to mark reflection as failed:', statusError)
+        })
+      }
+    }
+  }
+
+  return summarizeOutbox(await deps.storage.getEntries(userId))
+}
+
+/**
+ * Put a failed entry back in the queue for an immediate retry
+ *
+ * @param userId - User ID
+ * @param reflectionId - Reflection to retry
+ * @param deps - Storage access
+ */
+export async function retryOutboxEntry(
+  userId: string,
+  reflectionId: string,
+  deps: OutboxDeps
+): Promise<void> {
+  const entry = (await deps.storage.getEntries(userId)).find(
+    (candidate) => candidate.reflectionId === reflectionId
+  )
+  if (!entry) return
+
+  entry.status = 'pending'
+  entry.attempts = 0
+  entry.nextAttemptAt = 0
+  entry.lastError = null
+  await deps.storage.putEntry(entry)
+  await deps.setSyncStatus(entry, 'pending')
+}
+
+/**
+ * Utility: Upload whatever is missing, then commit
+ */
+async function sendEntry(entry: OutboxEntry, deps: OutboxDeps): Promise<void> {
+  const basePath = `reflections/${entry.userId}/${entry.reflection.createdAt}`
+
+  for (const [index, photo] of entry.photos.entries()) {
+    if (entry.uploaded[index]) continue
+
+    const fileId = await deps.uploadFile(`${basePath}-${index}.enc`, photo.photo)
+    const thumbnailId = await deps.uploadFile(`${basePath}-${index}.thumb.enc`, photo.thumbnail)
+
+    // Remember finished uploads in case a later one fails
+    entry.uploaded[index] = { fileId, thumbnailId }
+    if (!(await isQueued(entry, deps))) break
+    await deps.storage.putEntry(entry)
+  }
+
+  // Deleted mid-upload: committing would bring the reflection back
+  if (!(await isQueued(entry, deps))) {
+    await discardUploads(entry, deps)
+    return
+  }
+
+  await deps.commit(
+    entry,
+    entry.uploaded.filter((uploaded): uploaded is UploadedPhoto => !!uploaded)
+  )
+}
+
+/**
+ * Utility: Check whether an entry is still in storage
+ */
+async function isQueued(entry: OutboxEntry, deps: OutboxDeps): Promise<boolean> {
+  const entries = await deps.storage.getEntries(entry.userId)
+  return entries.some((candidate) => candidate.reflectionId === entry.reflectionId)
+}
+
+/**
+ * Utility: Delete the files an entry uploaded, so a later attempt starts over
+ * A failed delete keeps them recorded (and reused on retry)
+ */
+async function discardUploads(entry: OutboxEntry, deps: OutboxDeps): Promise<void> {
+  const fileIds = getUploadedFileIds(entry)
+  if (fileIds.length === 0) return
+
+  try {
+    await deps.deleteFiles(fileIds)
+    entry.uploaded = entry.photos.map(() => null)
+  } catch (error) {
+    console.warn('Failed to delete uploaded files:', error)
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Outbox Storage
+ *
+ * Where reflections waiting to be uploaded are kept on this device. Entries
+ * only hold envelopes (see outbox.ts), so nothing readable is written to
+ * disk. The browser uses IndexedDB, which stores the sealed photo blobs
+ * directly; tests swap in the in-memory backend with setOutboxStorage().
+ *
+ * IndexedDB Structure (database `reflections-outbox`):
+ * - `entries` - One OutboxEntry per queued reflection, keyed by `${userId}/${reflectionId}`
+ */
+
+import type { OutboxEntry } from './outbox'
+
+const DB_NAME = 'reflections-outbox'
+const DB_VERSION = 1
+const ENTRIES_STORE = 'entries'
+
+export interface OutboxStorage {
+  getEntries(userId: string): Promise<OutboxEntry[]>
+  putEntry(entry: OutboxEntry): Promise<void>
+  deleteEntry(userId: string, reflectionId: string): Promise<void>
+}
+
+let storage: OutboxStorage | null = null
+
+/**
+ * Replace the storage backend
+ * Tests use createMemoryOutboxStorage(); the browser defaults to IndexedDB
+ *
+ * @param nextStorage - Backend to use from now on
+ */
+export function setOutboxStorage(nextStorage: OutboxStorage): void {
+  storage = nextStorage
+}
+
+/**
+ * The storage backend (IndexedDB in the browser, memory elsewhere)
+ */
+export function getOutboxStorage(): OutboxStorage {
+  if (!storage) {
+    storage =
+      typeof indexedDB !== 'undefined' ? createIndexedDBOutboxStorage() : createMemoryOutboxStorage()
+  }
+  return storage
+}
+
+/**
+ * IndexedDB backend (default in the browser)
+ *
+ * @param dbName - Database name (override for isolation)
+ * @returns OutboxStorage
+ */
+export function createIndexedDBOutboxStorage(dbName = DB_NAME): OutboxStorage {
+  let dbPromise: Promise<IDBDatabase> | null = null
+
+  const open = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = openDatabase(dbName).catch((error) => {
+        dbPromise = null
+        throw error
+      })
+    }
+    return dbPromise
+  }
+
+  async function run<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await open()
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(ENTRIES_STORE, mode)
+      const request = operation(transaction.objectStore(ENTRIES_STORE))
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  }
+
+  return {
+    async getEntries(userId) {
+      // Keys start with the user id, so a key range selects just this user's entries
+      const range = IDBKeyRange.bound(`${userId}/`, `${userId}/￿`)
+      const entries = await run<OutboxEntry[]>('readonly', (store) => store.getAll(range))
+      return sortEntries(entries)
+    },
+    async putEntry(entry) {
+      await run('readwrite', (store) => store.put(entry, getEntryKey(entry.userId, entry.reflectionId)))
+    },
+    async deleteEntry(userId, reflectionId) {
+      await run('readwrite', (store) => store.delete(getEntryKey(userId, reflectionId)))
+    },
+  }
+}
+
+/**
+ * In-memory backend (tests, or browsers without IndexedDB)
+ * Queued reflections are lost when the page reloads
+ *
+ * @returns OutboxStorage
+ */
+export function createMemoryOutboxStorage(): OutboxStorage {
+  const entries = new Map<string, OutboxEntry>()
+
+  return {
+    async getEntries(userId) {
+      return sortEntries([...entries.values()].filter((entry) => entry.userId === userId))
+    },
+    async putEntry(entry) {
+      entries.set(getEntryKey(entry.userId, entry.reflectionId), entry)
+    },
+    async deleteEntry(userId, reflectionId) {
+      entries.delete(getEntryKey(userId, reflectionId))
+    },
+  }
+}
+
+/**
+ * Utility: Storage key of an entry
+ */
+function getEntryKey(userId: string, reflectionId: string): string {
+  return `${userId}/${reflectionId}`
+}
+
+/**
+ * Utility: Oldest reflection first, so they upload in the order they were written
+ */
+function sortEntries(entries: OutboxEntry[]): OutboxEntry[] {
+  return entries.sort((a, b) => a.reflection.createdAt - b.reflection.createdAt)
+}
+
+/**
+ * Utility: Open (and create/upgrade) the outbox database
+ */
+function openDatabase(dbName: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(dbName, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+        db.createObjectStore(ENTRIES_STORE)
+      }
+    }
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
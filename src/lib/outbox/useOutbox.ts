@@ -0,0 +1,306 @@
+/**
+ * useOutbox Hook
+ *
+ * Saves new reflections through the outbox (see outbox.ts) and keeps the
+ * queue moving: it's processed when the hook mounts, whenever the browser
+ * comes back online, and when the next retry is due. Any component can use
+ * it to show how many reflections are still waiting; a run started on one
+ * page keeps going after navigating to another.
+ *
+ * While reflections are waiting, a Background Sync is registered with the
+ * service worker (see src/lib/pwa), which asks the page to process the queue
+ * once the browser is back online.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { id } from '@instantdb/react'
+import { useAuth } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { useEncryption, ENVELOPE_FORMAT } from '@/lib/encryption'
+import { createThumbnail } from '@/lib/media'
+import { requestOutboxSync, onOutboxSyncRequested } from '@/lib/pwa'
+import {
+  isEmptyMetadata,
+  normalizeMetadata,
+  serializeMetadata,
+  type NewReflectionPhoto,
+  type ReflectionMetadata,
+} from '@/lib/reflections'
+import { requestStreakUpdate } from '@/lib/streaks'
+import {
+  processOutbox,
+  retryOutboxEntry,
+  getPendingTransaction,
+  getCommitTransactions,
+  summarizeOutbox,
+  type OutboxDeps,
+  type OutboxEntry,
+  type OutboxPhoto,
+  type OutboxSummary,
+} from './outbox'
+import { getOutboxStorage } from './outboxStorage'
+
+export interface QueuedReflection {
+  reflectionId: string // Envelopes are bound to it
+  userProfileId: string
+  text: string
+  photos: NewReflectionPhoto[] // Display order (first is the cover)
+  promptId: string | null
+  metadata?: ReflectionMetadata // Mood, tags and children (optional)
+}
+
+const EMPTY_SUMMARY: OutboxSummary = { pending: 0, failed: 0, nextAttemptAt: null }
+
+// Shared by every mounted hook, so a user's queue is only processed once at a time
+const activeRuns = new Map<string, Promise<OutboxSummary>>()
+const queuedRuns = new Map<string, Promise<OutboxSummary>>()
+const listeners = new Set<() => void>()
+
+export function useOutbox() {
+  const { user } = useAuth()
+  const refreshToken = user?.refresh_token
+  const { sealText, sealPhoto, keyVersion } = useEncryption()
+  const [summary, setSummary] = useState<OutboxSummary>(EMPTY_SUMMARY)
+  const [isProcessing, setIsProcessing] = useState(false)
+
+  const deps = useMemo<OutboxDeps>(
+    () => ({
+      storage: getOutboxStorage(),
+      uploadFile: async (path, blob) => {
+        const { data } = await db.storage.uploadFile(path, blob, {
+          contentType: 'application/octet-stream',
+        })
+        return data.id
+      },
+      commit: async (entry, uploaded) => {
+        await db.transact(getCommitTransactions(entry, uploaded))
+
+        // The streak is computed on the server; a failed request is caught up by the hourly job
+        if (refreshToken) {
+          requestStreakUpdate({ data: { refreshToken } }).catch((err) =>
+            console.error('Error requesting streak update:', err)
+          )
+        }
+      },
+      deleteFiles: async (fileIds) => {
+        await db.transact(fileIds.map((fileId) => db.tx.$files[fileId].delete()))
+      },
+      setSyncStatus: async (entry, status) => {
+        await db.transact(db.tx.reflections[entry.reflectionId].update({ syncStatus: status }))
+      },
+      isOnline: () => typeof navigator === 'undefined' || navigator.onLine,
+    }),
+    [refreshToken]
+  )
+
+  /**
+   * Re-read the queue after it changed
+   */
+  const refresh = useCallback(async () => {
+    if (!user?.id) return
+    try {
+      setSummary(summarizeOutbox(await deps.storage.getEntries(user.id)))
+    } catch (err) {
+      console.error('Error reading outbox:', err)
+    }
+  }, [user?.id, deps])
+
+  /**
+   * Upload everything that's due
+   * Joins the run in progress, or queues one more run after it
+   */
+  const processQueue = useCallback(async () => {
+    if (!user?.id) return
+    const userId = user.id
+
+    try {
+      setIsProcessing(true)
+      const remaining = await scheduleRun(userId, deps)
+      if (remaining.pending > 0) {
+        await requestOutboxSync()
+      }
+    } catch (err) {
+      console.error('Error processing outbox:', err)
+    } finally {
+      setIsProcessing(false)
+    }
+  }, [user?.id, deps])
+
+  /**
+   * Save a new reflection, online or not
+   * Everything is sealed here; the reflection row is created right away with
+   * `syncStatus: 'pending'` and the photos are uploaded by the queue
+   *
+   * @param reflection - Plaintext reflection and photos
+   */
+  const enqueueReflection = useCallback(
+    async (reflection: QueuedReflection) => {
+      if (!user?.id) {
+        throw new Error('Not signed in')
+      }
+      if (keyVersion === undefined) {
+        throw new Error('Encryption is not ready')
+      }
+
+      const { reflectionId } = reflection
+      const photos: OutboxPhoto[] = []
+
+      // One at a time, so only one full-size photo is in memory while sealing
+      for (const photo of reflection.photos) {
+        const thumbnail = photo.thumbnail ?? (await createThumbnail(photo.blob))
+        const caption = photo.caption?.trim()
+        const photoId = id()
+        photos.push({
+          photoId,
+          photo: await sealPhoto(photo.blob, reflectionId, 'photo', photoId),
+          thumbnail: await sealPhoto(thumbnail, reflectionId, 'thumbnail', photoId),
+          caption: caption ? await sealText(caption, reflectionId, 'caption', photoId) : null,
+          photoType: photo.blob.type || 'image/jpeg',
+        })
+      }
+
+      const metadata = normalizeMetadata(reflection.metadata)
+
+      const entry: OutboxEntry = {
+        userId: user.id,
+        userProfileId: reflection.userProfileId,
+        reflectionId,
+        reflection: {
+          reflectionText: await sealText(reflection.text, reflectionId),
+          ...(!isEmptyMetadata(metadata) && {
+            metadata: await sealText(serializeMetadata(metadata), reflectionId, 'metadata'),
+          }),
+          encryptionAlgorithm: ENVELOPE_FORMAT,
+          keyVersion,
+          createdAt: Date.now(),
+        },
+        promptId: reflection.promptId,
+        photos,
+        uploaded: photos.map(() => null),
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: 0,
+        lastError: null,
+      }
+
+      // Keep the sealed copy first, so nothing is lost if the tab closes now
+      await deps.storage.putEntry(entry)
+
+      try {
+        // Resolves right away when offline (InstantDB sends it once reconnected)
+        await db.transact(getPendingTransaction(entry))
+      } catch (err) {
+        await deps.storage.deleteEntry(user.id, reflectionId)
+        throw err
+      }
+
+      notifyListeners()
+      void processQueue()
+    },
+    [user?.id, keyVersion, sealText, sealPhoto, deps, processQueue]
+  )
+
+  /**
+   * Retry every reflection that gave up uploading
+   */
+  const retry = useCallback(async () => {
+    if (!user?.id) return
+
+    const entries = await deps.storage.getEntries(user.id)
+    for (const entry of entries) {
+      if (entry.status === 'failed') {
+        await retryOutboxEntry(user.id, entry.reflectionId, deps)
+      }
+    }
+
+    notifyListeners()
+    await processQueue()
+  }, [user?.id, deps, processQueue])
+
+  /**
+   * Process on mount, whenever the connection comes back and when the
+   * service worker's Background Sync fires
+   */
+  useEffect(() => {
+    if (!user?.id) return
+
+    listeners.add(refresh)
+    refresh()
+    processQueue()
+
+    const handleOnline = () => processQueue()
+    window.addEventListener('online', handleOnline)
+    const unsubscribeSync = onOutboxSyncRequested(handleOnline)
+
+    return () => {
+      listeners.delete(refresh)
+      window.removeEventListener('online', handleOnline)
+      unsubscribeSync()
+    }
+  }, [user?.id, refresh, processQueue])
+
+  /**
+   * Wake up when the next retry is due
+   */
+  useEffect(() => {
+    // While offline the 'online' event takes over
+    if (summary.nextAttemptAt === null || isProcessing || !navigator.onLine) return
+
+    const timer = setTimeout(
+      () => processQueue(),
+      Math.max(summary.nextAttemptAt - Date.now(), 0)
+    )
+    return () => clearTimeout(timer)
+  }, [summary.nextAttemptAt, isProcessing, processQueue])
+
+  return {
+    // State
+    pendingCount: summary.pending,
+    failedCount: summary.failed,
+    nextAttemptAt: summary.nextAttemptAt,
+    isProcessing,
+
+    // Functions
+    enqueueReflection,
+    retry,
+  }
+}
+
+/**
+ * Utility: Run the outbox, one run per user at a time
+ */
+function scheduleRun(userId: string, deps: OutboxDeps): Promise<OutboxSummary> {
+  const queued = queuedRuns.get(userId)
+  if (queued) return queued
+
+  const active = activeRuns.get(userId)
+  const run: Promise<OutboxSummary> = (active ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(() => {
+      queuedRuns.delete(userId)
+      activeRuns.set(userId, run)
+      return processOutbox(userId, deps)
+    })
+    .finally(() => {
+      if (activeRuns.get(userId) === run) {
+        activeRuns.delete(userId)
+      }
+      notifyListeners()
+    })
+
+  if (active) {
+    queuedRuns.set(userId, run)
+  } else {
+    activeRuns.set(userId, run)
+  }
+  return run
+}
+
+/**
+ * Utility: Tell every mounted hook to re-read the queue
+ */
+function notifyListeners(): void {
+  for (const listener of listeners) {
+    listener()
+  }
+}
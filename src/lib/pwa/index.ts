@@ -0,0 +1,19 @@
+/**
+ * PWA Module
+ *
+ * Installable app and offline support
+ *
+ * Exports:
+ * - Service worker registration
+ * - Background Sync for the reflection outbox
+ */
+
+// Service Worker
+export {
+  registerServiceWorker,
+  isServiceWorkerSupported,
+  requestOutboxSync,
+  onOutboxSyncRequested,
+  SERVICE_WORKER_URL,
+  OUTBOX_SYNC_TAG,
+} from './serviceWorker'
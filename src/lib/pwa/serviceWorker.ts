@@ -0,0 +1,90 @@
+/**
+ * Service Worker
+ *
+ * Registers `public/sw.js` (offline app shell and Background Sync) and talks
+ * to it. Everything here is a no-op where service workers aren't available
+ * (server rendering, tests, older browsers) and in development, where a
+ * caching worker would get in the way of hot reloading.
+ */
+
+export const SERVICE_WORKER_URL = '/sw.js'
+export const OUTBOX_SYNC_TAG = 'reflections-outbox'
+
+// Background Sync isn't in TypeScript's DOM types yet
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> }
+}
+
+/**
+ * Check whether this browser can run the service worker
+ */
+export function isServiceWorkerSupported(): boolean {
+  return typeof navigator !== 'undefined' && 'serviceWorker' in navigator
+}
+
+/**
+ * Register the service worker (production builds only)
+ * Safe to call more than once; failures are logged, never thrown
+ *
+ * @returns Promise<ServiceWorkerRegistration | null> - Registration, or null if unavailable
+ */
+export async function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (!isServiceWorkerSupported() || !import.meta.env.PROD) {
+    return null
+  }
+
+  try {
+    return await navigator.serviceWorker.register(SERVICE_WORKER_URL, { scope: '/' })
+  } catch (error) {
+    console.error('Service worker registration failed:', error)
+    return null
+  }
+}
+
+/**
+ * Ask the browser to wake the service worker once it's back online, so
+ * queued reflections upload even if the tab missed the `online` event
+ * Falls back silently where Background Sync isn't supported
+ *
+ * @returns Promise<boolean> - True if a sync was registered
+ */
+export async function requestOutboxSync(): Promise<boolean> {
+  if (!isServiceWorkerSupported()) {
+    return false
+  }
+
+  try {
+    const registration = (await navigator.serviceWorker.getRegistration()) as
+      | SyncRegistration
+      | undefined
+    if (!registration?.sync) {
+      return false
+    }
+    await registration.sync.register(OUTBOX_SYNC_TAG)
+    return true
+  } catch (error) {
+    console.warn('Background sync unavailable:', error)
+    return false
+  }
+}
+
+/**
+ * Listen for the service worker asking this window to flush the outbox
+ *
+ * @param callback - Called on every request
+ * @returns () => void - Unsubscribe
+ */
+export function onOutboxSyncRequested(callback: () => void): () => void {
+  if (!isServiceWorkerSupported()) {
+    return () => {}
+  }
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === OUTBOX_SYNC_TAG) {
+      callback()
+    }
+  }
+
+  navigator.serviceWorker.addEventListener('message', handleMessage)
+  return () => navigator.serviceWorker.removeEventListener('message', handleMessage)
+}
@@ -0,0 +1,78 @@
+/**
+ * Reflections Module
+ *
+ * Photos, editing, revision history and deletion of saved reflections
+ *
+ * Exports:
+ * - React hooks for uploading photos, decrypting thumbnails and editing, restoring and
+ *   deleting a reflection
+ * - Photo helpers
+ * - Thumbnail downloads shared by list views (with prefetching)
+ * - Revision helpers
+ * - Mood, tags and children metadata
+ */
+
+// React Hooks
+export { useReflectionEditor, type ReflectionEdit } from './useReflectionEditor'
+export { usePhotoUploads } from './usePhotoUploads'
+export {
+  useReflectionThumbnail,
+  usePhotoThumbnail,
+  type ThumbnailSource,
+} from './useReflectionThumbnail'
+
+// Photos
+export {
+  getOrderedPhotos,
+  moveItem,
+  getPhotoFiles,
+  MAX_PHOTOS,
+  type ReflectionPhoto,
+  type NewReflectionPhoto,
+  type PhotoSource,
+  type PhotoHolder,
+} from './photos'
+
+// Thumbnails
+export {
+  getThumbnailUrl,
+  getPhotoThumbnailUrl,
+  fetchThumbnail,
+  prefetchThumbnails,
+  MAX_CACHED_THUMBNAILS,
+} from './thumbnailCache'
+
+// Revisions
+export {
+  copyRevisionFields,
+  sortRevisions,
+  getRevisionsToPrune,
+  getRevisionFiles,
+  getReflectionFiles,
+  getSnapshotTransactions,
+  getEditTransaction,
+  getRestoreTransactions,
+  MAX_REVISIONS,
+  type StoredFile,
+  type RevisionFields,
+  type ReflectionRevision,
+  type RevisableReflection,
+} from './revisions'
+
+// Metadata
+export {
+  normalizeMood,
+  normalizeTags,
+  normalizeChildren,
+  normalizeMetadata,
+  isEmptyMetadata,
+  serializeMetadata,
+  parseMetadata,
+  MOOD_MIN,
+  MOOD_MAX,
+  MOOD_LABELS,
+  MAX_TAGS,
+  MAX_TAG_LENGTH,
+  EMPTY_METADATA,
+  type ReflectionMetadata,
+} from './metadata'
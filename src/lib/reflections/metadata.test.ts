@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import {
+  normalizeMood,
+  normalizeTags,
+  normalizeChildren,
+  normalizeMetadata,
+  isEmptyMetadata,
+  serializeMetadata,
+  parseMetadata,
+  EMPTY_METADATA,
+  MAX_TAGS,
+  MAX_TAG_LENGTH,
+} from './metadata'
+
+describe('Reflection Metadata', () => {
+  it('should keep moods whole and on the scale', () => {
+    expect(normalizeMood(4)).toBe(4)
+    expect(normalizeMood(3.6)).toBe(4)
+    expect(normalizeMood(0)).toBe(1)
+    expect(normalizeMood(9)).toBe(5)
+    expect(normalizeMood(Number.NaN)).toBeNull()
+    expect(normalizeMood('4')).toBeNull()
+    expect(normalizeMood(undefined)).toBeNull()
+  })
+
+  it('should clean tags and drop duplicates', () => {
+    expect(normalizeTags(['  Beach ', '#beach', 'first   steps', '', '##Zoo', 42])).toEqual([
+      'beach',
+      'first steps',
+      'zoo',
+    ])
+    expect(normalizeTags('beach')).toEqual([])
+  })
+
+  it('should keep the first spelling of a child\'s name', () => {
+    expect(normalizeChildren(['Ada', 'ada ', ' Max'])).toEqual(['Ada', 'Max'])
+  })
+
+  it('should cap the number and length of tags', () => {
+    const tags = Array.from({ length: MAX_TAGS + 5 }, (_, index) => `tag ${index}`)
+
+    expect(normalizeTags(tags)).toHaveLength(MAX_TAGS)
+    expect(normalizeTags(['x'.repeat(100)])[0]).toHaveLength(MAX_TAG_LENGTH)
+  })
+
+  it('should round-trip through JSON', () => {
+    const metadata = { mood: 5, tags: ['beach'], children: ['Ada'] }
+
+    expect(parseMetadata(serializeMetadata(metadata))).toEqual(metadata)
+  })
+
+  it('should read invalid or partial documents as empty fields', () => {
+    expect(parseMetadata('not json')).toEqual(EMPTY_METADATA)
+    expect(parseMetadata('null')).toEqual(EMPTY_METADATA)
+    expect(parseMetadata('{"mood":2,"extra":true}')).toEqual({ mood: 2, tags: [], children: [] })
+    expect(normalizeMetadata({ tags: 'beach', children: null })).toEqual(EMPTY_METADATA)
+  })
+
+  it('should know when there is nothing to store', () => {
+    expect(isEmptyMetadata(EMPTY_METADATA)).toBe(true)
+    expect(isEmptyMetadata({ ...EMPTY_METADATA, mood: 3 })).toBe(false)
+    expect(isEmptyMetadata({ ...EMPTY_METADATA, children: ['Ada'] })).toBe(false)
+  })
+})
@@ -0,0 +1,136 @@
+/**
+ * Reflection Metadata
+ *
+ * Optional structured details about a reflection: a mood on a 1–5 scale,
+ * free-form tags and the children it's about. They're stored as one JSON
+ * document, sealed like the text (an envelope bound to the reflection's id,
+ * field 'metadata'), in `reflections.metadata`. Reflections without any
+ * details have no metadata envelope at all.
+ *
+ * Parsing is lenient: unknown fields are dropped and invalid values are
+ * normalized away, so newer or hand-edited documents never break a page.
+ */
+
+export const MOOD_MIN = 1
+export const MOOD_MAX = 5
+export const MOOD_LABELS: Record<number, string> = {
+  1: 'Awful',
+  2: 'Low',
+  3: 'Okay',
+  4: 'Good',
+  5: 'Great',
+}
+
+export const MAX_TAGS = 20
+export const MAX_TAG_LENGTH = 40
+
+export interface ReflectionMetadata {
+  mood: number | null // MOOD_MIN..MOOD_MAX, null when not set
+  tags: string[] // Lowercase, no '#'
+  children: string[] // Names as written
+}
+
+export const EMPTY_METADATA: ReflectionMetadata = { mood: null, tags: [], children: [] }
+
+/**
+ * Normalize a mood value
+ *
+ * @param mood - Any value
+ * @returns number | null - Whole number within the scale, or null
+ */
+export function normalizeMood(mood: unknown): number | null {
+  if (typeof mood !== 'number' || !Number.isFinite(mood)) return null
+  return Math.min(Math.max(Math.round(mood), MOOD_MIN), MOOD_MAX)
+}
+
+/**
+ * Normalize tags: trimmed, lowercase, without a leading '#', no duplicates
+ *
+ * @param tags - Tags as entered
+ * @returns string[] - At most MAX_TAGS tags, in the order entered
+ */
+export function normalizeTags(tags: unknown): string[] {
+  return normalizeList(tags, (tag) => tag.replace(/^#+/, '').toLowerCase())
+}
+
+/**
+ * Normalize children's names: trimmed, no duplicates (ignoring case)
+ *
+ * @param children - Names as entered
+ * @returns string[] - At most MAX_TAGS names, first spelling kept
+ */
+export function normalizeChildren(children: unknown): string[] {
+  return normalizeList(children, (name) => name)
+}
+
+/**
+ * Normalize a whole metadata document
+ *
+ * @param metadata - Partial or untrusted metadata
+ * @returns ReflectionMetadata
+ */
+export function normalizeMetadata(metadata: unknown): ReflectionMetadata {
+  if (!metadata || typeof metadata !== 'object') return { ...EMPTY_METADATA }
+
+  const source = metadata as Record<string, unknown>
+  return {
+    mood: normalizeMood(source.mood),
+    tags: normalizeTags(source.tags),
+    children: normalizeChildren(source.children),
+  }
+}
+
+/**
+ * Check whether there's anything worth storing
+ *
+ * @param metadata - Normalized metadata
+ * @returns boolean - True without a mood, tags or children
+ */
+export function isEmptyMetadata(metadata: ReflectionMetadata): boolean {
+  return metadata.mood === null && metadata.tags.length === 0 && metadata.children.length === 0
+}
+
+/**
+ * Serialize metadata for sealing
+ *
+ * @param metadata - Metadata to store
+ * @returns string - JSON document
+ */
+export function serializeMetadata(metadata: ReflectionMetadata): string {
+  return JSON.stringify(normalizeMetadata(metadata))
+}
+
+/**
+ * Parse an opened metadata document
+ *
+ * @param json - JSON document from the envelope
+ * @returns ReflectionMetadata - Empty metadata if the document isn't valid JSON
+ */
+export function parseMetadata(json: string): ReflectionMetadata {
+  try {
+    return normalizeMetadata(JSON.parse(json))
+  } catch {
+    return { ...EMPTY_METADATA }
+  }
+}
+
+/**
+ * Utility: Trim, clean and de-duplicate a list of strings
+ */
+function normalizeList(values: unknown, clean: (value: string) => string): string[] {
+  if (!Array.isArray(values)) return []
+
+  const seen = new Set<string>()
+  const result: string[] = []
+  for (const value of values) {
+    if (typeof value !== 'string') continue
+    const cleaned = clean(value.trim().replace(/\s+/g, ' ')).trim().slice(0, MAX_TAG_LENGTH)
+    const key = cleaned.toLowerCase()
+    if (!cleaned || seen.has(key)) continue
+
+    seen.add(key)
+    result.push(cleaned)
+    if (result.length === MAX_TAGS) break
+  }
+  return result
+}
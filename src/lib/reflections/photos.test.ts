@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import { getOrderedPhotos, moveItem, getPhotoFiles, type ReflectionPhoto } from './photos'
+
+function file(fileId: string) {
+  return { id: fileId, path: `reflections/user/${fileId}.enc`, url: `https://files/${fileId}` }
+}
+
+function photo(photoId: string, position: number): ReflectionPhoto {
+  return {
+    id: photoId,
+    position,
+    caption: `{"v":1,"ct":"${photoId}"}`,
+    photoType: 'image/jpeg',
+    file: file(`${photoId}-file`),
+    thumbnail: file(`${photoId}-thumb`),
+  }
+}
+
+describe('Reflection Photos', () => {
+  describe('Ordering', () => {
+    it('should sort photos by position', () => {
+      const photos = getOrderedPhotos({ photos: [photo('b', 1), photo('c', 2), photo('a', 0)] })
+
+      expect(photos.map(({ id }) => id)).toEqual(['a', 'b', 'c'])
+      expect(photos.every(({ isLegacy }) => !isLegacy)).toBe(true)
+    })
+
+    it('should fall back to the single photo of older reflections', () => {
+      const photos = getOrderedPhotos({
+        photo: file('old'),
+        thumbnail: file('old-thumb'),
+        photoType: 'image/png',
+      })
+
+      expect(photos).toEqual([
+        {
+          id: 'old',
+          file: file('old'),
+          thumbnail: file('old-thumb'),
+          photoType: 'image/png',
+          caption: null,
+          isLegacy: true,
+        },
+      ])
+    })
+
+    it('should skip photos whose file is missing', () => {
+      const { file: _file, ...uploading } = photo('b', 1)
+
+      expect(getOrderedPhotos({ photos: [photo('a', 0), uploading] })).toHaveLength(1)
+      expect(getOrderedPhotos({})).toEqual([])
+    })
+  })
+
+  describe('Reordering', () => {
+    it('should move an item forwards and backwards', () => {
+      expect(moveItem(['a', 'b', 'c', 'd'], 0, 2)).toEqual(['b', 'c', 'a', 'd'])
+      expect(moveItem(['a', 'b', 'c', 'd'], 3, 0)).toEqual(['d', 'a', 'b', 'c'])
+    })
+
+    it('should clamp the target and ignore invalid moves', () => {
+      const items = ['a', 'b', 'c']
+
+      expect(moveItem(items, 0, 10)).toEqual(['b', 'c', 'a'])
+      expect(moveItem(items, 5, 0)).toBe(items)
+      expect(moveItem(items, 1, 1)).toBe(items)
+    })
+  })
+
+  it('should list the files and thumbnails of every photo', () => {
+    const { thumbnail: _thumbnail, ...withoutThumbnail } = photo('b', 1)
+
+    expect(getPhotoFiles([photo('a', 0), withoutThumbnail]).map(({ id }) => id)).toEqual([
+      'a-file',
+      'a-thumb',
+      'b-file',
+    ])
+  })
+})
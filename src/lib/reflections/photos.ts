@@ -0,0 +1,115 @@
+/**
+ * Reflection Photos
+ *
+ * A reflection holds up to MAX_PHOTOS ordered photos (`reflectionPhotos`),
+ * each with an encrypted file, thumbnail and optional encrypted caption.
+ * Reflections saved before multiple photos existed have a single `photo`
+ * (and `thumbnail`) link instead; getOrderedPhotos() reads both shapes so
+ * components don't have to.
+ *
+ * Photo files are envelopes bound to the reflection id and the photo's
+ * `reflectionPhotos` id (field 'photo' or 'thumbnail'), and captions to both
+ * with field 'caption' (see getEnvelopePhotoId).
+ */
+
+import type { StoredFile } from './revisions'
+
+export const MAX_PHOTOS = 10
+
+export interface ReflectionPhoto {
+  id: string
+  position: number
+  caption?: string | null // Encrypted caption envelope
+  photoType?: string | null
+  file?: StoredFile
+  thumbnail?: StoredFile
+}
+
+export interface NewReflectionPhoto {
+  blob: Blob // Compressed photo (plaintext, sealed before upload)
+  thumbnail?: Blob | null // Created from the photo when missing
+  caption?: string
+}
+
+export interface PhotoSource {
+  id: string // reflectionPhotos id, or the file id for the single older photo
+  file: StoredFile
+  thumbnail?: StoredFile
+  photoType?: string | null
+  caption?: string | null // Encrypted caption envelope
+  isLegacy: boolean // Single older photo, encrypted in the reflection's own format
+}
+
+export interface PhotoHolder {
+  photo?: StoredFile
+  thumbnail?: StoredFile
+  photoType?: string | null
+  photos?: ReflectionPhoto[]
+}
+
+/**
+ * A reflection's photos in display order
+ * Falls back to the single photo of older reflections
+ *
+ * @param holder - Reflection (or revision) with `photos` and/or `photo` queried
+ * @returns PhotoSource[] - Cover photo first
+ */
+export function getOrderedPhotos(holder: PhotoHolder): PhotoSource[] {
+  const photos = [...(holder.photos ?? [])]
+    .filter((photo): photo is ReflectionPhoto & { file: StoredFile } => !!photo.file)
+    .sort((a, b) => a.position - b.position)
+    .map((photo) => ({
+      id: photo.id,
+      file: photo.file,
+      thumbnail: photo.thumbnail,
+      photoType: photo.photoType,
+      caption: photo.caption,
+      isLegacy: false,
+    }))
+
+  if (photos.length > 0 || !holder.photo) {
+    return photos
+  }
+
+  return [
+    {
+      id: holder.photo.id,
+      file: holder.photo,
+      thumbnail: holder.thumbnail,
+      photoType: holder.photoType,
+      caption: null,
+      isLegacy: true,
+    },
+  ]
+}
+
+/**
+ * Move an item to a new index (drag-to-reorder)
+ *
+ * @param items - Items in their current order
+ * @param from - Index of the item to move
+ * @param to - Index to move it to
+ * @returns T[] - New array (the input is not modified)
+ */
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (from === to || from < 0 || from >= items.length) {
+    return items
+  }
+
+  const next = [...items]
+  const [item] = next.splice(from, 1)
+  next.splice(Math.min(Math.max(to, 0), next.length), 0, item)
+  return next
+}
+
+/**
+ * Every file of a set of photos
+ *
+ * @param photos - Reflection photos
+ * @returns StoredFile[] - Photo and thumbnail files
+ */
+export function getPhotoFiles(photos: ReflectionPhoto[]): StoredFile[] {
+  return photos.flatMap((photo) =>
+    [photo.file, photo.thumbnail].filter((file): file is StoredFile => !!file)
+  )
+}
@@ -0,0 +1,238 @@
+import { describe, it, expect } from 'vitest'
+import {
+  copyRevisionFields,
+  sortRevisions,
+  getRevisionsToPrune,
+  getReflectionFiles,
+  getSnapshotTransactions,
+  getEditTransaction,
+  getRestoreTransactions,
+  type ReflectionRevision,
+  type RevisableReflection,
+} from './revisions'
+
+function file(fileId: string) {
+  return { id: fileId, path: `reflections/user/${fileId}.enc`, url: `https://files/${fileId}` }
+}
+
+function revision(revisionId: string, createdAt: number): ReflectionRevision {
+  return {
+    id: revisionId,
+    reflectionText: `{"v":1,"ct":"${revisionId}"}`,
+    encryptionAlgorithm: 'envelope',
+    keyVersion: 1,
+    createdAt,
+    photo: file(`${revisionId}-photo`),
+    thumbnail: file(`${revisionId}-thumb`),
+  }
+}
+
+// Link and unlink ops recorded on a transaction chunk, as [command, etype, id, links]
+function links(chunk: { __ops: unknown[][] }) {
+  return chunk.__ops
+    .filter(([command]) => command === 'link' || command === 'unlink')
+    .map(([command, etype, chunkId, args]) => [command, etype, chunkId, args])
+}
+
+function legacyReflection(): RevisableReflection {
+  return {
+    id: 'reflection-1',
+    reflectionText: 'current-envelope',
+    encryptionAlgorithm: 'envelope',
+    photo: file('photo'),
+    thumbnail: file('thumb'),
+    prompt: { id: 'prompt-1' },
+  }
+}
+
+describe('Reflection Revisions', () => {
+  describe('Copying fields', () => {
+    it('should copy the stored ciphertext unchanged', () => {
+      const fields = copyRevisionFields({
+        reflectionText: 'base64-ciphertext',
+        encryptionIV: 'base64-iv',
+        encryptionAlgorithm: 'AES-GCM-256',
+        photoIV: 'photo-iv',
+        photoType: 'image/png',
+        keyVersion: 2,
+        metadata: 'metadata-envelope',
+      })
+
+      expect(fields).toEqual({
+        reflectionText: 'base64-ciphertext',
+        encryptionIV: 'base64-iv',
+        encryptionAlgorithm: 'AES-GCM-256',
+        photoIV: 'photo-iv',
+        photoType: 'image/png',
+        keyVersion: 2,
+        metadata: 'metadata-envelope',
+      })
+    })
+
+    it('should clear fields the source does not have', () => {
+      const fields = copyRevisionFields({ reflectionText: 'Legacy plaintext' })
+
+      expect(fields.encryptionIV).toBeNull()
+      expect(fields.encryptionAlgorithm).toBeNull()
+      expect(fields.photoIV).toBeNull()
+      expect(fields.photoType).toBeNull()
+      expect(fields.keyVersion).toBeNull()
+      expect(fields.metadata).toBeNull()
+    })
+  })
+
+  describe('Pruning', () => {
+    it('should sort revisions newest first', () => {
+      const sorted = sortRevisions([revision('a', 1), revision('c', 3), revision('b', 2)])
+      expect(sorted.map(({ id }) => id)).toEqual(['c', 'b', 'a'])
+    })
+
+    it('should keep room for the next revision', () => {
+      const revisions = [revision('a', 1), revision('b', 2), revision('c', 3)]
+
+      expect(getRevisionsToPrune(revisions, 3).map(({ id }) => id)).toEqual(['a'])
+      expect(getRevisionsToPrune(revisions, 2).map(({ id }) => id)).toEqual(['b', 'a'])
+    })
+
+    it('should prune nothing below the limit', () => {
+      expect(getRevisionsToPrune([revision('a', 1)], 20)).toEqual([])
+    })
+  })
+
+  describe('Files', () => {
+    it('should include the photo, thumbnail and every revision file', () => {
+      const files = getReflectionFiles({
+        id: 'reflection-1',
+        reflectionText: '',
+        photo: file('photo'),
+        thumbnail: file('thumb'),
+        revisions: [revision('a', 1), { ...revision('b', 2), thumbnail: undefined }],
+      })
+
+      expect(files.map(({ id }) => id)).toEqual(['photo', 'thumb', 'a-photo', 'a-thumb', 'b-photo'])
+    })
+
+    it('should not list a file twice', () => {
+      const files = getReflectionFiles({
+        id: 'reflection-1',
+        reflectionText: '',
+        photo: file('shared'),
+        revisions: [{ ...revision('a', 1), photo: file('shared') }],
+      })
+
+      expect(files.map(({ id }) => id)).toEqual(['shared', 'a-thumb'])
+    })
+
+    it('should include the files of ordered photos', () => {
+      const files = getReflectionFiles({
+        id: 'reflection-1',
+        reflectionText: '',
+        photos: [{ id: 'p1', position: 0, file: file('p1'), thumbnail: file('p1-thumb') }],
+        revisions: [
+          {
+            ...revision('a', 1),
+            photo: undefined,
+            thumbnail: undefined,
+            photos: [{ id: 'p0', position: 0, file: file('p0') }],
+          },
+        ],
+      })
+
+      expect(files.map(({ id }) => id)).toEqual(['p1', 'p1-thumb', 'p0'])
+    })
+  })
+
+  describe('Transactions', () => {
+    const edited = copyRevisionFields({ reflectionText: 'new-envelope' })
+
+    it('should link the snapshot to the current photo, thumbnail and prompt', () => {
+      const [revisionTx] = getSnapshotTransactions(legacyReflection(), 5, 'revision-1')
+
+      expect(links(revisionTx)).toEqual([
+        ['link', 'reflectionRevisions', 'revision-1', { reflection: 'reflection-1' }],
+        ['link', 'reflectionRevisions', 'revision-1', { photo: 'photo' }],
+        ['link', 'reflectionRevisions', 'revision-1', { thumbnail: 'thumb' }],
+        ['link', 'reflectionRevisions', 'revision-1', { prompt: 'prompt-1' }],
+      ])
+    })
+
+    it('should move ordered photos to the snapshot', () => {
+      const transactions = getSnapshotTransactions(
+        {
+          id: 'reflection-1',
+          reflectionText: '',
+          photos: [{ id: 'p1', position: 0, file: file('p1') }],
+        },
+        5,
+        'revision-1'
+      )
+
+      expect(transactions).toHaveLength(2)
+      expect(links(transactions[1])).toEqual([
+        ['unlink', 'reflectionPhotos', 'p1', { reflection: 'reflection-1' }],
+        ['link', 'reflectionPhotos', 'p1', { revision: 'revision-1' }],
+      ])
+    })
+
+    it('should unlink the legacy photo and switch the prompt on edit', () => {
+      const update = getEditTransaction(legacyReflection(), edited, 'prompt-2')
+
+      expect(update.__ops[0]).toEqual(['update', 'reflections', 'reflection-1', edited])
+      expect(links(update)).toEqual([
+        ['unlink', 'reflections', 'reflection-1', { photo: 'photo' }],
+        ['unlink', 'reflections', 'reflection-1', { thumbnail: 'thumb' }],
+        ['unlink', 'reflections', 'reflection-1', { prompt: 'prompt-1' }],
+        ['link', 'reflections', 'reflection-1', { prompt: 'prompt-2' }],
+      ])
+    })
+
+    it('should leave an unchanged prompt alone on edit', () => {
+      const update = getEditTransaction(
+        { id: 'reflection-1', reflectionText: '', prompt: { id: 'prompt-1' } },
+        edited,
+        'prompt-1'
+      )
+
+      expect(links(update)).toEqual([])
+    })
+
+    it('should unlink the prompt when an edit clears it', () => {
+      const update = getEditTransaction(
+        { id: 'reflection-1', reflectionText: '', prompt: { id: 'prompt-1' } },
+        edited,
+        null
+      )
+
+      expect(links(update)).toEqual([
+        ['unlink', 'reflections', 'reflection-1', { prompt: 'prompt-1' }],
+      ])
+    })
+
+    it("should move the revision's photos, thumbnail and prompt back on restore", () => {
+      const restored: ReflectionRevision = {
+        ...revision('revision-1', 1),
+        prompt: { id: 'prompt-0' },
+        photos: [{ id: 'p0', position: 0, file: file('p0') }],
+      }
+
+      const [photoTx, deleteTx, update] = getRestoreTransactions(legacyReflection(), restored)
+
+      expect(links(photoTx)).toEqual([
+        ['unlink', 'reflectionPhotos', 'p0', { revision: 'revision-1' }],
+        ['link', 'reflectionPhotos', 'p0', { reflection: 'reflection-1' }],
+      ])
+      expect(deleteTx.__ops.map((op) => op.slice(0, 3))).toEqual([
+        ['delete', 'reflectionRevisions', 'revision-1'],
+      ])
+      expect(update.__ops[0][3]).toEqual(copyRevisionFields(restored))
+      expect(links(update)).toEqual([
+        ['unlink', 'reflections', 'reflection-1', { photo: 'photo' }],
+        ['unlink', 'reflections', 'reflection-1', { thumbnail: 'thumb' }],
+        ['unlink', 'reflections', 'reflection-1', { prompt: 'prompt-1' }],
+        ['link', 'reflections', 'reflection-1', { photo: 'revision-1-photo' }],
+        ['link', 'reflections', 'reflection-1', { thumbnail: 'revision-1-thumb' }],
+        ['link', 'reflections', 'reflection-1', { prompt: 'prompt-0' }],
+      ])
+    })
+  })
+})
@@ -0,0 +1,230 @@
+/**
+ * Reflection Revisions
+ *
+ * Editing a reflection keeps the version it replaces as a revision, so an
+ * accidental overwrite can be undone. A revision is a full snapshot: the
+ * stored (still encrypted) text and metadata fields, the prompt, and the
+ * photos (see photos.ts), which are moved from the reflection to the revision.
+ *
+ * Text is copied exactly as stored, so revisions never hold plaintext and
+ * stay bound to their reflection's id. Because every edit re-seals the text,
+ * photos and captions under the active key, a reflection and each of its
+ * revisions always use one key version for all their fields.
+ *
+ * Restoring a revision snapshots the current version first, so a restore can
+ * itself be undone.
+ *
+ * The transactions for both are built here. Transaction chunks are immutable
+ * (every `.link()` / `.unlink()` returns a new chunk), so links are always
+ * chained onto the chunk that's returned.
+ */
+
+import { id, tx } from '@instantdb/react'
+import { getPhotoFiles, type ReflectionPhoto } from './photos'
+
+export const MAX_REVISIONS = 20
+
+export interface StoredFile {
+  id: string
+  path: string
+  url: string
+}
+
+export interface RevisionFields {
+  reflectionText: string
+  encryptionIV?: string | null
+  encryptionAlgorithm?: string | null
+  photoIV?: string | null
+  photoType?: string | null
+  keyVersion?: number | null
+  metadata?: string | null // Metadata envelope (see metadata.ts)
+}
+
+export interface ReflectionRevision extends RevisionFields {
+  id: string
+  createdAt: number
+  photo?: StoredFile // Single photo of older reflections
+  thumbnail?: StoredFile
+  photos?: ReflectionPhoto[]
+  prompt?: {
+    id: string
+  }
+}
+
+export interface RevisableReflection extends RevisionFields {
+  id: string
+  photo?: StoredFile // Single photo of older reflections
+  thumbnail?: StoredFile
+  photos?: ReflectionPhoto[]
+  prompt?: {
+    id: string
+  }
+  user?: {
+    id: string
+  }
+  revisions?: ReflectionRevision[]
+}
+
+/**
+ * Copy the stored text fields of a reflection or revision
+ * Absent fields become null so they're cleared when written over another version
+ *
+ * @param source - Reflection or revision
+ * @returns Required<RevisionFields> - Fields to store on the other side
+ */
+export function copyRevisionFields(source: RevisionFields): Required<RevisionFields> {
+  return {
+    reflectionText: source.reflectionText,
+    encryptionIV: source.encryptionIV ?? null,
+    encryptionAlgorithm: source.encryptionAlgorithm ?? null,
+    photoIV: source.photoIV ?? null,
+    photoType: source.photoType ?? null,
+    keyVersion: source.keyVersion ?? null,
+    metadata: source.metadata ?? null,
+  }
+}
+
+/**
+ * Sort revisions newest first
+ */
+export function sortRevisions(revisions: ReflectionRevision[]): ReflectionRevision[] {
+  return [...revisions].sort((a, b) => b.createdAt - a.createdAt)
+}
+
+/**
+ * Pick the oldest revisions to drop before another one is added
+ *
+ * @param revisions - Existing revisions
+ * @param maxRevisions - Revisions to keep per reflection
+ * @returns ReflectionRevision[] - Revisions to delete (with their files)
+ */
+export function getRevisionsToPrune(
+  revisions: ReflectionRevision[],
+  maxRevisions = MAX_REVISIONS
+): ReflectionRevision[] {
+  return sortRevisions(revisions).slice(Math.max(maxRevisions - 1, 0))
+}
+
+/**
+ * Every file owned by revisions
+ *
+ * @param revisions - Revisions
+ * @returns StoredFile[] - Photos and thumbnails
+ */
+export function getRevisionFiles(revisions: ReflectionRevision[]): StoredFile[] {
+  return revisions.flatMap((revision) => [
+    ...[revision.photo, revision.thumbnail].filter((file): file is StoredFile => !!file),
+    ...getPhotoFiles(revision.photos ?? []),
+  ])
+}
+
+/**
+ * Every file to remove when a reflection is deleted
+ *
+ * @param reflection - Reflection with its revisions
+ * @returns StoredFile[] - Photo, thumbnail and revision files (no duplicates)
+ */
+export function getReflectionFiles(reflection: RevisableReflection): StoredFile[] {
+  const files = [
+    reflection.photo,
+    reflection.thumbnail,
+    ...getPhotoFiles(reflection.photos ?? []),
+    ...getRevisionFiles(reflection.revisions ?? []),
+  ].filter((file): file is StoredFile => !!file)
+
+  return [...new Map(files.map((file) => [file.id, file])).values()]
+}
+
+/**
+ * Transactions that keep a reflection's current version as a revision
+ * The current photos, thumbnail and prompt move from the reflection to the revision
+ *
+ * @param current - Reflection as it is now
+ * @param createdAt - When the revision was made (Unix ms)
+ * @param revisionId - Id for the new revision
+ * @returns Transactions creating the revision and moving its photos
+ */
+export function getSnapshotTransactions(
+  current: RevisableReflection,
+  createdAt: number,
+  revisionId = id()
+) {
+  let revision = tx.reflectionRevisions[revisionId]
+    .create({ ...copyRevisionFields(current), createdAt })
+    .link({ reflection: current.id })
+
+  if (current.photo) revision = revision.link({ photo: current.photo.id })
+  if (current.thumbnail) revision = revision.link({ thumbnail: current.thumbnail.id })
+  if (current.prompt) revision = revision.link({ prompt: current.prompt.id })
+
+  return [
+    revision,
+    ...(current.photos ?? []).map((photo) =>
+      tx.reflectionPhotos[photo.id].unlink({ reflection: current.id }).link({ revision: revisionId })
+    ),
+  ]
+}
+
+/**
+ * Transaction that writes an edit over a reflection
+ * The single photo of older rows has already moved to the revision, so it's
+ * unlinked; the prompt is relinked only when it changed
+ *
+ * @param reflection - Reflection as it was before the edit
+ * @param fields - Re-sealed fields to store
+ * @param promptId - Prompt the edit answers (null for none)
+ * @returns Transaction updating the reflection
+ */
+export function getEditTransaction(
+  reflection: RevisableReflection,
+  fields: Required<RevisionFields>,
+  promptId: string | null
+) {
+  let update = tx.reflections[reflection.id].update(fields)
+
+  // The old files move to the revision; new ones are uploaded under new paths
+  if (reflection.photo) update = update.unlink({ photo: reflection.photo.id })
+  if (reflection.thumbnail) update = update.unlink({ thumbnail: reflection.thumbnail.id })
+
+  if (reflection.prompt && reflection.prompt.id !== promptId) {
+    update = update.unlink({ prompt: reflection.prompt.id })
+  }
+  if (promptId && reflection.prompt?.id !== promptId) {
+    update = update.link({ prompt: promptId })
+  }
+
+  return update
+}
+
+/**
+ * Transactions that put a revision back on its reflection
+ * Commit them with getSnapshotTransactions() for the current version, which
+ * takes the current photos, thumbnail and prompt first
+ *
+ * @param reflection - Reflection as it is now
+ * @param revision - Revision to restore
+ * @returns Transactions moving the revision's fields, photos and prompt back, then deleting it
+ */
+export function getRestoreTransactions(
+  reflection: RevisableReflection,
+  revision: ReflectionRevision
+) {
+  let update = tx.reflections[reflection.id].update(copyRevisionFields(revision))
+
+  if (reflection.photo) update = update.unlink({ photo: reflection.photo.id })
+  if (reflection.thumbnail) update = update.unlink({ thumbnail: reflection.thumbnail.id })
+  if (reflection.prompt) update = update.unlink({ prompt: reflection.prompt.id })
+  if (revision.photo) update = update.link({ photo: revision.photo.id })
+  if (revision.thumbnail) update = update.link({ thumbnail: revision.thumbnail.id })
+  if (revision.prompt) update = update.link({ prompt: revision.prompt.id })
+
+  return [
+    ...(revision.photos ?? []).map((photo) =>
+      tx.reflectionPhotos[photo.id]
+        .unlink({ revision: revision.id })
+        .link({ reflection: reflection.id })
+    ),
+    tx.reflectionRevisions[revision.id].delete(),
+    update,
+  ]
+}
@@ -0,0 +1,95 @@
+/**
+ * Thumbnail Cache
+ *
+ * Downloads of encrypted cover thumbnails, shared by every view that shows
+ * them. Feeds prefetch the thumbnails of a page as soon as it loads, so the
+ * cards only decrypt when they scroll into view.
+ *
+ * Only the encrypted bytes are cached (in memory, for this tab); decrypted
+ * object URLs stay with the component that shows them.
+ */
+
+import { isEnvelopePhoto } from '@/lib/encryption'
+import type { ThumbnailSource } from './useReflectionThumbnail'
+import { getOrderedPhotos, type PhotoSource } from './photos'
+
+export const MAX_CACHED_THUMBNAILS = 200
+
+const downloads = new Map<string, Promise<Blob>>()
+
+/**
+ * URL of a reflection's encrypted cover thumbnail
+ *
+ * Only envelope photos have thumbnails; older rows return undefined (their
+ * photo is decrypted when the reflection is opened).
+ *
+ * @param reflection - Reflection with its photo links
+ * @returns string | undefined
+ */
+export function getThumbnailUrl(reflection: ThumbnailSource): string | undefined {
+  const cover = getOrderedPhotos(reflection)[0]
+  return cover ? getPhotoThumbnailUrl(reflection, cover) : undefined
+}
+
+/**
+ * URL of the encrypted thumbnail of one of a reflection's photos
+ *
+ * @param reflection - Reflection the photo belongs to
+ * @param photo - Photo from getOrderedPhotos()
+ * @returns string | undefined - Undefined for older photos without a thumbnail
+ */
+export function getPhotoThumbnailUrl(
+  reflection: Pick<ThumbnailSource, 'encryptionAlgorithm'>,
+  photo: PhotoSource
+): string | undefined {
+  return isEnvelopePhoto(reflection, photo) ? photo.thumbnail?.url : undefined
+}
+
+/**
+ * Download an encrypted thumbnail, once per URL
+ *
+ * @param url - Thumbnail file URL
+ * @returns Promise<Blob> - Encrypted thumbnail
+ */
+export function fetchThumbnail(url: string): Promise<Blob> {
+  const cached = downloads.get(url)
+  if (cached) {
+    // Most recently used last
+    downloads.delete(url)
+    downloads.set(url, cached)
+    return cached
+  }
+
+  const download = fetch(url).then((response) => {
+    if (!response.ok) {
+      throw new Error('Failed to download thumbnail')
+    }
+    return response.blob()
+  })
+
+  // Failed downloads are retried by the next caller
+  download.catch(() => downloads.delete(url))
+
+  downloads.set(url, download)
+  for (const oldest of downloads.keys()) {
+    if (downloads.size <= MAX_CACHED_THUMBNAILS) break
+    downloads.delete(oldest)
+  }
+  return download
+}
+
+/**
+ * Start downloading the cover thumbnails of a page of reflections
+ *
+ * @param reflections - Reflections with their photo links
+ */
+export function prefetchThumbnails(reflections: ThumbnailSource[]): void {
+  for (const reflection of reflections) {
+    const url = getThumbnailUrl(reflection)
+    if (url) {
+      fetchThumbnail(url).catch((err) => {
+        console.error('Error prefetching thumbnail:', err)
+      })
+    }
+  }
+}
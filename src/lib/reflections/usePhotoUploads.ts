@@ -0,0 +1,82 @@
+/**
+ * usePhotoUploads Hook
+ *
+ * Seals and uploads a reflection's photos, returning the transactions that
+ * create their `reflectionPhotos` rows. Used when a reflection is created and
+ * whenever it's edited (every edit re-seals all photos under the active key).
+ */
+
+import { useCallback } from 'react'
+import { id } from '@instantdb/react'
+import { useAuth } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { useEncryption } from '@/lib/encryption'
+import { createThumbnail } from '@/lib/media'
+import type { NewReflectionPhoto } from './photos'
+
+export function usePhotoUploads() {
+  const { user } = useAuth()
+  const { sealText, sealPhoto } = useEncryption()
+
+  /**
+   * Encrypt and upload photos in order
+   * The returned transactions still have to be committed with the reflection
+   *
+   * @param reflectionId - Reflection the photos belong to (envelopes are bound to it and the photo)
+   * @param photos - Photos in display order (first is the cover)
+   * @returns Transactions creating the reflectionPhotos rows
+   */
+  const uploadPhotos = useCallback(
+    async (reflectionId: string, photos: NewReflectionPhoto[]) => {
+      if (!user?.id) {
+        throw new Error('Not signed in')
+      }
+
+      const uploadedAt = Date.now()
+      const transactions = []
+
+      // One at a time, so only one full-size photo is in memory while sealing
+      for (const [position, photo] of photos.entries()) {
+        const thumbnail = photo.thumbnail ?? (await createThumbnail(photo.blob))
+        const photoId = id()
+        const encryptedPhoto = await sealPhoto(photo.blob, reflectionId, 'photo', photoId)
+        const encryptedThumbnail = await sealPhoto(thumbnail, reflectionId, 'thumbnail', photoId)
+        const caption = photo.caption?.trim()
+
+        const { data: fileData } = await db.storage.uploadFile(
+          `reflections/${user.id}/${uploadedAt}-${position}.enc`,
+          encryptedPhoto,
+          { contentType: 'application/octet-stream' }
+        )
+        const { data: thumbnailData } = await db.storage.uploadFile(
+          `reflections/${user.id}/${uploadedAt}-${position}.thumb.enc`,
+          encryptedThumbnail,
+          { contentType: 'application/octet-stream' }
+        )
+
+        transactions.push(
+          db.tx.reflectionPhotos[photoId]
+            .create({
+              position,
+              caption: caption
+                ? await sealText(caption, reflectionId, 'caption', photoId)
+                : undefined,
+              photoType: photo.blob.type || 'image/jpeg',
+              createdAt: uploadedAt,
+            })
+            .link({ reflection: reflectionId })
+            .link({ file: fileData.id })
+            .link({ thumbnail: thumbnailData.id })
+        )
+      }
+
+      return transactions
+    },
+    [user?.id, sealText, sealPhoto]
+  )
+
+  return {
+    // Functions
+    uploadPhotos,
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * useReflectionEditor Hook
+ *
+ * Edit, restore and delete an existing reflection.
+ *
+ * Every edit re-seals the text, metadata, photos and captions under the active key
+ * (older rows are upgraded to envelopes and multiple photos on their first
+ * edit) and keeps the replaced version as an encrypted revision (see
+ * revisions.ts).
+ *
+ * Deleting a reflection removes its photos, revisions and every linked
+ * `$files` object in the same transaction, drops it from the outbox if
+ * its photos were still waiting to upload, and has the streak recomputed.
+ */
+
+import { useCallback } from 'react'
+import { useAuth } from '@/lib/auth'
+import { db } from '@/lib/db'
+import {
+  useEncryption,
+  openReflectionText,
+  openReflectionPhoto,
+  getEnvelopePhotoId,
+  ENVELOPE_FORMAT,
+} from '@/lib/encryption'
+import { getOutboxStorage, getUploadedFileIds } from '@/lib/outbox'
+import { requestStreakUpdate } from '@/lib/streaks'
+import {
+  getReflectionFiles,
+  getRevisionFiles,
+  getRevisionsToPrune,
+  getSnapshotTransactions,
+  getEditTransaction,
+  getRestoreTransactions,
+  type RevisableReflection,
+  type ReflectionRevision,
+  type RevisionFields,
+} from './revisions'
+import type { NewReflectionPhoto, PhotoSource } from './photos'
+import {
+  isEmptyMetadata,
+  normalizeMetadata,
+  parseMetadata,
+  serializeMetadata,
+  EMPTY_METADATA,
+  type ReflectionMetadata,
+} from './metadata'
+import { usePhotoUploads } from './usePhotoUploads'
+
+export interface ReflectionEdit {
+  text: string // Full plaintext (re-sealed on every edit)
+  photos: NewReflectionPhoto[] // Current and/or replacement photos, in order
+  promptId: string | null
+  metadata: ReflectionMetadata // Mood, tags and children (empty to clear them)
+}
+
+export function useReflectionEditor(reflection: RevisableReflection | undefined) {
+  const { user } = useAuth()
+  const { sealText, openText, openPhoto, decrypt, decryptPhoto, keyVersion } = useEncryption()
+  const { uploadPhotos } = usePhotoUploads()
+
+  /**
+   * Utility: Transactions that drop the oldest revisions (and their photos and files)
+   */
+  const pruneRevisions = useCallback((revisions: ReflectionRevision[]) => {
+    const pruned = getRevisionsToPrune(revisions)
+    return [
+      ...getRevisionFiles(pruned).map((file) => db.tx.$files[file.id].delete()),
+      ...pruned.flatMap((revision) =>
+        (revision.photos ?? []).map((photo) => db.tx.reflectionPhotos[photo.id].delete())
+      ),
+      ...pruned.map((revision) => db.tx.reflectionRevisions[revision.id].delete()),
+    ]
+  }, [])
+
+  /**
+   * Save an edit, keeping the previous version as a revision
+   *
+   * @param edit - New text, photos, prompt and metadata
+   */
+  const saveEdit = useCallback(
+    async (edit: ReflectionEdit): Promise<void> => {
+      if (!reflection) {
+        throw new Error('Reflection not loaded')
+      }
+      if (keyVersion === undefined) {
+        throw new Error('Encryption key not available')
+      }
+
+      const now = Date.now()
+      const reflectionText = await sealText(edit.text, reflection.id)
+      const metadata = normalizeMetadata(edit.metadata)
+
+      // Photo fields now live on each reflectionPhotos row
+      const update = getEditTransaction(
+        reflection,
+        {
+          reflectionText,
+          metadata: isEmptyMetadata(metadata)
+            ? null
+            : await sealText(serializeMetadata(metadata), reflection.id, 'metadata'),
+          encryptionAlgorithm: ENVELOPE_FORMAT,
+          encryptionIV: null,
+          photoIV: null,
+          photoType: null,
+          keyVersion,
+        },
+        edit.promptId
+      )
+
+      const photoTransactions = await uploadPhotos(reflection.id, edit.photos)
+
+      await db.transact([
+        ...getSnapshotTransactions(reflection, now),
+        update,
+        ...photoTransactions,
+        ...pruneRevisions(reflection.revisions ?? []),
+      ])
+    },
+    [reflection, keyVersion, sealText, uploadPhotos, pruneRevisions]
+  )
+
+  /**
+   * Restore a revision, keeping the current version as a new revision
+   *
+   * @param revision - Revision to restore
+   */
+  const restoreRevision = useCallback(
+    async (revision: ReflectionRevision): Promise<void> => {
+      if (!reflection) {
+        throw new Error('Reflection not loaded')
+      }
+
+      const remaining = (reflection.revisions ?? []).filter(({ id }) => id !== revision.id)
+
+      await db.transact([
+        ...getSnapshotTransactions(reflection, Date.now()),
+        ...getRestoreTransactions(reflection, revision),
+        ...pruneRevisions(remaining),
+      ])
+    },
+    [reflection, pruneRevisions]
+  )
+
+  /**
+   * Delete the reflection, its photos, its revisions and all of their files
+   */
+  const deleteReflection = useCallback(async (): Promise<void> => {
+    if (!reflection) {
+      throw new Error('Reflection not loaded')
+    }
+
+    // Photos the outbox already uploaded for it aren't linked to the reflection yet
+    const outbox = getOutboxStorage()
+    const queued = user?.id
+      ? (await outbox.getEntries(user.id)).find((entry) => entry.reflectionId === reflection.id)
+      : undefined
+
+    await db.transact([
+      ...getReflectionFiles(reflection).map((file) => db.tx.$files[file.id].delete()),
+      ...(queued ? getUploadedFileIds(queued) : []).map((fileId) => db.tx.$files[fileId].delete()),
+      ...[
+        ...(reflection.photos ?? []),
+        ...(reflection.revisions ?? []).flatMap((revision) => revision.photos ?? []),
+      ].map((photo) => db.tx.reflectionPhotos[photo.id].delete()),
+      ...(reflection.revisions ?? []).map((revision) =>
+        db.tx.reflectionRevisions[revision.id].delete()
+      ),
+      db.tx.reflections[reflection.id].delete(),
+    ])
+
+    // Otherwise the outbox would upload it again
+    if (user?.id) {
+      await outbox.deleteEntry(user.id, reflection.id)
+    }
+
+    if (user) {
+      requestStreakUpdate({ data: { refreshToken: user.refresh_token } }).catch((err) =>
+        console.error('Error requesting streak update:', err)
+      )
+    }
+  }, [reflection, user])
+
+  /**
+   * Decrypt the text of the reflection or one of its revisions
+   *
+   * @param source - Reflection or revision fields
+   * @returns Promise<string> - Plaintext
+   */
+  const readText = useCallback(
+    async (source: RevisionFields): Promise<string> => {
+      if (!reflection) {
+        throw new Error('Reflection not loaded')
+      }
+      return await openReflectionText(source, reflection.id, { openText, decrypt })
+    },
+    [reflection, openText, decrypt]
+  )
+
+  /**
+   * Decrypt the metadata of the reflection or one of its revisions
+   *
+   * @param source - Reflection or revision fields
+   * @returns Promise<ReflectionMetadata> - Empty metadata when there is none
+   */
+  const readMetadata = useCallback(
+    async (source: RevisionFields): Promise<ReflectionMetadata> => {
+      if (!reflection) {
+        throw new Error('Reflection not loaded')
+      }
+      if (!source.metadata) {
+        return { ...EMPTY_METADATA }
+      }
+      return parseMetadata(await openText(source.metadata, reflection.id, 'metadata'))
+    },
+    [reflection, openText]
+  )
+
+  /**
+   * Download and decrypt one of the reflection's photos
+   *
+   * @param source - Reflection fields (used by the single photo of older rows)
+   * @param photo - Photo from getOrderedPhotos()
+   * @returns Promise<Blob> - Decrypted photo
+   */
+  const readPhoto = useCallback(
+    async (source: RevisionFields, photo: PhotoSource): Promise<Blob> => {
+      if (!reflection) {
+        throw new Error('Reflection not loaded')
+      }
+
+      const response = await fetch(photo.file.url)
+      if (!response.ok) {
+        throw new Error('Failed to download photo')
+      }
+      return await openReflectionPhoto(await response.blob(), source, photo, reflection.id, {
+        openPhoto,
+        decryptPhoto,
+      })
+    },
+    [reflection, openPhoto, decryptPhoto]
+  )
+
+  /**
+   * Decrypt a photo's caption
+   *
+   * @param photo - Photo from getOrderedPhotos()
+   * @returns Promise<string> - Caption ('' when there is none)
+   */
+  const readCaption = useCallback(
+    async (photo: PhotoSource): Promise<string> => {
+      if (!reflection) {
+        throw new Error('Reflection not loaded')
+      }
+      return photo.caption
+        ? await openText(photo.caption, reflection.id, 'caption', getEnvelopePhotoId(photo))
+        : ''
+    },
+    [reflection, openText]
+  )
+
+  return {
+    // Functions
+    saveEdit,
+    restoreRevision,
+    deleteReflection,
+    readText,
+    readMetadata,
+    readPhoto,
+    readCaption,
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * useReflectionThumbnail Hook
+ *
+ * Decrypts the small cover thumbnail of a reflection for list, calendar and
+ * grid views. Only envelope photos have thumbnails; older rows return null
+ * (their photo is decrypted when the reflection is opened). Downloads go
+ * through the thumbnail cache, so prefetched thumbnails only need decrypting.
+ *
+ * The object URL is revoked when the reflection changes or the component
+ * unmounts.
+ */
+
+import { useState, useEffect, useMemo } from 'react'
+import { useEncryption, getEnvelopePhotoId } from '@/lib/encryption'
+import { getOrderedPhotos, type PhotoHolder } from './photos'
+import { fetchThumbnail, getPhotoThumbnailUrl } from './thumbnailCache'
+
+export interface ThumbnailSource extends PhotoHolder {
+  id: string
+  encryptionAlgorithm?: string | null
+}
+
+export function useReflectionThumbnail(reflection: ThumbnailSource, enabled = true) {
+  const cover = useMemo(() => getOrderedPhotos(reflection)[0], [reflection])
+  return usePhotoThumbnail(
+    reflection.id,
+    cover && getEnvelopePhotoId(cover),
+    cover && getPhotoThumbnailUrl(reflection, cover),
+    enabled
+  )
+}
+
+/**
+ * Decrypt the thumbnail of any one of a reflection's photos (gallery tiles)
+ *
+ * @param reflectionId - Reflection the thumbnail is bound to
+ * @param photoId - reflectionPhotos row the thumbnail is bound to (see getEnvelopePhotoId)
+ * @param thumbnailSource - Encrypted thumbnail URL (see getPhotoThumbnailUrl)
+ * @param enabled - False to skip decrypting (e.g. off screen)
+ */
+export function usePhotoThumbnail(
+  reflectionId: string,
+  photoId: string | undefined,
+  thumbnailSource: string | undefined,
+  enabled = true
+) {
+  const { openPhoto, isReady } = useEncryption()
+  const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null)
+
+  /**
+   * Download and decrypt the cover thumbnail
+   */
+  useEffect(() => {
+    if (!enabled || !thumbnailSource || !isReady) return
+
+    let cancelled = false
+    let objectUrl: string | null = null
+
+    async function decryptThumbnail(url: string) {
+      try {
+        const thumbnailBlob = await openPhoto(
+          await fetchThumbnail(url),
+          reflectionId,
+          'image/jpeg',
+          'thumbnail',
+          photoId
+        )
+        if (!cancelled) {
+          objectUrl = URL.createObjectURL(thumbnailBlob)
+          setThumbnailUrl(objectUrl)
+        }
+      } catch (err) {
+        // The full photo is still available when the reflection is opened
+        console.error('Error decrypting thumbnail:', err)
+      }
+    }
+
+    decryptThumbnail(thumbnailSource)
+
+    return () => {
+      cancelled = true
+      if (objectUrl) {
+        URL.revokeObjectURL(objectUrl)
+      }
+      setThumbnailUrl(null)
+    }
+  }, [enabled, thumbnailSource, isReady, openPhoto, reflectionId, photoId])
+
+  return {
+    // State
+    thumbnailUrl,
+    hasThumbnail: !!thumbnailSource,
+  }
+}
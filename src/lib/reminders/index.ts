@@ -0,0 +1,45 @@
+/**
+ * Reminders Module
+ *
+ * Daily push notification reminders
+ *
+ * Exports:
+ * - React hook that manages the reminder and this device's subscription
+ * - Reminder scheduling (used by the Inngest job)
+ * - Swappable push senders
+ *
+ * Server code imports reminders.ts and pushSender.ts directly, so the React
+ * hook (and the browser database client) stay out of server bundles.
+ */
+
+// React Hook
+export { useReminders } from './useReminders'
+
+// Reminders
+export {
+  sendDueReminders,
+  isReminderDue,
+  parseReminderTime,
+  DEFAULT_REMINDER_TIME,
+  REMINDER_WINDOW,
+  REMINDER_CRON,
+  type ReminderCandidate,
+  type ReminderDeps,
+  type ReminderRunResult,
+} from './reminders'
+
+// Push Sender
+export {
+  getPushSender,
+  setPushSender,
+  createWebPushSender,
+  createMemoryPushSender,
+  toBase64Url,
+  fromBase64Url,
+  PUSH_TTL,
+  type PushSender,
+  type PushTarget,
+  type PushResult,
+  type VapidKeys,
+  type MemoryPushSender,
+} from './pushSender'
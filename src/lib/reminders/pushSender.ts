@@ -0,0 +1,205 @@
+/**
+ * Push Sender
+ *
+ * Delivers reminder notifications through the browsers' push services.
+ * Reminders carry no payload: the service worker shows a fixed message when
+ * a push arrives (see public/sw.js). So nothing is encrypted for the push
+ * service and nothing about the user's reflections ever passes through it;
+ * the request only needs a VAPID signature (RFC 8292) proving it comes from
+ * this app.
+ *
+ * The sender is swappable: the Inngest job uses getPushSender(), which is
+ * the Web Push sender when the VAPID keys are configured. Without keys there
+ * is no sender and the job skips its run, so nobody is marked as reminded.
+ * Tests set the in-memory sender, which records what would be sent.
+ */
+
+export const PUSH_TTL = 4 * 60 * 60 // Seconds a push service keeps an undelivered reminder
+const JWT_LIFETIME = 12 * 60 * 60 // Seconds (push services reject anything over 24h)
+
+export interface PushTarget {
+  id: string // pushSubscriptions id
+  endpoint: string
+}
+
+// 'expired' means the subscription is gone (unsubscribed or uninstalled) and should be deleted
+export type PushResult = 'sent' | 'expired'
+
+export interface PushSender {
+  send(target: PushTarget): Promise<PushResult>
+}
+
+export interface VapidKeys {
+  publicKey: string // Base64url uncompressed P-256 point (65 bytes)
+  privateKey: string // Base64url P-256 private scalar (32 bytes)
+  subject: string // 'mailto:' address or https URL
+}
+
+export interface MemoryPushSender extends PushSender {
+  sent: PushTarget[]
+  expiredEndpoints: Set<string> // Endpoints to report as expired
+}
+
+let sender: PushSender | null = null
+
+/**
+ * Replace the push sender
+ * Tests use createMemoryPushSender(); the server defaults to Web Push
+ *
+ * @param nextSender - Sender to use from now on
+ */
+export function setPushSender(nextSender: PushSender): void {
+  sender = nextSender
+}
+
+/**
+ * The push sender (Web Push when VAPID keys are given)
+ *
+ * @param vapid - VAPID keys, if configured
+ * @returns PushSender | null - Null when no keys are configured and no sender was set
+ */
+export function getPushSender(vapid?: VapidKeys | null): PushSender | null {
+  if (!sender && vapid) {
+    sender = createWebPushSender(vapid)
+  }
+  return sender
+}
+
+/**
+ * Web Push sender (VAPID-signed requests without a payload)
+ *
+ * @param vapid - The app's VAPID key pair and contact
+ * @param fetchImpl - fetch to use (override in tests)
+ * @returns PushSender
+ */
+export function createWebPushSender(vapid: VapidKeys, fetchImpl: typeof fetch = fetch): PushSender {
+  let keyPromise: Promise<CryptoKey> | null = null
+
+  return {
+    async send(target) {
+      if (!keyPromise) {
+        keyPromise = importVapidKey(vapid)
+      }
+
+      const token = await signVapidToken(
+        await keyPromise,
+        new URL(target.endpoint).origin,
+        vapid.subject
+      )
+
+      const response = await fetchImpl(target.endpoint, {
+        method: 'POST',
+        headers: {
+          Authorization: `vapid t=${token}, k=${vapid.publicKey}`,
+          TTL: String(PUSH_TTL),
+          Urgency: 'normal',
+        },
+      })
+
+      if (response.status === 404 || response.status === 410) {
+        return 'expired'
+      }
+      if (!response.ok) {
+        throw new Error(`Push service responded with ${response.status}`)
+      }
+      return 'sent'
+    },
+  }
+}
+
+/**
+ * In-memory sender (tests)
+ * Records every target instead of contacting a push service
+ *
+ * @returns MemoryPushSender
+ */
+export function createMemoryPushSender(): MemoryPushSender {
+  const memory: MemoryPushSender = {
+    sent: [],
+    expiredEndpoints: new Set(),
+    async send(target) {
+      if (memory.expiredEndpoints.has(target.endpoint)) {
+        return 'expired'
+      }
+      memory.sent.push(target)
+      return 'sent'
+    },
+  }
+  return memory
+}
+
+/**
+ * Utility: Import the VAPID private key for ES256 signing
+ */
+async function importVapidKey(vapid: VapidKeys): Promise<CryptoKey> {
+  const publicKey = fromBase64Url(vapid.publicKey)
+  if (publicKey.length !== 65 || publicKey[0] !== 0x04) {
+    throw new Error('VAPID public key must be an uncompressed P-256 point')
+  }
+
+  return await crypto.subtle.importKey(
+    'jwk',
+    {
+      kty: 'EC',
+      crv: 'P-256',
+      x: toBase64Url(publicKey.slice(1, 33)),
+      y: toBase64Url(publicKey.slice(33, 65)),
+      d: vapid.privateKey,
+      ext: false,
+    },
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['sign']
+  )
+}
+
+/**
+ * Utility: Signed JWT for one push service (audience is its origin)
+ */
+async function signVapidToken(key: CryptoKey, audience: string, subject: string): Promise<string> {
+  const encoder = new TextEncoder()
+  const header = toBase64Url(encoder.encode(JSON.stringify({ typ: 'JWT', alg: 'ES256' })))
+  const claims = toBase64Url(
+    encoder.encode(
+      JSON.stringify({
+        aud: audience,
+        exp: Math.floor(Date.now() / 1000) + JWT_LIFETIME,
+        sub: subject,
+      })
+    )
+  )
+
+  // WebCrypto returns the raw r || s signature JWS expects
+  const signature = await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    key,
+    encoder.encode(`${header}.${claims}`)
+  )
+  return `${header}.${claims}.${toBase64Url(new Uint8Array(signature))}`
+}
+
+/**
+ * Encode bytes as URL-safe base64 without padding (Web Push keys and tokens)
+ *
+ * @param bytes - Bytes to encode
+ * @returns string - Base64url
+ */
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * Decode URL-safe base64 (padding optional)
+ *
+ * @param base64Url - Base64url string
+ * @returns Uint8Array - Decoded bytes
+ */
+export function fromBase64Url(base64Url: string): Uint8Array<ArrayBuffer> {
+  const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
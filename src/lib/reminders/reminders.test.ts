@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  sendDueReminders,
+  isReminderDue,
+  parseReminderTime,
+  type ReminderCandidate,
+  type ReminderDeps,
+} from './reminders'
+import {
+  createMemoryPushSender,
+  createWebPushSender,
+  getPushSender,
+  fromBase64Url,
+  toBase64Url,
+  type MemoryPushSender,
+} from './pushSender'
+import { getLocalTime } from '@/lib/dates/dayKeys'
+
+describe('Daily Reminders', () => {
+  // 2025-03-10 19:00 UTC: 20:00 in Berlin, 15:00 in New York
+  const now = Date.UTC(2025, 2, 10, 19, 0)
+
+  let sender: MemoryPushSender
+  let candidates: ReminderCandidate[]
+  let lastReflections: Map<string, number>
+  let reminded: [string, string][]
+  let deleted: string[]
+  let deps: ReminderDeps
+
+  function candidate(overrides: Partial<ReminderCandidate> = {}): ReminderCandidate {
+    return {
+      settingsId: 'settings-1',
+      userProfileId: 'profile-1',
+      reminderTime: '20:00',
+      timezone: 'Europe/Berlin',
+      lastReminderDate: null,
+      subscriptions: [{ id: 'sub-1', endpoint: 'https://push.example.com/sub-1' }],
+      ...overrides,
+    }
+  }
+
+  beforeEach(() => {
+    sender = createMemoryPushSender()
+    candidates = []
+    lastReflections = new Map()
+    reminded = []
+    deleted = []
+    deps = {
+      getCandidates: async () => candidates,
+      getLastReflectionAt: async (userProfileId) => lastReflections.get(userProfileId) ?? null,
+      markReminded: async (settingsId, dateKey) => {
+        reminded.push([settingsId, dateKey])
+      },
+      deleteSubscription: async (subscriptionId) => {
+        deleted.push(subscriptionId)
+      },
+      sender,
+    }
+  })
+
+  it('should read wall-clock time in any timezone', () => {
+    expect(getLocalTime(now, 'Europe/Berlin')).toEqual({ dateKey: '2025-03-10', minutes: 20 * 60 })
+    expect(getLocalTime(now, 'America/New_York')).toEqual({
+      dateKey: '2025-03-10',
+      minutes: 15 * 60,
+    })
+    expect(getLocalTime(now, 'Pacific/Kiritimati').dateKey).toBe('2025-03-11')
+    expect(getLocalTime(now, 'Not/A_Zone')).toEqual(getLocalTime(now, 'UTC'))
+  })
+
+  it('should parse reminder times', () => {
+    expect(parseReminderTime('07:30')).toBe(450)
+    expect(parseReminderTime('23:59')).toBe(1439)
+    expect(parseReminderTime('24:00')).toBeNull()
+    expect(parseReminderTime('7:30')).toBeNull()
+  })
+
+  it('should be due from the chosen local time until the window closes, once a day', () => {
+    expect(isReminderDue(candidate(), now)).toBe(true)
+    expect(isReminderDue(candidate({ timezone: 'America/New_York' }), now)).toBe(false)
+    expect(isReminderDue(candidate({ reminderTime: '21:00' }), now)).toBe(false)
+    expect(isReminderDue(candidate({ reminderTime: '17:00' }), now)).toBe(false)
+    expect(isReminderDue(candidate({ lastReminderDate: '2025-03-10' }), now)).toBe(false)
+  })
+
+  it('should remind users who have not reflected today on every device', async () => {
+    candidates = [
+      candidate({
+        subscriptions: [
+          { id: 'sub-1', endpoint: 'https://push.example.com/sub-1' },
+          { id: 'sub-2', endpoint: 'https://push.example.com/sub-2' },
+        ],
+      }),
+    ]
+    lastReflections.set('profile-1', Date.UTC(2025, 2, 9, 12, 0))
+
+    const result = await sendDueReminders(deps, now)
+
+    expect(result).toEqual({ reminded: 1, sent: 2, expired: 0 })
+    expect(sender.sent.map((target) => target.id)).toEqual(['sub-1', 'sub-2'])
+    expect(reminded).toEqual([['settings-1', '2025-03-10']])
+  })
+
+  it('should skip users who already reflected on their local day', async () => {
+    // 23:30 UTC on the 9th is already the 10th in Berlin
+    candidates = [candidate()]
+    lastReflections.set('profile-1', Date.UTC(2025, 2, 9, 23, 30))
+
+    const result = await sendDueReminders(deps, now)
+
+    expect(result.reminded).toBe(0)
+    expect(sender.sent).toEqual([])
+  })
+
+  it('should delete expired subscriptions and retry later when nothing was delivered', async () => {
+    candidates = [candidate()]
+    sender.expiredEndpoints.add('https://push.example.com/sub-1')
+
+    const result = await sendDueReminders(deps, now)
+
+    expect(result).toEqual({ reminded: 0, sent: 0, expired: 1 })
+    expect(deleted).toEqual(['sub-1'])
+    expect(reminded).toEqual([])
+  })
+
+  it('should have no push sender without VAPID keys', () => {
+    // The memory sender would report every reminder as sent
+    expect(getPushSender(null)).toBeNull()
+  })
+
+  it('should sign Web Push requests with the VAPID key', async () => {
+    const keyPair = (await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, [
+      'sign',
+      'verify',
+    ])) as CryptoKeyPair
+    const publicKey = toBase64Url(
+      new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey))
+    )
+    const { d } = await crypto.subtle.exportKey('jwk', keyPair.privateKey)
+
+    const requests: { url: string; init?: RequestInit }[] = []
+    const webPush = createWebPushSender(
+      { publicKey, privateKey: d ?? '', subject: 'mailto:test@example.com' },
+      async (url, init) => {
+        requests.push({ url: String(url), init })
+        return new Response(null, { status: requests.length === 1 ? 201 : 410 })
+      }
+    )
+
+    const target = { id: 'sub-1', endpoint: 'https://push.example.com/send/abc' }
+    expect(await webPush.send(target)).toBe('sent')
+    expect(await webPush.send(target)).toBe('expired')
+
+    const headers = requests[0].init?.headers as Record<string, string>
+    const [, token, key] = /^vapid t=([^,]+), k=(.+)$/.exec(headers.Authorization) ?? []
+    expect(key).toBe(publicKey)
+
+    const [header, claims, signature] = token.split('.')
+    expect(JSON.parse(new TextDecoder().decode(fromBase64Url(claims)))).toMatchObject({
+      aud: 'https://push.example.com',
+      sub: 'mailto:test@example.com',
+    })
+    const valid = await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      keyPair.publicKey,
+      fromBase64Url(signature),
+      new TextEncoder().encode(`${header}.${claims}`)
+    )
+    expect(valid).toBe(true)
+  })
+})
@@ -0,0 +1,126 @@
+/**
+ * Daily Reminders
+ *
+ * Decides who gets a reminder and sends it. The Inngest job runs
+ * sendDueReminders() every 15 minutes; a user is reminded once per local day,
+ * at (or shortly after) their chosen time in their own timezone, and only if
+ * they haven't written a reflection that day yet.
+ *
+ * Database access and the push sender are injected via `ReminderDeps`, so the
+ * job runs against the admin SDK in production and in-memory fakes in tests.
+ */
+
+import { getDateKey, getLocalTime, resolveTimeZone } from '@/lib/dates/dayKeys'
+import type { PushSender, PushTarget } from './pushSender'
+
+export const DEFAULT_REMINDER_TIME = '20:00'
+export const REMINDER_WINDOW = 2 * 60 // Minutes after the chosen time a missed reminder still goes out
+export const REMINDER_CRON = '*/15 * * * *'
+
+export interface ReminderCandidate {
+  settingsId: string
+  userProfileId: string
+  reminderTime: string | null // 'HH:MM' (DEFAULT_REMINDER_TIME when unset)
+  timezone: string | null // IANA timezone (UTC when unset)
+  lastReminderDate: string | null // Local 'YYYY-MM-DD' of the last reminder
+  subscriptions: PushTarget[]
+}
+
+export interface ReminderDeps {
+  // Users with reminders turned on
+  getCandidates: () => Promise<ReminderCandidate[]>
+  // When the user's newest reflection was written (null if never)
+  getLastReflectionAt: (userProfileId: string) => Promise<number | null>
+  markReminded: (settingsId: string, dateKey: string) => Promise<void>
+  deleteSubscription: (subscriptionId: string) => Promise<void>
+  sender: PushSender
+}
+
+export interface ReminderRunResult {
+  reminded: number // Users reminded
+  sent: number // Notifications delivered to push services
+  expired: number // Subscriptions removed
+}
+
+/**
+ * Parse a reminder time
+ *
+ * @param time - 'HH:MM' (24-hour)
+ * @returns number | null - Minutes since midnight, or null if invalid
+ */
+export function parseReminderTime(time: string): number | null {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(time)
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null
+}
+
+/**
+ * Check whether a user's reminder should go out now
+ * Ignores whether they already reflected (that needs a query)
+ *
+ * @param candidate - User's reminder settings
+ * @param now - Current time
+ * @returns boolean - True if it's time and they weren't reminded today
+ */
+export function isReminderDue(candidate: ReminderCandidate, now: number): boolean {
+  const reminderMinutes =
+    parseReminderTime(candidate.reminderTime ?? '') ?? parseReminderTime(DEFAULT_REMINDER_TIME)
+  if (reminderMinutes === null) return false
+
+  const local = getLocalTime(now, resolveTimeZone(candidate.timezone))
+  return (
+    candidate.lastReminderDate !== local.dateKey &&
+    local.minutes >= reminderMinutes &&
+    local.minutes < reminderMinutes + REMINDER_WINDOW
+  )
+}
+
+/**
+ * Remind every user whose time has come and who hasn't reflected today
+ * A failed device doesn't stop the others; subscriptions the push service
+ * reports as gone are deleted
+ *
+ * @param deps - Database access and push sender
+ * @param now - Current time (override in tests)
+ * @returns Promise<ReminderRunResult> - What was sent
+ */
+export async function sendDueReminders(
+  deps: ReminderDeps,
+  now = Date.now()
+): Promise<ReminderRunResult> {
+  const result: ReminderRunResult = { reminded: 0, sent: 0, expired: 0 }
+
+  for (const candidate of await deps.getCandidates()) {
+    if (candidate.subscriptions.length === 0 || !isReminderDue(candidate, now)) continue
+
+    const timeZone = resolveTimeZone(candidate.timezone)
+    const today = getDateKey(now, timeZone)
+
+    const lastReflectionAt = await deps.getLastReflectionAt(candidate.userProfileId)
+    if (lastReflectionAt !== null && getDateKey(lastReflectionAt, timeZone) === today) {
+      continue
+    }
+
+    let delivered = 0
+    for (const subscription of candidate.subscriptions) {
+      try {
+        if ((await deps.sender.send(subscription)) === 'expired') {
+          await deps.deleteSubscription(subscription.id)
+          result.expired++
+        } else {
+          delivered++
+        }
+      } catch (error) {
+        console.error(`Failed to send reminder to subscription ${subscription.id}:`, error)
+      }
+    }
+
+    // Nothing delivered: try again on the next run (still within the window)
+    if (delivered > 0) {
+      await deps.markReminded(candidate.settingsId, today)
+      result.reminded++
+      result.sent += delivered
+    }
+  }
+
+  return result
+}
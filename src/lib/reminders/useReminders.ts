@@ -0,0 +1,198 @@
+/**
+ * useReminders Hook
+ *
+ * Turns the daily reminder on or off and sets its time. Turning it on asks
+ * for notification permission, subscribes this device with the app's VAPID
+ * public key and stores the subscription (`pushSubscriptions`, linked to the
+ * user's profile) together with the reminder settings. The reminder time is
+ * read in the user's stored timezone (see `@/lib/dates`). Other devices the
+ * user subscribed keep receiving reminders too.
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { id } from '@instantdb/react'
+import { env } from '@/env'
+import { db, useQuery } from '@/lib/db'
+import { registerServiceWorker, isServiceWorkerSupported } from '@/lib/pwa'
+import { useUserSettings } from '@/lib/settings'
+import { getDeviceTimeZone } from '@/lib/dates'
+import { DEFAULT_REMINDER_TIME } from './reminders'
+import { fromBase64Url, toBase64Url } from './pushSender'
+
+export function useReminders(userProfileId: string | undefined) {
+  const { settings, isLoading: isLoadingSettings, updateSettings } = useUserSettings(userProfileId)
+  const [endpoint, setEndpoint] = useState<string | null>(null) // This device's subscription
+  const [permission, setPermission] = useState<NotificationPermission>('default')
+  const [isUpdating, setIsUpdating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const isSupported =
+    isServiceWorkerSupported() &&
+    typeof window !== 'undefined' &&
+    'PushManager' in window &&
+    'Notification' in window &&
+    !!env.VITE_VAPID_PUBLIC_KEY
+
+  // This user's subscribed devices
+  const { data } = useQuery(
+    userProfileId
+      ? {
+          pushSubscriptions: {
+            $: {
+              where: {
+                'user.id': userProfileId,
+              },
+            },
+          },
+        }
+      : null
+  )
+  const subscriptions = data?.pushSubscriptions ?? []
+
+  /**
+   * Find this device's current subscription, if any
+   */
+  useEffect(() => {
+    if (!isSupported) return
+
+    setPermission(Notification.permission)
+    navigator.serviceWorker
+      .getRegistration()
+      .then((registration) => registration?.pushManager.getSubscription())
+      .then((subscription) => setEndpoint(subscription?.endpoint ?? null))
+      .catch((err) => console.error('Error reading push subscription:', err))
+  }, [isSupported])
+
+  /**
+   * Turn reminders on and subscribe this device
+   *
+   * @param reminderTime - 'HH:MM' in the user's timezone
+   */
+  const enableReminders = useCallback(
+    async (reminderTime = settings?.reminderTime ?? DEFAULT_REMINDER_TIME) => {
+      if (!userProfileId || !env.VITE_VAPID_PUBLIC_KEY) return
+
+      try {
+        setIsUpdating(true)
+        setError(null)
+
+        const result = await Notification.requestPermission()
+        setPermission(result)
+        if (result !== 'granted') {
+          throw new Error('Notifications are blocked. Allow them in your browser settings.')
+        }
+
+        const registration =
+          (await navigator.serviceWorker.getRegistration()) ?? (await registerServiceWorker())
+        if (!registration) {
+          throw new Error('Reminders need the installed app (not available in development).')
+        }
+
+        const subscription =
+          (await registration.pushManager.getSubscription()) ??
+          (await registration.pushManager.subscribe({
+            userVisibleOnly: true,
+            applicationServerKey: fromBase64Url(env.VITE_VAPID_PUBLIC_KEY),
+          }))
+
+        const p256dh = subscription.getKey('p256dh')
+        const auth = subscription.getKey('auth')
+        if (!p256dh || !auth) {
+          throw new Error('This browser returned an incomplete push subscription.')
+        }
+
+        const existing = subscriptions.find((row) => row.endpoint === subscription.endpoint)
+        await db.transact(
+          db.tx.pushSubscriptions[existing?.id ?? id()]
+            .update({
+              endpoint: subscription.endpoint,
+              p256dh: toBase64Url(new Uint8Array(p256dh)),
+              auth: toBase64Url(new Uint8Array(auth)),
+              userAgent: navigator.userAgent,
+              createdAt: Date.now(),
+            })
+            .link({ user: userProfileId })
+        )
+        await updateSettings({
+          remindersEnabled: true,
+          reminderTime,
+          timezone: settings?.timezone ?? getDeviceTimeZone(),
+        })
+
+        setEndpoint(subscription.endpoint)
+      } catch (err) {
+        console.error('Error enabling reminders:', err)
+        setError(err instanceof Error ? err.message : 'Failed to turn on reminders')
+      } finally {
+        setIsUpdating(false)
+      }
+    },
+    [userProfileId, settings?.reminderTime, settings?.timezone, subscriptions, updateSettings]
+  )
+
+  /**
+   * Turn reminders off for every device and unsubscribe this one
+   */
+  const disableReminders = useCallback(async () => {
+    try {
+      setIsUpdating(true)
+      setError(null)
+
+      await updateSettings({ remindersEnabled: false })
+
+      const registration = await navigator.serviceWorker?.getRegistration()
+      const subscription = await registration?.pushManager.getSubscription()
+      if (subscription) {
+        const row = subscriptions.find((candidate) => candidate.endpoint === subscription.endpoint)
+        if (row) {
+          await db.transact(db.tx.pushSubscriptions[row.id].delete())
+        }
+        await subscription.unsubscribe()
+      }
+
+      setEndpoint(null)
+    } catch (err) {
+      console.error('Error disabling reminders:', err)
+      setError(err instanceof Error ? err.message : 'Failed to turn off reminders')
+    } finally {
+      setIsUpdating(false)
+    }
+  }, [subscriptions, updateSettings])
+
+  /**
+   * Change the reminder time
+   *
+   * @param reminderTime - 'HH:MM' in the user's timezone
+   */
+  const setReminderTime = useCallback(
+    async (reminderTime: string) => {
+      try {
+        setError(null)
+        await updateSettings({ reminderTime })
+      } catch (err) {
+        console.error('Error saving reminder time:', err)
+        setError(err instanceof Error ? err.message : 'Failed to save reminder time')
+      }
+    },
+    [updateSettings]
+  )
+
+  return {
+    // State
+    isSupported,
+    isEnabled: !!settings?.remindersEnabled,
+    isSubscribedHere: !!endpoint && subscriptions.some((row) => row.endpoint === endpoint),
+    deviceCount: subscriptions.length,
+    reminderTime: settings?.reminderTime ?? DEFAULT_REMINDER_TIME,
+    timezone: settings?.timezone ?? null,
+    permission,
+    isLoading: isLoadingSettings,
+    isUpdating,
+    error,
+
+    // Functions
+    enableReminders,
+    disableReminders,
+    setReminderTime,
+  }
+}
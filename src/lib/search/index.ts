@@ -0,0 +1,41 @@
+/**
+ * Search Module
+ *
+ * Local full-text search over encrypted reflections
+ *
+ * Exports:
+ * - React hook that keeps the index up to date
+ * - Tokenizing, indexing and query functions
+ * - Encrypted index storage backends
+ */
+
+// React Hook
+export { useReflectionSearch } from './useReflectionSearch'
+
+// Index
+export {
+  tokenize,
+  createSearchDocument,
+  searchDocuments,
+  isEmptyQuery,
+  hashSource,
+  loadSearchIndex,
+  updateSearchIndex,
+  type SearchableReflection,
+  type SearchDocument,
+  type SearchIndexEntry,
+  type SearchQuery,
+  type SearchIndexProgress,
+  type SearchIndexDeps,
+  type UpdateSearchIndexOptions,
+} from './searchIndex'
+
+// Storage
+export {
+  getSearchIndexStorage,
+  setSearchIndexStorage,
+  createIndexedDBSearchStorage,
+  createMemorySearchStorage,
+  type SearchIndexRecord,
+  type SearchIndexStorage,
+} from './searchStorage'
@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  tokenize,
+  createSearchDocument,
+  searchDocuments,
+  isEmptyQuery,
+  loadSearchIndex,
+  updateSearchIndex,
+  type SearchableReflection,
+  type SearchIndexDeps,
+} from './searchIndex'
+import { createMemorySearchStorage, type SearchIndexStorage } from './searchStorage'
+import { generateEncryptionKey, encryptText, decryptText } from '@/lib/encryption/crypto'
+
+describe('Reflection Search Index', () => {
+  const userId = 'test-user-123'
+  const day = 24 * 60 * 60 * 1000
+
+  let key: CryptoKey
+  let storage: SearchIndexStorage
+  let deps: SearchIndexDeps
+  let decrypted: string[]
+
+  async function createReflection(
+    id: string,
+    text: string,
+    createdAt: number,
+    promptText?: string
+  ): Promise<SearchableReflection> {
+    const { ciphertext, iv, algorithm } = await encryptText(text, key)
+    return {
+      id,
+      reflectionText: ciphertext,
+      encryptionIV: iv,
+      encryptionAlgorithm: algorithm,
+      createdAt,
+      prompt: promptText ? { promptText } : undefined,
+    }
+  }
+
+  beforeEach(async () => {
+    key = (await generateEncryptionKey()).key
+    storage = createMemorySearchStorage()
+    decrypted = []
+    deps = {
+      storage,
+      readText: async (reflection) => {
+        decrypted.push(reflection.id)
+        return await decryptText(
+          {
+            ciphertext: reflection.reflectionText,
+            iv: reflection.encryptionIV ?? '',
+            algorithm: reflection.encryptionAlgorithm ?? '',
+          },
+          key
+        )
+      },
+      sealDocument: async (json) => ({ data: await encryptText(json, key), keyVersion: 1 }),
+      openDocument: async (record) => await decryptText(record.data, key),
+    }
+  })
+
+  describe('Tokenizing', () => {
+    it('should lowercase, strip accents and drop punctuation', () => {
+      expect(tokenize('Café at the BEACH, again!')).toEqual(['cafe', 'at', 'the', 'beach', 'again'])
+    })
+
+    it('should return unique words', () => {
+      expect(tokenize('Run, run, RUN')).toEqual(['run'])
+    })
+  })
+
+  describe('Searching', () => {
+    const documents = [
+      createSearchDocument(
+        { id: 'a', reflectionText: '', createdAt: 1 * day, prompt: { promptText: 'Favorite meal?' } },
+        'Pancakes with the kids'
+      ),
+      createSearchDocument({ id: 'b', reflectionText: '', createdAt: 2 * day }, 'Beach day'),
+      createSearchDocument({ id: 'c', reflectionText: '', createdAt: 3 * day }, 'Kids at the beach'),
+    ]
+
+    it('should require every word', () => {
+      expect(searchDocuments(documents, { text: 'kids beach' })).toEqual(['c'])
+    })
+
+    it('should match word prefixes, newest first', () => {
+      expect(searchDocuments(documents, { text: 'bea' })).toEqual(['c', 'b'])
+    })
+
+    it('should match prompt text', () => {
+      expect(searchDocuments(documents, { text: 'meal' })).toEqual(['a'])
+    })
+
+    it('should filter by date range', () => {
+      expect(searchDocuments(documents, { text: '', from: 2 * day, to: 3 * day })).toEqual([
+        'c',
+        'b',
+      ])
+      expect(searchDocuments(documents, { text: 'kids', to: 2 * day })).toEqual(['a'])
+    })
+
+    it('should treat a query without words or dates as empty', () => {
+      expect(isEmptyQuery({ text: '  ?! ' })).toBe(true)
+      expect(isEmptyQuery({ text: '', from: day })).toBe(false)
+    })
+  })
+
+  describe('Indexing', () => {
+    it('should index reflections and find them after reloading', async () => {
+      const reflections = [
+        await createReflection('r1', 'Walked the dog by the river', 1 * day),
+        await createReflection('r2', 'Rainy afternoon reading', 2 * day, 'What made you smile?'),
+      ]
+
+      await updateSearchIndex(userId, reflections, new Map(), deps)
+      const loaded = await loadSearchIndex(userId, deps)
+      const documents = [...loaded.values()].map((entry) => entry.document)
+
+      expect(searchDocuments(documents, { text: 'river' })).toEqual(['r1'])
+      expect(searchDocuments(documents, { text: 'smile' })).toEqual(['r2'])
+    })
+
+    it('should not store plaintext', async () => {
+      const reflections = [await createReflection('r1', 'Secret birthday surprise', day)]
+
+      await updateSearchIndex(userId, reflections, new Map(), deps)
+      const stored = JSON.stringify(await storage.getRecords(userId))
+
+      expect(stored).not.toContain('birthday')
+      expect(stored).not.toContain('surprise')
+    })
+
+    it('should only decrypt new or changed reflections', async () => {
+      const first = await createReflection('r1', 'First entry', 1 * day)
+      const second = await createReflection('r2', 'Second entry', 2 * day)
+      const entries = await updateSearchIndex(userId, [first, second], new Map(), deps)
+      decrypted = []
+
+      const edited = await createReflection('r2', 'Second entry, edited', 2 * day)
+      const third = await createReflection('r3', 'Third entry', 3 * day)
+      const updated = await updateSearchIndex(userId, [first, edited, third], entries, deps)
+
+      expect(decrypted).toEqual(['r2', 'r3'])
+      const documents = [...updated.values()].map((entry) => entry.document)
+      expect(searchDocuments(documents, { text: 'edited' })).toEqual(['r2'])
+    })
+
+    it('should remove deleted reflections', async () => {
+      const first = await createReflection('r1', 'Keep me', 1 * day)
+      const second = await createReflection('r2', 'Delete me', 2 * day)
+      const entries = await updateSearchIndex(userId, [first, second], new Map(), deps)
+
+      const updated = await updateSearchIndex(userId, [first], entries, deps)
+
+      expect([...updated.keys()]).toEqual(['r1'])
+      expect((await storage.getRecords(userId)).map((record) => record.reflectionId)).toEqual([
+        'r1',
+      ])
+    })
+
+    it('should skip reflections that fail to decrypt and retry them later', async () => {
+      const good = await createReflection('r1', 'Readable', 1 * day)
+      const bad = { ...(await createReflection('r2', 'Unreadable', 2 * day)), encryptionIV: '' }
+      const progress: number[] = []
+
+      const entries = await updateSearchIndex(userId, [good, bad], new Map(), deps, {
+        onProgress: ({ failed }) => progress.push(failed),
+      })
+
+      expect([...entries.keys()]).toEqual(['r1'])
+      expect(progress).toEqual([0, 1])
+    })
+
+    it('should stop when aborted', async () => {
+      const controller = new AbortController()
+      controller.abort()
+      const reflections = [await createReflection('r1', 'Never indexed', day)]
+
+      const entries = await updateSearchIndex(userId, reflections, new Map(), deps, {
+        signal: controller.signal,
+      })
+
+      expect(entries.size).toBe(0)
+      expect(decrypted).toEqual([])
+    })
+
+    it('should drop records it can no longer decrypt', async () => {
+      const reflections = [await createReflection('r1', 'Old key entry', day)]
+      await updateSearchIndex(userId, reflections, new Map(), deps)
+
+      key = (await generateEncryptionKey()).key
+      const loaded = await loadSearchIndex(userId, deps)
+
+      expect(loaded.size).toBe(0)
+      expect(await storage.getRecords(userId)).toEqual([])
+    })
+  })
+})
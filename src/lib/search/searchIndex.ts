@@ -0,0 +1,259 @@
+/**
+ * Reflection Search Index
+ *
+ * Full-text search over reflections without sending plaintext anywhere.
+ * Reflections are decrypted on the device, tokenized into a SearchDocument
+ * and the document is stored encrypted in the local search storage (see
+ * searchStorage.ts). Nothing from the index is written to InstantDB.
+ *
+ * Every record remembers a hash of the ciphertext it was built from, so an
+ * update only decrypts reflections that are new or changed since the last
+ * run (e.g. re-encrypted after a key rotation) and drops deleted ones.
+ *
+ * Decryption and encryption are injected via `SearchIndexDeps` so the index
+ * can be driven by useEncryption in the app and by plain keys in tests.
+ */
+
+import type { EncryptedData } from '@/lib/encryption/crypto'
+import type { SearchIndexRecord, SearchIndexStorage } from './searchStorage'
+
+export interface SearchableReflection {
+  id: string
+  reflectionText: string
+  encryptionIV?: string | null
+  encryptionAlgorithm?: string | null
+  keyVersion?: number | null
+  createdAt: number
+  prompt?: {
+    promptText: string
+  }
+}
+
+export interface SearchDocument {
+  id: string
+  createdAt: number
+  words: string[] // Unique normalized words of the reflection text
+  promptWords: string[] // Unique normalized words of the prompt
+}
+
+export interface SearchIndexEntry {
+  document: SearchDocument
+  sourceHash: string
+}
+
+export interface SearchQuery {
+  text: string
+  from?: number // Inclusive lower bound on createdAt
+  to?: number // Inclusive upper bound on createdAt
+}
+
+export interface SearchIndexProgress {
+  total: number
+  completed: number
+  failed: number
+}
+
+export interface SearchIndexDeps {
+  storage: SearchIndexStorage
+  // Plaintext of a reflection (decrypting it if needed)
+  readText: (reflection: SearchableReflection) => Promise<string>
+  // Encrypt a serialized SearchDocument with the active key
+  sealDocument: (json: string) => Promise<{ data: EncryptedData; keyVersion: number }>
+  // Decrypt a stored record back to SearchDocument JSON
+  openDocument: (record: SearchIndexRecord) => Promise<string>
+}
+
+export interface UpdateSearchIndexOptions {
+  onProgress?: (progress: SearchIndexProgress) => void
+  signal?: AbortSignal
+}
+
+/**
+ * Split text into unique, normalized search words
+ * Lowercases and strips accents so "Café" matches "cafe"
+ *
+ * @param text - Text to tokenize
+ * @returns string[] - Unique words in order of first appearance
+ */
+export function tokenize(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+
+  return [...new Set(words)]
+}
+
+/**
+ * Build the search document for a decrypted reflection
+ *
+ * @param reflection - Reflection (for id, date and prompt)
+ * @param text - Decrypted reflection text
+ * @returns SearchDocument
+ */
+export function createSearchDocument(
+  reflection: SearchableReflection,
+  text: string
+): SearchDocument {
+  return {
+    id: reflection.id,
+    createdAt: reflection.createdAt,
+    words: tokenize(text),
+    promptWords: tokenize(reflection.prompt?.promptText ?? ''),
+  }
+}
+
+/**
+ * Check whether a query has no words and no date range
+ */
+export function isEmptyQuery(query: SearchQuery): boolean {
+  return tokenize(query.text).length === 0 && query.from === undefined && query.to === undefined
+}
+
+/**
+ * Find the documents matching a query
+ * Every query word must start a word of the reflection or its prompt
+ *
+ * @param documents - Indexed documents
+ * @param query - Words and optional date range
+ * @returns string[] - Matching reflection ids, newest first
+ */
+export function searchDocuments(documents: SearchDocument[], query: SearchQuery): string[] {
+  const terms = tokenize(query.text)
+
+  return documents
+    .filter((document) => {
+      if (query.from !== undefined && document.createdAt < query.from) return false
+      if (query.to !== undefined && document.createdAt > query.to) return false
+
+      return terms.every(
+        (term) =>
+          document.words.some((word) => word.startsWith(term)) ||
+          document.promptWords.some((word) => word.startsWith(term))
+      )
+    })
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .map((document) => document.id)
+}
+
+/**
+ * Hash the stored form of a reflection
+ * Changes whenever the ciphertext (or prompt) changes, without decrypting
+ *
+ * @param reflection - Reflection as stored in InstantDB
+ * @returns Promise<string> - Hex SHA-256
+ */
+export async function hashSource(reflection: SearchableReflection): Promise<string> {
+  const source = JSON.stringify([
+    reflection.reflectionText,
+    reflection.encryptionIV ?? null,
+    reflection.encryptionAlgorithm ?? null,
+    reflection.keyVersion ?? null,
+    reflection.createdAt,
+    reflection.prompt?.promptText ?? null,
+  ])
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(source))
+
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * Load the persisted index for a user
+ * Records that can't be decrypted (e.g. the key is gone) are dropped and rebuilt
+ *
+ * @param userId - User ID
+ * @param deps - Storage and crypto
+ * @returns Promise<Map<string, SearchIndexEntry>> - Entries by reflection id
+ */
+export async function loadSearchIndex(
+  userId: string,
+  deps: SearchIndexDeps
+): Promise<Map<string, SearchIndexEntry>> {
+  const entries = new Map<string, SearchIndexEntry>()
+
+  for (const record of await deps.storage.getRecords(userId)) {
+    try {
+      const document = JSON.parse(await deps.openDocument(record)) as SearchDocument
+      entries.set(record.reflectionId, { document, sourceHash: record.sourceHash })
+    } catch (error) {
+      console.warn(`Dropping unreadable search record for ${record.reflectionId}:`, error)
+      await deps.storage.deleteRecord(userId, record.reflectionId)
+    }
+  }
+
+  return entries
+}
+
+/**
+ * Bring the index up to date with the user's reflections
+ * Only new or changed reflections are decrypted; removed ones are deleted.
+ * Reflections that fail to decrypt are skipped and retried on the next update.
+ *
+ * @param userId - User ID
+ * @param reflections - All of the user's reflections
+ * @param entries - Current entries (from loadSearchIndex or a previous update)
+ * @param deps - Storage and crypto
+ * @param options - Progress callback and abort signal
+ * @returns Promise<Map<string, SearchIndexEntry>> - Updated entries
+ */
+export async function updateSearchIndex(
+  userId: string,
+  reflections: SearchableReflection[],
+  entries: Map<string, SearchIndexEntry>,
+  deps: SearchIndexDeps,
+  options: UpdateSearchIndexOptions = {}
+): Promise<Map<string, SearchIndexEntry>> {
+  const next = new Map<string, SearchIndexEntry>()
+  const progress: SearchIndexProgress = { total: reflections.length, completed: 0, failed: 0 }
+
+  for (const reflection of reflections) {
+    if (options.signal?.aborted) {
+      return next
+    }
+
+    const sourceHash = await hashSource(reflection)
+    const existing = entries.get(reflection.id)
+
+    if (existing && existing.sourceHash === sourceHash) {
+      next.set(reflection.id, existing)
+      progress.completed++
+      options.onProgress?.({ ...progress })
+      continue
+    }
+
+    try {
+      const document = createSearchDocument(reflection, await deps.readText(reflection))
+      const { data, keyVersion } = await deps.sealDocument(JSON.stringify(document))
+
+      await deps.storage.putRecord({
+        reflectionId: reflection.id,
+        userId,
+        sourceHash,
+        keyVersion,
+        data,
+      })
+
+      next.set(reflection.id, { document, sourceHash })
+      progress.completed++
+    } catch (error) {
+      console.error(`Failed to index reflection ${reflection.id}:`, error)
+      progress.failed++
+    }
+
+    options.onProgress?.({ ...progress })
+  }
+
+  // Drop reflections that were deleted since the last update
+  const reflectionIds = new Set(reflections.map(({ id }) => id))
+  for (const reflectionId of entries.keys()) {
+    if (!reflectionIds.has(reflectionId)) {
+      await deps.storage.deleteRecord(userId, reflectionId)
+    }
+  }
+
+  return next
+}
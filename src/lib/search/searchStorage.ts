@@ -0,0 +1,167 @@
+/**
+ * Search Index Storage
+ *
+ * Where the local search index is persisted. Records only hold encrypted
+ * search documents, so nothing readable is written to disk. The browser uses
+ * IndexedDB; tests swap in the in-memory backend with setSearchIndexStorage().
+ *
+ * IndexedDB Structure (database `reflections-search`):
+ * - `records` - One SearchIndexRecord per reflection, keyed by `${userId}/${reflectionId}`
+ */
+
+import type { EncryptedData } from '@/lib/encryption/crypto'
+
+const DB_NAME = 'reflections-search'
+const DB_VERSION = 1
+const RECORDS_STORE = 'records'
+
+export interface SearchIndexRecord {
+  reflectionId: string
+  userId: string
+  sourceHash: string // SHA-256 of the ciphertext (and prompt) the record was built from
+  keyVersion: number // Key version that encrypted `data`
+  data: EncryptedData // Encrypted SearchDocument JSON
+}
+
+export interface SearchIndexStorage {
+  getRecords(userId: string): Promise<SearchIndexRecord[]>
+  putRecord(record: SearchIndexRecord): Promise<void>
+  deleteRecord(userId: string, reflectionId: string): Promise<void>
+  clear(userId: string): Promise<void>
+}
+
+let storage: SearchIndexStorage | null = null
+
+/**
+ * Replace the storage backend
+ * Tests use createMemorySearchStorage(); the browser defaults to IndexedDB
+ *
+ * @param nextStorage - Backend to use from now on
+ */
+export function setSearchIndexStorage(nextStorage: SearchIndexStorage): void {
+  storage = nextStorage
+}
+
+/**
+ * The storage backend (IndexedDB in the browser, memory elsewhere)
+ */
+export function getSearchIndexStorage(): SearchIndexStorage {
+  if (!storage) {
+    storage =
+      typeof indexedDB !== 'undefined' ? createIndexedDBSearchStorage() : createMemorySearchStorage()
+  }
+  return storage
+}
+
+/**
+ * IndexedDB backend (default in the browser)
+ *
+ * @param dbName - Database name (override for isolation)
+ * @returns SearchIndexStorage
+ */
+export function createIndexedDBSearchStorage(dbName = DB_NAME): SearchIndexStorage {
+  let dbPromise: Promise<IDBDatabase> | null = null
+
+  const open = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = openDatabase(dbName).catch((error) => {
+        dbPromise = null
+        throw error
+      })
+    }
+    return dbPromise
+  }
+
+  async function run<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await open()
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(RECORDS_STORE, mode)
+      const request = operation(transaction.objectStore(RECORDS_STORE))
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  }
+
+  return {
+    async getRecords(userId) {
+      return await run<SearchIndexRecord[]>('readonly', (store) =>
+        store.getAll(userRange(userId))
+      )
+    },
+    async putRecord(record) {
+      await run('readwrite', (store) =>
+        store.put(record, recordKey(record.userId, record.reflectionId))
+      )
+    },
+    async deleteRecord(userId, reflectionId) {
+      await run('readwrite', (store) => store.delete(recordKey(userId, reflectionId)))
+    },
+    async clear(userId) {
+      await run('readwrite', (store) => store.delete(userRange(userId)))
+    },
+  }
+}
+
+/**
+ * In-memory backend (tests, or browsers without IndexedDB)
+ * The index is rebuilt when the page reloads
+ *
+ * @returns SearchIndexStorage
+ */
+export function createMemorySearchStorage(): SearchIndexStorage {
+  const records = new Map<string, SearchIndexRecord>()
+
+  return {
+    async getRecords(userId) {
+      return [...records.values()].filter((record) => record.userId === userId)
+    },
+    async putRecord(record) {
+      records.set(recordKey(record.userId, record.reflectionId), record)
+    },
+    async deleteRecord(userId, reflectionId) {
+      records.delete(recordKey(userId, reflectionId))
+    },
+    async clear(userId) {
+      for (const record of await this.getRecords(userId)) {
+        records.delete(recordKey(userId, record.reflectionId))
+      }
+    },
+  }
+}
+
+/**
+ * Utility: Record key, grouped by user so a user's records form one key range
+ */
+function recordKey(userId: string, reflectionId: string): string {
+  return `${userId}/${reflectionId}`
+}
+
+/**
+ * Utility: Key range covering all of a user's records
+ */
+function userRange(userId: string): IDBKeyRange {
+  return IDBKeyRange.bound(`${userId}/`, `${userId}/\uffff`)
+}
+
+/**
+ * Utility: Open (and create/upgrade) the search database
+ */
+function openDatabase(dbName: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(dbName, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(RECORDS_STORE)) {
+        db.createObjectStore(RECORDS_STORE)
+      }
+    }
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
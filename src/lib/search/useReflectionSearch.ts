@@ -0,0 +1,133 @@
+/**
+ * useReflectionSearch Hook
+ *
+ * Keeps the local search index in step with the user's reflections and
+ * searches it. The index is loaded from the device on first use, then
+ * updated incrementally whenever the reflections query changes (e.g. a new
+ * reflection syncs in), so only new or changed reflections are decrypted.
+ *
+ * Search documents are encrypted with the user's key before they're stored
+ * (see searchStorage.ts) and never leave the device.
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { useAuth } from '@/lib/auth'
+import { useEncryption, openReflectionText } from '@/lib/encryption'
+import {
+  loadSearchIndex,
+  updateSearchIndex,
+  searchDocuments,
+  type SearchableReflection,
+  type SearchIndexDeps,
+  type SearchIndexEntry,
+  type SearchIndexProgress,
+  type SearchQuery,
+} from './searchIndex'
+import { getSearchIndexStorage } from './searchStorage'
+
+export function useReflectionSearch(reflections: SearchableReflection[] | undefined) {
+  const { user } = useAuth()
+  const { isReady, keyVersion, encrypt, decrypt, openText } = useEncryption()
+  const [entries, setEntries] = useState<Map<string, SearchIndexEntry>>(new Map())
+  const [isIndexing, setIsIndexing] = useState(false)
+  const [progress, setProgress] = useState<SearchIndexProgress | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Entries persisted so far, and whose they are (survives aborted runs)
+  const entriesRef = useRef<{ userId: string; entries: Map<string, SearchIndexEntry> } | null>(
+    null
+  )
+
+  const deps = useMemo<SearchIndexDeps | null>(() => {
+    if (!isReady || keyVersion === undefined) return null
+
+    return {
+      storage: getSearchIndexStorage(),
+      readText: async (reflection) =>
+        await openReflectionText(reflection, reflection.id, { openText, decrypt }),
+      sealDocument: async (json) => ({ data: await encrypt(json), keyVersion }),
+      openDocument: async (record) => await decrypt(record.data, record.keyVersion),
+    }
+  }, [isReady, keyVersion, encrypt, decrypt, openText])
+
+  /**
+   * Load the stored index, then index new and changed reflections
+   */
+  useEffect(() => {
+    if (!user?.id || !deps || !reflections) return
+
+    const userId = user.id
+    const controller = new AbortController()
+
+    async function runIndex(
+      currentDeps: SearchIndexDeps,
+      currentReflections: SearchableReflection[]
+    ) {
+      try {
+        setIsIndexing(true)
+        setError(null)
+
+        if (entriesRef.current?.userId !== userId) {
+          const loaded = await loadSearchIndex(userId, currentDeps)
+          if (controller.signal.aborted) return
+          entriesRef.current = { userId, entries: loaded }
+          setEntries(loaded)
+        }
+
+        const updated = await updateSearchIndex(
+          userId,
+          currentReflections,
+          entriesRef.current?.entries ?? new Map(),
+          currentDeps,
+          { signal: controller.signal, onProgress: setProgress }
+        )
+        if (controller.signal.aborted) return
+
+        entriesRef.current = { userId, entries: updated }
+        setEntries(updated)
+      } catch (err) {
+        console.error('Error updating search index:', err)
+        if (!controller.signal.aborted) {
+          setError(err instanceof Error ? err.message : 'Failed to update search index')
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsIndexing(false)
+        }
+      }
+    }
+
+    runIndex(deps, reflections)
+
+    return () => {
+      controller.abort()
+    }
+  }, [user?.id, deps, reflections])
+
+  const documents = useMemo(
+    () => [...entries.values()].map((entry) => entry.document),
+    [entries]
+  )
+
+  /**
+   * Search the indexed reflections
+   *
+   * @param query - Words and optional date range
+   * @returns string[] - Matching reflection ids, newest first
+   */
+  const search = useCallback(
+    (query: SearchQuery): string[] => searchDocuments(documents, query),
+    [documents]
+  )
+
+  return {
+    // State
+    isIndexing,
+    progress,
+    indexedCount: entries.size,
+    error,
+
+    // Functions
+    search,
+  }
+}
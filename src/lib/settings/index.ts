@@ -0,0 +1,15 @@
+/**
+ * Settings Module
+ *
+ * The user's preferences (`userSettings`)
+ *
+ * Exports:
+ * - React hook that reads and updates the settings row
+ */
+
+// React Hook
+export {
+  useUserSettings,
+  DEFAULT_SETTINGS,
+  type SettingsUpdate,
+} from './useUserSettings'
@@ -0,0 +1,84 @@
+/**
+ * useUserSettings Hook
+ *
+ * Reads and updates the signed-in user's `userSettings` row. Users start
+ * without one; the first update creates it with DEFAULT_SETTINGS.
+ */
+
+import { useCallback } from 'react'
+import { id } from '@instantdb/react'
+import { db, useQuery } from '@/lib/db'
+
+export interface SettingsUpdate {
+  emailCadence?: 'daily' | 'weekly' | 'biweekly' | 'monthly'
+  scrapbookDeliveryDate?: number
+  emailSummariesEnabled?: boolean
+  scrapbookRemindersEnabled?: boolean
+  remindersEnabled?: boolean
+  reminderTime?: string
+  timezone?: string
+  streakGraceDays?: number
+  memoriesIncludeMonths?: boolean
+}
+
+export const DEFAULT_SETTINGS = {
+  emailCadence: 'weekly',
+  scrapbookDeliveryDate: 0, // Not chosen yet
+  emailSummariesEnabled: true,
+  scrapbookRemindersEnabled: true,
+} as const
+
+export function useUserSettings(userProfileId: string | undefined) {
+  const { data, isLoading, error } = useQuery(
+    userProfileId
+      ? {
+          userSettings: {
+            $: {
+              where: {
+                'user.id': userProfileId,
+              },
+              limit: 1,
+            },
+          },
+        }
+      : null
+  )
+
+  const settings = data?.userSettings?.[0]
+
+  /**
+   * Save changed settings, creating the row on first use
+   *
+   * @param updates - Fields to change
+   */
+  const updateSettings = useCallback(
+    async (updates: SettingsUpdate): Promise<void> => {
+      if (!userProfileId) {
+        throw new Error('User profile not loaded')
+      }
+
+      const now = Date.now()
+      if (settings) {
+        await db.transact(db.tx.userSettings[settings.id].update({ ...updates, updatedAt: now }))
+        return
+      }
+
+      await db.transact(
+        db.tx.userSettings[id()]
+          .create({ ...DEFAULT_SETTINGS, ...updates, createdAt: now, updatedAt: now })
+          .link({ user: userProfileId })
+      )
+    },
+    [userProfileId, settings]
+  )
+
+  return {
+    // State
+    settings,
+    isLoading,
+    error: error?.message ?? null,
+
+    // Functions
+    updateSettings,
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Streaks Module
+ *
+ * Reflection streaks with grace days and milestones, computed by the backend
+ *
+ * Exports:
+ * - React hook that reads the stored streak
+ * - Server function that queues a recompute
+ * - Streak engine (used by the Inngest functions)
+ *
+ * Server code imports streaks.ts directly, so the React hook (and the
+ * browser database client) stay out of server bundles.
+ */
+
+// React Hook
+export { useStreak } from './useStreak'
+
+// Server Function
+export { requestStreakUpdate, STREAK_UPDATE_EVENT } from './requestStreakUpdate'
+
+// Streak Engine
+export {
+  computeStreaks,
+  updateStreak,
+  refreshStaleStreaks,
+  normalizeGraceDays,
+  MILESTONES,
+  DEFAULT_GRACE_DAYS,
+  MAX_GRACE_DAYS,
+  GRACE_WINDOW,
+  STREAK_CRON,
+  type ReachedMilestone,
+  type StreakSummary,
+  type StreakRecord,
+  type StreakInput,
+  type StoredStreak,
+  type StreakDeps,
+  type StreakUpdateResult,
+} from './streaks'
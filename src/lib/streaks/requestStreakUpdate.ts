@@ -0,0 +1,60 @@
+/**
+ * Request Streak Update
+ *
+ * Server function the app calls after something changed a user's streak
+ * (a reflection synced or was deleted, or the grace days changed). It only
+ * queues the Inngest job; the job reads the user's data itself, so the
+ * numbers can't be influenced from the client.
+ *
+ * The caller sends its InstantDB refresh token, never a profile id: the
+ * token is verified with the admin SDK and the job runs for the profile of
+ * the user it belongs to, so nobody can queue jobs for someone else.
+ */
+
+import { createServerFn } from '@tanstack/react-start'
+import { adminDb } from '@/lib/db/backend'
+import { inngest } from '@/lib/inngest/client'
+
+export const STREAK_UPDATE_EVENT = 'streaks/update.requested'
+
+export const requestStreakUpdate = createServerFn({ method: 'POST' })
+  .validator((data: { refreshToken: string }) => {
+    if (typeof data?.refreshToken !== 'string' || !data.refreshToken) {
+      throw new Error('refreshToken is required')
+    }
+    return { refreshToken: data.refreshToken }
+  })
+  .handler(async ({ data }) => {
+    const userProfileId = await getSessionProfileId(data.refreshToken)
+
+    await inngest.send({
+      name: STREAK_UPDATE_EVENT,
+      data: { userProfileId },
+    })
+    return { queued: true }
+  })
+
+/**
+ * Utility: Profile of the user a refresh token belongs to
+ */
+async function getSessionProfileId(refreshToken: string): Promise<string> {
+  const user = await adminDb.auth.verifyToken(refreshToken).catch(() => null)
+  if (!user) {
+    throw new Error('Not signed in')
+  }
+
+  const { userProfiles } = await adminDb.query({
+    userProfiles: {
+      $: {
+        where: {
+          '$user.id': user.id,
+        },
+        limit: 1,
+      },
+    },
+  })
+  if (!userProfiles[0]) {
+    throw new Error('User profile not found')
+  }
+  return userProfiles[0].id
+}
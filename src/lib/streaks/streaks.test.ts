@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  computeStreaks,
+  updateStreak,
+  refreshStaleStreaks,
+  normalizeGraceDays,
+  type StreakDeps,
+  type StreakInput,
+  type StreakRecord,
+  type StoredStreak,
+  type ReachedMilestone,
+} from './streaks'
+import { shiftDateKey } from '@/lib/dates/dayKeys'
+
+/**
+ * Consecutive date keys starting at `start`
+ */
+function run(start: string, count: number): string[] {
+  return Array.from({ length: count }, (_, offset) => shiftDateKey(start, offset))
+}
+
+describe('Streaks', () => {
+  describe('computeStreaks', () => {
+    it('should count consecutive days once each', () => {
+      const days = [...run('2025-03-01', 5), '2025-03-03', '2025-03-05']
+
+      expect(computeStreaks(days, '2025-03-05', 0)).toMatchObject({
+        currentStreak: 5,
+        longestStreak: 5,
+        currentStreakStart: '2025-03-01',
+        lastReflectionDate: '2025-03-05',
+      })
+    })
+
+    it('should keep the streak going while today is still open', () => {
+      expect(computeStreaks(run('2025-03-01', 3), '2025-03-04', 0).currentStreak).toBe(3)
+      expect(computeStreaks(run('2025-03-01', 3), '2025-03-05', 0)).toMatchObject({
+        currentStreak: 0,
+        longestStreak: 3,
+        currentStreakStart: null,
+        lastReflectionDate: '2025-03-03',
+      })
+    })
+
+    it('should forgive a missed day with a grace day', () => {
+      const days = [...run('2025-03-01', 3), ...run('2025-03-05', 2)]
+
+      expect(computeStreaks(days, '2025-03-06', 1)).toMatchObject({
+        currentStreak: 5,
+        currentStreakStart: '2025-03-01',
+        graceDaysUsed: 1,
+      })
+      expect(computeStreaks(days, '2025-03-06', 0)).toMatchObject({
+        currentStreak: 2,
+        longestStreak: 3,
+        graceDaysUsed: 0,
+      })
+    })
+
+    it('should allow only as many misses in any 7 days as there are grace days', () => {
+      // Misses on the 3rd and 5th
+      const days = ['2025-03-01', '2025-03-02', '2025-03-04', '2025-03-06']
+
+      expect(computeStreaks(days, '2025-03-06', 1)).toMatchObject({
+        currentStreak: 1,
+        longestStreak: 3,
+      })
+      expect(computeStreaks(days, '2025-03-06', 2)).toMatchObject({
+        currentStreak: 4,
+        graceDaysUsed: 2,
+      })
+    })
+
+    it('should renew grace days once a miss is a week old', () => {
+      // Misses on the 8th and 16th
+      const days = [...run('2025-03-01', 7), ...run('2025-03-09', 7), '2025-03-17']
+
+      expect(computeStreaks(days, '2025-03-17', 1)).toMatchObject({
+        currentStreak: 15,
+        graceDaysUsed: 1, // The 8th no longer counts
+      })
+    })
+
+    it('should use a grace day for yesterday but not for a longer gap', () => {
+      const days = run('2025-03-01', 3)
+
+      expect(computeStreaks(days, '2025-03-05', 1)).toMatchObject({
+        currentStreak: 3,
+        graceDaysUsed: 1,
+      })
+      expect(computeStreaks(days, '2025-03-06', 1)).toMatchObject({
+        currentStreak: 0,
+        longestStreak: 3,
+      })
+    })
+
+    it('should record each milestone once per streak', () => {
+      // Two 7-day streaks separated by a two-day gap
+      const days = [...run('2025-03-01', 7), ...run('2025-03-10', 7)]
+
+      expect(computeStreaks(days, '2025-03-16', 1).milestones).toEqual([
+        { days: 7, streakStart: '2025-03-01', reachedDate: '2025-03-07' },
+        { days: 7, streakStart: '2025-03-10', reachedDate: '2025-03-16' },
+      ])
+      expect(
+        computeStreaks(run('2025-01-01', 100), '2025-04-10', 0).milestones.map((m) => m.days)
+      ).toEqual([7, 30, 100])
+    })
+
+    it('should ignore days after today', () => {
+      expect(computeStreaks(['2025-03-01', '2025-03-02'], '2025-03-01', 0)).toMatchObject({
+        currentStreak: 1,
+        lastReflectionDate: '2025-03-01',
+      })
+    })
+
+    it('should clamp grace day settings', () => {
+      expect(normalizeGraceDays(undefined)).toBe(1)
+      expect(normalizeGraceDays(-2)).toBe(0)
+      expect(normalizeGraceDays(10)).toBe(3)
+      expect(normalizeGraceDays(1.7)).toBe(1)
+    })
+  })
+
+  describe('updateStreak', () => {
+    let inputs: Map<string, StreakInput>
+    let saved: Map<string, StreakRecord>
+    let added: ReachedMilestone[]
+    let stored: StoredStreak[]
+    let deps: StreakDeps
+
+    beforeEach(() => {
+      inputs = new Map()
+      saved = new Map()
+      added = []
+      stored = []
+      deps = {
+        getStreakInput: async (userProfileId) => inputs.get(userProfileId) ?? null,
+        saveStreak: async (userProfileId, record) => {
+          saved.set(userProfileId, record)
+        },
+        addMilestones: async (userProfileId, milestones) => {
+          added.push(...milestones)
+          inputs.get(userProfileId)?.milestones.push(...milestones)
+        },
+        getStoredStreaks: async () => stored,
+      }
+    })
+
+    it("should count days in the user's timezone and record new milestones once", async () => {
+      // 23:30 in New York every day from March 1 to 7 (already the next day in UTC)
+      inputs.set('profile-1', {
+        timezone: 'America/New_York',
+        graceDays: null,
+        reflectionTimestamps: Array.from({ length: 7 }, (_, day) =>
+          Date.UTC(2025, 2, 2 + day, 4, 30)
+        ),
+        milestones: [],
+      })
+      const now = Date.UTC(2025, 2, 8, 4, 45) // March 7, 23:45 in New York
+
+      const first = await updateStreak('profile-1', deps, now)
+
+      expect(first?.record).toMatchObject({
+        currentStreak: 7,
+        longestStreak: 7,
+        currentStreakStart: '2025-03-01',
+        totalReflections: 7,
+        graceDays: 1,
+        computedDate: '2025-03-07',
+      })
+      expect(first?.newMilestones).toEqual([
+        { days: 7, streakStart: '2025-03-01', reachedDate: '2025-03-07' },
+      ])
+      expect(saved.get('profile-1')).toEqual(first?.record)
+
+      const second = await updateStreak('profile-1', deps, now)
+      expect(second?.newMilestones).toEqual([])
+      expect(added).toHaveLength(1)
+    })
+
+    it('should skip users that no longer exist', async () => {
+      expect(await updateStreak('missing', deps)).toBeNull()
+      expect(saved.size).toBe(0)
+    })
+
+    it('should refresh only streaks computed on an earlier local day', async () => {
+      // March 7, 16:00 UTC: already March 8 in Tokyo, still March 7 in New York
+      const now = Date.UTC(2025, 2, 7, 16, 0)
+      stored = [
+        { userProfileId: 'tokyo', timezone: 'Asia/Tokyo', computedDate: '2025-03-07' },
+        { userProfileId: 'new-york', timezone: 'America/New_York', computedDate: '2025-03-07' },
+      ]
+      inputs.set('tokyo', {
+        timezone: 'Asia/Tokyo',
+        graceDays: 0,
+        // Noon in Tokyo, March 1 to 6: March 7 was missed
+        reflectionTimestamps: Array.from({ length: 6 }, (_, day) =>
+          Date.UTC(2025, 2, 1 + day, 3, 0)
+        ),
+        milestones: [],
+      })
+      inputs.set('new-york', {
+        timezone: 'America/New_York',
+        graceDays: 0,
+        reflectionTimestamps: [],
+        milestones: [],
+      })
+
+      expect(await refreshStaleStreaks(deps, now)).toBe(1)
+      expect(saved.get('tokyo')).toMatchObject({
+        currentStreak: 0,
+        longestStreak: 6,
+        computedDate: '2025-03-08',
+      })
+      expect(saved.has('new-york')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,252 @@
+/**
+ * Streak Engine
+ *
+ * Turns the days a user reflected on into their current and longest streak.
+ * A streak counts days with a reflection; a missed day doesn't end it as long
+ * as the user's grace days cover it (at most `graceDays` forgiven misses in
+ * any 7 days). Today never counts as missed: it's still open.
+ *
+ * Streaks are computed on the server by Inngest (see
+ * src/lib/inngest/functions/streaks.ts) and stored in `streaks`, so the
+ * dashboard and emails read the same numbers. Each 7/30/100-day milestone
+ * of a streak is recorded once in `streakMilestones`.
+ *
+ * Database access is injected via `StreakDeps`, so the job runs against the
+ * admin SDK in production and in-memory fakes in tests.
+ */
+
+import {
+  getDateKey,
+  getDateKeys,
+  getDaysBetween,
+  resolveTimeZone,
+  shiftDateKey,
+} from '@/lib/dates/dayKeys'
+
+export const MILESTONES = [7, 30, 100] as const
+export const DEFAULT_GRACE_DAYS = 1 // Missed days forgiven per 7 days
+export const MAX_GRACE_DAYS = 3
+export const GRACE_WINDOW = 7 // Days
+export const STREAK_CRON = '5 * * * *' // Hourly, so streaks roll over soon after each user's midnight
+
+export interface ReachedMilestone {
+  days: number // One of MILESTONES
+  streakStart: string // Date key of the streak's first day (tells streaks apart)
+  reachedDate: string // Date key of the day the streak got there
+}
+
+export interface StreakSummary {
+  currentStreak: number // Days with a reflection in the streak that's still going (0 if broken)
+  longestStreak: number
+  currentStreakStart: string | null
+  lastReflectionDate: string | null
+  graceDaysUsed: number // Forgiven misses in the last 7 days of the current streak
+  milestones: ReachedMilestone[] // Every milestone any streak reached, oldest first
+}
+
+export interface StreakRecord {
+  currentStreak: number
+  longestStreak: number
+  currentStreakStart: string | null
+  lastReflectionDate: string | null
+  totalReflections: number // So the dashboard can show it without loading every reflection
+  graceDays: number // Setting the numbers were computed with
+  graceDaysUsed: number
+  computedDate: string // User's local day when computed
+  computedAt: number
+}
+
+export interface StreakInput {
+  timezone: string | null // userSettings.timezone
+  graceDays: number | null // userSettings.streakGraceDays
+  reflectionTimestamps: number[] // createdAt of every reflection
+  milestones: Pick<ReachedMilestone, 'days' | 'streakStart'>[] // Already recorded
+}
+
+export interface StoredStreak {
+  userProfileId: string
+  timezone: string | null
+  computedDate: string
+}
+
+export interface StreakDeps {
+  // Everything needed for one user (null if the profile doesn't exist)
+  getStreakInput: (userProfileId: string) => Promise<StreakInput | null>
+  saveStreak: (userProfileId: string, record: StreakRecord) => Promise<void>
+  addMilestones: (userProfileId: string, milestones: ReachedMilestone[]) => Promise<void>
+  // Every stored streak (for the hourly refresh)
+  getStoredStreaks: () => Promise<StoredStreak[]>
+}
+
+export interface StreakUpdateResult {
+  record: StreakRecord
+  newMilestones: ReachedMilestone[]
+}
+
+interface Run {
+  start: string
+  last: string
+  length: number
+  forgiven: string[] // Missed days the grace days covered
+}
+
+/**
+ * Clamp a grace day setting to what's supported
+ *
+ * @param graceDays - Stored setting (DEFAULT_GRACE_DAYS when unset)
+ * @returns number - 0 to MAX_GRACE_DAYS
+ */
+export function normalizeGraceDays(graceDays: number | null | undefined): number {
+  if (graceDays === null || graceDays === undefined || !Number.isFinite(graceDays)) {
+    return DEFAULT_GRACE_DAYS
+  }
+  return Math.min(MAX_GRACE_DAYS, Math.max(0, Math.floor(graceDays)))
+}
+
+/**
+ * Compute streaks from the days a user reflected on
+ *
+ * @param dateKeys - Days with a reflection ('YYYY-MM-DD', any order, duplicates ok)
+ * @param today - The user's current day
+ * @param graceDays - Missed days forgiven per 7 days
+ * @returns StreakSummary
+ */
+export function computeStreaks(
+  dateKeys: Iterable<string>,
+  today: string,
+  graceDays: number
+): StreakSummary {
+  const days = [...new Set(dateKeys)].filter((day) => day <= today).sort()
+  const milestones: ReachedMilestone[] = []
+
+  let run: Run | null = null
+  let longestStreak = 0
+
+  for (const day of days) {
+    if (!run || !forgiveMissedDays(run, shiftDateKey(run.last, 1), day, graceDays)) {
+      run = { start: day, last: day, length: 0, forgiven: [] }
+    }
+
+    run.length++
+    run.last = day
+    longestStreak = Math.max(longestStreak, run.length)
+
+    if ((MILESTONES as readonly number[]).includes(run.length)) {
+      milestones.push({ days: run.length, streakStart: run.start, reachedDate: day })
+    }
+  }
+
+  // Yesterday and before count as missed; today is still open
+  const current =
+    run && forgiveMissedDays(run, shiftDateKey(run.last, 1), today, graceDays) ? run : null
+
+  return {
+    currentStreak: current?.length ?? 0,
+    longestStreak,
+    currentStreakStart: current?.start ?? null,
+    lastReflectionDate: run?.last ?? null,
+    graceDaysUsed:
+      current?.forgiven.filter((day) => getDaysBetween(day, today) < GRACE_WINDOW).length ?? 0,
+    milestones,
+  }
+}
+
+/**
+ * Recompute one user's streak and record new milestones
+ *
+ * @param userProfileId - User to update
+ * @param deps - Database access
+ * @param now - Current time (override in tests)
+ * @returns Promise<StreakUpdateResult | null> - null if the user doesn't exist
+ */
+export async function updateStreak(
+  userProfileId: string,
+  deps: StreakDeps,
+  now = Date.now()
+): Promise<StreakUpdateResult | null> {
+  const input = await deps.getStreakInput(userProfileId)
+  if (!input) return null
+
+  const timeZone = resolveTimeZone(input.timezone)
+  const today = getDateKey(now, timeZone)
+  const graceDays = normalizeGraceDays(input.graceDays)
+  const days = getDateKeys(input.reflectionTimestamps, timeZone)
+  const summary = computeStreaks(days, today, graceDays)
+
+  const record: StreakRecord = {
+    currentStreak: summary.currentStreak,
+    longestStreak: summary.longestStreak,
+    currentStreakStart: summary.currentStreakStart,
+    lastReflectionDate: summary.lastReflectionDate,
+    totalReflections: input.reflectionTimestamps.length,
+    graceDays,
+    graceDaysUsed: summary.graceDaysUsed,
+    computedDate: today,
+    computedAt: now,
+  }
+  await deps.saveStreak(userProfileId, record)
+
+  const recorded = new Set(input.milestones.map(getMilestoneKey))
+  const newMilestones = summary.milestones.filter(
+    (milestone) => !recorded.has(getMilestoneKey(milestone))
+  )
+  if (newMilestones.length > 0) {
+    await deps.addMilestones(userProfileId, newMilestones)
+  }
+
+  return { record, newMilestones }
+}
+
+/**
+ * Recompute the streaks that were computed on an earlier local day
+ * (a streak can end at midnight without any new reflection)
+ *
+ * @param deps - Database access
+ * @param now - Current time (override in tests)
+ * @returns Promise<number> - Streaks updated
+ */
+export async function refreshStaleStreaks(deps: StreakDeps, now = Date.now()): Promise<number> {
+  let updated = 0
+
+  for (const streak of await deps.getStoredStreaks()) {
+    if (streak.computedDate === getDateKey(now, resolveTimeZone(streak.timezone))) continue
+
+    try {
+      if (await updateStreak(streak.userProfileId, deps, now)) {
+        updated++
+      }
+    } catch (error) {
+      console.error(`Failed to refresh streak for ${streak.userProfileId}:`, error)
+    }
+  }
+
+  return updated
+}
+
+/**
+ * Utility: Use grace days for the missed days from `from` up to (not
+ * including) `until`; false (and nothing used) if they don't cover them
+ */
+function forgiveMissedDays(run: Run, from: string, until: string, graceDays: number): boolean {
+  const missed = getDaysBetween(from, until)
+  if (missed <= 0) return true
+  if (missed > graceDays) return false
+
+  const forgiven = [...run.forgiven]
+  for (let offset = 0; offset < missed; offset++) {
+    const day = shiftDateKey(from, offset)
+    const inWindow = forgiven.filter((other) => getDaysBetween(other, day) < GRACE_WINDOW)
+    if (inWindow.length >= graceDays) return false
+    forgiven.push(day)
+  }
+
+  run.forgiven = forgiven
+  return true
+}
+
+/**
+ * Utility: Identity of a milestone (the same streak reaches each one once)
+ */
+function getMilestoneKey(milestone: Pick<ReachedMilestone, 'days' | 'streakStart'>): string {
+  return `${milestone.days}:${milestone.streakStart}`
+}
@@ -0,0 +1,99 @@
+/**
+ * useStreak Hook
+ *
+ * Reads the user's streak and milestones as the backend computed them (see
+ * streaks.ts). Nothing is counted in the browser, so the dashboard always
+ * shows the numbers emails use.
+ *
+ * Users whose streak was never computed (or was computed on an earlier day
+ * and the hourly job hasn't caught up yet) get an update requested once.
+ */
+
+import { useEffect, useCallback, useMemo } from 'react'
+import { useAuth } from '@/lib/auth'
+import { useQuery } from '@/lib/db'
+import { useTimeZone, getDateKey } from '@/lib/dates'
+import { MILESTONES, DEFAULT_GRACE_DAYS } from './streaks'
+import { requestStreakUpdate } from './requestStreakUpdate'
+
+// Users an update was already requested for in this session
+const requested = new Set<string>()
+
+export function useStreak(userProfileId: string | undefined) {
+  const { user } = useAuth()
+  const { timeZone } = useTimeZone(userProfileId)
+
+  const { data, isLoading } = useQuery(
+    userProfileId
+      ? {
+          streaks: {
+            $: {
+              where: {
+                'user.id': userProfileId,
+              },
+              limit: 1,
+            },
+          },
+          streakMilestones: {
+            $: {
+              where: {
+                'user.id': userProfileId,
+              },
+            },
+          },
+        }
+      : null
+  )
+
+  const streak = data?.streaks?.[0]
+  // Rows computed before totalReflections was stored are recomputed too
+  const isStale =
+    !!streak &&
+    (streak.computedDate !== getDateKey(Date.now(), timeZone) ||
+      streak.totalReflections === undefined)
+
+  /**
+   * Ask the backend to recompute the streak
+   */
+  const refresh = useCallback(async () => {
+    if (!userProfileId || !user) return
+    await requestStreakUpdate({ data: { refreshToken: user.refresh_token } })
+  }, [userProfileId, user])
+
+  /**
+   * Compute missing or outdated streaks once
+   */
+  useEffect(() => {
+    if (!userProfileId || !user || isLoading || (streak && !isStale)) return
+    if (requested.has(userProfileId)) return
+
+    requested.add(userProfileId)
+    refresh().catch((err) => console.error('Error requesting streak update:', err))
+  }, [userProfileId, user, isLoading, streak, isStale, refresh])
+
+  const milestones = useMemo(
+    () =>
+      [...(data?.streakMilestones ?? [])].sort((a, b) =>
+        b.reachedDate === a.reachedDate ? b.days - a.days : b.reachedDate.localeCompare(a.reachedDate)
+      ),
+    [data?.streakMilestones]
+  )
+
+  const currentStreak = streak?.currentStreak ?? 0
+
+  return {
+    // State
+    currentStreak,
+    longestStreak: streak?.longestStreak ?? 0,
+    graceDays: streak?.graceDays ?? DEFAULT_GRACE_DAYS,
+    graceDaysUsed: streak?.graceDaysUsed ?? 0,
+    lastReflectionDate: streak?.lastReflectionDate ?? null,
+    totalReflections: streak?.totalReflections ?? null, // null until first computed
+    milestones, // Newest first
+    nextMilestone: MILESTONES.find((days) => days > currentStreak) ?? null,
+    isLoading,
+
+    // Functions
+    refresh,
+  }
+}
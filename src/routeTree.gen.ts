@@ -9,21 +9,43 @@
 // Additionally, you should also exclude this file from your linter and/or formatter to prevent it from being checked or modified.
 
 import { Route as rootRouteImport } from './routes/__root'
-import { Route as PaymentRouteImport } from './routes/payment'
-import { Route as McpRouteImport } from './routes/mcp'
+import { Route as GalleryRouteImport } from './routes/gallery'
 import { Route as IndexRouteImport } from './routes/index'
-import { Route as ReflectionsNewRouteImport } from './routes/reflections/new'
-import { Route as PaymentSuccessRouteImport } from './routes/payment/success'
-import { Route as PaymentCancelRouteImport } from './routes/payment/cancel'
-import { Route as AuthSignInRouteImport } from './routes/auth/sign-in'
-import { Route as ApiInngestRouteImport } from './routes/api/inngest'
+import { Route as InsightsRouteImport } from './routes/insights'
+import { Route as LinkDeviceRouteImport } from './routes/link-device'
+import { Route as McpRouteImport } from './routes/mcp'
+import { Route as PaymentRouteImport } from './routes/payment'
 import { Route as AdminPromptsRouteImport } from './routes/admin/prompts'
-import { Route as ApiStripeWebhookRouteImport } from './routes/api/stripe/webhook'
+import { Route as ApiInngestRouteImport } from './routes/api/inngest'
+import { Route as AuthSignInRouteImport } from './routes/auth/sign-in'
+import { Route as PaymentCancelRouteImport } from './routes/payment/cancel'
+import { Route as PaymentSuccessRouteImport } from './routes/payment/success'
+import { Route as ReflectionsReflectionIdRouteImport } from './routes/reflections/$reflectionId'
+import { Route as ReflectionsCalendarRouteImport } from './routes/reflections/calendar'
+import { Route as ReflectionsNewRouteImport } from './routes/reflections/new'
+import { Route as SettingsNotificationsRouteImport } from './routes/settings/notifications'
+import { Route as SettingsSecurityRouteImport } from './routes/settings/security'
 import { Route as ApiStripeCreateCheckoutRouteImport } from './routes/api/stripe/create-checkout'
+import { Route as ApiStripeWebhookRouteImport } from './routes/api/stripe/webhook'
 
-const PaymentRoute = PaymentRouteImport.update({
-  id: '/payment',
-  path: '/payment',
+const GalleryRoute = GalleryRouteImport.update({
+  id: '/gallery',
+  path: '/gallery',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const IndexRoute = IndexRouteImport.update({
+  id: '/',
+  path: '/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const InsightsRoute = InsightsRouteImport.update({
+  id: '/insights',
+  path: '/insights',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const LinkDeviceRoute = LinkDeviceRouteImport.update({
+  id: '/link-device',
+  path: '/link-device',
   getParentRoute: () => rootRouteImport,
 } as any)
 const McpRoute = McpRouteImport.update({
@@ -31,44 +53,59 @@ const McpRoute = McpRouteImport.update({
   path: '/mcp',
   getParentRoute: () => rootRouteImport,
 } as any)
-const IndexRoute = IndexRouteImport.update({
-  id: '/',
-  path: '/',
+const PaymentRoute = PaymentRouteImport.update({
+  id: '/payment',
+  path: '/payment',
   getParentRoute: () => rootRouteImport,
 } as any)
-const ReflectionsNewRoute = ReflectionsNewRouteImport.update({
-  id: '/reflections/new',
-  path: '/reflections/new',
+const AdminPromptsRoute = AdminPromptsRouteImport.update({
+  id: '/admin/prompts',
+  path: '/admin/prompts',
   getParentRoute: () => rootRouteImport,
 } as any)
-const PaymentSuccessRoute = PaymentSuccessRouteImport.update({
-  id: '/success',
-  path: '/success',
-  getParentRoute: () => PaymentRoute,
+const ApiInngestRoute = ApiInngestRouteImport.update({
+  id: '/api/inngest',
+  path: '/api/inngest',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const AuthSignInRoute = AuthSignInRouteImport.update({
+  id: '/auth/sign-in',
+  path: '/auth/sign-in',
+  getParentRoute: () => rootRouteImport,
 } as any)
 const PaymentCancelRoute = PaymentCancelRouteImport.update({
   id: '/cancel',
   path: '/cancel',
   getParentRoute: () => PaymentRoute,
 } as any)
-const AuthSignInRoute = AuthSignInRouteImport.update({
-  id: '/auth/sign-in',
-  path: '/auth/sign-in',
+const PaymentSuccessRoute = PaymentSuccessRouteImport.update({
+  id: '/success',
+  path: '/success',
+  getParentRoute: () => PaymentRoute,
+} as any)
+const ReflectionsReflectionIdRoute = ReflectionsReflectionIdRouteImport.update({
+  id: '/reflections/$reflectionId',
+  path: '/reflections/$reflectionId',
   getParentRoute: () => rootRouteImport,
 } as any)
-const ApiInngestRoute = ApiInngestRouteImport.update({
-  id: '/api/inngest',
-  path: '/api/inngest',
+const ReflectionsCalendarRoute = ReflectionsCalendarRouteImport.update({
+  id: '/reflections/calendar',
+  path: '/reflections/calendar',
   getParentRoute: () => rootRouteImport,
 } as any)
-const AdminPromptsRoute = AdminPromptsRouteImport.update({
-  id: '/admin/prompts',
-  path: '/admin/prompts',
+const ReflectionsNewRoute = ReflectionsNewRouteImport.update({
+  id: '/reflections/new',
+  path: '/reflections/new',
   getParentRoute: () => rootRouteImport,
 } as any)
-const ApiStripeWebhookRoute = ApiStripeWebhookRouteImport.update({
-  id: '/api/stripe/webhook',
-  path: '/api/stripe/webhook',
+const SettingsNotificationsRoute = SettingsNotificationsRouteImport.update({
+  id: '/settings/notifications',
+  path: '/settings/notifications',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const SettingsSecurityRoute = SettingsSecurityRouteImport.update({
+  id: '/settings/security',
+  path: '/settings/security',
   getParentRoute: () => rootRouteImport,
 } as any)
 const ApiStripeCreateCheckoutRoute = ApiStripeCreateCheckoutRouteImport.update({
@@ -76,9 +113,17 @@ const ApiStripeCreateCheckoutRoute = ApiStripeCreateCheckoutRouteImport.update({
   path: '/api/stripe/create-checkout',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiStripeWebhookRoute = ApiStripeWebhookRouteImport.update({
+  id: '/api/stripe/webhook',
+  path: '/api/stripe/webhook',
+  getParentRoute: () => rootRouteImport,
+} as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
+  '/gallery': typeof GalleryRoute
+  '/insights': typeof InsightsRoute
+  '/link-device': typeof LinkDeviceRoute
   '/mcp': typeof McpRoute
   '/payment': typeof PaymentRouteWithChildren
   '/admin/prompts': typeof AdminPromptsRoute
@@ -86,12 +131,19 @@ export interface FileRoutesByFullPath {
   '/auth/sign-in': typeof AuthSignInRoute
   '/payment/cancel': typeof PaymentCancelRoute
   '/payment/success': typeof PaymentSuccessRoute
+  '/reflections/$reflectionId': typeof ReflectionsReflectionIdRoute
+  '/reflections/calendar': typeof ReflectionsCalendarRoute
   '/reflections/new': typeof ReflectionsNewRoute
+  '/settings/notifications': typeof SettingsNotificationsRoute
+  '/settings/security': typeof SettingsSecurityRoute
   '/api/stripe/create-checkout': typeof ApiStripeCreateCheckoutRoute
   '/api/stripe/webhook': typeof ApiStripeWebhookRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
+  '/gallery': typeof GalleryRoute
+  '/insights': typeof InsightsRoute
+  '/link-device': typeof LinkDeviceRoute
   '/mcp': typeof McpRoute
   '/payment': typeof PaymentRouteWithChildren
   '/admin/prompts': typeof AdminPromptsRoute
@@ -99,13 +151,20 @@ export interface FileRoutesByTo {
   '/auth/sign-in': typeof AuthSignInRoute
   '/payment/cancel': typeof PaymentCancelRoute
   '/payment/success': typeof PaymentSuccessRoute
+  '/reflections/$reflectionId': typeof ReflectionsReflectionIdRoute
+  '/reflections/calendar': typeof ReflectionsCalendarRoute
   '/reflections/new': typeof ReflectionsNewRoute
+  '/settings/notifications': typeof SettingsNotificationsRoute
+  '/settings/security': typeof SettingsSecurityRoute
   '/api/stripe/create-checkout': typeof ApiStripeCreateCheckoutRoute
   '/api/stripe/webhook': typeof ApiStripeWebhookRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
+  '/gallery': typeof GalleryRoute
+  '/insights': typeof InsightsRoute
+  '/link-device': typeof LinkDeviceRoute
   '/mcp': typeof McpRoute
   '/payment': typeof PaymentRouteWithChildren
   '/admin/prompts': typeof AdminPromptsRoute
@@ -113,7 +172,11 @@ export interface FileRoutesById {
   '/auth/sign-in': typeof AuthSignInRoute
   '/payment/cancel': typeof PaymentCancelRoute
   '/payment/success': typeof PaymentSuccessRoute
+  '/reflections/$reflectionId': typeof ReflectionsReflectionIdRoute
+  '/reflections/calendar': typeof ReflectionsCalendarRoute
   '/reflections/new': typeof ReflectionsNewRoute
+  '/settings/notifications': typeof SettingsNotificationsRoute
+  '/settings/security': typeof SettingsSecurityRoute
   '/api/stripe/create-checkout': typeof ApiStripeCreateCheckoutRoute
   '/api/stripe/webhook': typeof ApiStripeWebhookRoute
 }
@@ -121,6 +184,9 @@ export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
   fullPaths:
     | '/'
+    | '/gallery'
+    | '/insights'
+    | '/link-device'
     | '/mcp'
     | '/payment'
     | '/admin/prompts'
@@ -128,12 +194,19 @@ export interface FileRouteTypes {
     | '/auth/sign-in'
     | '/payment/cancel'
     | '/payment/success'
+    | '/reflections/$reflectionId'
+    | '/reflections/calendar'
     | '/reflections/new'
+    | '/settings/notifications'
+    | '/settings/security'
     | '/api/stripe/create-checkout'
     | '/api/stripe/webhook'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
+    | '/gallery'
+    | '/insights'
+    | '/link-device'
     | '/mcp'
     | '/payment'
     | '/admin/prompts'
@@ -141,12 +214,19 @@ export interface FileRouteTypes {
     | '/auth/sign-in'
     | '/payment/cancel'
     | '/payment/success'
+    | '/reflections/$reflectionId'
+    | '/reflections/calendar'
     | '/reflections/new'
+    | '/settings/notifications'
+    | '/settings/security'
     | '/api/stripe/create-checkout'
     | '/api/stripe/webhook'
   id:
     | '__root__'
     | '/'
+    | '/gallery'
+    | '/insights'
+    | '/link-device'
     | '/mcp'
     | '/payment'
     | '/admin/prompts'
@@ -154,30 +234,62 @@ export interface FileRouteTypes {
     | '/auth/sign-in'
     | '/payment/cancel'
     | '/payment/success'
+    | '/reflections/$reflectionId'
+    | '/reflections/calendar'
     | '/reflections/new'
+    | '/settings/notifications'
+    | '/settings/security'
     | '/api/stripe/create-checkout'
     | '/api/stripe/webhook'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
+  GalleryRoute: typeof GalleryRoute
+  InsightsRoute: typeof InsightsRoute
+  LinkDeviceRoute: typeof LinkDeviceRoute
   McpRoute: typeof McpRoute
   PaymentRoute: typeof PaymentRouteWithChildren
   AdminPromptsRoute: typeof AdminPromptsRoute
   ApiInngestRoute: typeof ApiInngestRoute
   AuthSignInRoute: typeof AuthSignInRoute
+  ReflectionsReflectionIdRoute: typeof ReflectionsReflectionIdRoute
+  ReflectionsCalendarRoute: typeof ReflectionsCalendarRoute
   ReflectionsNewRoute: typeof ReflectionsNewRoute
+  SettingsNotificationsRoute: typeof SettingsNotificationsRoute
+  SettingsSecurityRoute: typeof SettingsSecurityRoute
   ApiStripeCreateCheckoutRoute: typeof ApiStripeCreateCheckoutRoute
   ApiStripeWebhookRoute: typeof ApiStripeWebhookRoute
 }
 
 declare module '@tanstack/react-router' {
   interface FileRoutesByPath {
-    '/payment': {
-      id: '/payment'
-      path: '/payment'
-      fullPath: '/payment'
-      preLoaderRoute: typeof PaymentRouteImport
+    '/gallery': {
+      id: '/gallery'
+      path: '/gallery'
+      fullPath: '/gallery'
+      preLoaderRoute: typeof GalleryRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/': {
+      id: '/'
+      path: '/'
+      fullPath: '/'
+      preLoaderRoute: typeof IndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/insights': {
+      id: '/insights'
+      path: '/insights'
+      fullPath: '/insights'
+      preLoaderRoute: typeof InsightsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/link-device': {
+      id: '/link-device'
+      path: '/link-device'
+      fullPath: '/link-device'
+      preLoaderRoute: typeof LinkDeviceRouteImport
       parentRoute: typeof rootRouteImport
     }
     '/mcp': {
@@ -187,26 +299,33 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof McpRouteImport
       parentRoute: typeof rootRouteImport
     }
-    '/': {
-      id: '/'
-      path: '/'
-      fullPath: '/'
-      preLoaderRoute: typeof IndexRouteImport
+    '/payment': {
+      id: '/payment'
+      path: '/payment'
+      fullPath: '/payment'
+      preLoaderRoute: typeof PaymentRouteImport
       parentRoute: typeof rootRouteImport
     }
-    '/reflections/new': {
-      id: '/reflections/new'
-      path: '/reflections/new'
-      fullPath: '/reflections/new'
-      preLoaderRoute: typeof ReflectionsNewRouteImport
+    '/admin/prompts': {
+      id: '/admin/prompts'
+      path: '/admin/prompts'
+      fullPath: '/admin/prompts'
+      preLoaderRoute: typeof AdminPromptsRouteImport
       parentRoute: typeof rootRouteImport
     }
-    '/payment/success': {
-      id: '/payment/success'
-      path: '/success'
-      fullPath: '/payment/success'
-      preLoaderRoute: typeof PaymentSuccessRouteImport
-      parentRoute: typeof PaymentRoute
+    '/api/inngest': {
+      id: '/api/inngest'
+      path: '/api/inngest'
+      fullPath: '/api/inngest'
+      preLoaderRoute: typeof ApiInngestRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/auth/sign-in': {
+      id: '/auth/sign-in'
+      path: '/auth/sign-in'
+      fullPath: '/auth/sign-in'
+      preLoaderRoute: typeof AuthSignInRouteImport
+      parentRoute: typeof rootRouteImport
     }
     '/payment/cancel': {
       id: '/payment/cancel'
@@ -215,32 +334,46 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof PaymentCancelRouteImport
       parentRoute: typeof PaymentRoute
     }
-    '/auth/sign-in': {
-      id: '/auth/sign-in'
-      path: '/auth/sign-in'
-      fullPath: '/auth/sign-in'
-      preLoaderRoute: typeof AuthSignInRouteImport
+    '/payment/success': {
+      id: '/payment/success'
+      path: '/success'
+      fullPath: '/payment/success'
+      preLoaderRoute: typeof PaymentSuccessRouteImport
+      parentRoute: typeof PaymentRoute
+    }
+    '/reflections/$reflectionId': {
+      id: '/reflections/$reflectionId'
+      path: '/reflections/$reflectionId'
+      fullPath: '/reflections/$reflectionId'
+      preLoaderRoute: typeof ReflectionsReflectionIdRouteImport
       parentRoute: typeof rootRouteImport
     }
-    '/api/inngest': {
-      id: '/api/inngest'
-      path: '/api/inngest'
-      fullPath: '/api/inngest'
-      preLoaderRoute: typeof ApiInngestRouteImport
+    '/reflections/calendar': {
+      id: '/reflections/calendar'
+      path: '/reflections/calendar'
+      fullPath: '/reflections/calendar'
+      preLoaderRoute: typeof ReflectionsCalendarRouteImport
       parentRoute: typeof rootRouteImport
     }
-    '/admin/prompts': {
-      id: '/admin/prompts'
-      path: '/admin/prompts'
-      fullPath: '/admin/prompts'
-      preLoaderRoute: typeof AdminPromptsRouteImport
+    '/reflections/new': {
+      id: '/reflections/new'
+      path: '/reflections/new'
+      fullPath: '/reflections/new'
+      preLoaderRoute: typeof ReflectionsNewRouteImport
       parentRoute: typeof rootRouteImport
     }
-    '/api/stripe/webhook': {
-      id: '/api/stripe/webhook'
-      path: '/api/stripe/webhook'
-      fullPath: '/api/stripe/webhook'
-      preLoaderRoute: typeof ApiStripeWebhookRouteImport
+    '/settings/notifications': {
+      id: '/settings/notifications'
+      path: '/settings/notifications'
+      fullPath: '/settings/notifications'
+      preLoaderRoute: typeof SettingsNotificationsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/settings/security': {
+      id: '/settings/security'
+      path: '/settings/security'
+      fullPath: '/settings/security'
+      preLoaderRoute: typeof SettingsSecurityRouteImport
       parentRoute: typeof rootRouteImport
     }
     '/api/stripe/create-checkout': {
@@ -250,6 +383,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiStripeCreateCheckoutRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/stripe/webhook': {
+      id: '/api/stripe/webhook'
+      path: '/api/stripe/webhook'
+      fullPath: '/api/stripe/webhook'
+      preLoaderRoute: typeof ApiStripeWebhookRouteImport
+      parentRoute: typeof rootRouteImport
+    }
   }
 }
 
@@ -268,12 +408,19 @@ const PaymentRouteWithChildren =
 
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
+  GalleryRoute: GalleryRoute,
+  InsightsRoute: InsightsRoute,
+  LinkDeviceRoute: LinkDeviceRoute,
   McpRoute: McpRoute,
   PaymentRoute: PaymentRouteWithChildren,
   AdminPromptsRoute: AdminPromptsRoute,
   ApiInngestRoute: ApiInngestRoute,
   AuthSignInRoute: AuthSignInRoute,
+  ReflectionsReflectionIdRoute: ReflectionsReflectionIdRoute,
+  ReflectionsCalendarRoute: ReflectionsCalendarRoute,
   ReflectionsNewRoute: ReflectionsNewRoute,
+  SettingsNotificationsRoute: SettingsNotificationsRoute,
+  SettingsSecurityRoute: SettingsSecurityRoute,
   ApiStripeCreateCheckoutRoute: ApiStripeCreateCheckoutRoute,
   ApiStripeWebhookRoute: ApiStripeWebhookRoute,
 }
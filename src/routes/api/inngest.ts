@@ -13,6 +13,10 @@ import {
   processPaymentSucceeded,
   processPaymentFailed,
   generateReflectionPrompts,
+  sendDailyReminders,
+  updateUserStreak,
+  refreshStreaks,
+  collectSummaryMemories,
 } from '@/lib/inngest/functions'
 
 // Create Inngest serve handler
@@ -23,6 +27,10 @@ const inngestHandler = serve({
     processPaymentSucceeded,
     processPaymentFailed,
     generateReflectionPrompts,
+    sendDailyReminders,
+    updateUserStreak,
+    refreshStreaks,
+    collectSummaryMemories,
   ]
 })
 
@@ -0,0 +1,177 @@
+import { createFileRoute, useNavigate } from '@tanstack/react-router'
+import { useMemo, useState } from 'react'
+import { ProtectedRoute } from '@/components/auth/ProtectedRoute'
+import { EncryptionGate } from '@/components/encryption'
+import { useAuth } from '@/lib/auth/AuthProvider'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { ArrowLeft, Loader2 } from 'lucide-react'
+import { GalleryFilters, GalleryGrid, PhotoLightbox } from '@/components/gallery'
+import { useQuery } from '@/lib/db'
+import { isMonthKey, useTimeZone } from '@/lib/dates'
+import { useReflectionFeed } from '@/lib/feed'
+import {
+  getGalleryItems,
+  getGalleryRange,
+  getGalleryYears,
+  type GalleryFilter,
+} from '@/lib/gallery'
+
+const GALLERY_PAGE_SIZE = 30
+
+export const Route = createFileRoute('/gallery')({
+  validateSearch: (search: Record<string, unknown>): GalleryFilter => ({
+    year: Number.isInteger(search.year) ? (search.year as number) : undefined,
+    month: isMonthKey(search.month) ? search.month : undefined,
+    category:
+      typeof search.category === 'string' && search.category ? search.category : undefined,
+  }),
+  component: GalleryPage,
+})
+
+function GalleryPage() {
+  return (
+    <ProtectedRoute>
+      <EncryptionGate>
+        <GalleryContent />
+      </EncryptionGate>
+    </ProtectedRoute>
+  )
+}
+
+function GalleryContent() {
+  const navigate = useNavigate()
+  const { user } = useAuth()
+  const filter = Route.useSearch()
+  const [openIndex, setOpenIndex] = useState<number | null>(null)
+
+  // Get user profile
+  const { data: profileData } = useQuery(
+    user?.email
+      ? {
+          userProfiles: {
+            $: {
+              where: {
+                email: user.email,
+              },
+            },
+          },
+        }
+      : null
+  )
+
+  const userProfile = profileData?.userProfiles?.[0]
+  const { timeZone } = useTimeZone(userProfile?.id)
+
+  // Reflections of the filtered range and category, a page at a time
+  const range = getGalleryRange(filter, timeZone)
+  const { reflections, isLoading, isLoadingMore, hasMore, loadMore } = useReflectionFeed(
+    userProfile?.id,
+    { ...range, category: filter.category },
+    GALLERY_PAGE_SIZE
+  )
+
+  // First reflection (for the years to offer) and the categories of answered prompts
+  const { data: filterData } = useQuery(
+    userProfile
+      ? {
+          reflections: {
+            $: {
+              where: {
+                'user.id': userProfile.id,
+              },
+              order: {
+                createdAt: 'asc' as const,
+              },
+              limit: 1,
+              fields: ['createdAt'],
+            },
+          },
+          prompts: {
+            $: {
+              where: {
+                'reflections.user.id': userProfile.id,
+              },
+              fields: ['category'],
+            },
+          },
+        }
+      : null
+  )
+
+  const years = getGalleryYears(filterData?.reflections?.[0]?.createdAt, Date.now(), timeZone)
+  const categories = useMemo(
+    () => [...new Set((filterData?.prompts ?? []).map(({ category }) => category))].sort(),
+    [filterData?.prompts]
+  )
+
+  // Each reflection's photos, newest first (reflections without photos drop out)
+  const items = useMemo(() => getGalleryItems(reflections ?? []), [reflections])
+
+  /**
+   * Apply new filters
+   */
+  const handleFilterChange = (next: GalleryFilter) => {
+    setOpenIndex(null)
+    navigate({ to: '/gallery', search: next })
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <Button variant="ghost" size="sm" onClick={() => navigate({ to: '/' })}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+          <h1 className="text-lg font-semibold">Gallery</h1>
+          <div className="w-20" /> {/* Spacer for center alignment */}
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-5xl mx-auto space-y-6">
+          <GalleryFilters
+            filter={filter}
+            years={years}
+            categories={categories}
+            onChange={handleFilterChange}
+          />
+
+          {isLoading || !userProfile ? (
+            <div className="flex items-center justify-center p-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : items.length > 0 || hasMore ? (
+            <GalleryGrid
+              items={items}
+              hasMore={hasMore}
+              isLoadingMore={isLoadingMore}
+              onLoadMore={loadMore}
+              onOpen={setOpenIndex}
+            />
+          ) : (
+            <Card>
+              <CardContent className="p-8 text-center">
+                <p className="text-muted-foreground">
+                  {filter.year || filter.month || filter.category
+                    ? 'No photos match these filters.'
+                    : 'Photos you add to reflections will appear here.'}
+                </p>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </main>
+
+      <PhotoLightbox
+        items={items}
+        index={openIndex}
+        onIndexChange={setOpenIndex}
+        onClose={() => setOpenIndex(null)}
+      />
+    </div>
+  )
+}
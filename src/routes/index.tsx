@@ -1,12 +1,33 @@
 import { createFileRoute, useNavigate } from '@tanstack/react-router'
+import { useCallback, useMemo, useState } from 'react'
 import { ProtectedRoute } from '@/components/auth/ProtectedRoute'
 import { useAuth } from '@/lib/auth/AuthProvider'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { Heart, LogOut, Plus, Loader2 } from 'lucide-react'
-import { ReflectionStatus, ReflectionCard } from '@/components/reflections'
+import {
+  Bell,
+  CalendarDays,
+  Heart,
+  Images,
+  LogOut,
+  Plus,
+  Loader2,
+  Shield,
+  TrendingUp,
+} from 'lucide-react'
+import {
+  ReflectionStatus,
+  ReflectionFeed,
+  OnThisDayCard,
+  ReflectionSearch,
+  OutboxStatus,
+} from '@/components/reflections'
+import { EncryptionGate, KeyEscrowSetup, KeyRotationCard } from '@/components/encryption'
 import { useQuery } from '@/lib/db'
+import { useReflectionSearch, isEmptyQuery, type SearchQuery } from '@/lib/search'
+import { useReflectionFeed, mergeFeedItems, type FeedReflection } from '@/lib/feed'
+import { useStreak } from '@/lib/streaks'
 
 export const Route = createFileRoute('/')({
   component: DashboardPage,
@@ -15,7 +36,9 @@ export const Route = createFileRoute('/')({
 function DashboardPage() {
   return (
     <ProtectedRoute>
-      <DashboardContent />
+      <EncryptionGate>
+        <DashboardContent />
+      </EncryptionGate>
     </ProtectedRoute>
   )
 }
@@ -41,28 +64,93 @@ function DashboardContent() {
 
   const userProfile = profileData?.userProfiles?.[0]
 
-  // Get user's reflections
-  // biome-ignore lint/correctness/noUnusedVariables: variables are used in JSX below
-  const { data: reflectionsData, isLoading: isLoadingReflections } = useQuery(
-    userProfile
+  // Past reflections, a page at a time (newest first)
+  const {
+    reflections,
+    isLoading: isLoadingReflections,
+    isLoadingMore,
+    hasMore,
+    error: feedError,
+    loadMore,
+  } = useReflectionFeed(userProfile?.id)
+
+  // Total count as the backend last computed it (no query over every reflection)
+  const { totalReflections } = useStreak(userProfile?.id)
+
+  // Local full-text search (decrypts and indexes on this device only)
+  const [searchQuery, setSearchQuery] = useState<SearchQuery>({ text: '' })
+  const [hasSearched, setHasSearched] = useState(false)
+  const handleSearch = useCallback((query: SearchQuery) => {
+    setSearchQuery(query)
+    if (!isEmptyQuery(query)) setHasSearched(true)
+  }, [])
+
+  // Text fields of every reflection for the search index (no photo links),
+  // only loaded once the user starts searching
+  const { data: searchData } = useQuery(
+    userProfile && hasSearched
       ? {
           reflections: {
             $: {
               where: {
                 'user.id': userProfile.id,
               },
-              order: {
-                serverCreatedAt: 'desc' as const,
+              fields: [
+                'reflectionText',
+                'encryptionIV',
+                'encryptionAlgorithm',
+                'keyVersion',
+                'createdAt',
+              ],
+            },
+            prompt: {
+              $: {
+                fields: ['promptText'],
+              },
+            },
+          },
+        }
+      : null
+  )
+
+  const searchableReflections = searchData?.reflections
+  const { search, isIndexing, progress } = useReflectionSearch(searchableReflections)
+  const isSearching = !isEmptyQuery(searchQuery)
+  const matchIds = useMemo(
+    () => (isSearching ? search(searchQuery) : []),
+    [isSearching, search, searchQuery]
+  )
+
+  // Matching reflections with their photos
+  const { data: matchesData } = useQuery(
+    userProfile && isSearching && matchIds.length > 0
+      ? {
+          reflections: {
+            $: {
+              where: {
+                'user.id': userProfile.id,
+                id: { $in: matchIds },
               },
             },
             photo: {},
+            thumbnail: {},
+            photos: {
+              file: {},
+              thumbnail: {},
+            },
             prompt: {},
           },
         }
       : null
   )
 
-  console.log('Reflections data:', reflectionsData)
+  const visibleReflections = useMemo(() => {
+    if (!isSearching) return reflections
+    return mergeFeedItems<FeedReflection>(matchesData?.reflections ?? [])
+  }, [isSearching, reflections, matchesData?.reflections])
+
+  // The stored total can lag a new reflection until the streak is recomputed
+  const totalCount = Math.max(totalReflections ?? 0, reflections?.length ?? 0)
 
   const handleSignOut = async () => {
     try {
@@ -81,10 +169,52 @@ function DashboardContent() {
             <Heart className="h-6 w-6 text-primary" />
             <h1 className="text-xl font-semibold">Reflections</h1>
           </div>
-          <Button variant="outline" size="sm" onClick={handleSignOut}>
-            <LogOut className="h-4 w-4 mr-2" />
-            Sign Out
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate({ to: '/reflections/calendar', search: {} })}
+            >
+              <CalendarDays className="h-4 w-4 mr-2" />
+              Calendar
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate({ to: '/gallery', search: {} })}
+            >
+              <Images className="h-4 w-4 mr-2" />
+              Gallery
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate({ to: '/insights', search: {} })}
+            >
+              <TrendingUp className="h-4 w-4 mr-2" />
+              Insights
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate({ to: '/settings/notifications' })}
+            >
+              <Bell className="h-4 w-4 mr-2" />
+              Reminders
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate({ to: '/settings/security' })}
+            >
+              <Shield className="h-4 w-4 mr-2" />
+              Security
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleSignOut}>
+              <LogOut className="h-4 w-4 mr-2" />
+              Sign Out
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -94,6 +224,18 @@ function DashboardContent() {
           {/* Reflection Status */}
           {userProfile && <ReflectionStatus userProfileId={userProfile.id} />}
 
+          {/* Memories from this day in earlier years */}
+          {userProfile && <OnThisDayCard userProfileId={userProfile.id} />}
+
+          {/* Reflections waiting to upload (saved offline) */}
+          <OutboxStatus />
+
+          {/* Key Escrow Prompt */}
+          <KeyEscrowSetup />
+
+          {/* Interrupted Key Rotation (rotation itself lives in Security settings) */}
+          <KeyRotationCard resumeOnly />
+
           {/* New Reflection Button */}
           <Button
             onClick={() => navigate({ to: '/reflections/new' })}
@@ -108,13 +250,23 @@ function DashboardContent() {
           <div className="space-y-4">
             <div className="flex items-center justify-between">
               <h2 className="text-xl font-semibold">Your Reflections</h2>
-              {reflectionsData?.reflections && reflectionsData.reflections.length > 0 && (
+              {totalCount > 0 && (
                 <Badge variant="secondary">
-                  {reflectionsData.reflections.length} total
+                  {isSearching
+                    ? `${matchIds.length} of ${totalCount}`
+                    : `${totalCount} total`}
                 </Badge>
               )}
             </div>
 
+            {totalCount > 0 && (
+              <ReflectionSearch
+                onSearch={handleSearch}
+                isIndexing={isIndexing}
+                progress={progress}
+              />
+            )}
+
             {isLoadingReflections ? (
               <Card>
                 <CardContent className="p-8 flex flex-col items-center justify-center gap-2">
@@ -122,13 +274,25 @@ function DashboardContent() {
                   <p className="text-sm text-muted-foreground">Loading reflections...</p>
                 </CardContent>
               </Card>
-            ) : reflectionsData?.reflections && reflectionsData.reflections.length > 0 ? (
-              <div className="space-y-4">
-                {reflectionsData.reflections.map((reflection) => (
-                  <ReflectionCard key={reflection.id} reflection={reflection} />
-                ))}
-              </div>
-            ) : (
+            ) : isSearching && matchIds.length === 0 ? (
+              <Card>
+                <CardContent className="p-8 text-center">
+                  <p className="text-muted-foreground">
+                    {isIndexing
+                      ? 'No matches yet. Still indexing your reflections...'
+                      : 'No reflections match your search.'}
+                  </p>
+                </CardContent>
+              </Card>
+            ) : visibleReflections && visibleReflections.length > 0 ? (
+              <ReflectionFeed
+                reflections={visibleReflections}
+                hasMore={!isSearching && hasMore}
+                isLoadingMore={!isSearching && isLoadingMore}
+                error={isSearching ? null : feedError}
+                onLoadMore={loadMore}
+              />
+            ) : isSearching ? null : (
               <Card>
                 <CardContent className="p-8 text-center">
                   <p className="text-muted-foreground mb-4">
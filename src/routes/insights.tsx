@@ -0,0 +1,200 @@
+import { createFileRoute, useNavigate } from '@tanstack/react-router'
+import { ProtectedRoute } from '@/components/auth/ProtectedRoute'
+import { EncryptionGate } from '@/components/encryption'
+import { useAuth } from '@/lib/auth/AuthProvider'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { ArrowLeft, Loader2, Lock, Smile, Tag, Users } from 'lucide-react'
+import { MoodChart, TagChart } from '@/components/insights'
+import { useQuery } from '@/lib/db'
+import {
+  useInsights,
+  INSIGHT_RANGES,
+  DEFAULT_INSIGHT_RANGE,
+  type InsightRangeKey,
+} from '@/lib/insights'
+import { MOOD_LABELS, MOOD_MAX } from '@/lib/reflections'
+
+export const Route = createFileRoute('/insights')({
+  validateSearch: (search: Record<string, unknown>): { range?: InsightRangeKey } => ({
+    range: INSIGHT_RANGES.some(({ key }) => key === search.range)
+      ? (search.range as InsightRangeKey)
+      : undefined,
+  }),
+  component: InsightsPage,
+})
+
+function InsightsPage() {
+  return (
+    <ProtectedRoute>
+      <EncryptionGate>
+        <InsightsContent />
+      </EncryptionGate>
+    </ProtectedRoute>
+  )
+}
+
+function InsightsContent() {
+  const navigate = useNavigate()
+  const { user } = useAuth()
+  const search = Route.useSearch()
+  const rangeKey = search.range ?? DEFAULT_INSIGHT_RANGE
+  const selected = INSIGHT_RANGES.find(({ key }) => key === rangeKey) ?? INSIGHT_RANGES[0]
+
+  // Get user profile
+  const { data: profileData } = useQuery(
+    user?.email
+      ? {
+          userProfiles: {
+            $: {
+              where: {
+                email: user.email,
+              },
+            },
+          },
+        }
+      : null
+  )
+
+  const userProfile = profileData?.userProfiles?.[0]
+  const { insights, range, isLoading, isDecrypting, failedCount, error } = useInsights(
+    userProfile?.id,
+    selected.days
+  )
+
+  const isBusy = isLoading || (isDecrypting && insights.reflectionCount === 0)
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <Button variant="ghost" size="sm" onClick={() => navigate({ to: '/' })}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+          <h1 className="text-lg font-semibold">Insights</h1>
+          <div className="w-20" /> {/* Spacer for center alignment */}
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-3xl mx-auto space-y-6">
+          {/* Range */}
+          <div className="flex gap-2">
+            {INSIGHT_RANGES.map(({ key, label }) => (
+              <Button
+                key={key}
+                variant={key === rangeKey ? 'default' : 'outline'}
+                size="sm"
+                onClick={() =>
+                  navigate({
+                    to: '/insights',
+                    search: { range: key === DEFAULT_INSIGHT_RANGE ? undefined : key },
+                  })
+                }
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>Failed to load insights. {error}</AlertDescription>
+            </Alert>
+          )}
+
+          {failedCount > 0 && (
+            <Alert>
+              <Lock className="h-4 w-4" />
+              <AlertDescription>
+                {failedCount === 1 ? '1 reflection' : `${failedCount} reflections`} couldn't be
+                decrypted on this device and {failedCount === 1 ? "isn't" : "aren't"} included.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {isBusy ? (
+            <Card>
+              <CardContent className="p-8 flex flex-col items-center justify-center gap-2">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                <p className="text-sm text-muted-foreground">
+                  {isLoading ? 'Loading...' : 'Decrypting on this device...'}
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              {/* Mood */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Smile className="h-5 w-5" />
+                    Mood
+                  </CardTitle>
+                  <CardDescription>
+                    {insights.averageMood === null
+                      ? `No moods in ${insights.reflectionCount} reflection${
+                          insights.reflectionCount !== 1 ? 's' : ''
+                        } over the last ${selected.label.toLowerCase()}`
+                      : `Mostly ${MOOD_LABELS[Math.round(insights.averageMood)].toLowerCase()} ` +
+                        `(${insights.averageMood.toFixed(1)}/${MOOD_MAX}) across ` +
+                        `${insights.moodCount} of ${insights.reflectionCount} reflections`}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {insights.moodPoints.length > 0 ? (
+                    <MoodChart points={insights.moodPoints} range={range} />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      Add a mood when you write or edit a reflection to see it here.
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Tags */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Tag className="h-5 w-5" />
+                    Tags
+                  </CardTitle>
+                  <CardDescription>How often each tag comes up, and the usual mood</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <TagChart counts={insights.tags} emptyMessage="No tags in this range yet." />
+                </CardContent>
+              </Card>
+
+              {/* Children */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Users className="h-5 w-5" />
+                    Children
+                  </CardTitle>
+                  <CardDescription>Who your reflections were about</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <TagChart
+                    counts={insights.children}
+                    emptyMessage="No children added in this range yet."
+                  />
+                </CardContent>
+              </Card>
+            </>
+          )}
+
+          {/* Privacy Notice */}
+          <p className="text-center text-sm text-muted-foreground">
+            Moods, tags and names are encrypted. These charts are worked out on this device.
+          </p>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { useState, useEffect } from 'react'
+import { Loader2 } from 'lucide-react'
+import { SignInForm } from '@/components/auth/SignInForm'
+import { CodeVerificationForm } from '@/components/auth/CodeVerificationForm'
+import { DeviceLinkCard } from '@/components/encryption'
+import { useAuth } from '@/lib/auth/AuthProvider'
+import { parsePairingLink, type PairingOffer } from '@/lib/encryption'
+
+export const Route = createFileRoute('/link-device')({
+  component: LinkDevicePage,
+})
+
+// Keeps a scanned offer across sign-in and reloads (cleared when the tab closes)
+const PENDING_OFFER_KEY = 'reflections_pending_pairing'
+
+/**
+ * Link Device Page
+ *
+ * Opened on a new device by scanning the QR code from "Link a New Device".
+ * Signs in inline (so the pairing code in the URL fragment isn't lost),
+ * then receives the encryption key.
+ */
+function LinkDevicePage() {
+  const { user, isLoading } = useAuth()
+  const [email, setEmail] = useState<string | null>(null)
+  const [offer, setOffer] = useState<PairingOffer | null>(null)
+
+  // Read the offer from the URL fragment, falling back to one saved before sign-in
+  useEffect(() => {
+    const fromHash = window.location.hash ? parsePairingLink(window.location.hash) : null
+    if (fromHash) {
+      sessionStorage.setItem(PENDING_OFFER_KEY, JSON.stringify(fromHash))
+      // Keep the key out of history and screenshots of the address bar
+      window.history.replaceState(null, '', window.location.pathname)
+      setOffer(fromHash)
+      return
+    }
+
+    const saved = sessionStorage.getItem(PENDING_OFFER_KEY)
+    if (saved) {
+      try {
+        setOffer(JSON.parse(saved))
+      } catch {
+        sessionStorage.removeItem(PENDING_OFFER_KEY)
+      }
+    }
+  }, [])
+
+  const handleOfferChange = (next: PairingOffer | null) => {
+    if (next) {
+      sessionStorage.setItem(PENDING_OFFER_KEY, JSON.stringify(next))
+    } else {
+      sessionStorage.removeItem(PENDING_OFFER_KEY)
+    }
+    setOffer(next)
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-background p-4">
+      {user ? (
+        <DeviceLinkCard offer={offer} onOfferChange={handleOfferChange} />
+      ) : (
+        <>
+          <p className="text-sm text-muted-foreground text-center max-w-md">
+            Sign in with the same account as your other device to link this device
+          </p>
+          {email ? (
+            <CodeVerificationForm email={email} onBack={() => setEmail(null)} />
+          ) : (
+            <SignInForm onCodeSent={setEmail} />
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,462 @@
+import { createFileRoute, useNavigate } from '@tanstack/react-router'
+import { useState, useEffect, useMemo } from 'react'
+import { ProtectedRoute } from '@/components/auth/ProtectedRoute'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  ArrowLeft,
+  Calendar,
+  CheckCircle2,
+  CloudOff,
+  Loader2,
+  Lock,
+  Pencil,
+  Save,
+  Sparkles,
+} from 'lucide-react'
+import {
+  MultiPhotoUpload,
+  PhotoCarousel,
+  ReflectionTextInput,
+  PromptPicker,
+  RevisionHistory,
+  DeleteReflectionDialog,
+  ReflectionMetadataInput,
+  ReflectionMetadataSummary,
+} from '@/components/reflections'
+import { EncryptionGate } from '@/components/encryption'
+import { useEncryption } from '@/lib/encryption'
+import {
+  useReflectionEditor,
+  sortRevisions,
+  getOrderedPhotos,
+  EMPTY_METADATA,
+  type NewReflectionPhoto,
+  type ReflectionMetadata,
+} from '@/lib/reflections'
+import { useQuery } from '@/lib/db'
+
+export const Route = createFileRoute('/reflections/$reflectionId')({
+  component: ReflectionDetailPage,
+})
+
+function ReflectionDetailPage() {
+  return (
+    <ProtectedRoute>
+      <EncryptionGate>
+        <ReflectionDetailContent />
+      </EncryptionGate>
+    </ProtectedRoute>
+  )
+}
+
+function ReflectionDetailContent() {
+  const navigate = useNavigate()
+  const { reflectionId } = Route.useParams()
+  const { isReady } = useEncryption()
+
+  // Reflection with its files, prompt and edit history
+  const { data, isLoading, error } = useQuery({
+    reflections: {
+      $: {
+        where: {
+          id: reflectionId,
+        },
+      },
+      photo: {},
+      thumbnail: {},
+      photos: {
+        file: {},
+        thumbnail: {},
+      },
+      prompt: {},
+      user: {},
+      revisions: {
+        photo: {},
+        thumbnail: {},
+        photos: {
+          file: {},
+          thumbnail: {},
+        },
+        prompt: {},
+      },
+    },
+  })
+
+  const reflection = data?.reflections?.[0]
+  const revisions = useMemo(() => sortRevisions(reflection?.revisions ?? []), [reflection])
+  const {
+    saveEdit,
+    restoreRevision,
+    deleteReflection,
+    readText,
+    readMetadata,
+    readPhoto,
+    readCaption,
+  } = useReflectionEditor(reflection)
+
+  // Decrypted current version
+  const [text, setText] = useState<string | null>(null)
+  const [metadata, setMetadata] = useState<ReflectionMetadata>(EMPTY_METADATA)
+  const [photos, setPhotos] = useState<NewReflectionPhoto[]>([])
+  const [photoUrls, setPhotoUrls] = useState<string[]>([])
+  const [isDecrypting, setIsDecrypting] = useState(false)
+  const [decryptError, setDecryptError] = useState<string | null>(null)
+
+  // Edit mode
+  const [isEditing, setIsEditing] = useState(false)
+  const [draftText, setDraftText] = useState('')
+  const [draftPhotos, setDraftPhotos] = useState<NewReflectionPhoto[]>([])
+  const [draftMetadata, setDraftMetadata] = useState<ReflectionMetadata>(EMPTY_METADATA)
+  const [promptId, setPromptId] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  /**
+   * Decrypt the current version whenever it changes (edit, restore or sync)
+   */
+  useEffect(() => {
+    if (!reflection || !isReady) return
+
+    let cancelled = false
+
+    async function decryptReflection() {
+      if (!reflection) return
+
+      try {
+        setIsDecrypting(true)
+        setDecryptError(null)
+
+        const decryptedText = await readText(reflection)
+        const decryptedMetadata = await readMetadata(reflection)
+        const decryptedPhotos: NewReflectionPhoto[] = []
+        for (const photo of getOrderedPhotos(reflection)) {
+          decryptedPhotos.push({
+            blob: await readPhoto(reflection, photo),
+            caption: await readCaption(photo),
+          })
+        }
+
+        if (cancelled) return
+
+        setText(decryptedText)
+        setMetadata(decryptedMetadata)
+        setPhotos(decryptedPhotos)
+      } catch (err) {
+        console.error('Error decrypting reflection:', err)
+        if (!cancelled) {
+          setDecryptError('Unable to decrypt this reflection on this device.')
+        }
+      } finally {
+        if (!cancelled) {
+          setIsDecrypting(false)
+        }
+      }
+    }
+
+    decryptReflection()
+
+    return () => {
+      cancelled = true
+    }
+  }, [reflection, isReady, readText, readMetadata, readPhoto, readCaption])
+
+  /**
+   * Show the decrypted photos, releasing the previous object URLs
+   */
+  useEffect(() => {
+    const objectUrls = photos.map((photo) => URL.createObjectURL(photo.blob))
+    setPhotoUrls(objectUrls)
+
+    return () => {
+      for (const url of objectUrls) {
+        URL.revokeObjectURL(url)
+      }
+    }
+  }, [photos])
+
+  const handleStartEditing = () => {
+    setDraftText(text ?? '')
+    setDraftPhotos(photos)
+    setDraftMetadata(metadata)
+    setPromptId(reflection?.prompt?.id ?? null)
+    setSaveError(null)
+    setNotice(null)
+    setIsEditing(true)
+  }
+
+  /**
+   * Save the edit; the previous version goes into the edit history
+   */
+  const handleSave = async () => {
+    if (!draftText.trim()) {
+      setSaveError('Please write something before saving')
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      setSaveError(null)
+
+      // Every edit re-seals the photos too, so the whole reflection stays on one key
+      await saveEdit({ text: draftText, photos: draftPhotos, promptId, metadata: draftMetadata })
+
+      setIsEditing(false)
+      setNotice('Changes saved. The previous version is in the edit history.')
+    } catch (err) {
+      console.error('Error saving reflection:', err)
+      setSaveError(
+        err instanceof Error ? err.message : 'Failed to save changes. Please try again.'
+      )
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRestore: typeof restoreRevision = async (revision) => {
+    await restoreRevision(revision)
+    setNotice('Earlier version restored. The version it replaced is in the edit history.')
+  }
+
+  const handleDelete = async () => {
+    await deleteReflection()
+    navigate({ to: '/' })
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Card className="w-full max-w-md text-center p-8">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4 text-primary" />
+          <p className="text-muted-foreground">Loading...</p>
+        </Card>
+      </div>
+    )
+  }
+
+  if (error || !reflection) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <Card className="w-full max-w-md text-center p-8 space-y-4">
+          <p className="text-muted-foreground">
+            {error ? 'Failed to load this reflection.' : 'This reflection no longer exists.'}
+          </p>
+          <Button variant="outline" onClick={() => navigate({ to: '/' })}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Reflections
+          </Button>
+        </Card>
+      </div>
+    )
+  }
+
+  // Photos of a reflection saved offline are still in the outbox
+  const isUploading = reflection.syncStatus === 'pending' || reflection.syncStatus === 'failed'
+  const canEdit = isReady && text !== null && !isDecrypting && !decryptError && !isUploading
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <Button variant="ghost" size="sm" onClick={() => navigate({ to: '/' })}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+          <h1 className="text-lg font-semibold">Reflection</h1>
+          <DeleteReflectionDialog
+            revisionCount={revisions.length}
+            onDelete={handleDelete}
+            disabled={isSaving}
+          />
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8 max-w-3xl">
+        <div className="space-y-6">
+          {isUploading && (
+            <Alert>
+              <CloudOff className="h-4 w-4" />
+              <AlertDescription>
+                {reflection.syncStatus === 'failed'
+                  ? "This reflection's photos couldn't be uploaded. Retry from the dashboard to " +
+                    'finish saving it.'
+                  : "This reflection's photos are still uploading. You can edit it once " +
+                    "they're saved."}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {notice && (
+            <Alert className="bg-primary/10 border-primary">
+              <CheckCircle2 className="h-4 w-4 text-primary" />
+              <AlertDescription className="text-primary">{notice}</AlertDescription>
+            </Alert>
+          )}
+
+          {saveError && (
+            <Alert variant="destructive">
+              <AlertDescription>{saveError}</AlertDescription>
+            </Alert>
+          )}
+
+          {isEditing ? (
+            <>
+              {/* Prompt */}
+              <Card>
+                <CardContent className="pt-6">
+                  <PromptPicker
+                    value={promptId}
+                    onChange={setPromptId}
+                    currentPrompt={reflection.prompt}
+                    disabled={isSaving}
+                  />
+                </CardContent>
+              </Card>
+
+              {/* Photos */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Photos</CardTitle>
+                  <CardDescription>
+                    Add, remove, caption or reorder photos. The first one is the cover.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <MultiPhotoUpload
+                    initialPhotos={photos}
+                    onPhotosChanged={setDraftPhotos}
+                    disabled={isSaving}
+                  />
+                </CardContent>
+              </Card>
+
+              {/* Text */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Your Reflection</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ReflectionTextInput initialText={draftText} onTextChanged={setDraftText} />
+                </CardContent>
+              </Card>
+
+              {/* Mood, Tags and Children */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Details</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ReflectionMetadataInput
+                    value={draftMetadata}
+                    onChange={setDraftMetadata}
+                    disabled={isSaving}
+                  />
+                </CardContent>
+              </Card>
+
+              <div className="flex gap-3">
+                <Button
+                  variant="outline"
+                  className="flex-1"
+                  onClick={() => setIsEditing(false)}
+                  disabled={isSaving}
+                >
+                  Cancel
+                </Button>
+                <Button className="flex-1" onClick={handleSave} disabled={isSaving}>
+                  {isSaving ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Encrypting & Saving...
+                    </>
+                  ) : (
+                    <>
+                      <Save className="mr-2 h-4 w-4" />
+                      Save Changes
+                    </>
+                  )}
+                </Button>
+              </div>
+            </>
+          ) : (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Calendar className="h-4 w-4 text-muted-foreground" />
+                    <CardTitle className="text-base font-medium">
+                      {new Date(reflection.createdAt).toLocaleDateString('en-US', {
+                        weekday: 'short',
+                        month: 'short',
+                        day: 'numeric',
+                        year: 'numeric',
+                      })}
+                    </CardTitle>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleStartEditing}
+                    disabled={!canEdit}
+                  >
+                    <Pencil className="h-4 w-4 mr-2" />
+                    Edit
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {reflection.prompt && (
+                  <div className="flex items-start gap-2 p-3 bg-primary/5 rounded-lg border border-primary/10">
+                    <Sparkles className="h-4 w-4 text-primary mt-0.5 shrink-0" />
+                    <p className="text-sm text-muted-foreground italic">
+                      {reflection.prompt.promptText}
+                    </p>
+                  </div>
+                )}
+
+                {isDecrypting && (
+                  <div className="flex items-center justify-center gap-2 p-6 text-sm text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Decrypting...
+                  </div>
+                )}
+
+                {decryptError && (
+                  <div className="flex items-center gap-2 p-3 bg-destructive/10 text-destructive rounded-lg text-sm">
+                    <Lock className="h-4 w-4 shrink-0" />
+                    {decryptError}
+                  </div>
+                )}
+
+                {photoUrls.length > 0 && (
+                  <PhotoCarousel
+                    photos={photoUrls.map((url, i) => ({ url, caption: photos[i]?.caption }))}
+                    className="max-h-[32rem]"
+                  />
+                )}
+
+                {text !== null && (
+                  <p className="text-foreground whitespace-pre-wrap">{text}</p>
+                )}
+
+                <ReflectionMetadataSummary metadata={metadata} />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Edit History */}
+          <RevisionHistory
+            revisions={revisions}
+            readText={readText}
+            onRestore={handleRestore}
+            disabled={!isReady || isEditing || isSaving}
+          />
+        </div>
+      </main>
+    </div>
+  )
+}
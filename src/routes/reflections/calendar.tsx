@@ -0,0 +1,258 @@
+import { createFileRoute, Link, useNavigate } from '@tanstack/react-router'
+import { useState } from 'react'
+import { ProtectedRoute } from '@/components/auth/ProtectedRoute'
+import { EncryptionGate } from '@/components/encryption'
+import { useAuth } from '@/lib/auth/AuthProvider'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { ArrowLeft, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react'
+import { ReflectionCalendar, type CalendarReflection } from '@/components/reflections'
+import { useQuery } from '@/lib/db'
+import {
+  useTimeZone,
+  getDateKey,
+  getMonthKey,
+  getMonthRange,
+  isMonthKey,
+  shiftMonthKey,
+} from '@/lib/dates'
+
+interface CalendarSearch {
+  month?: string // 'YYYY-MM' (the current month when absent)
+}
+
+export const Route = createFileRoute('/reflections/calendar')({
+  validateSearch: (search: Record<string, unknown>): CalendarSearch => ({
+    month: isMonthKey(search.month) ? search.month : undefined,
+  }),
+  component: ReflectionCalendarPage,
+})
+
+function ReflectionCalendarPage() {
+  return (
+    <ProtectedRoute>
+      <EncryptionGate>
+        <ReflectionCalendarContent />
+      </EncryptionGate>
+    </ProtectedRoute>
+  )
+}
+
+function ReflectionCalendarContent() {
+  const navigate = useNavigate()
+  const { user } = useAuth()
+  const search = Route.useSearch()
+  const [selected, setSelected] = useState<{
+    dateKey: string
+    reflections: CalendarReflection[]
+  } | null>(null)
+
+  // Get user profile
+  const { data: profileData } = useQuery(
+    user?.email
+      ? {
+          userProfiles: {
+            $: {
+              where: {
+                email: user.email,
+              },
+            },
+          },
+        }
+      : null
+  )
+
+  const userProfile = profileData?.userProfiles?.[0]
+  const { timeZone } = useTimeZone(userProfile?.id)
+
+  const now = Date.now()
+  const today = getDateKey(now, timeZone)
+  const monthKey = search.month ?? getMonthKey(now, timeZone)
+  const range = getMonthRange(monthKey, timeZone)
+
+  // Only the visible month (createdAt is indexed), plus the first reflection ever
+  const { data, isLoading } = useQuery(
+    userProfile
+      ? {
+          reflections: {
+            $: {
+              where: {
+                'user.id': userProfile.id,
+                createdAt: { $gte: range.start, $lt: range.end },
+              },
+            },
+            thumbnail: {},
+            photos: {
+              thumbnail: {},
+            },
+            prompt: {},
+          },
+        }
+      : null
+  )
+  const { data: firstData } = useQuery(
+    userProfile
+      ? {
+          reflections: {
+            $: {
+              where: {
+                'user.id': userProfile.id,
+              },
+              order: {
+                createdAt: 'asc' as const,
+              },
+              limit: 1,
+            },
+          },
+        }
+      : null
+  )
+
+  const firstReflection = firstData?.reflections?.[0]
+  const firstDay = firstReflection ? getDateKey(firstReflection.createdAt, timeZone) : null
+
+  const monthLabel = new Date(`${monthKey}-01T12:00:00Z`).toLocaleDateString('en-US', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  })
+
+  /**
+   * Show another month
+   *
+   * @param month - 'YYYY-MM'
+   */
+  const goToMonth = (month: string) => {
+    setSelected(null)
+    navigate({ to: '/reflections/calendar', search: { month } })
+  }
+
+  /**
+   * Open the day's reflection, or list them when there are several
+   */
+  const handleSelectDay = (dateKey: string, reflections: CalendarReflection[]) => {
+    if (reflections.length === 1) {
+      navigate({ to: '/reflections/$reflectionId', params: { reflectionId: reflections[0].id } })
+    } else if (reflections.length > 1) {
+      setSelected({ dateKey, reflections })
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <Button variant="ghost" size="sm" onClick={() => navigate({ to: '/' })}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+          <h1 className="text-lg font-semibold">Calendar</h1>
+          <div className="w-20" /> {/* Spacer for center alignment */}
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto space-y-6">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => goToMonth(shiftMonthKey(monthKey, -1))}
+                  aria-label="Previous month"
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <CardTitle className="text-lg">{monthLabel}</CardTitle>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => goToMonth(shiftMonthKey(monthKey, 1))}
+                  aria-label="Next month"
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="flex items-center justify-center gap-2 pt-2">
+                <Input
+                  type="month"
+                  value={monthKey}
+                  onChange={(e) => isMonthKey(e.target.value) && goToMonth(e.target.value)}
+                  className="w-44"
+                  aria-label="Jump to month"
+                />
+                {monthKey !== getMonthKey(now, timeZone) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => goToMonth(getMonthKey(now, timeZone))}
+                  >
+                    Today
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {isLoading || !userProfile ? (
+                <div className="flex items-center justify-center p-8">
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : (
+                <ReflectionCalendar
+                  monthKey={monthKey}
+                  reflections={data?.reflections ?? []}
+                  timeZone={timeZone}
+                  today={today}
+                  firstDay={firstDay}
+                  selectedDay={selected?.dateKey}
+                  onSelectDay={handleSelectDay}
+                />
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Several reflections on the selected day */}
+          {selected && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">
+                  {new Date(`${selected.dateKey}T12:00:00Z`).toLocaleDateString('en-US', {
+                    weekday: 'long',
+                    month: 'long',
+                    day: 'numeric',
+                    timeZone: 'UTC',
+                  })}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {selected.reflections.map((reflection) => (
+                  <Link
+                    key={reflection.id}
+                    to="/reflections/$reflectionId"
+                    params={{ reflectionId: reflection.id }}
+                    className="block rounded-md border p-3 text-sm hover:bg-accent"
+                  >
+                    {new Date(reflection.createdAt).toLocaleTimeString('en-US', {
+                      hour: 'numeric',
+                      minute: '2-digit',
+                      timeZone,
+                    })}
+                    {reflection.prompt && (
+                      <span className="ml-2 text-muted-foreground italic">
+                        {reflection.prompt.promptText}
+                      </span>
+                    )}
+                  </Link>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -1,15 +1,25 @@
 import { createFileRoute, useNavigate } from '@tanstack/react-router'
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect } from 'react'
 import { ProtectedRoute } from '@/components/auth/ProtectedRoute'
 import { useAuth } from '@/lib/auth/AuthProvider'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { ArrowLeft, Save, Loader2, CheckCircle2 } from 'lucide-react'
-import { PhotoUpload } from '@/components/reflections/PhotoUpload'
+import { ArrowLeft, Save, Loader2, CheckCircle2, FileText } from 'lucide-react'
+import { MultiPhotoUpload } from '@/components/reflections/MultiPhotoUpload'
 import { ReflectionTextInput } from '@/components/reflections/ReflectionTextInput'
 import { DailyPrompt } from '@/components/reflections/DailyPrompt'
-import { db, tx } from '@/lib/db'
+import { DraftStatus } from '@/components/reflections/DraftStatus'
+import { ReflectionMetadataInput } from '@/components/reflections/ReflectionMetadataInput'
+import { EncryptionGate } from '@/components/encryption'
+import { useEncryption } from '@/lib/encryption'
+import {
+  EMPTY_METADATA,
+  type NewReflectionPhoto,
+  type ReflectionMetadata,
+} from '@/lib/reflections'
+import { useReflectionDraft } from '@/lib/drafts'
+import { useOutbox } from '@/lib/outbox'
 import { id } from '@instantdb/react'
 import { useQuery } from '@/lib/db'
 
@@ -20,7 +30,9 @@ export const Route = createFileRoute('/reflections/new')({
 function NewReflectionPage() {
   return (
     <ProtectedRoute requirePayment>
-      <NewReflectionContent />
+      <EncryptionGate>
+        <NewReflectionContent />
+      </EncryptionGate>
     </ProtectedRoute>
   )
 }
@@ -28,11 +40,15 @@ function NewReflectionPage() {
 function NewReflectionContent() {
   const navigate = useNavigate()
   const { user } = useAuth()
-  const [photoData, setPhotoData] = useState<{
-    blob: Blob
-    file: File
-  } | null>(null)
+  const {
+    isReady: isEncryptionReady,
+    isLoading: isLoadingEncryption,
+    error: encryptionError,
+  } = useEncryption()
+  const { enqueueReflection } = useOutbox()
+  const [photos, setPhotos] = useState<NewReflectionPhoto[]>([])
   const [reflectionText, setReflectionText] = useState('')
+  const [metadata, setMetadata] = useState<ReflectionMetadata>(EMPTY_METADATA)
   const [selectedPrompt, setSelectedPrompt] = useState<{
     id: string | null
     text: string
@@ -40,6 +56,8 @@ function NewReflectionContent() {
   const [isSaving, setIsSaving] = useState(false)
   const [saveError, setSaveError] = useState<string | null>(null)
   const [saveSuccess, setSaveSuccess] = useState(false)
+  const [savedOffline, setSavedOffline] = useState(false)
+  const [formKey, setFormKey] = useState(0) // Bumped to clear the inputs when a draft is discarded
 
   // Get user profile
   const { data: profileData, isLoading: isLoadingProfile, error: profileError } = useQuery(
@@ -58,30 +76,58 @@ function NewReflectionContent() {
 
   const userProfile = profileData?.userProfiles?.[0]
 
+  // Autosaved draft (restored when the page reopens)
+  const draft = useReflectionDraft(userProfile?.id)
+  const { restoredDraft, saveDraft, discardDraft } = draft
+
+  useEffect(() => {
+    if (restoredDraft) {
+      setReflectionText(restoredDraft.text)
+      setPhotos(restoredDraft.photos)
+      setMetadata(restoredDraft.metadata)
+    }
+  }, [restoredDraft])
+
   /**
-   * Handle photo selection
+   * Handle photo selection, removal, captions and reordering
    */
-  const handlePhotoSelected = (data: {
-    blob: Blob
-    file: File
-  }) => {
-    setPhotoData(data)
+  const handlePhotosChanged = (selected: NewReflectionPhoto[]) => {
+    setPhotos(selected)
     setSaveError(null)
+    saveDraft({ text: reflectionText, photos: selected, metadata })
   }
 
   /**
-   * Handle photo removal
+   * Handle text change
    */
-  const handlePhotoRemoved = () => {
-    setPhotoData(null)
+  const handleTextChanged = (text: string) => {
+    setReflectionText(text)
+    setSaveError(null)
+    saveDraft({ text, photos, metadata })
   }
 
   /**
-   * Handle text change
+   * Handle mood, tags and children changes
    */
-  const handleTextChanged = (text: string) => {
-    setReflectionText(text)
+  const handleMetadataChanged = (next: ReflectionMetadata) => {
+    setMetadata(next)
     setSaveError(null)
+    saveDraft({ text: reflectionText, photos, metadata: next })
+  }
+
+  /**
+   * Discard the draft and start over
+   */
+  const handleDiscardDraft = async () => {
+    setReflectionText('')
+    setPhotos([])
+    setMetadata(EMPTY_METADATA)
+    setFormKey((key) => key + 1)
+    try {
+      await discardDraft()
+    } catch (err) {
+      console.error('Error discarding draft:', err)
+    }
   }
 
   /**
@@ -96,8 +142,8 @@ function NewReflectionContent() {
    * Save reflection to database
    */
   const handleSaveReflection = async () => {
-    if (!photoData || !reflectionText) {
-      setSaveError('Please add both a photo and reflection text')
+    if (photos.length === 0 || !reflectionText) {
+      setSaveError('Please add at least one photo and your reflection text')
       return
     }
 
@@ -106,48 +152,43 @@ function NewReflectionContent() {
       return
     }
 
+    if (!isEncryptionReady) {
+      setSaveError('Encryption is not ready yet. Please wait a moment and try again.')
+      return
+    }
+
     try {
       setIsSaving(true)
       setSaveError(null)
 
-      // Upload photo to InstantDB storage
-      console.log('Uploading photo...', photoData.file)
-
-      // Upload file to InstantDB
-      const { data: fileData } = await db.storage.uploadFile(
-        `reflections/${user?.id}/${Date.now()}.jpg`,
-        photoData.file
-      )
-
-      console.log('Photo uploaded:', fileData)
-
-      // Create reflection record
-      const reflectionId = id()
-      console.log('Reflection ID:', reflectionId)
-      const transaction = db.tx.reflections[reflectionId]
-        .create({
-          reflectionText: reflectionText,
-          syncStatus: 'synced',
-          createdAt: Date.now(),
-        })
-        .link({ user: userProfile.id })
-        .link({ photo: fileData.id })
-
-      console.log('Linked to user:', userProfile.id)
-      console.log('Linked to photo:', fileData.id)
-      console.log('Transaction:', transaction)
-
-      // Link to prompt if available
-      if (selectedPrompt?.id) {
-        transaction.link({ prompt: selectedPrompt.id })
-      }
-
-      const res = await db.transact([transaction])
-      console.log('Transaction result:', res)
+      // Encrypt photos, captions and text on this device before anything is uploaded
+      // Envelopes are bound to this reflection id so they can't be swapped onto another
+      // (the draft's id, so the reflection replaces the draft on every device)
+      const reflectionId = draft.draftId ?? id()
+
+      // Queued in the outbox: the reflection is saved right away (even offline) and
+      // marked pending until its photos finish uploading
+      console.log(`Queueing reflection ${reflectionId} with ${photos.length} encrypted photo(s)...`)
+      await enqueueReflection({
+        reflectionId,
+        userProfileId: userProfile.id,
+        text: reflectionText,
+        photos,
+        promptId: selectedPrompt?.id ?? null,
+        metadata,
+      })
 
       console.log('Reflection saved successfully!')
+      setSavedOffline(!navigator.onLine)
       setSaveSuccess(true)
 
+      // The draft is no longer needed here or on other devices
+      try {
+        await discardDraft()
+      } catch (err) {
+        console.error('Error discarding draft:', err)
+      }
+
       // Redirect to dashboard after success
       setTimeout(() => {
         navigate({ to: '/' })
@@ -162,7 +203,13 @@ function NewReflectionContent() {
     }
   }
 
-  const canSave = photoData && reflectionText && !isSaving && !isLoadingProfile
+  const canSave =
+    photos.length > 0 &&
+    reflectionText &&
+    isEncryptionReady &&
+    !isSaving &&
+    !isLoadingProfile &&
+    !draft.isRestoring
 
   // Show loading state while profile loads
   if (isLoadingProfile) {
@@ -211,7 +258,19 @@ function NewReflectionContent() {
             <Alert className="bg-primary/10 border-primary">
               <CheckCircle2 className="h-4 w-4 text-primary" />
               <AlertDescription className="text-primary">
-                Reflection saved successfully! Redirecting to dashboard...
+                {savedOffline
+                  ? "Reflection saved on this device. It'll upload when you're back online. " +
+                    'Redirecting to dashboard...'
+                  : 'Reflection saved successfully! Redirecting to dashboard...'}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Encryption Error */}
+          {encryptionError && (
+            <Alert variant="destructive">
+              <AlertDescription>
+                {encryptionError}. Your reflection can't be saved securely right now.
               </AlertDescription>
             </Alert>
           )}
@@ -224,44 +283,111 @@ function NewReflectionContent() {
           )}
 
           {/* Daily Prompt */}
-          <DailyPrompt onPromptSelected={handlePromptSelected} />
-
-          {/* Photo Upload */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Add a Photo</CardTitle>
-              <CardDescription>
-                Capture or upload a photo to remember this moment
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <PhotoUpload
-                onPhotoSelected={handlePhotoSelected}
-                onPhotoRemoved={handlePhotoRemoved}
-              />
-            </CardContent>
-          </Card>
-
-          {/* Reflection Text */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Write Your Reflection</CardTitle>
-              <CardDescription>
-                Share your thoughts, feelings, or what made today special
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <ReflectionTextInput onTextChanged={handleTextChanged} />
-            </CardContent>
-          </Card>
+          <DailyPrompt userProfileId={userProfile?.id} onPromptSelected={handlePromptSelected} />
+
+          {draft.isRestoring ? (
+            <Card>
+              <CardContent className="flex items-center justify-center gap-2 p-8 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Checking for a saved draft...
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              {/* Restored Draft */}
+              {restoredDraft && draft.restoredAt && (
+                <Alert>
+                  <FileText className="h-4 w-4" />
+                  <AlertDescription>
+                    Picked up where you left off (draft from{' '}
+                    {new Date(draft.restoredAt).toLocaleString('en-US', {
+                      month: 'short',
+                      day: 'numeric',
+                      hour: 'numeric',
+                      minute: '2-digit',
+                    })}
+                    ).
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {/* Photo Upload */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Add Photos</CardTitle>
+                  <CardDescription>
+                    Capture or upload photos to remember this moment
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <MultiPhotoUpload
+                    key={formKey}
+                    initialPhotos={restoredDraft?.photos}
+                    onPhotosChanged={handlePhotosChanged}
+                    disabled={isSaving}
+                  />
+                </CardContent>
+              </Card>
+
+              {/* Reflection Text */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Write Your Reflection</CardTitle>
+                  <CardDescription>
+                    Share your thoughts, feelings, or what made today special
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ReflectionTextInput
+                    key={formKey}
+                    initialText={restoredDraft?.text}
+                    onTextChanged={handleTextChanged}
+                  />
+                </CardContent>
+              </Card>
+
+              {/* Mood, Tags and Children */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Details</CardTitle>
+                  <CardDescription>
+                    Optional: how you felt, tags and who it was about (encrypted too)
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ReflectionMetadataInput
+                    value={metadata}
+                    onChange={handleMetadataChanged}
+                    disabled={isSaving}
+                  />
+                </CardContent>
+              </Card>
+            </>
+          )}
 
           {/* Save Button */}
           <Card className="bg-muted/50">
             <CardContent className="p-4">
               <div className="flex flex-col gap-3">
+                <DraftStatus
+                  lastSavedAt={draft.lastSavedAt}
+                  isSyncEnabled={draft.isSyncEnabled}
+                  isSyncing={draft.isSyncing}
+                  onSyncChange={draft.setSyncEnabled}
+                  onDiscard={handleDiscardDraft}
+                  disabled={isSaving || draft.isRestoring}
+                />
+                {draft.error && (
+                  <p className="text-sm text-destructive">{draft.error}</p>
+                )}
                 <div className="flex items-center justify-between text-sm text-muted-foreground">
                   <span>
-                    {photoData ? '✓' : '○'} Photo added
+                    {photos.length > 0 ? '✓' : '○'}{' '}
+                    {photos.length === 0
+                      ? 'No photo yet'
+                      : photos.length > 1
+                        ? `${photos.length} photos added`
+                        : 'Photo added'}
                   </span>
                   <span>
                     {reflectionText ? '✓' : '○'} Reflection written
@@ -276,7 +402,12 @@ function NewReflectionContent() {
                   {isSaving ? (
                     <>
                       <Loader2 className="mr-2 h-5 w-5 animate-spin" />
-                      Saving...
+                      Encrypting & Saving...
+                    </>
+                  ) : isLoadingEncryption ? (
+                    <>
+                      <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                      Preparing encryption...
                     </>
                   ) : (
                     <>
@@ -292,7 +423,8 @@ function NewReflectionContent() {
           {/* Privacy Notice */}
           <div className="text-center text-sm text-muted-foreground">
             <p>
-              Your reflections are saved securely.
+              Your photos, captions, reflection and details are encrypted on this device before
+              they're saved.
             </p>
           </div>
         </div>
@@ -0,0 +1,81 @@
+import { createFileRoute, useNavigate } from '@tanstack/react-router'
+import { ProtectedRoute } from '@/components/auth/ProtectedRoute'
+import { useAuth } from '@/lib/auth/AuthProvider'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { ArrowLeft, Loader2 } from 'lucide-react'
+import {
+  MemorySettingsCard,
+  ReminderSettingsCard,
+  StreakSettingsCard,
+  TimeZoneSettingsCard,
+} from '@/components/settings'
+import { useQuery } from '@/lib/db'
+
+export const Route = createFileRoute('/settings/notifications')({
+  component: NotificationSettingsPage,
+})
+
+function NotificationSettingsPage() {
+  return (
+    <ProtectedRoute>
+      <NotificationSettingsContent />
+    </ProtectedRoute>
+  )
+}
+
+function NotificationSettingsContent() {
+  const navigate = useNavigate()
+  const { user } = useAuth()
+
+  // Get user profile
+  const { data: profileData, isLoading } = useQuery(
+    user?.email
+      ? {
+          userProfiles: {
+            $: {
+              where: {
+                email: user.email,
+              },
+            },
+          },
+        }
+      : null
+  )
+
+  const userProfile = profileData?.userProfiles?.[0]
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <Button variant="ghost" size="sm" onClick={() => navigate({ to: '/' })}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+          <h1 className="text-lg font-semibold">Reminders & Streaks</h1>
+          <div className="w-20" /> {/* Spacer for center alignment */}
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto space-y-6">
+          {isLoading || !userProfile ? (
+            <Card className="p-8 flex items-center justify-center">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </Card>
+          ) : (
+            <>
+              <ReminderSettingsCard userProfileId={userProfile.id} />
+              <StreakSettingsCard userProfileId={userProfile.id} />
+              <MemorySettingsCard userProfileId={userProfile.id} />
+              <TimeZoneSettingsCard userProfileId={userProfile.id} />
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+import { createFileRoute, useNavigate } from '@tanstack/react-router'
+import { ProtectedRoute } from '@/components/auth/ProtectedRoute'
+import { Button } from '@/components/ui/button'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { ArrowLeft, ShieldAlert } from 'lucide-react'
+import {
+  EncryptionGate,
+  KeyEscrowSetup,
+  KeyDetailsCard,
+  KeyBackupCard,
+  KeyRotationCard,
+  DevicePairingCard,
+  DeleteKeyCard,
+} from '@/components/encryption'
+import { useEncryption, useKeyManagement, type KeyBackupFile } from '@/lib/encryption'
+
+export const Route = createFileRoute('/settings/security')({
+  component: SecuritySettingsPage,
+})
+
+function SecuritySettingsPage() {
+  return (
+    <ProtectedRoute>
+      <EncryptionGate allowKeyMismatch>
+        <SecuritySettingsContent />
+      </EncryptionGate>
+    </ProtectedRoute>
+  )
+}
+
+function SecuritySettingsContent() {
+  const navigate = useNavigate()
+  const { hasEscrow, keyMismatch, refreshKey } = useEncryption()
+  const { metadata, archivedKeys, isLoading, createBackup, readBackup, restoreBackup, removeKey } =
+    useKeyManagement()
+
+  const handleRestore = async (backup: KeyBackupFile, passphrase: string) => {
+    await restoreBackup(backup, passphrase)
+    // Re-verify this page's key so a resolved mismatch clears
+    await refreshKey()
+  }
+
+  const handleDelete = async () => {
+    await removeKey()
+    // Reload so nothing keeps the deleted key in memory
+    window.location.assign('/')
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <Button variant="ghost" size="sm" onClick={() => navigate({ to: '/' })}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+          <h1 className="text-lg font-semibold">Security</h1>
+          <div className="w-20" /> {/* Spacer for center alignment */}
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto space-y-6">
+          {keyMismatch && (
+            <Alert variant="destructive">
+              <ShieldAlert className="h-4 w-4" />
+              <AlertDescription>
+                The key on this device isn't your account's key. Restore your keys from a backup
+                file below, or link this device from one that can read your reflections.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <KeyDetailsCard metadata={metadata} archivedKeys={archivedKeys} isLoading={isLoading} />
+
+          {/* Escrowing, sharing or rotating a mismatched key would spread it */}
+          {!keyMismatch && <KeyEscrowSetup />}
+
+          <KeyBackupCard
+            createBackup={createBackup}
+            readBackup={readBackup}
+            restoreBackup={handleRestore}
+          />
+
+          {!keyMismatch && <DevicePairingCard />}
+
+          {!keyMismatch && <KeyRotationCard />}
+
+          <DeleteKeyCard hasKey={!!metadata} hasEscrow={hasEscrow} onDelete={handleDelete} />
+        </div>
+      </main>
+    </div>
+  )
+}